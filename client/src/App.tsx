@@ -2,23 +2,21 @@
 import { Switch, Route } from "wouter";
 import NotFound from "@/pages/not-found";
 import IDELayout from "./components/layout/IDELayout";
-import Editor from "./components/editor/Editor";
+import CodeEditor from "./components/editor/CodeEditor";
 import Terminal from "./components/terminal/Terminal";
 import EntryPage from "./pages/EntryPage";
 import PromptSystemDemo from "./pages/PromptSystemDemo";
 import PromptSystemStandalone from "./pages/PromptSystemStandalone";
 import PromptSystemIntro from "./components/prompt/PromptSystemIntro";
+import AuthPage from "./pages/AuthPage";
+import { ProtectedRoute } from "./lib/protected-route";
 
 // HomePage component with IDE layout
 const HomePage = () => {
   return (
     <IDELayout>
-      {/* Main editor area */}
-      <Editor 
-        initialContent="// Welcome to MAIK IDE\n// Start coding here...\n\nconst greeting = 'Hello, world!';\nconsole.log(greeting);" 
-        language="typescript"
-        fileName="main.ts"
-      />
+      {/* Main editor area, editing the files of the open project */}
+      <CodeEditor />
       
       {/* Terminal at the bottom */}
       <Terminal initialOpen={false} />
@@ -30,8 +28,11 @@ const HomePage = () => {
 function App() {
   return (
     <Switch>
-      <Route path="/">
+      <ProtectedRoute path="/">
         <HomePage />
+      </ProtectedRoute>
+      <Route path="/auth">
+        <AuthPage />
       </Route>
       <Route path="/entry">
         <EntryPage />
@@ -1,11 +1,21 @@
 import { useState, useRef, useEffect } from 'react';
 import { useAI } from '../../hooks/useAI';
 import { AIMessage, AIAgent } from '../../types';
+import type { IPromptContextBreakdown } from '@shared/api-types';
+
+// Explain what the server left out of the prompt to fit the model
+const describeTrimmedContext = (context: IPromptContextBreakdown) => {
+  const parts = [];
+  if (context.history.dropped > 0) parts.push(`${context.history.dropped} earlier messages`);
+  if (context.memories.dropped > 0) parts.push(`${context.memories.dropped} related memories`);
+  if (context.summary.dropped > 0) parts.push('the conversation summary');
+  return `Left out ${parts.join(', ')} to fit ${context.maxTokens} tokens`;
+};
 
 const AIAssistant = () => {
   const [query, setQuery] = useState('');
   const [agent, setAgent] = useState<AIAgent>('Coder');
-  const { messages, isProcessing, sendQuery } = useAI();
+  const { messages, isProcessing, sendQuery, stopGeneration } = useAI();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
   // Scroll to bottom when messages change
@@ -98,7 +108,8 @@ const AIAssistant = () => {
                 <p className="text-sm">Ask the AI Assistant for help with coding, debugging, or accessibility.</p>
               </div>
             ) : (
-              messages.map((message: AIMessage) => (
+              // Skip the streaming reply until its first delta arrives
+              messages.filter((message: AIMessage) => message.role === 'user' || message.content).map((message: AIMessage) => (
                 <div 
                   key={message.id}
                   className={`flex items-start ${
@@ -120,6 +131,14 @@ const AIAssistant = () => {
                         <span className="text-xs text-neutral-500 dark:text-neutral-400">
                           Using {message.model || 'GPT-4'}
                         </span>
+                        {message.context?.truncated && (
+                          <span
+                            className="text-xs text-amber-600 dark:text-amber-400 ml-2"
+                            title={describeTrimmedContext(message.context)}
+                          >
+                            Context trimmed
+                          </span>
+                        )}
                       </div>
                     )}
                     <div 
@@ -133,7 +152,7 @@ const AIAssistant = () => {
               ))
             )}
             
-            {isProcessing && (
+            {isProcessing && !messages[messages.length - 1]?.content && (
               <div className="flex items-start justify-end">
                 <div className="bg-primary-100 dark:bg-primary-900 dark:bg-opacity-30 rounded-lg p-3">
                   <div className="flex items-center space-x-1">
@@ -165,15 +184,24 @@ const AIAssistant = () => {
                 }
               }}
             />
-            <button 
-              type="submit" 
-              className={`bg-primary-500 hover:bg-primary-600 text-white px-4 py-2 h-10 rounded-r transition-colors ${
-                isProcessing ? 'opacity-50 cursor-not-allowed' : ''
-              }`}
-              disabled={isProcessing}
-            >
-              <i className="ri-send-plane-fill"></i>
-            </button>
+            {isProcessing ? (
+              <button 
+                type="button" 
+                className="bg-primary-500 hover:bg-primary-600 text-white px-4 py-2 h-10 rounded-r transition-colors"
+                onClick={stopGeneration}
+                aria-label="Stop generating"
+                title="Stop generating"
+              >
+                <i className="ri-stop-fill"></i>
+              </button>
+            ) : (
+              <button 
+                type="submit" 
+                className="bg-primary-500 hover:bg-primary-600 text-white px-4 py-2 h-10 rounded-r transition-colors"
+              >
+                <i className="ri-send-plane-fill"></i>
+              </button>
+            )}
           </form>
           <div className="mt-2 flex justify-between items-center text-xs text-neutral-500 dark:text-neutral-400">
             <div>
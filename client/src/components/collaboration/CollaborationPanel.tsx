@@ -2,85 +2,46 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Flex, Text, Badge } from 'theme-ui';
 import { useWebSocket } from '../../contexts/WebSocketContext';
-import { WebSocketMessageType } from '../../services/WebSocketService';
+import { useCollabPeers } from '../../hooks/useCollabPeers';
 
-interface User {
-  id: string;
-  color: string;
-  lastActivity: number;
-}
+// Peers edited within this long ago are shown as active
+const ACTIVE_WINDOW = 60 * 1000;
+
+const USER_COLORS = [
+  '#4361ee', // blue
+  '#3a86ff', // bright blue
+  '#ff006e', // pink
+  '#8338ec', // purple
+  '#fb5607', // orange
+  '#ff9f1c', // amber
+  '#2ec4b6', // teal
+  '#06d6a0', // green
+];
+
+// The same user always gets the same color
+const getUserColor = (id: string) => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return USER_COLORS[Math.abs(hash) % USER_COLORS.length];
+};
 
 interface CollaborationPanelProps {
   // Add props as needed
 }
 
+// Who else is editing the files open here, and when they last changed them
 const CollaborationPanel: React.FC<CollaborationPanelProps> = () => {
-  const { connected, messages } = useWebSocket();
-  const [users, setUsers] = useState<Record<string, User>>({});
-  
-  // Random user colors
-  const getRandomColor = () => {
-    const colors = [
-      '#4361ee', // blue
-      '#3a86ff', // bright blue
-      '#ff006e', // pink
-      '#8338ec', // purple
-      '#fb5607', // orange
-      '#ff9f1c', // amber
-      '#2ec4b6', // teal
-      '#06d6a0', // green
-    ];
-    
-    return colors[Math.floor(Math.random() * colors.length)];
-  };
+  const { connected } = useWebSocket();
+  const peers = useCollabPeers();
+  const [now, setNow] = useState(Date.now());
   
-  // Process incoming messages
+  // Let activity age out even when nothing else changes
   useEffect(() => {
-    if (messages.length === 0) return;
-    
-    // Get the most recent message
-    const message = messages[messages.length - 1];
-    
-    if (!message.userId) return;
-    
-    switch (message.type) {
-      case WebSocketMessageType.USER_JOINED:
-        setUsers(prev => ({
-          ...prev,
-          [message.userId!]: {
-            id: message.userId!,
-            color: getRandomColor(),
-            lastActivity: Date.now(),
-          }
-        }));
-        break;
-        
-      case WebSocketMessageType.USER_LEFT:
-        setUsers(prev => {
-          const newUsers = { ...prev };
-          delete newUsers[message.userId!];
-          return newUsers;
-        });
-        break;
-        
-      case WebSocketMessageType.CURSOR_POSITION:
-      case WebSocketMessageType.EDIT:
-      case WebSocketMessageType.FILE_CHANGE:
-        setUsers(prev => {
-          if (prev[message.userId!]) {
-            return {
-              ...prev,
-              [message.userId!]: {
-                ...prev[message.userId!],
-                lastActivity: Date.now(),
-              }
-            };
-          }
-          return prev;
-        });
-        break;
-    }
-  }, [messages]);
+    const timer = setInterval(() => setNow(Date.now()), 15 * 1000);
+    return () => clearInterval(timer);
+  }, []);
   
   return (
     <Box sx={{ p: 2 }}>
@@ -102,13 +63,14 @@ const CollaborationPanel: React.FC<CollaborationPanelProps> = () => {
       
       <Text sx={{ fontSize: 0, mb: 2 }}>Connected users:</Text>
       
-      {Object.values(users).length === 0 ? (
+      {peers.length === 0 ? (
         <Text sx={{ fontSize: 0, color: 'gray' }}>No other users connected</Text>
       ) : (
         <Box>
-          {Object.values(users).map(user => (
+          {peers.map(peer => (
             <Flex 
-              key={user.id} 
+              key={`${peer.id}:${peer.projectId}:${peer.path}`} 
+              title={peer.path}
               sx={{ 
                 alignItems: 'center', 
                 mb: 1,
@@ -126,13 +88,17 @@ const CollaborationPanel: React.FC<CollaborationPanelProps> = () => {
                   width: 8, 
                   height: 8, 
                   borderRadius: '50%', 
-                  bg: user.color,
+                  bg: getUserColor(peer.id),
                   mr: 2,
+                  flexShrink: 0,
                 }}
               />
-              <Text sx={{ fontSize: 0 }}>
-                {user.id.length > 10 ? `${user.id.substring(0, 10)}...` : user.id}
-              </Text>
+              <Box sx={{ minWidth: 0 }}>
+                <Text sx={{ fontSize: 0, display: 'block' }}>{peer.username}</Text>
+                <Text sx={{ fontSize: 0, color: 'gray', display: 'block' }}>
+                  {now - peer.lastActivity < ACTIVE_WINDOW ? 'Editing' : 'Viewing'} {peer.path.split('/').pop()}
+                </Text>
+              </Box>
             </Flex>
           ))}
         </Box>
@@ -1,8 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import EditorTabs from './EditorTabs';
+import MonacoEditor, { type MonacoEditorInstance } from './MonacoEditor';
 import OutputTabs from '../output/OutputTabs';
 import AIAssistant from '../ai/AIAssistant';
 import { useProject } from '../../contexts/ProjectContext';
+import { FormatService } from '../../services/FormatService';
+import { CollabService } from '../../services/CollabService';
+import { disposeModelsExcept, getLanguageForExtension, getModelUri, monaco, registerFormatter } from '../../lib/monaco';
+import { useToast } from '@/hooks/use-toast';
+
+// Editor languages formatted with Prettier
+const FORMATTED_LANGUAGES = ['typescript', 'javascript', 'json', 'css', 'scss', 'less', 'markdown'];
 
 enum OutputTab {
   Preview = 'Preview',
@@ -12,36 +20,117 @@ enum OutputTab {
 }
 
 const CodeEditor = () => {
-  const { projectState, saveFile } = useProject();
+  const { projectState, saveFile, setFileUnsaved } = useProject();
   const [currentContent, setCurrentContent] = useState('');
   const [activeTab, setActiveTab] = useState<OutputTab>(OutputTab.AIAssistant);
+  const [formatOnSave, setFormatOnSave] = useState(() => FormatService.isFormatOnSave());
+  const editorRef = useRef<MonacoEditorInstance | null>(null);
+  const filesRef = useRef(projectState.files);
+  filesRef.current = projectState.files;
+  const { toast } = useToast();
+  
+  const activeEntry = projectState.activeFile ? projectState.files[projectState.activeFile] : undefined;
+  const savedContent = activeEntry?.content || '';
   
-  // Update editor content when active file changes
+  // Update editor content when active file changes; the editor keeps
+  // unsaved edits of each open file, so read them back from it
   useEffect(() => {
-    if (projectState.activeFile && projectState.files[projectState.activeFile]) {
-      setCurrentContent(projectState.files[projectState.activeFile].content || '');
-    } else {
-      setCurrentContent('');
-    }
-  }, [projectState.activeFile, projectState.files]);
+    const editor = projectState.activeFile ? editorRef.current : null;
+    setCurrentContent(editor ? editor.getValue() : savedContent);
+  }, [projectState.activeFile, savedContent]);
+  
+  // Drop the editor models of files that have been closed
+  useEffect(() => {
+    const activeFile = projectState.activeFile;
+    disposeModelsExcept(activeFile ? [...projectState.openFiles, activeFile] : projectState.openFiles);
+  }, [projectState.openFiles, projectState.activeFile]);
+  
+  // Edit the active file together with everyone who has it open; edits from
+  // others reach the model directly and come back through onChange
+  useEffect(() => {
+    const { projectId, activeFile } = projectState;
+    if (!projectId || !activeFile) return;
+    
+    const model = monaco.editor.getModel(getModelUri(activeFile));
+    if (!model) return;
+    
+    return CollabService.share(projectId, activeFile, model);
+  }, [projectState.projectId, projectState.activeFile]);
   
   // Handle content change
   const handleContentChange = useCallback((value: string) => {
     setCurrentContent(value);
     
-    // Mark file as having unsaved changes
+    // Mark file as having unsaved changes until it matches what was saved
     if (projectState.activeFile) {
-      const updatedUnsavedChanges = new Set(projectState.unsavedChanges);
-      updatedUnsavedChanges.add(projectState.activeFile);
+      setFileUnsaved(projectState.activeFile, value !== savedContent);
     }
-  }, [projectState.activeFile, projectState.unsavedChanges]);
+  }, [projectState.activeFile, savedContent, setFileUnsaved]);
   
-  // Handle save
-  const handleSave = useCallback(() => {
-    if (projectState.activeFile) {
-      saveFile(projectState.activeFile, currentContent);
+  // Format with Prettier and the project's .prettierrc, from the Format
+  // button and Monaco's format commands, whole file or selection
+  useEffect(() => {
+    const registration = registerFormatter(FORMATTED_LANGUAGES, async (model, range) => {
+      const files = filesRef.current;
+      const path = Object.keys(files).find(p => getModelUri(p).toString() === model.uri.toString());
+      if (!path) return model.getValue();
+      
+      try {
+        return range
+          ? await FormatService.formatRange(path, model.getValue(), range, files)
+          : await FormatService.formatFile(path, model.getValue(), files);
+      } catch (error) {
+        toast({
+          title: "Format Failed",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+        return model.getValue();
+      }
+    });
+    
+    return () => registration.dispose();
+  }, [toast]);
+  
+  // Handle save, formatting first when format on save is on
+  const handleSave = useCallback(async () => {
+    const path = projectState.activeFile;
+    if (!path) return;
+    
+    let content = currentContent;
+    if (formatOnSave && FormatService.canFormat(path)) {
+      try {
+        content = await FormatService.formatFile(path, content, projectState.files);
+        
+        // Show the formatted text, keeping it undoable
+        const model = editorRef.current?.getModel();
+        if (model && model.getValue() !== content) {
+          model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+        }
+      } catch (error) {
+        // Unparseable code is saved as typed
+        console.warn(`Format on save skipped for ${path}:`, error);
+      }
     }
-  }, [projectState.activeFile, currentContent, saveFile]);
+    
+    await saveFile(path, content);
+  }, [projectState.activeFile, projectState.files, currentContent, formatOnSave, saveFile]);
+  
+  const toggleFormatOnSave = useCallback(() => {
+    setFormatOnSave(enabled => {
+      FormatService.setFormatOnSave(!enabled);
+      return !enabled;
+    });
+  }, []);
+  
+  // Run one of the editor's built-in actions, such as format or find
+  const runEditorAction = useCallback((actionId: string) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    
+    editor.focus();
+    editor.getAction(actionId)?.run();
+  }, []);
   
   useEffect(() => {
     // Set up Ctrl+S shortcut for saving
@@ -73,10 +162,32 @@ const CodeEditor = () => {
               <span className="text-xs font-medium">EDITOR</span>
             </div>
             <div className="flex space-x-1">
-              <button className="p-1 rounded hover:bg-neutral-200 dark:hover:bg-dark-100 transition text-xs" title="Format">
+              <button 
+                className="p-1 rounded hover:bg-neutral-200 dark:hover:bg-dark-100 transition text-xs" 
+                title="Format (formats the selection, if there is one)"
+                onClick={() => runEditorAction(
+                  editorRef.current?.getSelection()?.isEmpty() === false
+                    ? 'editor.action.formatSelection'
+                    : 'editor.action.formatDocument'
+                )}
+              >
                 <i className="ri-indent-increase"></i>
               </button>
-              <button className="p-1 rounded hover:bg-neutral-200 dark:hover:bg-dark-100 transition text-xs" title="Find">
+              <button 
+                className={`p-1 rounded hover:bg-neutral-200 dark:hover:bg-dark-100 transition text-xs ${
+                  formatOnSave ? 'bg-neutral-200 dark:bg-dark-100 text-primary-500' : ''
+                }`}
+                title={`Format on save: ${formatOnSave ? 'on' : 'off'}`}
+                aria-pressed={formatOnSave}
+                onClick={toggleFormatOnSave}
+              >
+                <i className="ri-magic-line"></i>
+              </button>
+              <button 
+                className="p-1 rounded hover:bg-neutral-200 dark:hover:bg-dark-100 transition text-xs" 
+                title="Find"
+                onClick={() => runEditorAction('actions.find')}
+              >
                 <i className="ri-search-line"></i>
               </button>
               <button 
@@ -90,13 +201,14 @@ const CodeEditor = () => {
           </div>
           
           {/* Code editor content */}
-          <div className="flex-1 overflow-y-auto custom-scrollbar bg-white dark:bg-dark-400 p-4">
+          <div className="flex-1 overflow-hidden bg-white dark:bg-dark-400">
             {projectState.activeFile ? (
-              <textarea 
-                className="code-editor font-mono text-sm leading-6 w-full h-full bg-transparent outline-none resize-none"
-                value={currentContent}
-                onChange={(e) => handleContentChange(e.target.value)}
-                spellCheck={false}
+              <MonacoEditor
+                path={projectState.activeFile}
+                value={savedContent}
+                language={getLanguageForExtension(activeEntry?.extension)}
+                onChange={handleContentChange}
+                onMount={(editor) => { editorRef.current = editor; }}
               />
             ) : (
               <div className="h-full flex items-center justify-center text-neutral-500 dark:text-neutral-400">
@@ -136,4 +248,7 @@ const CodeEditor = () => {
   );
 };
 
+// Set display name for component identification in layout
+CodeEditor.displayName = 'CodeEditor';
+
 export default CodeEditor;
@@ -0,0 +1,118 @@
+import { useEffect, useRef } from 'react';
+import { setupMonaco, getModelUri, monaco } from '../../lib/monaco';
+
+export type MonacoEditorInstance = monaco.editor.IStandaloneCodeEditor;
+
+interface MonacoEditorProps {
+  // File being edited; each path gets its own model, so unsaved edits and
+  // undo history survive switching between files
+  path: string;
+  // Saved content of the file. The model follows it only while it has no
+  // edits of its own, so a save or restore never discards typing
+  value: string;
+  language: string;
+  onChange?: (value: string) => void;
+  onMount?: (editor: MonacoEditorInstance) => void;
+  className?: string;
+}
+
+const isDarkMode = () => document.documentElement.classList.contains('dark');
+
+// Code editor with syntax highlighting, find/replace, multi-cursor, minimap,
+// bracket matching and TypeScript/JavaScript diagnostics
+const MonacoEditor = ({ path, value, language, onChange, onMount, className }: MonacoEditorProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<MonacoEditorInstance | null>(null);
+  const viewStates = useRef(new Map<string, monaco.editor.ICodeEditorViewState | null>());
+  const savedValues = useRef(new Map<string, string>());
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Create the editor once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    setupMonaco();
+    const editor = monaco.editor.create(containerRef.current, {
+      model: null,
+      theme: isDarkMode() ? 'vs-dark' : 'vs',
+      automaticLayout: true,
+      fontFamily: "'Cascadia Code', monospace",
+      fontSize: 14,
+      minimap: { enabled: true },
+      matchBrackets: 'always',
+      bracketPairColorization: { enabled: true },
+      guides: { bracketPairs: 'active' },
+      multiCursorModifier: 'alt',
+      renderWhitespace: 'selection',
+      scrollBeyondLastLine: false,
+      tabSize: 2,
+    });
+    editorRef.current = editor;
+
+    const changes = editor.onDidChangeModelContent(() => {
+      onChangeRef.current?.(editor.getValue());
+    });
+
+    // Follow the IDE's light/dark toggle
+    const observer = new MutationObserver(() => {
+      monaco.editor.setTheme(isDarkMode() ? 'vs-dark' : 'vs');
+    });
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
+
+    onMount?.(editor);
+
+    return () => {
+      observer.disconnect();
+      changes.dispose();
+      editor.dispose();
+      editorRef.current = null;
+    };
+    // onMount is only called for the editor this effect creates
+  }, []);
+
+  // Show the model of the current file, restoring where the user left off
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const uri = getModelUri(path);
+    let model = monaco.editor.getModel(uri);
+    if (!model) {
+      model = monaco.editor.createModel(value, language, uri);
+      savedValues.current.set(path, value);
+    } else if (model.getLanguageId() !== language) {
+      monaco.editor.setModelLanguage(model, language);
+    }
+
+    const previous = editor.getModel();
+    if (previous === model) return;
+    if (previous) {
+      viewStates.current.set(previous.uri.toString(), editor.saveViewState());
+    }
+
+    editor.setModel(model);
+    editor.restoreViewState(viewStates.current.get(uri.toString()) ?? null);
+    editor.focus();
+    // value only seeds a new model here; updates are handled below
+  }, [path, language]);
+
+  // Apply new saved content to a model the user has not edited since
+  useEffect(() => {
+    const model = monaco.editor.getModel(getModelUri(path));
+    if (!model) return;
+
+    const lastSaved = savedValues.current.get(path);
+    savedValues.current.set(path, value);
+    if (model.getValue() === value || (lastSaved !== undefined && model.getValue() !== lastSaved)) {
+      return;
+    }
+
+    // Replace through an edit so the change can be undone
+    model.pushEditOperations([], [{ range: model.getFullModelRange(), text: value }], () => null);
+  }, [path, value]);
+
+  return <div ref={containerRef} className={className ?? 'h-full w-full'} />;
+};
+
+export default MonacoEditor;
@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react';
+import { X, FileText } from 'lucide-react';
+import { setupMonaco, getLanguageForExtension, monaco } from '../../lib/monaco';
+import { useProject } from '../../contexts/ProjectContext';
+import { useGit } from '../../contexts/GitContext';
+import { GitService } from '../../services/GitService';
+
+const isDarkMode = () => document.documentElement.classList.contains('dark');
+
+// Side-by-side diff of the change picked in the source control panel,
+// shown in place of the editor
+const DiffView = () => {
+  const { projectState, openFile } = useProject();
+  const { diffTarget, closeDiff } = useGit();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<monaco.editor.IStandaloneDiffEditor | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create the diff editor once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    setupMonaco();
+    const editor = monaco.editor.createDiffEditor(containerRef.current, {
+      theme: isDarkMode() ? 'vs-dark' : 'vs',
+      automaticLayout: true,
+      fontFamily: "'Cascadia Code', monospace",
+      fontSize: 14,
+      readOnly: true,
+      originalEditable: false,
+      renderSideBySide: true,
+      scrollBeyondLastLine: false
+    });
+    editorRef.current = editor;
+
+    const observer = new MutationObserver(() => {
+      monaco.editor.setTheme(isDarkMode() ? 'vs-dark' : 'vs');
+    });
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
+
+    return () => {
+      observer.disconnect();
+      const model = editor.getModel();
+      editor.dispose();
+      model?.original.dispose();
+      model?.modified.dispose();
+      editorRef.current = null;
+    };
+  }, []);
+
+  // Load both sides of the change, again whenever the files are saved
+  useEffect(() => {
+    if (!diffTarget) return;
+
+    let current = true;
+    GitService.diff(diffTarget.path, diffTarget.staged, projectState.files)
+      .then(({ original, modified }) => {
+        const editor = editorRef.current;
+        if (!current || !editor) return;
+
+        const language = getLanguageForExtension(diffTarget.path.match(/\.([^./]+)$/)?.[1]);
+        const previous = editor.getModel();
+        editor.setModel({
+          original: monaco.editor.createModel(original, language),
+          modified: monaco.editor.createModel(modified, language)
+        });
+        previous?.original.dispose();
+        previous?.modified.dispose();
+        setError(null);
+      })
+      .catch((diffError) => {
+        if (current) setError((diffError as Error).message);
+      });
+
+    return () => {
+      current = false;
+    };
+  }, [diffTarget, projectState.files]);
+
+  if (!diffTarget) return null;
+
+  const projectPath = GitService.toProjectPath(diffTarget.path, projectState.files);
+
+  return (
+    <div className="git-diff-view">
+      <div className="git-diff-header">
+        <FileText size={14} />
+        <span className="git-diff-title">{diffTarget.path}</span>
+        <span className="git-diff-sides">
+          {diffTarget.staged ? 'HEAD ↔ Staged' : 'Staged ↔ Working Tree'}
+        </span>
+        {projectState.files[projectPath] && (
+          <button
+            type="button"
+            className="git-diff-button"
+            onClick={() => {
+              openFile(projectPath);
+              closeDiff();
+            }}
+          >
+            Open File
+          </button>
+        )}
+        <button
+          type="button"
+          className="icon-button small"
+          onClick={closeDiff}
+          aria-label="Close diff"
+          title="Close diff"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      {error && <div className="git-message git-error">{error}</div>}
+      <div ref={containerRef} className="git-diff-editor" />
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { GitBranch, GitCommit, Plus, Minus, RefreshCw, AlertCircle, ArrowDownUp } from 'lucide-react';
+import { useGit } from '../../contexts/GitContext';
+import type { GitChangeKind, GitFileChange } from '../../services/GitService';
+
+const KIND_LETTERS: Record<GitChangeKind, string> = {
+  added: 'A',
+  modified: 'M',
+  deleted: 'D',
+  untracked: 'U'
+};
+
+const formatCommitTime = (date: Date) => {
+  const minutes = Math.round((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return date.toLocaleDateString();
+};
+
+// One changed file, with its status letter and a button to stage or unstage it
+const ChangeItem: React.FC<{
+  change: GitFileChange;
+  staged: boolean;
+  isSelected: boolean;
+  disabled: boolean;
+  onOpen: () => void;
+  onToggleStaged: () => void;
+}> = ({ change, staged, isSelected, disabled, onOpen, onToggleStaged }) => {
+  const fileName = change.path.split('/').pop() || change.path;
+  const directory = change.path.slice(0, change.path.length - fileName.length).replace(/\/$/, '');
+
+  return (
+    <div
+      className={`git-change-item ${change.kind} ${isSelected ? 'selected' : ''}`}
+      onClick={onOpen}
+      title={change.path}
+    >
+      <div className="git-change-status">{KIND_LETTERS[change.kind]}</div>
+      <div className="git-change-file">{fileName}</div>
+      {directory && <div className="git-change-dir">{directory}</div>}
+      <button
+        type="button"
+        className="icon-button small git-change-action"
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleStaged();
+        }}
+        disabled={disabled}
+        aria-label={staged ? `Unstage ${change.path}` : `Stage ${change.path}`}
+        title={staged ? 'Unstage' : 'Stage'}
+      >
+        {staged ? <Minus size={14} /> : <Plus size={14} />}
+      </button>
+    </div>
+  );
+};
+
+// Source control over the project's saved files: changes against HEAD,
+// staging, commits, branches and history
+const GitPanel: React.FC = () => {
+  const {
+    status,
+    branches,
+    commits,
+    isBusy,
+    error,
+    diffTarget,
+    refresh,
+    stage,
+    unstage,
+    commit,
+    createBranch,
+    switchBranch,
+    syncRemote,
+    syncConflicts,
+    openDiff
+  } = useGit();
+  const [message, setMessage] = useState('');
+  const [newBranch, setNewBranch] = useState<string | null>(null);
+
+  const staged = status?.staged || [];
+  const unstaged = status?.unstaged || [];
+  const canCommit = !isBusy && staged.length > 0 && message.trim() !== '';
+
+  const handleCommit = async () => {
+    if (!canCommit) return;
+    if (await commit(message.trim())) {
+      setMessage('');
+    }
+  };
+
+  const handleCreateBranch = async () => {
+    const name = newBranch?.trim();
+    if (!name) return;
+    setNewBranch(null);
+    await createBranch(name);
+  };
+
+  const renderChanges = (title: string, changes: GitFileChange[], isStaged: boolean) => (
+    <div className="git-changes">
+      <div className="git-changes-header">
+        <span>{title} ({changes.length})</span>
+        {changes.length > 0 && (
+          <button
+            type="button"
+            className="icon-button small"
+            onClick={() => (isStaged ? unstage : stage)(changes.map(change => change.path))}
+            disabled={isBusy}
+            aria-label={isStaged ? 'Unstage all changes' : 'Stage all changes'}
+            title={isStaged ? 'Unstage all changes' : 'Stage all changes'}
+          >
+            {isStaged ? <Minus size={14} /> : <Plus size={14} />}
+          </button>
+        )}
+      </div>
+      <div className="git-change-items">
+        {changes.map(change => (
+          <ChangeItem
+            key={change.path}
+            change={change}
+            staged={isStaged}
+            isSelected={diffTarget?.path === change.path && diffTarget.staged === isStaged}
+            disabled={isBusy}
+            onOpen={() => openDiff({ path: change.path, staged: isStaged })}
+            onToggleStaged={() => (isStaged ? unstage : stage)([change.path])}
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="git-panel">
+      <div className="git-branch">
+        <GitBranch size={14} className="git-branch-icon" />
+        {branches.length > 0 ? (
+          <select
+            className="git-branch-select"
+            value={status?.branch ?? ''}
+            onChange={(e) => switchBranch(e.target.value)}
+            disabled={isBusy}
+            aria-label="Switch branch"
+          >
+            {!status?.branch && <option value="">(detached)</option>}
+            {branches.map(branch => (
+              <option key={branch} value={branch}>{branch}</option>
+            ))}
+          </select>
+        ) : (
+          <span className="git-branch-name">{status?.branch ?? 'main'}</span>
+        )}
+        <div className="git-sync">
+          <button
+            type="button"
+            className="icon-button small"
+            onClick={() => setNewBranch(newBranch === null ? '' : null)}
+            disabled={isBusy || !status?.hasCommits}
+            aria-label="New branch"
+            title={status?.hasCommits ? 'New branch' : 'Commit at least once before creating a branch'}
+          >
+            <Plus size={14} />
+          </button>
+          <button
+            type="button"
+            className="icon-button small"
+            onClick={refresh}
+            disabled={isBusy}
+            aria-label="Refresh"
+            title="Refresh"
+          >
+            <RefreshCw size={14} />
+          </button>
+          <button
+            type="button"
+            className="icon-button small"
+            onClick={() => syncRemote()}
+            disabled={isBusy}
+            aria-label="Sync with remote"
+            title="Sync with remote"
+          >
+            <ArrowDownUp size={14} />
+          </button>
+        </div>
+      </div>
+
+      {newBranch !== null && (
+        <div className="git-actions">
+          <input
+            type="text"
+            className="git-input"
+            placeholder="New branch name"
+            value={newBranch}
+            onChange={(e) => setNewBranch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreateBranch();
+              if (e.key === 'Escape') setNewBranch(null);
+            }}
+            aria-label="New branch name"
+            autoFocus
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="git-message git-error">
+          <AlertCircle size={14} />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {syncConflicts && (
+        <div className="git-actions">
+          <div className="git-message git-error">
+            <AlertCircle size={14} />
+            <span>Changed here and on the remote: {syncConflicts.join(', ')}</span>
+          </div>
+          <div className="git-action-buttons">
+            <button
+              type="button"
+              className="git-action-button secondary"
+              onClick={() => syncRemote('ours')}
+              disabled={isBusy}
+            >
+              Keep mine
+            </button>
+            <button
+              type="button"
+              className="git-action-button secondary"
+              onClick={() => syncRemote('theirs')}
+              disabled={isBusy}
+            >
+              Take theirs
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="git-actions">
+        <textarea
+          className="git-input git-commit-message"
+          placeholder={`Message (Ctrl+Enter to commit on ${status?.branch ?? 'HEAD'})`}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              handleCommit();
+            }
+          }}
+          rows={3}
+          aria-label="Commit message"
+        />
+        <button
+          type="button"
+          className="git-action-button commit"
+          onClick={handleCommit}
+          disabled={!canCommit}
+          title={staged.length === 0 ? 'Stage changes to commit them' : undefined}
+        >
+          <GitCommit size={14} />
+          <span>Commit</span>
+        </button>
+      </div>
+
+      {renderChanges('Staged Changes', staged, true)}
+      {renderChanges('Changes', unstaged, false)}
+
+      <div className="git-changes">
+        <div className="git-changes-header">
+          <span>History</span>
+        </div>
+        {commits.length === 0 ? (
+          <div className="git-message">No commits yet</div>
+        ) : (
+          <div className="git-change-items">
+            {commits.map(entry => (
+              <div key={entry.oid} className="git-log-item" title={entry.message}>
+                <div className="git-log-message">{entry.message.split('\n')[0]}</div>
+                <div className="git-log-meta">
+                  <span className="git-log-oid">{entry.oid.slice(0, 7)}</span>
+                  <span>{entry.author}</span>
+                  <span>{formatCommitTime(entry.timestamp)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GitPanel;
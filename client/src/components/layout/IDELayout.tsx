@@ -3,6 +3,8 @@ import MenuBar from './MenuBar';
 import Sidebar from './Sidebar';
 import StatusBar from './StatusBar';
 import PromptPanel from '../prompt/PromptPanel';
+import DiffView from '../git/DiffView';
+import { useGit } from '../../contexts/GitContext';
 import { Zap, Coffee } from 'lucide-react';
 
 interface IDELayoutProps {
@@ -15,6 +17,8 @@ const IDELayout: React.FC<IDELayoutProps> = ({ children, initialMode = 'editor'
   const [isLoading, setIsLoading] = useState(true);
   // Add state to toggle between editor and prompt modes
   const [mode, setMode] = useState<'editor' | 'prompt'>(initialMode);
+  const [sidebarPanel, setSidebarPanel] = useState<string>(initialMode === 'editor' ? 'files' : 'extensions');
+  const { diffTarget } = useGit();
   
   // Simulate a loading state for the IDE
   useEffect(() => {
@@ -29,6 +33,12 @@ const IDELayout: React.FC<IDELayoutProps> = ({ children, initialMode = 'editor'
     setSidebarOpen(!sidebarOpen);
   };
 
+  // Show the source control panel, from the branch indicator
+  const openSourceControl = () => {
+    setSidebarOpen(true);
+    setSidebarPanel('git');
+  };
+
   const toggleMode = () => {
     setMode(mode === 'editor' ? 'prompt' : 'editor');
   };
@@ -39,7 +49,7 @@ const IDELayout: React.FC<IDELayoutProps> = ({ children, initialMode = 'editor'
   // Find editor and terminal components
   const editorComponent = childrenArray.find(
     child => React.isValidElement(child) && 
-    (child.type as any).displayName === 'Editor'
+    (child.type as any).displayName === 'CodeEditor'
   );
   
   const terminalComponent = childrenArray.find(
@@ -81,6 +91,7 @@ const IDELayout: React.FC<IDELayoutProps> = ({ children, initialMode = 'editor'
           sidebarOpen={sidebarOpen} 
           toggleMode={toggleMode} 
           currentMode={mode}
+          onBranchClick={openSourceControl}
         />
       </header>
       
@@ -92,6 +103,8 @@ const IDELayout: React.FC<IDELayoutProps> = ({ children, initialMode = 'editor'
             currentMode={mode} 
             onModeChange={setMode}
             showExplorer={mode === 'editor'} // Only show file explorer in editor mode
+            activePanel={sidebarPanel}
+            onActivePanelChange={setSidebarPanel}
           />
         </aside>
         
@@ -99,7 +112,10 @@ const IDELayout: React.FC<IDELayoutProps> = ({ children, initialMode = 'editor'
         <main className="ide-main">
           {/* Main editor/prompt area */}
           <div className="ide-editor">
-            {mode === 'editor' ? (
+            {mode === 'editor' && diffTarget ? (
+              // Show the change picked in the source control panel
+              <DiffView />
+            ) : mode === 'editor' ? (
               // Show the editor or welcome screen
               editorComponent || (
                 <div className="ide-welcome">
@@ -3,14 +3,18 @@ import {
   Menu, Zap, Sun, Moon, Github, Coffee, Save, Play, Pause,
   Settings, HelpCircle, Download, Upload, ChevronLeft, 
   MoreVertical, Users, Bell, GitBranch, FileDown, Code,
-  MessageSquare, Edit
+  MessageSquare, Edit, LogOut, Archive, Check
 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useGit } from '../../contexts/GitContext';
+import { useProject } from '../../contexts/ProjectContext';
 
 interface MenuBarProps {
   toggleSidebar: () => void;
   sidebarOpen: boolean;
   toggleMode?: () => void;
   currentMode?: 'editor' | 'prompt';
+  onBranchClick?: () => void;
 }
 
 const IconButton = ({ 
@@ -109,8 +113,14 @@ const MenuBar: React.FC<MenuBarProps> = ({
   toggleSidebar, 
   sidebarOpen, 
   toggleMode,
-  currentMode = 'editor'
+  currentMode = 'editor',
+  onBranchClick
 }) => {
+  const { user, logoutMutation } = useAuth();
+  const { status: gitStatus } = useGit();
+  const { createBackup, formatChangedFiles, setFormatChangedFiles } = useProject();
+  const gitChangeCount = gitStatus ? new Set([...gitStatus.staged, ...gitStatus.unstaged].map(change => change.path)).size : 0;
+  
   // We'll use a state hook that mimics the color mode for now
   const [isDarkMode, setIsDarkMode] = React.useState(true);
   const [isRunning, setIsRunning] = React.useState(false);
@@ -157,6 +167,13 @@ const MenuBar: React.FC<MenuBarProps> = ({
                 <MenuDivider />
                 <MenuItem icon={<Download size={14} />} label="Import Project" />
                 <MenuItem icon={<Upload size={14} />} label="Export Project" />
+                <MenuDivider />
+                <MenuItem icon={<Archive size={14} />} label="Back Up Now" onClick={() => createBackup()} />
+                <MenuItem
+                  icon={formatChangedFiles ? <Check size={14} /> : undefined}
+                  label="Format Changed Files on Backup"
+                  onClick={() => setFormatChangedFiles(!formatChangedFiles)}
+                />
               </DropdownMenu>
               
               <DropdownMenu
@@ -244,10 +261,16 @@ const MenuBar: React.FC<MenuBarProps> = ({
         {/* Only show branch info in editor mode */}
         {currentMode === 'editor' && (
           <div className="menubar-branch">
-            <div className="branch-indicator">
+            <button
+              type="button"
+              className="branch-indicator"
+              onClick={onBranchClick}
+              title="Source Control"
+            >
               <GitBranch size={14} />
-              <span className="branch-name">main</span>
-            </div>
+              <span className="branch-name">{gitStatus?.branch ?? 'main'}</span>
+              {gitChangeCount > 0 && <span className="branch-changes">{gitChangeCount}</span>}
+            </button>
           </div>
         )}
         
@@ -302,6 +325,16 @@ const MenuBar: React.FC<MenuBarProps> = ({
             <MenuItem icon={<HelpCircle size={14} />} label="Help" />
             <MenuItem icon={<Github size={14} />} label="GitHub" />
             <MenuItem icon={<Coffee size={14} />} label="Support Project" />
+            {user && (
+              <>
+                <MenuDivider />
+                <MenuItem
+                  icon={<LogOut size={14} />}
+                  label={`Sign out ${user.username}`}
+                  onClick={() => logoutMutation.mutate()}
+                />
+              </>
+            )}
           </DropdownMenu>
         </div>
       </div>
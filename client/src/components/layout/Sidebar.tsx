@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Link, useLocation } from 'wouter';
 import { 
   FolderTree, FileCode, FileJson, FileText, 
@@ -8,78 +8,61 @@ import {
   ServerCrash, Zap, Diamond, Home, Layout, MessageSquare,
   Sparkles
 } from 'lucide-react';
+import SearchPanel from '../search/SearchPanel';
+import GitPanel from '../git/GitPanel';
+import CollaborationPanel from '../collaboration/CollaborationPanel';
+import { useCollabPeers } from '../../hooks/useCollabPeers';
+import { useProject } from '../../contexts/ProjectContext';
+import { getLanguageForExtension } from '../../lib/monaco';
+import { FileEntry } from '../../types';
 
 // Vertical sidebar component in FlutterFlow style
 interface SidebarProps {
   currentMode?: 'editor' | 'prompt';
   onModeChange?: (mode: 'editor' | 'prompt') => void;
   showExplorer?: boolean;
+  // Panel shown next to the activity bar; the sidebar tracks it itself
+  // when these are not given
+  activePanel?: string;
+  onActivePanelChange?: (panel: string) => void;
 }
 
 // File or folder item type
 interface FileItem {
   name: string;
+  path: string;
   type: 'file' | 'folder';
   children?: FileItem[];
   language?: string;
 }
 
-// Sample file structure
-const sampleFiles: FileItem[] = [
-  {
-    name: 'Project',
-    type: 'folder',
-    children: [
-      {
-        name: 'src',
-        type: 'folder',
-        children: [
-          {
-            name: 'components',
-            type: 'folder',
-            children: [
-              {
-                name: 'Button.tsx',
-                type: 'file',
-                language: 'typescript'
-              },
-              {
-                name: 'Card.tsx',
-                type: 'file',
-                language: 'typescript'
-              },
-              {
-                name: 'Input.tsx',
-                type: 'file',
-                language: 'typescript'
-              }
-            ]
-          },
-          {
-            name: 'App.tsx',
-            type: 'file',
-            language: 'typescript'
-          },
-          {
-            name: 'main.tsx',
-            type: 'file',
-            language: 'typescript'
-          }
-        ]
-      },
-      {
-        name: 'package.json',
-        type: 'file',
-        language: 'json'
-      },
-      {
-        name: 'README.md',
-        type: 'file',
-        language: 'markdown'
+// Folder tree of the project's files, folders first, each level sorted by name
+const buildFileTree = (files: Record<string, FileEntry>): FileItem[] => {
+  const root: FileItem[] = [];
+  
+  Object.values(files).forEach(file => {
+    const parts = file.path.split('/');
+    let level = root;
+    
+    parts.forEach((name, index) => {
+      const path = parts.slice(0, index + 1).join('/');
+      const isFile = index === parts.length - 1 && file.type === 'file';
+      let item = level.find(entry => entry.name === name);
+      if (!item) {
+        item = isFile
+          ? { name, path, type: 'file', language: getLanguageForExtension(file.extension) }
+          : { name, path, type: 'folder', children: [] };
+        level.push(item);
       }
-    ]
-  }
-];
+      level = item.children ?? [];
+    });
+  });
+  
+  const sort = (items: FileItem[]): FileItem[] => items
+    .sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1)
+    .map(item => item.children ? { ...item, children: sort(item.children) } : item);
+  return sort(root);
+};
 
 // File icon based on file type/extension
 const FileIcon: React.FC<{ name: string, language?: string }> = ({ name, language }) => {
@@ -106,25 +89,34 @@ const FileIcon: React.FC<{ name: string, language?: string }> = ({ name, languag
 };
 
 // File or folder item component with enhanced styling
-const FileTreeItem: React.FC<{ item: FileItem, depth: number, isActive?: boolean }> = ({ 
+const FileTreeItem: React.FC<{
+  item: FileItem,
+  depth: number,
+  activePath: string | null,
+  onOpen: (path: string) => void
+}> = ({ 
   item, 
   depth,
-  isActive = false
+  activePath,
+  onOpen
 }) => {
   const [expanded, setExpanded] = useState(true);
   
-  const toggleExpanded = () => {
+  // Folders expand and collapse; files open in the editor
+  const handleClick = () => {
     if (item.type === 'folder') {
       setExpanded(!expanded);
+    } else {
+      onOpen(item.path);
     }
   };
   
   return (
     <div className="filetree-item-container">
       <div
-        className={`filetree-item ${isActive ? 'active' : ''}`}
+        className={`filetree-item ${item.path === activePath ? 'active' : ''}`}
         style={{ paddingLeft: `${depth * 12 + 8}px` }}
-        onClick={toggleExpanded}
+        onClick={handleClick}
       >
         {item.type === 'folder' ? (
           <div className="filetree-expander">
@@ -151,12 +143,13 @@ const FileTreeItem: React.FC<{ item: FileItem, depth: number, isActive?: boolean
       
       {item.type === 'folder' && expanded && item.children && (
         <div className="filetree-children">
-          {item.children.map((child, index) => (
+          {item.children.map(child => (
             <FileTreeItem 
-              key={`${child.name}-${index}`} 
+              key={child.path} 
               item={child} 
               depth={depth + 1}
-              isActive={child.name === 'main.tsx'} // Just for demo, highlight the main file
+              activePath={activePath}
+              onOpen={onOpen}
             />
           ))}
         </div>
@@ -165,94 +158,6 @@ const FileTreeItem: React.FC<{ item: FileItem, depth: number, isActive?: boolean
   );
 };
 
-// Search component
-const SearchPanel: React.FC = () => (
-  <div className="search-panel">
-    <div className="search-input-container">
-      <Search size={14} className="search-icon" />
-      <input 
-        type="text" 
-        className="search-input" 
-        placeholder="Search in project..." 
-      />
-    </div>
-
-    <div className="search-options">
-      <label className="search-option">
-        <input type="checkbox" className="search-checkbox" />
-        <span>Case sensitive</span>
-      </label>
-      <label className="search-option">
-        <input type="checkbox" className="search-checkbox" />
-        <span>Whole word</span>
-      </label>
-      <label className="search-option">
-        <input type="checkbox" className="search-checkbox" />
-        <span>Regular expression</span>
-      </label>
-    </div>
-
-    <div className="search-history">
-      <div className="search-history-heading">Recent Searches</div>
-      <div className="search-history-items">
-        <div className="search-history-item">
-          <Search size={12} />
-          <span>api.connectDatabase</span>
-        </div>
-        <div className="search-history-item">
-          <Search size={12} />
-          <span>renderComponent</span>
-        </div>
-      </div>
-    </div>
-  </div>
-);
-
-// Git panel component
-const GitPanel: React.FC = () => (
-  <div className="git-panel">
-    <div className="git-branch">
-      <GitBranch size={14} className="git-branch-icon" />
-      <span className="git-branch-name">main</span>
-      <div className="git-sync">
-        <div className="git-sync-status">
-          <span className="git-upload">↑3</span>
-          <span className="git-download">↓0</span>
-        </div>
-      </div>
-    </div>
-
-    <div className="git-changes">
-      <div className="git-changes-header">Changes (3)</div>
-      <div className="git-change-items">
-        <div className="git-change-item modified">
-          <div className="git-change-status">M</div>
-          <div className="git-change-file">src/components/Button.tsx</div>
-        </div>
-        <div className="git-change-item added">
-          <div className="git-change-status">A</div>
-          <div className="git-change-file">src/components/Card.tsx</div>
-        </div>
-        <div className="git-change-item modified">
-          <div className="git-change-status">M</div>
-          <div className="git-change-file">package.json</div>
-        </div>
-      </div>
-    </div>
-
-    <div className="git-actions">
-      <button className="git-action-button commit">
-        <GitBranch size={14} />
-        <span>Commit</span>
-      </button>
-      <div className="git-action-buttons">
-        <button className="git-action-button secondary">Pull</button>
-        <button className="git-action-button secondary">Push</button>
-      </div>
-    </div>
-  </div>
-);
-
 // Extension card component
 const ExtensionCard: React.FC<{ name: string, version: string, icon: React.ReactNode }> = ({ 
   name, version, icon 
@@ -313,72 +218,24 @@ const ExtensionsPanel: React.FC = () => (
   </div>
 );
 
-// Collaboration component
-const CollaborationPanel: React.FC = () => (
-  <div className="collaboration-panel">
-    <div className="users-online">
-      <div className="users-online-heading">Online (3)</div>
-      <div className="users-list">
-        <div className="user-item">
-          <div className="user-avatar blue">JD</div>
-          <div className="user-info">
-            <div className="user-name">John Doe</div>
-            <div className="user-status">Editing src/components/Button.tsx</div>
-          </div>
-        </div>
-        <div className="user-item">
-          <div className="user-avatar green">AS</div>
-          <div className="user-info">
-            <div className="user-name">Alice Smith</div>
-            <div className="user-status">Viewing Git changes</div>
-          </div>
-        </div>
-        <div className="user-item">
-          <div className="user-avatar purple">RJ</div>
-          <div className="user-info">
-            <div className="user-name">Robert Johnson</div>
-            <div className="user-status">Inactive</div>
-          </div>
-        </div>
-      </div>
-    </div>
-
-    <div className="collaboration-chat">
-      <div className="chat-heading">Team Chat</div>
-      <div className="chat-messages">
-        <div className="chat-message">
-          <div className="chat-avatar blue">JD</div>
-          <div className="message-content">
-            <div className="message-header">
-              <span className="message-author">John Doe</span>
-              <span className="message-time">10:42 AM</span>
-            </div>
-            <div className="message-text">Just pushed the button component updates</div>
-          </div>
-        </div>
-        <div className="chat-message">
-          <div className="chat-avatar green">AS</div>
-          <div className="message-content">
-            <div className="message-header">
-              <span className="message-author">Alice Smith</span>
-              <span className="message-time">10:45 AM</span>
-            </div>
-            <div className="message-text">Looks great! I'll review it now.</div>
-          </div>
-        </div>
-      </div>
-    </div>
-  </div>
-);
-
 const Sidebar: React.FC<SidebarProps> = ({ 
   currentMode = 'editor',
   onModeChange,
-  showExplorer = true
+  showExplorer = true,
+  activePanel,
+  onActivePanelChange
 }) => {
   // If we're not showing explorer, default to extensions tab instead
-  const [activeSidebarIcon, setActiveSidebarIcon] = useState<string>(showExplorer ? 'files' : 'extensions');
+  const [localPanel, setLocalPanel] = useState<string>(showExplorer ? 'files' : 'extensions');
+  const activeSidebarIcon = activePanel ?? localPanel;
+  const setActiveSidebarIcon = (panel: string) => {
+    setLocalPanel(panel);
+    onActivePanelChange?.(panel);
+  };
   const [location, setLocation] = useLocation();
+  const peerCount = new Set(useCollabPeers().map(peer => peer.id)).size;
+  const { projectState, openFile } = useProject();
+  const fileTree = useMemo(() => buildFileTree(projectState.files), [projectState.files]);
   
   // Handle mode toggle
   const handleModeToggle = () => {
@@ -413,8 +270,14 @@ const Sidebar: React.FC<SidebarProps> = ({
               </div>
             </div>
             <div className="filetree">
-              {sampleFiles.map((file, index) => (
-                <FileTreeItem key={`${file.name}-${index}`} item={file} depth={0} />
+              {fileTree.map(file => (
+                <FileTreeItem
+                  key={file.path}
+                  item={file}
+                  depth={0}
+                  activePath={projectState.activeFile}
+                  onOpen={openFile}
+                />
               ))}
             </div>
           </div>
@@ -491,7 +354,11 @@ const Sidebar: React.FC<SidebarProps> = ({
           >
             <Users size={22} />
             {activeSidebarIcon === 'collab' && <div className="activity-bar-active-indicator" />}
-            <div className="activity-notification" title="3 users online">3</div>
+            {peerCount > 0 && (
+              <div className="activity-notification" title={`${peerCount} other ${peerCount === 1 ? 'user' : 'users'} editing`}>
+                {peerCount}
+              </div>
+            )}
           </button>
         </div>
         
@@ -77,7 +77,7 @@ const EnhancedPromptPanel: React.FC<EnhancedPromptPanelProps> = ({
   const { projectState } = useProject();
   
   // Initialize AI hook
-  const { messages, isProcessing, sendQuery, clearMessages } = useAI();
+  const { messages, isProcessing, sendQuery, stopGeneration, clearMessages } = useAI();
   
   // Initialize prompt manager
   const { getAvailableTemplates, createPrompt, estimateTokenCount } = usePromptManager();
@@ -106,11 +106,11 @@ const EnhancedPromptPanel: React.FC<EnhancedPromptPanelProps> = ({
     if (onSubmit) {
       onSubmit(prompt);
     } else {
+      // Switch to the response tab so the reply can be watched as it streams
+      setActiveTab('response');
+      
       // Process the prompt using the AI hook
       await sendQuery(prompt, selectedAgent as any, selectedModel as any);
-      
-      // For demo purposes, switch to the response tab
-      setActiveTab('response');
     }
   };
 
@@ -422,6 +422,17 @@ const EnhancedPromptPanel: React.FC<EnhancedPromptPanelProps> = ({
                 New Prompt
               </Button>
               
+              {isProcessing && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="border-slate-700 bg-transparent text-slate-300 hover:bg-slate-800"
+                  onClick={stopGeneration}
+                >
+                  Stop Generating
+                </Button>
+              )}
+              
               {messages.length > 0 && (
                 <Button
                   variant="outline"
@@ -0,0 +1,335 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, Replace, ChevronDown, ChevronRight, FileText, AlertCircle } from 'lucide-react';
+import { useProject } from '../../contexts/ProjectContext';
+import { SearchCancelledError, SearchService } from '../../services/SearchService';
+import type { FileSearchResult, SearchMatch, SearchOptions, SearchResults } from '../../lib/search';
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 250;
+const MAX_RECENT_SEARCHES = 5;
+
+// One line of a file's results, with the match highlighted and, while a
+// replacement is typed, what it turns into
+const MatchRow: React.FC<{ match: SearchMatch; onOpen: () => void }> = ({ match, onOpen }) => {
+  const before = match.preview.slice(0, match.previewStart);
+  const matched = match.preview.slice(match.previewStart, match.previewStart + match.length);
+  const after = match.preview.slice(match.previewStart + match.length);
+
+  return (
+    <div className="search-result-match" onClick={onOpen} title={`Line ${match.line}, column ${match.column + 1}`}>
+      <span className="search-result-line">{match.line}</span>
+      <span className="search-result-preview">
+        {before}
+        <mark className={match.replacement !== undefined ? 'search-result-removed' : 'search-result-highlight'}>
+          {matched}
+        </mark>
+        {match.replacement !== undefined && (
+          <mark className="search-result-added">{match.replacement}</mark>
+        )}
+        {after}
+      </span>
+    </div>
+  );
+};
+
+// Results of one file, collapsible, with a checkbox choosing whether a
+// replace applies to it
+const FileResultGroup: React.FC<{
+  result: FileSearchResult;
+  isUnsaved: boolean;
+  isReplacing: boolean;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+  onOpen: () => void;
+}> = ({ result, isUnsaved, isReplacing, isSelected, onToggleSelected, onOpen }) => {
+  const [expanded, setExpanded] = useState(true);
+  const fileName = result.path.split('/').pop() || result.path;
+  const directory = result.path.slice(0, result.path.length - fileName.length).replace(/\/$/, '');
+
+  return (
+    <div className="search-result-file">
+      <div className="search-result-file-header" onClick={() => setExpanded(!expanded)}>
+        {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        {isReplacing && (
+          <input
+            type="checkbox"
+            className="search-checkbox"
+            checked={isSelected && !isUnsaved}
+            disabled={isUnsaved}
+            onClick={(e) => e.stopPropagation()}
+            onChange={onToggleSelected}
+            aria-label={`Replace in ${result.path}`}
+            title={isUnsaved ? 'Save or discard the unsaved changes to replace in this file' : undefined}
+          />
+        )}
+        <FileText size={14} />
+        <span className="search-result-file-name">{fileName}</span>
+        {directory && <span className="search-result-file-dir">{directory}</span>}
+        {isUnsaved && <span className="search-result-file-dir">(unsaved)</span>}
+        <span className="search-result-count">{result.matches.length}</span>
+      </div>
+      {expanded && result.matches.map((match) => (
+        <MatchRow key={`${match.line}:${match.column}`} match={match} onOpen={onOpen} />
+      ))}
+    </div>
+  );
+};
+
+// Workspace-wide search and replace over the project's saved files
+const SearchPanel: React.FC = () => {
+  const { projectState, openFile, saveFile } = useProject();
+  const [options, setOptions] = useState<SearchOptions>({
+    query: '',
+    isRegex: false,
+    isCaseSensitive: false,
+    isWholeWord: false,
+    include: '',
+    exclude: ''
+  });
+  const [replacement, setReplacement] = useState('');
+  const [showReplace, setShowReplace] = useState(false);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [excludedFromReplace, setExcludedFromReplace] = useState<Set<string>>(new Set());
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  // An empty replacement deletes the matches, so it counts as replacing too
+  const isReplacing = showReplace;
+
+  // Search again whenever the query, options or files change
+  useEffect(() => {
+    if (!options.query) {
+      SearchService.cancel();
+      setResults(null);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let current = true;
+    const timer = setTimeout(() => {
+      setIsSearching(true);
+      SearchService.search(projectState.files, options, isReplacing ? replacement : undefined)
+        .then((found) => {
+          if (!current) return;
+          setResults(found);
+          setError(null);
+        })
+        .catch((searchError) => {
+          if (!current || searchError instanceof SearchCancelledError) return;
+          setResults(null);
+          setError(searchError.message);
+        })
+        .finally(() => {
+          if (current) setIsSearching(false);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [projectState.files, options, isReplacing, replacement]);
+
+  // Files the replace would change: every file with results that the user
+  // has not unchecked and that has no unsaved edits to overwrite
+  const replaceTargets = useMemo(() => (results?.files || [])
+    .map(file => file.path)
+    .filter(path => !excludedFromReplace.has(path) && !projectState.unsavedChanges.has(path)),
+  [results, excludedFromReplace, projectState.unsavedChanges]);
+
+  const rememberSearch = () => {
+    const query = options.query;
+    if (!query) return;
+    setRecentSearches(prev => [query, ...prev.filter(q => q !== query)].slice(0, MAX_RECENT_SEARCHES));
+  };
+
+  const updateOption = <K extends keyof SearchOptions>(key: K, value: SearchOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleReplaceTarget = (path: string) => {
+    setExcludedFromReplace(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  // Write the previewed replacements, one file at a time through saveFile
+  const applyReplace = async () => {
+    if (replaceTargets.length === 0) return;
+
+    setIsApplying(true);
+    try {
+      const contents = await SearchService.replace(projectState.files, replaceTargets, options, replacement);
+      for (const [path, content] of Object.entries(contents)) {
+        await saveFile(path, content);
+      }
+      setExcludedFromReplace(new Set());
+    } catch (replaceError) {
+      setError((replaceError as Error).message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="search-panel">
+      <div className="search-input-container">
+        <Search size={14} className="search-icon" />
+        <input
+          type="text"
+          className="search-input"
+          placeholder="Search in project..."
+          value={options.query}
+          onChange={(e) => updateOption('query', e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && rememberSearch()}
+          onBlur={rememberSearch}
+          aria-label="Search"
+        />
+        <button
+          type="button"
+          className={`icon-button small search-replace-toggle ${showReplace ? 'active' : ''}`}
+          onClick={() => setShowReplace(!showReplace)}
+          aria-label="Toggle replace"
+          title="Toggle replace"
+        >
+          <Replace size={14} />
+        </button>
+      </div>
+
+      {showReplace && (
+        <div className="search-input-container">
+          <Replace size={14} className="search-icon" />
+          <input
+            type="text"
+            className="search-input"
+            placeholder={options.isRegex ? 'Replace ($1 refers to a group)' : 'Replace'}
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            aria-label="Replace"
+          />
+        </div>
+      )}
+
+      <div className="search-options">
+        <label className="search-option">
+          <input
+            type="checkbox"
+            className="search-checkbox"
+            checked={options.isCaseSensitive}
+            onChange={(e) => updateOption('isCaseSensitive', e.target.checked)}
+          />
+          <span>Case sensitive</span>
+        </label>
+        <label className="search-option">
+          <input
+            type="checkbox"
+            className="search-checkbox"
+            checked={options.isWholeWord}
+            onChange={(e) => updateOption('isWholeWord', e.target.checked)}
+          />
+          <span>Whole word</span>
+        </label>
+        <label className="search-option">
+          <input
+            type="checkbox"
+            className="search-checkbox"
+            checked={options.isRegex}
+            onChange={(e) => updateOption('isRegex', e.target.checked)}
+          />
+          <span>Regular expression</span>
+        </label>
+      </div>
+
+      <div className="search-filters">
+        <input
+          type="text"
+          className="search-input search-filter-input"
+          placeholder="Files to include (e.g. src/**/*.ts)"
+          value={options.include}
+          onChange={(e) => updateOption('include', e.target.value)}
+          aria-label="Files to include"
+        />
+        <input
+          type="text"
+          className="search-input search-filter-input"
+          placeholder="Files to exclude (e.g. node_modules, *.md)"
+          value={options.exclude}
+          onChange={(e) => updateOption('exclude', e.target.value)}
+          aria-label="Files to exclude"
+        />
+      </div>
+
+      {error && (
+        <div className="search-message search-error">
+          <AlertCircle size={14} />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {results && !error && (
+        <>
+          <div className="search-summary">
+            <span>
+              {isSearching ? 'Searching… ' : ''}
+              {results.matchCount === 0
+                ? 'No results'
+                : `${results.matchCount} result${results.matchCount === 1 ? '' : 's'} in ${results.files.length} file${results.files.length === 1 ? '' : 's'}`}
+              {results.limitHit && ' (showing the first results only)'}
+            </span>
+            {isReplacing && results.matchCount > 0 && (
+              <button
+                type="button"
+                className="search-apply-button"
+                onClick={applyReplace}
+                disabled={isApplying || isSearching || replaceTargets.length === 0}
+              >
+                {isApplying
+                  ? 'Replacing…'
+                  : `Replace in ${replaceTargets.length} file${replaceTargets.length === 1 ? '' : 's'}`}
+              </button>
+            )}
+          </div>
+
+          <div className="search-results">
+            {results.files.map(result => (
+              <FileResultGroup
+                key={result.path}
+                result={result}
+                isUnsaved={projectState.unsavedChanges.has(result.path)}
+                isReplacing={isReplacing}
+                isSelected={!excludedFromReplace.has(result.path)}
+                onToggleSelected={() => toggleReplaceTarget(result.path)}
+                onOpen={() => openFile(result.path)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {!options.query && recentSearches.length > 0 && (
+        <div className="search-history">
+          <div className="search-history-heading">Recent Searches</div>
+          <div className="search-history-items">
+            {recentSearches.map(query => (
+              <div key={query} className="search-history-item" onClick={() => updateOption('query', query)}>
+                <Search size={12} />
+                <span>{query}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef } from 'react';
+import { Terminal as XTerm } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import type { IExecExitPayload, IExecOutputPayload } from '@shared/api-types';
+import { WebSocketService, WebSocketMessage, WebSocketMessageType } from '../../services/WebSocketService';
+import { useWebSocket } from '../../contexts/WebSocketContext';
+import { useProject } from '../../contexts/ProjectContext';
+
+interface CommandPaneProps {
+  id: string;
+  command: string;
+  active: boolean;
+  onExit?: (id: string, exitCode: number) => void;
+}
+
+/**
+ * A terminal tab running one long-lived command (a dev server, a test
+ * watcher) on the server. Its output streams in line by line until the
+ * command exits or is cancelled; the tab id doubles as the process id.
+ */
+const CommandPane: React.FC<CommandPaneProps> = ({ id, command, active, onExit }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const xtermRef = useRef<XTerm | null>(null);
+  const fitAddonRef = useRef<FitAddon | null>(null);
+  const runningRef = useRef(false);
+  const startedRef = useRef(false);
+  const onExitRef = useRef(onExit);
+  const { connected, sendMessage } = useWebSocket();
+  const { projectState } = useProject();
+
+  onExitRef.current = onExit;
+
+  // Create the output screen and wire it to the server process
+  useEffect(() => {
+    const xterm = new XTerm({
+      disableStdin: true,
+      convertEol: true,
+      fontFamily: "'Cascadia Code', monospace",
+      fontSize: 13,
+      theme: {
+        background: '#0c0e20',
+        foreground: '#dfe1f1',
+        cursor: '#0c0e20',
+      },
+    });
+    const fitAddon = new FitAddon();
+    xterm.loadAddon(fitAddon);
+    xterm.open(containerRef.current!);
+    fitAddon.fit();
+
+    xtermRef.current = xterm;
+    fitAddonRef.current = fitAddon;
+    xterm.writeln(`\x1b[2m$ ${command}\x1b[0m`);
+
+    const wsService = WebSocketService.getInstance();
+    const handleMessage = (message: WebSocketMessage) => {
+      if (message.payload?.id !== id) return;
+
+      if (message.type === WebSocketMessageType.EXEC_STDOUT) {
+        xterm.writeln((message.payload as IExecOutputPayload).line);
+      } else if (message.type === WebSocketMessageType.EXEC_STDERR) {
+        xterm.writeln(`\x1b[31m${(message.payload as IExecOutputPayload).line}\x1b[0m`);
+      } else if (message.type === WebSocketMessageType.EXEC_EXIT) {
+        const { exitCode, signal, timedOut, error } = message.payload as IExecExitPayload;
+        if (error) {
+          xterm.writeln(`\x1b[31m${error}\x1b[0m`);
+        }
+        const reason = timedOut ? 'timed out' : signal ? `stopped by ${signal}` : `exited with code ${exitCode}`;
+        xterm.writeln(`\r\n\x1b[2m[Process ${reason}]\x1b[0m`);
+        runningRef.current = false;
+        onExitRef.current?.(id, exitCode);
+      }
+    };
+    wsService.addMessageListener(handleMessage);
+
+    // Keep the output grid in step with the panel size
+    const resizeObserver = new ResizeObserver(() => {
+      if (containerRef.current?.offsetParent) {
+        fitAddon.fit();
+      }
+    });
+    resizeObserver.observe(containerRef.current!);
+
+    return () => {
+      resizeObserver.disconnect();
+      wsService.removeMessageListener(handleMessage);
+      if (runningRef.current) {
+        sendMessage(WebSocketMessageType.EXEC_CANCEL, { id });
+        runningRef.current = false;
+      }
+      xterm.dispose();
+      xtermRef.current = null;
+      fitAddonRef.current = null;
+    };
+  }, [id]);
+
+  // Start the command once connected. The server stops every process of
+  // a connection when it drops, so the command is not restarted on reconnect
+  useEffect(() => {
+    const xterm = xtermRef.current;
+    if (!xterm) return;
+
+    if (connected && !startedRef.current) {
+      sendMessage(WebSocketMessageType.EXEC_START, {
+        id,
+        command,
+        projectId: projectState.projectId ?? undefined,
+      });
+      startedRef.current = true;
+      runningRef.current = true;
+    } else if (!connected && runningRef.current) {
+      xterm.writeln('\r\n\x1b[31m[Connection lost]\x1b[0m');
+      runningRef.current = false;
+      onExitRef.current?.(id, 1);
+    }
+  }, [connected, id]);
+
+  // Refit when this tab becomes visible
+  useEffect(() => {
+    if (active) {
+      fitAddonRef.current?.fit();
+    }
+  }, [active]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="terminal-pane"
+      style={{ display: active ? 'block' : 'none' }}
+    />
+  );
+};
+
+export default CommandPane;
@@ -1,118 +1,105 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ChevronRight, X, Minimize, Maximize, Terminal as TerminalIcon } from 'lucide-react';
+import React, { useState, useCallback } from 'react';
+import { ChevronRight, X, Minimize, Maximize, Plus, Play, Square, Terminal as TerminalIcon } from 'lucide-react';
+import { nanoid } from 'nanoid';
+import TerminalPane from './TerminalPane';
+import CommandPane from './CommandPane';
+import { useWebSocket } from '../../contexts/WebSocketContext';
+import { WebSocketMessageType } from '../../services/WebSocketService';
 
 interface TerminalProps {
   initialOpen?: boolean;
 }
 
-interface TerminalHistoryItem {
-  type: 'command' | 'output' | 'error' | 'success';
-  content: string;
+interface TerminalTab {
+  id: string;
+  title: string;
+  exited: boolean;
+  command?: string; // Set for tabs running a single command instead of a shell
 }
 
+let terminalCounter = 0;
+
+const createTab = (): TerminalTab => ({
+  id: nanoid(),
+  title: `bash ${++terminalCounter}`,
+  exited: false,
+});
+
+const createCommandTab = (command: string): TerminalTab => ({
+  id: nanoid(),
+  title: command,
+  exited: false,
+  command,
+});
+
 const Terminal: React.FC<TerminalProps> = ({ initialOpen = false }) => {
   const [isOpen, setIsOpen] = useState(initialOpen);
-  const [command, setCommand] = useState('');
-  const [history, setHistory] = useState<TerminalHistoryItem[]>([
-    { type: 'output', content: 'Welcome to MAIK IDE Terminal' },
-    { type: 'output', content: 'Type "help" for a list of available commands' },
-  ]);
   const [minimized, setMinimized] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
-  const historyRef = useRef<HTMLDivElement>(null);
-  
-  // Focus the input when the terminal is opened
-  useEffect(() => {
-    if (isOpen && !minimized && inputRef.current) {
-      inputRef.current.focus();
-    }
-  }, [isOpen, minimized]);
-  
-  // Scroll to bottom when history changes
-  useEffect(() => {
-    if (historyRef.current) {
-      historyRef.current.scrollTop = historyRef.current.scrollHeight;
-    }
-  }, [history]);
-  
-  // Handle command submission
-  const handleSubmit = (e: React.FormEvent) => {
+  const [tabs, setTabs] = useState<TerminalTab[]>(() => initialOpen ? [createTab()] : []);
+  const [activeTabId, setActiveTabId] = useState<string | null>(() => tabs[0]?.id ?? null);
+  const [commandDraft, setCommandDraft] = useState<string | null>(null);
+  const { sendMessage } = useWebSocket();
+
+  // Open a new terminal tab with its own shell session
+  const addTab = () => {
+    const tab = createTab();
+    setTabs(prev => [...prev, tab]);
+    setActiveTabId(tab.id);
+  };
+
+  // Open a tab streaming the output of one command, such as a dev server
+  const runCommand = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!command.trim()) return;
-    
-    // Add command to history
-    setHistory(prev => [...prev, { type: 'command', content: command }]);
-    
-    // Process command
-    processCommand(command);
-    
-    // Clear command input
-    setCommand('');
+    const command = commandDraft?.trim();
+    if (!command) return;
+
+    const tab = createCommandTab(command);
+    setTabs(prev => [...prev, tab]);
+    setActiveTabId(tab.id);
+    setCommandDraft(null);
   };
-  
-  // Process a command
-  const processCommand = (cmd: string) => {
-    const lowerCmd = cmd.toLowerCase().trim();
-    
-    if (lowerCmd === 'clear' || lowerCmd === 'cls') {
-      setHistory([]);
-      return;
-    }
-    
-    if (lowerCmd === 'help') {
-      setHistory(prev => [...prev, { 
-        type: 'output', 
-        content: `Available commands:
-  help - Show this help message
-  clear - Clear the terminal
-  echo [text] - Echo text back to the terminal
-  time - Show current time
-  exit - Close the terminal` 
-      }]);
-      return;
+
+  // Stop a running command, leaving its output in the tab
+  const cancelCommand = (id: string) => {
+    sendMessage(WebSocketMessageType.EXEC_CANCEL, { id });
+  };
+
+  // Close a terminal tab and end its shell session
+  const closeTab = (id: string) => {
+    const index = tabs.findIndex(tab => tab.id === id);
+    const remaining = tabs.filter(tab => tab.id !== id);
+
+    setTabs(remaining);
+    if (id === activeTabId) {
+      const next = remaining[Math.min(index, remaining.length - 1)];
+      setActiveTabId(next?.id ?? null);
     }
-    
-    if (lowerCmd === 'exit') {
+    if (remaining.length === 0) {
       setIsOpen(false);
-      return;
-    }
-    
-    if (lowerCmd === 'time') {
-      const now = new Date();
-      setHistory(prev => [...prev, { 
-        type: 'output', 
-        content: `Current time: ${now.toLocaleTimeString()}` 
-      }]);
-      return;
-    }
-    
-    if (lowerCmd.startsWith('echo ')) {
-      const text = cmd.substring(5);
-      setHistory(prev => [...prev, { type: 'output', content: text }]);
-      return;
     }
-    
-    // Command not recognized
-    setHistory(prev => [...prev, { 
-      type: 'output', 
-      content: `Command not found: ${cmd}. Type "help" for available commands.` 
-    }]);
   };
-  
+
+  // Mark a tab whose shell or command has ended
+  const handleExit = useCallback((id: string) => {
+    setTabs(prev => prev.map(tab => tab.id === id ? { ...tab, exited: true } : tab));
+  }, []);
+
   // Toggle terminal visibility
   const toggleTerminal = () => {
     setIsOpen(!isOpen);
     if (!isOpen) {
       setMinimized(false);
+      if (tabs.length === 0) {
+        addTab();
+      }
     }
   };
-  
+
   // Toggle minimized state
   const toggleMinimize = () => {
     setMinimized(!minimized);
   };
-  
+
   return (
     <div className="terminal-wrapper">
       {/* Terminal button */}
@@ -129,16 +116,91 @@ const Terminal: React.FC<TerminalProps> = ({ initialOpen = false }) => {
           </button>
         </div>
       )}
-      
-      {/* Terminal panel */}
-      {isOpen && (
-        <div className="terminal-container">
+
+      {/* Terminal panel (kept mounted while hidden so shells keep running) */}
+      {tabs.length > 0 && (
+        <div className="terminal-container" style={{ display: isOpen ? 'flex' : 'none', height: minimized ? 'auto' : undefined }}>
           {/* Terminal header */}
           <div className="terminal-header">
             <div className="terminal-title">
               <TerminalIcon size={14} />
               <span>TERMINAL</span>
             </div>
+
+            {/* Terminal tabs */}
+            <div className="terminal-tab-list" role="tablist">
+              {tabs.map(tab => (
+                <div
+                  key={tab.id}
+                  role="tab"
+                  aria-selected={tab.id === activeTabId}
+                  className={`terminal-tab ${tab.id === activeTabId ? 'active' : ''} ${tab.exited ? 'exited' : ''}`}
+                  onClick={() => setActiveTabId(tab.id)}
+                >
+                  <span>{tab.title}</span>
+                  {tab.command && !tab.exited && (
+                    <button
+                      type="button"
+                      className="terminal-tab-close"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        cancelCommand(tab.id);
+                      }}
+                      aria-label={`Stop ${tab.title}`}
+                      title="Stop command"
+                    >
+                      <Square size={10} />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="terminal-tab-close"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      closeTab(tab.id);
+                    }}
+                    aria-label={`Close ${tab.title}`}
+                    title="Close terminal"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                className="icon-button small"
+                onClick={addTab}
+                aria-label="New terminal"
+                title="New terminal"
+              >
+                <Plus size={14} />
+              </button>
+              {commandDraft === null ? (
+                <button
+                  type="button"
+                  className="icon-button small"
+                  onClick={() => setCommandDraft('')}
+                  aria-label="Run command"
+                  title="Run command"
+                >
+                  <Play size={14} />
+                </button>
+              ) : (
+                <form className="terminal-input-form" onSubmit={runCommand}>
+                  <input
+                    className="terminal-input"
+                    value={commandDraft}
+                    onChange={(e) => setCommandDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setCommandDraft(null)}
+                    onBlur={() => !commandDraft.trim() && setCommandDraft(null)}
+                    placeholder="npm run dev"
+                    aria-label="Command to run"
+                    autoFocus
+                  />
+                </form>
+              )}
+            </div>
+
             <div className="terminal-controls">
               <button
                 type="button"
@@ -153,56 +215,33 @@ const Terminal: React.FC<TerminalProps> = ({ initialOpen = false }) => {
                 type="button"
                 className="icon-button small"
                 onClick={toggleTerminal}
-                aria-label="Close terminal"
-                title="Close terminal"
+                aria-label="Hide terminal"
+                title="Hide terminal"
               >
                 <X size={14} />
               </button>
             </div>
           </div>
-          
+
           {/* Terminal content */}
-          {!minimized && (
-            <div className="terminal-content">
-              {/* Command history */}
-              <div 
-                ref={historyRef}
-                className="terminal-history"
-              >
-                {history.map((item, index) => (
-                  <div key={index} className="terminal-history-item">
-                    {item.type === 'command' ? (
-                      <div className="terminal-command">
-                        <span className="terminal-prompt">{'>'}</span>
-                        <span>{item.content}</span>
-                      </div>
-                    ) : item.type === 'error' ? (
-                      <div className="terminal-error">{item.content}</div>
-                    ) : item.type === 'success' ? (
-                      <div className="terminal-success">{item.content}</div>
-                    ) : (
-                      <div className="terminal-output">{item.content}</div>
-                    )}
-                  </div>
-                ))}
-              </div>
-              
-              {/* Command input */}
-              <form onSubmit={handleSubmit} className="terminal-input-form">
-                <div className="terminal-input-container">
-                  <span className="terminal-prompt">{'>'}</span>
-                  <input
-                    ref={inputRef}
-                    value={command}
-                    onChange={(e) => setCommand(e.target.value)}
-                    className="terminal-input"
-                    spellCheck={false}
-                    autoComplete="off"
-                  />
-                </div>
-              </form>
-            </div>
-          )}
+          <div className="terminal-content" style={{ display: minimized ? 'none' : 'flex' }}>
+            {tabs.map(tab => tab.command ? (
+              <CommandPane
+                key={tab.id}
+                id={tab.id}
+                command={tab.command}
+                active={isOpen && !minimized && tab.id === activeTabId}
+                onExit={handleExit}
+              />
+            ) : (
+              <TerminalPane
+                key={tab.id}
+                id={tab.id}
+                active={isOpen && !minimized && tab.id === activeTabId}
+                onExit={handleExit}
+              />
+            ))}
+          </div>
         </div>
       )}
     </div>
@@ -212,4 +251,4 @@ const Terminal: React.FC<TerminalProps> = ({ initialOpen = false }) => {
 // Set display name for component identification in layout
 Terminal.displayName = 'Terminal';
 
-export default Terminal;
\ No newline at end of file
+export default Terminal;
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef } from 'react';
+import { Terminal as XTerm } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import type { ITerminalExitPayload, ITerminalOutputPayload } from '@shared/api-types';
+import { WebSocketService, WebSocketMessage, WebSocketMessageType } from '../../services/WebSocketService';
+import { useWebSocket } from '../../contexts/WebSocketContext';
+import { useProject } from '../../contexts/ProjectContext';
+
+interface TerminalPaneProps {
+  id: string;
+  active: boolean;
+  onExit?: (id: string, exitCode: number) => void;
+}
+
+/**
+ * A single terminal tab: an xterm.js screen bound to a shell session
+ * on the server. Keyboard input (including Ctrl+C and history keys)
+ * goes straight to the shell, which handles it like a local terminal.
+ */
+const TerminalPane: React.FC<TerminalPaneProps> = ({ id, active, onExit }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const xtermRef = useRef<XTerm | null>(null);
+  const fitAddonRef = useRef<FitAddon | null>(null);
+  const sessionOpenRef = useRef(false);
+  const exitedRef = useRef(false);
+  const openedOnceRef = useRef(false);
+  const onExitRef = useRef(onExit);
+  const { connected, sendMessage } = useWebSocket();
+  const { projectState } = useProject();
+
+  onExitRef.current = onExit;
+
+  // Create the terminal screen and wire it to the server session
+  useEffect(() => {
+    const xterm = new XTerm({
+      cursorBlink: true,
+      fontFamily: "'Cascadia Code', monospace",
+      fontSize: 13,
+      theme: {
+        background: '#0c0e20',
+        foreground: '#dfe1f1',
+        cursor: '#c678dd',
+      },
+    });
+    const fitAddon = new FitAddon();
+    xterm.loadAddon(fitAddon);
+    xterm.open(containerRef.current!);
+    fitAddon.fit();
+
+    xtermRef.current = xterm;
+    fitAddonRef.current = fitAddon;
+
+    const inputSubscription = xterm.onData(data => {
+      if (sessionOpenRef.current) {
+        sendMessage(WebSocketMessageType.TERMINAL_INPUT, { id, data });
+      }
+    });
+
+    const resizeSubscription = xterm.onResize(({ cols, rows }) => {
+      if (sessionOpenRef.current) {
+        sendMessage(WebSocketMessageType.TERMINAL_RESIZE, { id, cols, rows });
+      }
+    });
+
+    const wsService = WebSocketService.getInstance();
+    const handleMessage = (message: WebSocketMessage) => {
+      if (message.payload?.id !== id) return;
+
+      if (message.type === WebSocketMessageType.TERMINAL_OUTPUT) {
+        xterm.write((message.payload as ITerminalOutputPayload).data);
+      } else if (message.type === WebSocketMessageType.TERMINAL_EXIT) {
+        const { exitCode, error } = message.payload as ITerminalExitPayload;
+        sessionOpenRef.current = false;
+        exitedRef.current = true;
+        if (error) {
+          xterm.writeln(`\r\n\x1b[31m${error}\x1b[0m`);
+        }
+        xterm.writeln(`\r\n\x1b[2m[Process exited with code ${exitCode}]\x1b[0m`);
+        onExitRef.current?.(id, exitCode);
+      }
+    };
+    wsService.addMessageListener(handleMessage);
+
+    // Keep the terminal grid in step with the panel size
+    const resizeObserver = new ResizeObserver(() => {
+      if (containerRef.current?.offsetParent) {
+        fitAddon.fit();
+      }
+    });
+    resizeObserver.observe(containerRef.current!);
+
+    return () => {
+      resizeObserver.disconnect();
+      wsService.removeMessageListener(handleMessage);
+      inputSubscription.dispose();
+      resizeSubscription.dispose();
+      if (sessionOpenRef.current) {
+        sendMessage(WebSocketMessageType.TERMINAL_CLOSE, { id });
+        sessionOpenRef.current = false;
+      }
+      xterm.dispose();
+      xtermRef.current = null;
+      fitAddonRef.current = null;
+    };
+  }, [id]);
+
+  // Open a shell whenever the connection is (re)established. The server
+  // ends all shells of a connection when it drops, so a reconnect gets a
+  // fresh session.
+  useEffect(() => {
+    const xterm = xtermRef.current;
+    if (!xterm) return;
+
+    if (connected) {
+      if (sessionOpenRef.current || exitedRef.current) return;
+
+      if (openedOnceRef.current) {
+        xterm.writeln('\r\n\x1b[2m[Reconnected: new shell session]\x1b[0m');
+      }
+      // Shells start in the open project's workspace on the server
+      sendMessage(WebSocketMessageType.TERMINAL_OPEN, {
+        id,
+        projectId: projectState.projectId ?? undefined,
+        cols: xterm.cols,
+        rows: xterm.rows,
+      });
+      sessionOpenRef.current = true;
+      openedOnceRef.current = true;
+    } else if (sessionOpenRef.current) {
+      sessionOpenRef.current = false;
+      xterm.writeln('\r\n\x1b[31m[Connection lost]\x1b[0m');
+    }
+  }, [connected, id]);
+
+  // Refit and focus when this tab becomes visible
+  useEffect(() => {
+    if (active) {
+      fitAddonRef.current?.fit();
+      xtermRef.current?.focus();
+    }
+  }, [active]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="terminal-pane"
+      style={{ display: active ? 'block' : 'none' }}
+    />
+  );
+};
+
+export default TerminalPane;
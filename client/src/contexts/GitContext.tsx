@@ -0,0 +1,242 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useProject } from './ProjectContext';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { GitService, GitCommitEntry, GitStatus } from '../services/GitService';
+import { SyncService } from '../services/SyncService';
+
+// Wait for saves to settle before comparing the project with the repository
+const REFRESH_DELAY_MS = 300;
+
+// A change whose diff is shown in place of the editor
+export interface GitDiffTarget {
+  path: string;
+  staged: boolean;
+}
+
+interface GitContextProps {
+  status: GitStatus | null;
+  branches: string[];
+  commits: GitCommitEntry[];
+  isBusy: boolean;
+  error: string | null;
+  diffTarget: GitDiffTarget | null;
+  // Files changed both here and on the remote by the last sync
+  syncConflicts: string[] | null;
+  refresh: () => Promise<void>;
+  stage: (paths: string[]) => Promise<void>;
+  unstage: (paths: string[]) => Promise<void>;
+  commit: (message: string) => Promise<boolean>;
+  createBranch: (name: string, switchTo?: boolean) => Promise<void>;
+  switchBranch: (name: string) => Promise<void>;
+  syncRemote: (resolve?: 'ours' | 'theirs') => Promise<void>;
+  openDiff: (target: GitDiffTarget) => void;
+  closeDiff: () => void;
+}
+
+const GitContext = createContext<GitContextProps | undefined>(undefined);
+
+// Source control state of the project, shared by the source control panel,
+// the branch indicator in the menu bar and the diff view
+export const GitProvider = ({ children }: { children: ReactNode }) => {
+  const { projectState, applyFileChanges } = useProject();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [branches, setBranches] = useState<string[]>([]);
+  const [commits, setCommits] = useState<GitCommitEntry[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [diffTarget, setDiffTarget] = useState<GitDiffTarget | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<string[] | null>(null);
+  const filesRef = useRef(projectState.files);
+  filesRef.current = projectState.files;
+
+  const refresh = useCallback(async () => {
+    try {
+      const files = filesRef.current;
+      setStatus(await GitService.status(files));
+      setBranches(await GitService.listBranches());
+      setCommits(await GitService.log());
+      setError(null);
+    } catch (refreshError) {
+      console.error('Failed to read repository status:', refreshError);
+      setError((refreshError as Error).message);
+    }
+  }, []);
+
+  // Each of the user's projects has a repository of its own
+  useEffect(() => {
+    if (user && projectState.projectId) {
+      GitService.open(user.id, projectState.projectId).catch(openError => {
+        console.error('Failed to open repository:', openError);
+      });
+    }
+  }, [user?.id, projectState.projectId]);
+
+  // Compare again whenever the saved files change. Nothing is compared
+  // until the project's files have loaded, as every committed file would
+  // show as deleted from the empty project before then
+  useEffect(() => {
+    if (!user || !projectState.projectId) {
+      setStatus(null);
+      return;
+    }
+
+    const timer = setTimeout(refresh, REFRESH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectState.files, projectState.projectId, user?.id, refresh]);
+
+  // Run a repository operation, reporting failures, then show its effect.
+  // Operations that rewrite project files leave the refresh to the effect
+  // above, as the files read here are not updated until the next render
+  const perform = useCallback(async (
+    title: string,
+    operation: () => Promise<void>,
+    refreshAfter = true
+  ): Promise<boolean> => {
+    setIsBusy(true);
+    try {
+      await operation();
+      return true;
+    } catch (operationError) {
+      console.error(`${title}:`, operationError);
+      toast({
+        title,
+        description: (operationError as Error).message,
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      if (refreshAfter) {
+        await refresh();
+      }
+      setIsBusy(false);
+    }
+  }, [refresh, toast]);
+
+  const stage = useCallback(async (paths: string[]) => {
+    await perform('Stage Failed', () => GitService.stage(paths, filesRef.current));
+  }, [perform]);
+
+  const unstage = useCallback(async (paths: string[]) => {
+    await perform('Unstage Failed', () => GitService.unstage(paths));
+  }, [perform]);
+
+  const commit = useCallback((message: string) => perform('Commit Failed', async () => {
+    const name = user?.username || 'MAIK IDE';
+    const oid = await GitService.commit(message, { name, email: '' });
+    setDiffTarget(prev => prev?.staged ? null : prev);
+    toast({
+      title: "Changes Committed",
+      description: `${oid.slice(0, 7)} ${message.split('\n')[0]}`
+    });
+  }), [perform, toast, user]);
+
+  const switchBranch = useCallback(async (name: string) => {
+    await perform('Switch Branch Failed', async () => {
+      if (projectState.unsavedChanges.size > 0) {
+        throw new Error('Save or discard your unsaved edits before switching branches');
+      }
+
+      const { written, deleted } = await GitService.checkout(name, filesRef.current);
+      await applyFileChanges(written, deleted);
+      setDiffTarget(null);
+      toast({
+        title: "Switched Branch",
+        description: `Now on ${name}.`
+      });
+    }, false);
+  }, [perform, projectState.unsavedChanges, applyFileChanges, toast]);
+
+  const createBranch = useCallback(async (name: string, switchTo = true) => {
+    const created = await perform('Create Branch Failed', () => GitService.createBranch(name));
+    if (created && switchTo) {
+      await switchBranch(name);
+    }
+  }, [perform, switchBranch]);
+
+  // Sync the saved project with the server's git remote, bringing in what
+  // changed there. Conflicts are kept until settled by syncing again with
+  // our or their side of the conflicting files
+  const syncRemote = useCallback(async (resolve?: 'ours' | 'theirs') => {
+    await perform('Sync Failed', async () => {
+      if (!projectState.projectId) {
+        throw new Error('Open a project to sync it');
+      }
+      if (projectState.unsavedChanges.size > 0) {
+        throw new Error('Save or discard your unsaved edits before syncing');
+      }
+
+      const [result] = await SyncService.syncWithCloud(
+        Object.values(filesRef.current),
+        ['github'],
+        projectState.projectId,
+        resolve
+      );
+      if (result.status === 'conflict') {
+        setSyncConflicts(result.conflicts || []);
+        toast({
+          title: "Sync Conflict",
+          description: "Keep your changes or take the remote ones to finish syncing.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setSyncConflicts(null);
+      const written: Record<string, string> = {};
+      const deleted: string[] = [];
+      for (const file of result.pulled || []) {
+        if (file.content === null) {
+          deleted.push(file.path);
+        } else {
+          written[file.path] = file.content;
+        }
+      }
+      await applyFileChanges(written, deleted);
+      toast({
+        title: "Project Synced",
+        description: result.message
+      });
+    }, false);
+  }, [perform, projectState.projectId, projectState.unsavedChanges, applyFileChanges, toast]);
+
+  // Conflicts belong to the project they were found in
+  useEffect(() => {
+    setSyncConflicts(null);
+  }, [projectState.projectId]);
+
+  const value: GitContextProps = {
+    status,
+    branches,
+    commits,
+    isBusy,
+    error,
+    diffTarget,
+    syncConflicts,
+    refresh,
+    stage,
+    unstage,
+    commit,
+    createBranch,
+    switchBranch,
+    syncRemote,
+    openDiff: setDiffTarget,
+    closeDiff: () => setDiffTarget(null)
+  };
+
+  return (
+    <GitContext.Provider value={value}>
+      {children}
+    </GitContext.Provider>
+  );
+};
+
+export const useGit = (): GitContextProps => {
+  const context = useContext(GitContext);
+  if (!context) {
+    throw new Error("useGit must be used within a GitProvider");
+  }
+  return context;
+};
@@ -1,31 +1,38 @@
-import { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
+import { createContext, useContext, useState, useCallback, ReactNode, useEffect, useRef } from 'react';
 import { ProjectState, FileEntry, BackupOptions } from '../types';
 import { WebContainerService } from '../services/WebContainerService';
 import { BackupService } from '../services/BackupService';
 import { StorageService } from '../services/StorageService';
-import { SyncService } from '../services/SyncService';
+import { ProjectService } from '../services/ProjectService';
+import { FormatService } from '../services/FormatService';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '../hooks/useAuth';
 
 // Define the shape of our context
 export interface ProjectContextProps {
   projectState: ProjectState;
-  initializeProject: () => Promise<void | (() => void)>;
+  initializeProject: (isDisposed?: () => boolean) => Promise<void | (() => void)>;
   openFile: (path: string) => void;
   closeFile: (path: string) => void;
   saveFile: (path: string, content: string) => Promise<void>;
+  setFileUnsaved: (path: string, unsaved: boolean) => void;
   createFile: (path: string, content?: string) => Promise<void>;
   createFolder: (path: string) => Promise<void>;
   deleteFile: (path: string) => Promise<void>;
   renameFile: (oldPath: string, newPath: string) => Promise<void>;
+  applyFileChanges: (written: Record<string, string>, deleted: string[]) => Promise<void>;
   setActiveFile: (path: string | null) => void;
   executeCommand: (command: string) => Promise<{stdout: string, stderr: string, exitCode: number}>;
   runProject: () => Promise<any>;
   createBackup: (options?: Partial<BackupOptions>) => Promise<void>;
   restoreBackup: (backupId: string) => Promise<void>;
+  formatChangedFiles: boolean;
+  setFormatChangedFiles: (enabled: boolean) => void;
 }
 
 // Set initial default state
 const defaultState: ProjectState = {
+  projectId: null,
   files: {},
   openFiles: [],
   activeFile: null,
@@ -45,42 +52,48 @@ const ProjectContext = createContext<ProjectContextProps | undefined>(undefined)
 export const ProjectProvider = ({ children }: { children: ReactNode }) => {
   const [projectState, setProjectState] = useState<ProjectState>(defaultState);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [formatChangedFiles, setFormatChangedFilesState] = useState(() => BackupService.isFormatChangedFiles());
+  // Scheduled backups run the latest createBackup, which sees the current files
+  const createBackupRef = useRef<() => Promise<void>>();
 
-  // Initialize project
-  const initializeProject = useCallback(async () => {
+  // Initialize project; nothing is applied once isDisposed says the load
+  // is no longer wanted, such as after the user signed out during it
+  const initializeProject = useCallback(async (isDisposed: () => boolean = () => false) => {
     try {
-      // Update container status
-      setProjectState(prev => ({ ...prev, containerStatus: 'loading' }));
+      // Open the user's most recently changed project on the server. The
+      // first time, one is created from the files this browser kept before
+      // projects were stored on the server
+      const projects = await ProjectService.listProjects();
+      const project = projects.length > 0
+        ? await ProjectService.loadProject(projects[0].id)
+        : await ProjectService.createProject('My Project', Object.values(await StorageService.loadFiles())
+            .filter(file => file.type === 'file')
+            .map(file => ({ path: file.path, content: file.content ?? '' })));
+      const loadedFiles = ProjectService.toFileEntries(project);
+      if (isDisposed()) return;
       
-      // Initialize WebContainer
-      await WebContainerService.init();
-      
-      // Load project files from local storage
-      const loadedFiles = await StorageService.loadFiles();
-      
-      // Update project state
       setProjectState(prev => ({
         ...prev,
-        files: loadedFiles || {},
-        containerStatus: 'ready',
+        projectId: project.id,
+        files: loadedFiles,
+        containerStatus: 'loading'
       }));
       
+      // Initialize WebContainer
+      await WebContainerService.init();
+      if (isDisposed()) return;
+      setProjectState(prev => ({ ...prev, containerStatus: 'ready' }));
+      
       // Setup backup interval (15 minutes)
       const backupInterval = setInterval(() => {
-        BackupService.createBackup(Object.values(loadedFiles || {}));
-        setProjectState(prev => ({
-          ...prev,
-          backupStatus: {
-            ...prev.backupStatus,
-            lastBackup: new Date(),
-            syncStatus: 'synced'
-          }
-        }));
+        createBackupRef.current?.();
       }, 15 * 60 * 1000);
       
       // Clean up interval on unmount
       return () => clearInterval(backupInterval);
     } catch (error) {
+      if (isDisposed()) return;
       console.error('Failed to initialize project:', error);
       toast({
         title: "Initialization Failed",
@@ -91,6 +104,39 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [toast]);
 
+  // Load the signed-in user's project, and drop it again when they sign out
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId === undefined) {
+      setProjectState(defaultState);
+      return;
+    }
+    
+    let disposed = false;
+    let stopBackups: (() => void) | undefined;
+    initializeProject(() => disposed).then(cleanup => {
+      if (!cleanup) return;
+      if (disposed) {
+        cleanup();
+      } else {
+        stopBackups = cleanup;
+      }
+    });
+    
+    return () => {
+      disposed = true;
+      stopBackups?.();
+    };
+  }, [userId, initializeProject]);
+
+  // Files are saved to the project loaded from the server
+  const getProjectId = useCallback(() => {
+    if (!projectState.projectId) {
+      throw new Error('No project is loaded');
+    }
+    return projectState.projectId;
+  }, [projectState.projectId]);
+
   // File operations
   const openFile = useCallback((path: string) => {
     setProjectState(prev => {
@@ -131,8 +177,8 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
 
   const saveFile = useCallback(async (path: string, content: string) => {
     try {
-      // Save file to storage
-      await StorageService.saveFile(path, content);
+      // Save file to the server
+      await ProjectService.saveFile(getProjectId(), path, content);
       
       // Update file in project state
       setProjectState(prev => {
@@ -192,7 +238,25 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
         variant: "destructive"
       });
     }
-  }, [projectState.containerStatus, toast]);
+  }, [projectState.containerStatus, getProjectId, toast]);
+
+  // Track whether an open file has edits that have not been saved yet
+  const setFileUnsaved = useCallback((path: string, unsaved: boolean) => {
+    setProjectState(prev => {
+      if (prev.unsavedChanges.has(path) === unsaved) {
+        return prev;
+      }
+      
+      const unsavedChanges = new Set(prev.unsavedChanges);
+      if (unsaved) {
+        unsavedChanges.add(path);
+      } else {
+        unsavedChanges.delete(path);
+      }
+      
+      return { ...prev, unsavedChanges };
+    });
+  }, []);
 
   const createFile = useCallback(async (path: string, content = '') => {
     try {
@@ -202,8 +266,8 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
       const extensionMatch = fileName.match(/\.([^.]+)$/);
       const extension = extensionMatch ? extensionMatch[1] : undefined;
       
-      // Create file in storage
-      await StorageService.saveFile(path, content);
+      // Create file on the server
+      await ProjectService.saveFile(getProjectId(), path, content);
       
       // Update project state
       setProjectState(prev => {
@@ -242,7 +306,7 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
         variant: "destructive"
       });
     }
-  }, [projectState.containerStatus, toast]);
+  }, [projectState.containerStatus, getProjectId, toast]);
 
   const createFolder = useCallback(async (path: string) => {
     try {
@@ -288,8 +352,8 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
 
   const deleteFile = useCallback(async (path: string) => {
     try {
-      // Delete from storage
-      await StorageService.deleteFile(path);
+      // Delete from the server
+      await ProjectService.deleteFile(getProjectId(), path);
       
       // Update project state
       setProjectState(prev => {
@@ -334,7 +398,7 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
         variant: "destructive"
       });
     }
-  }, [projectState.containerStatus, toast]);
+  }, [projectState.containerStatus, getProjectId, toast]);
 
   const renameFile = useCallback(async (oldPath: string, newPath: string) => {
     try {
@@ -348,8 +412,8 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
       const pathParts = newPath.split('/');
       const newFileName = pathParts[pathParts.length - 1];
       
-      // Update storage
-      await StorageService.renameFile(oldPath, newPath);
+      // Update the server
+      await ProjectService.renameFile(getProjectId(), oldPath, newPath, file.content ?? '');
       
       // Update project state
       setProjectState(prev => {
@@ -403,7 +467,62 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
         variant: "destructive"
       });
     }
-  }, [projectState.files, projectState.containerStatus, toast]);
+  }, [projectState.files, projectState.containerStatus, getProjectId, toast]);
+
+  // Write and delete many files at once, as a branch switch does, without a
+  // toast per file; failures are left to the caller to report
+  const applyFileChanges = useCallback(async (written: Record<string, string>, deleted: string[]) => {
+    const projectId = getProjectId();
+    for (const [path, content] of Object.entries(written)) {
+      await ProjectService.saveFile(projectId, path, content);
+      if (projectState.containerStatus === 'ready') {
+        await WebContainerService.writeFile(path, content);
+      }
+    }
+    
+    for (const path of deleted) {
+      await ProjectService.deleteFile(projectId, path);
+      if (projectState.containerStatus === 'ready') {
+        await WebContainerService.deleteFile(path);
+      }
+    }
+    
+    setProjectState(prev => {
+      const updatedFiles = { ...prev.files };
+      
+      for (const [path, content] of Object.entries(written)) {
+        const fileName = path.split('/').pop() || path;
+        const extensionMatch = fileName.match(/\.([^.]+)$/);
+        
+        updatedFiles[path] = {
+          ...updatedFiles[path],
+          name: fileName,
+          path,
+          type: 'file',
+          content,
+          extension: extensionMatch ? extensionMatch[1] : undefined,
+          lastModified: new Date()
+        };
+      }
+      
+      for (const path of deleted) {
+        delete updatedFiles[path];
+      }
+      
+      // Close the files that are gone
+      const openFiles = prev.openFiles.filter(p => !deleted.includes(p));
+      const activeFile = prev.activeFile && deleted.includes(prev.activeFile)
+        ? openFiles.length > 0 ? openFiles[0] : null
+        : prev.activeFile;
+      
+      return {
+        ...prev,
+        files: updatedFiles,
+        openFiles,
+        activeFile
+      };
+    });
+  }, [projectState.containerStatus, getProjectId]);
 
   const setActiveFile = useCallback((path: string | null) => {
     if (path === null || projectState.files[path]) {
@@ -454,9 +573,33 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
         }
       }));
       
+      // Format the files changed since the last backup, saving the results
+      let files = projectState.files;
+      if (options?.formatChangedFiles ?? formatChangedFiles) {
+        const lastBackup = projectState.backupStatus.lastBackup;
+        const changedPaths = Object.values(files)
+          .filter(file => file.type === 'file' && (!lastBackup || !file.lastModified || new Date(file.lastModified) > lastBackup))
+          .map(file => file.path);
+        const formatted = await FormatService.formatFiles(changedPaths, files);
+        
+        if (Object.keys(formatted).length > 0) {
+          const updatedFiles: Record<string, FileEntry> = {};
+          for (const [path, content] of Object.entries(formatted)) {
+            await ProjectService.saveFile(getProjectId(), path, content);
+            if (projectState.containerStatus === 'ready') {
+              await WebContainerService.writeFile(path, content);
+            }
+            updatedFiles[path] = { ...files[path], content, lastModified: new Date() };
+          }
+          
+          files = { ...files, ...updatedFiles };
+          setProjectState(prev => ({ ...prev, files: { ...prev.files, ...updatedFiles } }));
+        }
+      }
+      
       // Create backup
       await BackupService.createBackup(
-        Object.values(projectState.files).filter(file => file.type === 'file'),
+        Object.values(files).filter(file => file.type === 'file'),
         options
       );
       
@@ -490,13 +633,32 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
         variant: "destructive"
       });
     }
-  }, [projectState.files, toast]);
+  }, [projectState.files, projectState.backupStatus.lastBackup, projectState.containerStatus, formatChangedFiles, getProjectId, toast]);
+  createBackupRef.current = createBackup;
+  
+  const setFormatChangedFiles = useCallback((enabled: boolean) => {
+    BackupService.setFormatChangedFiles(enabled);
+    setFormatChangedFilesState(enabled);
+  }, []);
 
   const restoreBackup = useCallback(async (backupId: string) => {
     try {
       // Restore backup
       const restoredFiles = await BackupService.restoreBackup(backupId);
       
+      // Replace the project's files on the server with the restored ones
+      const projectId = getProjectId();
+      for (const file of Object.values(restoredFiles)) {
+        if (file.type === 'file') {
+          await ProjectService.saveFile(projectId, file.path, file.content ?? '');
+        }
+      }
+      for (const path of Object.keys(projectState.files)) {
+        if (!restoredFiles[path] && projectState.files[path].type === 'file') {
+          await ProjectService.deleteFile(projectId, path);
+        }
+      }
+      
       // Update project state
       setProjectState(prev => ({
         ...prev,
@@ -518,7 +680,7 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
         variant: "destructive"
       });
     }
-  }, [toast]);
+  }, [projectState.files, getProjectId, toast]);
 
   // Provider value
   const value: ProjectContextProps = {
@@ -527,15 +689,19 @@ export const ProjectProvider = ({ children }: { children: ReactNode }) => {
     openFile,
     closeFile,
     saveFile,
+    setFileUnsaved,
     createFile,
     createFolder,
     deleteFile,
     renameFile,
+    applyFileChanges,
     setActiveFile,
     executeCommand,
     runProject,
     createBackup,
-    restoreBackup
+    restoreBackup,
+    formatChangedFiles,
+    setFormatChangedFiles
   };
 
   return (
@@ -29,6 +29,12 @@ export const WebSocketProvider: React.FC<{ children: ReactNode }> = ({ children
     
     // Add message listener
     const handleMessage = (message: WebSocketMessage) => {
+      // Command and terminal output is consumed directly by the terminal,
+      // and document sync by the collaboration service; both can be very
+      // chatty, so keep them out of the shared message list
+      if (typeof message.type === 'string' && /^(exec|terminal|collab):|^edit$/.test(message.type)) {
+        return;
+      }
       setMessages(prev => [...prev, message]);
     };
     
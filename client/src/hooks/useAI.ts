@@ -1,7 +1,7 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { AIMessage, AIAgent, AIModel } from '../types';
 import { nanoid } from 'nanoid';
-import { AIOrchestrator } from '../services/AIOrchestrator';
+import type { IAIStreamContextPayload, IAIStreamDeltaPayload, IAIStreamErrorPayload, IAIStreamDonePayload } from '@shared/api-types';
 // Mock project context for standalone usage
 const mockProjectState = {
   files: {},
@@ -23,9 +23,48 @@ const useProject = () => {
   };
 };
 
+/**
+ * Read server-sent events from a streaming response
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: any }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        let data = '';
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event: ')) event = line.slice(7);
+          else if (line.startsWith('data: ')) data += line.slice(6);
+        }
+
+        if (data) {
+          yield { event, data: JSON.parse(data) };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 export const useAI = () => {
   const [messages, setMessages] = useState<AIMessage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { projectState } = useProject();
 
   const sendQuery = useCallback(async (query: string, agent: AIAgent = 'Coder', model: AIModel = 'GPT-4') => {
@@ -39,59 +78,97 @@ export const useAI = () => {
       timestamp: new Date()
     };
     
-    setMessages(prev => [...prev, userMessage]);
+    // Add an empty AI message that fills in as the response streams
+    const aiMessageId = nanoid();
+    const aiMessage: AIMessage = {
+      id: aiMessageId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      agent,
+      model
+    };
+    
+    const updateAIMessage = (update: (content: string) => string) => {
+      setMessages(prev => prev.map(message =>
+        message.id === aiMessageId ? { ...message, content: update(message.content) } : message
+      ));
+    };
+    
+    setMessages(prev => [...prev, userMessage, aiMessage]);
     setIsProcessing(true);
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    
     try {
-      // Get response from AI
-      const response = await AIOrchestrator.routeQuery({
-        agent,
-        model,
-        query,
-        context: {
-          files: projectState.files,
-          selectedFile: projectState.activeFile
-        }
+      const res = await fetch('/api/ai/query/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          agent,
+          model,
+          query,
+          context: {
+            files: Object.keys(projectState.files),
+            activeFile: projectState.activeFile || undefined
+          }
+        }),
+        credentials: 'include',
+        signal: controller.signal
       });
       
-      // Add AI message
-      const aiMessage: AIMessage = {
-        id: nanoid(),
-        role: 'assistant',
-        content: response,
-        timestamp: new Date(),
-        agent,
-        model
-      };
+      if (!res.ok || !res.body) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
       
-      setMessages(prev => [...prev, aiMessage]);
+      for await (const { event, data } of readServerSentEvents(res.body)) {
+        if (event === 'context') {
+          const context = data as IAIStreamContextPayload;
+          setMessages(prev => prev.map(message =>
+            message.id === aiMessageId ? { ...message, context } : message
+          ));
+        } else if (event === 'delta') {
+          const { text } = data as IAIStreamDeltaPayload;
+          updateAIMessage(content => content + text);
+        } else if (event === 'done') {
+          const { response } = data as IAIStreamDonePayload;
+          updateAIMessage(() => response);
+        } else if (event === 'error') {
+          const { message } = data as IAIStreamErrorPayload;
+          updateAIMessage(() => message);
+        }
+      }
     } catch (error) {
-      console.error('AI query failed:', error);
+      // Stopping generation keeps whatever has arrived so far
+      if (controller.signal.aborted) return;
       
-      // Add error message
-      const errorMessage: AIMessage = {
-        id: nanoid(),
-        role: 'assistant',
-        content: `I'm sorry, I encountered an error while processing your request. Please try again later.`,
-        timestamp: new Date(),
-        agent,
-        model
-      };
+      console.error('AI query failed:', error);
       
-      setMessages(prev => [...prev, errorMessage]);
+      // Show error message
+      updateAIMessage(() => `I'm sorry, I encountered an error while processing your request. Please try again later.`);
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsProcessing(false);
     }
   }, [isProcessing, projectState.files, projectState.activeFile]);
 
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const clearMessages = useCallback(() => {
+    stopGeneration();
     setMessages([]);
-  }, []);
+  }, [stopGeneration]);
 
   return {
     messages,
     isProcessing,
     sendQuery,
+    stopGeneration,
     clearMessages
   };
 };
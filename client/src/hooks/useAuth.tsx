@@ -0,0 +1,96 @@
+import { createContext, ReactNode, useContext } from 'react';
+import { useQuery, useMutation, UseMutationResult } from '@tanstack/react-query';
+import type { IApiResponse } from '@shared/api-types';
+import type { User } from '@shared/schema';
+import { queryClient } from '../lib/queryClient';
+
+// The server never sends the password hash
+export type AuthUser = Omit<User, 'password'>;
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  registerMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+const ME_QUERY_KEY = ['/api/auth/me'];
+
+// Send an auth request and unwrap the API envelope, surfacing the server's message
+async function authRequest<T>(url: string, body?: Credentials): Promise<T> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: body ? { 'Content-Type': 'application/json' } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: 'include',
+  });
+
+  const json = (await res.json().catch(() => null)) as IApiResponse<T> | null;
+  if (!res.ok || !json?.success) {
+    throw new Error(json?.error?.message || res.statusText);
+  }
+  return json.data as T;
+}
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: async () => {
+      const res = await fetch('/api/auth/me', { credentials: 'include' });
+      if (res.status === 401) return null;
+      if (!res.ok) throw new Error(res.statusText);
+      return ((await res.json()) as IApiResponse<AuthUser>).data ?? null;
+    },
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: Credentials) => authRequest<AuthUser>('/api/auth/login', credentials),
+    onSuccess: (loggedIn) => queryClient.setQueryData(ME_QUERY_KEY, loggedIn),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: (credentials: Credentials) => authRequest<AuthUser>('/api/auth/register', credentials),
+    onSuccess: (registered) => queryClient.setQueryData(ME_QUERY_KEY, registered),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await authRequest<unknown>('/api/auth/logout');
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { CollabService, CollabPeer } from '../services/CollabService';
+
+// Everyone else editing the files open here, kept up to date
+export const useCollabPeers = (): CollabPeer[] => {
+  const [peers, setPeers] = useState<CollabPeer[]>(() => CollabService.getPeers());
+
+  useEffect(() => {
+    setPeers(CollabService.getPeers());
+    return CollabService.subscribe(setPeers);
+  }, []);
+
+  return peers;
+};
@@ -0,0 +1,106 @@
+import type * as Y from "yjs";
+import type { monaco } from "./monaco";
+
+// Keep an editor model and a shared text in step: typing in the model
+// becomes Yjs operations, and changes merged in from others are applied to
+// the model as edits. Both must hold the same text when binding starts
+export function bindTextModel(text: Y.Text, model: monaco.editor.ITextModel): { dispose: () => void } {
+  let applyingRemote = false;
+
+  const modelChanges = model.onDidChangeContent((event) => {
+    if (applyingRemote) return;
+
+    // Changes are relative to the text before the event; applying them from
+    // the end backwards keeps the earlier offsets valid
+    text.doc?.transact(() => {
+      [...event.changes]
+        .sort((a, b) => b.rangeOffset - a.rangeOffset)
+        .forEach((change) => {
+          if (change.rangeLength > 0) text.delete(change.rangeOffset, change.rangeLength);
+          if (change.text) text.insert(change.rangeOffset, change.text);
+        });
+    });
+  });
+
+  const textChanges = (event: Y.YTextEvent) => {
+    // Local changes came from the model in the first place
+    if (event.transaction.local) return;
+
+    applyingRemote = true;
+    try {
+      let offset = 0;
+      for (const op of event.delta) {
+        if (op.retain !== undefined) {
+          offset += op.retain;
+        } else if (op.delete !== undefined) {
+          const start = model.getPositionAt(offset);
+          const end = model.getPositionAt(offset + op.delete);
+          model.applyEdits([{ range: rangeBetween(start, end), text: "" }]);
+        } else if (typeof op.insert === "string") {
+          const position = model.getPositionAt(offset);
+          model.applyEdits([{ range: rangeBetween(position, position), text: op.insert }]);
+          offset += op.insert.length;
+        }
+      }
+    } finally {
+      applyingRemote = false;
+    }
+  };
+  text.observe(textChanges);
+
+  return {
+    dispose: () => {
+      modelChanges.dispose();
+      text.unobserve(textChanges);
+    },
+  };
+}
+
+// Turn one text into another with a single replacement of the part between
+// their common start and end, so that edits outside it are kept intact
+export function diffText(from: string, to: string): { offset: number; deleted: number; inserted: string } | null {
+  if (from === to) return null;
+
+  let start = 0;
+  while (start < from.length && start < to.length && from[start] === to[start]) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < from.length - start &&
+    end < to.length - start &&
+    from[from.length - 1 - end] === to[to.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return { offset: start, deleted: from.length - start - end, inserted: to.slice(start, to.length - end) };
+}
+
+// Yjs updates travel over the JSON WebSocket protocol as base64
+export function encodeUpdate(update: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < update.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(update.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export function decodeUpdate(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const update = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    update[i] = binary.charCodeAt(i);
+  }
+  return update;
+}
+
+function rangeBetween(start: monaco.IPosition, end: monaco.IPosition): monaco.IRange {
+  return {
+    startLineNumber: start.lineNumber,
+    startColumn: start.column,
+    endLineNumber: end.lineNumber,
+    endColumn: end.column,
+  };
+}
@@ -0,0 +1,49 @@
+// Convert a glob such as "src/**/*.{ts,tsx}" to a regular expression over
+// slash-separated paths. "**/" matches any number of directories, "*" and
+// "?" never cross a slash, and "{a,b}" matches either alternative
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      source += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+      braces++;
+    } else if (char === "}" && braces > 0) {
+      source += ")";
+      braces--;
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Whether a project path matches one of the globs. As in Prettier and
+// .gitignore, a pattern without a slash matches the file name in any
+// directory; a pattern naming a folder also matches everything inside it
+export function matchesGlob(path: string, patterns?: string | string[]): boolean {
+  if (!patterns) return false;
+
+  const relativePath = path.replace(/^\/+/, "");
+  const fileName = relativePath.split("/").pop() || relativePath;
+  return (Array.isArray(patterns) ? patterns : [patterns]).some((pattern) => {
+    const glob = pattern.trim().replace(/^\.?\/+/, "").replace(/\/+$/, "");
+    if (!glob) return false;
+
+    const regex = globToRegExp(glob);
+    return (
+      regex.test(glob.includes("/") ? relativePath : fileName) ||
+      globToRegExp(`${glob}/**`).test(relativePath)
+    );
+  });
+}
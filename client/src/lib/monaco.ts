@@ -0,0 +1,137 @@
+import * as monaco from "monaco-editor";
+import EditorWorker from "monaco-editor/esm/vs/editor/editor.worker?worker";
+import TsWorker from "monaco-editor/esm/vs/language/typescript/ts.worker?worker";
+import JsonWorker from "monaco-editor/esm/vs/language/json/json.worker?worker";
+import CssWorker from "monaco-editor/esm/vs/language/css/css.worker?worker";
+import HtmlWorker from "monaco-editor/esm/vs/language/html/html.worker?worker";
+
+// Diagnostics that only mean the editor cannot see a module: project
+// dependencies are not installed in the browser, so bare imports never resolve
+const UNRESOLVED_MODULE_CODES = [2307, 2792, 7016];
+
+let configured = false;
+
+// Point Monaco at its web workers and set up the TypeScript/JavaScript
+// language service once per page
+export function setupMonaco(): typeof monaco {
+  if (configured) return monaco;
+  configured = true;
+
+  self.MonacoEnvironment = {
+    getWorker(_workerId: string, label: string) {
+      switch (label) {
+        case "typescript":
+        case "javascript":
+          return new TsWorker();
+        case "json":
+          return new JsonWorker();
+        case "css":
+        case "scss":
+        case "less":
+          return new CssWorker();
+        case "html":
+        case "handlebars":
+        case "razor":
+          return new HtmlWorker();
+        default:
+          return new EditorWorker();
+      }
+    },
+  };
+
+  const compilerOptions: monaco.languages.typescript.CompilerOptions = {
+    target: monaco.languages.typescript.ScriptTarget.ESNext,
+    module: monaco.languages.typescript.ModuleKind.ESNext,
+    moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
+    jsx: monaco.languages.typescript.JsxEmit.ReactJSX,
+    allowJs: true,
+    allowNonTsExtensions: true,
+    esModuleInterop: true,
+    strict: true,
+  };
+  const diagnosticsOptions: monaco.languages.typescript.DiagnosticsOptions = {
+    noSemanticValidation: false,
+    noSyntaxValidation: false,
+    diagnosticCodesToIgnore: UNRESOLVED_MODULE_CODES,
+  };
+
+  for (const defaults of [
+    monaco.languages.typescript.typescriptDefaults,
+    monaco.languages.typescript.javascriptDefaults,
+  ]) {
+    defaults.setCompilerOptions(compilerOptions);
+    defaults.setDiagnosticsOptions(diagnosticsOptions);
+    defaults.setEagerModelSync(true);
+  }
+
+  return monaco;
+}
+
+// Monaco language ID for a file extension (without the dot), such as
+// "typescript" for "tsx"; plain text when no language claims it
+export function getLanguageForExtension(extension?: string): string {
+  if (!extension) return "plaintext";
+
+  const suffix = `.${extension.toLowerCase()}`;
+  const language = setupMonaco()
+    .languages.getLanguages()
+    .find((lang) => lang.extensions?.includes(suffix));
+  return language?.id ?? "plaintext";
+}
+
+// Model URI of a project file; models are keyed by path so each file keeps
+// its own undo history and the TypeScript service can see it by name
+export function getModelUri(path: string): monaco.Uri {
+  return monaco.Uri.file(path.startsWith("/") ? path : `/${path}`);
+}
+
+// Format whole documents and selections of these languages with the given
+// formatter, which returns the new content of the model. Registered
+// formatters take precedence over Monaco's built-in ones
+export function registerFormatter(
+  languages: string[],
+  format: (model: monaco.editor.ITextModel, range?: { start: number; end: number }) => Promise<string>,
+): monaco.IDisposable {
+  const replaceAll = async (
+    model: monaco.editor.ITextModel,
+    range?: { start: number; end: number },
+  ): Promise<monaco.languages.TextEdit[]> => {
+    const versionId = model.getVersionId();
+    const formatted = await format(model, range);
+
+    // Drop the result if the user typed while it was being formatted
+    if (model.isDisposed() || model.getVersionId() !== versionId || formatted === model.getValue()) {
+      return [];
+    }
+    return [{ range: model.getFullModelRange(), text: formatted }];
+  };
+
+  const registrations = languages.flatMap((language) => [
+    monaco.languages.registerDocumentFormattingEditProvider(language, {
+      provideDocumentFormattingEdits: (model) => replaceAll(model),
+    }),
+    monaco.languages.registerDocumentRangeFormattingEditProvider(language, {
+      provideDocumentRangeFormattingEdits: (model, range) =>
+        replaceAll(model, {
+          start: model.getOffsetAt(range.getStartPosition()),
+          end: model.getOffsetAt(range.getEndPosition()),
+        }),
+    }),
+  ]);
+
+  return { dispose: () => registrations.forEach((registration) => registration.dispose()) };
+}
+
+// Discard the models of files that are no longer open, along with any
+// edits to them that were never saved. Only file models are touched, so
+// models that other views own, such as diffs, are left alone
+export function disposeModelsExcept(paths: string[]): void {
+  const keep = new Set(paths.map((path) => getModelUri(path).toString()));
+  for (const model of monaco.editor.getModels()) {
+    if (model.uri.scheme === "file" && !keep.has(model.uri.toString())) {
+      model.dispose();
+    }
+  }
+}
+
+export { monaco };
@@ -0,0 +1,23 @@
+import { ReactNode } from 'react';
+import { Redirect, Route } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+
+// Route that renders its children only for a signed-in user
+export function ProtectedRoute({ path, children }: { path: string; children: ReactNode }) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-primary-500" />
+        </div>
+      ) : user ? (
+        children
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
@@ -0,0 +1,203 @@
+import { matchesGlob } from "./glob";
+
+export interface SearchOptions {
+  query: string;
+  isRegex: boolean;
+  isCaseSensitive: boolean;
+  isWholeWord: boolean;
+  // Comma-separated globs; empty means every file
+  include: string;
+  exclude: string;
+}
+
+export interface SearchableFile {
+  path: string;
+  content: string;
+}
+
+export interface SearchMatch {
+  // 1-based line and 0-based column of the start of the match
+  line: number;
+  column: number;
+  length: number;
+  // Text of the line around the match, and where the match sits in it
+  preview: string;
+  previewStart: number;
+  // What the match turns into, when a replacement was given
+  replacement?: string;
+}
+
+export interface FileSearchResult {
+  path: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResults {
+  files: FileSearchResult[];
+  matchCount: number;
+  // Set when the search stopped at MAX_SEARCH_MATCHES
+  limitHit: boolean;
+}
+
+export const MAX_SEARCH_MATCHES = 5000;
+
+// Characters of context kept before a match in its preview
+const PREVIEW_BEFORE = 40;
+const PREVIEW_LENGTH = 200;
+
+// Build the regular expression a search runs with
+// @throws SyntaxError if a regex query is not a valid pattern
+export function buildSearchRegExp(options: SearchOptions): RegExp {
+  let source = options.isRegex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (options.isWholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  return new RegExp(source, options.isCaseSensitive ? "gm" : "gim");
+}
+
+// Split a comma-separated list of globs
+export function parseGlobList(list: string): string[] {
+  return list.split(",").map((glob) => glob.trim()).filter(Boolean);
+}
+
+// Whether the include and exclude filters let a file through
+export function isFileIncluded(path: string, options: SearchOptions): boolean {
+  const include = parseGlobList(options.include);
+  const exclude = parseGlobList(options.exclude);
+  return (include.length === 0 || matchesGlob(path, include)) && !matchesGlob(path, exclude);
+}
+
+// Find every match in the files, grouped per file in path order
+export function searchFiles(
+  files: SearchableFile[],
+  options: SearchOptions,
+  replacement?: string,
+): SearchResults {
+  const results: SearchResults = { files: [], matchCount: 0, limitHit: false };
+  if (!options.query) return results;
+
+  const regex = buildSearchRegExp(options);
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const file of sorted) {
+    if (!isFileIncluded(file.path, options)) continue;
+
+    const remaining = MAX_SEARCH_MATCHES - results.matchCount;
+    const matches = searchContent(file.content, regex, remaining + 1, options.isRegex, replacement);
+    if (matches.length === 0) continue;
+
+    if (matches.length > remaining) {
+      matches.length = remaining;
+      results.limitHit = true;
+    }
+    results.files.push({ path: file.path, matches });
+    results.matchCount += matches.length;
+    if (results.limitHit) break;
+  }
+
+  return results;
+}
+
+// Content of a file with every match replaced. In regex mode the
+// replacement may refer to groups as $1 or $<name>; otherwise it is literal
+export function replaceInContent(content: string, options: SearchOptions, replacement: string): string {
+  const regex = buildSearchRegExp(options);
+  let result = "";
+  let last = 0;
+
+  // Empty matches are left alone, as the search does not report them
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    result += content.slice(last, match.index) + (options.isRegex ? expandReplacement(content, match, replacement) : replacement);
+    last = match.index + match[0].length;
+  }
+  return result + content.slice(last);
+}
+
+function searchContent(
+  content: string,
+  regex: RegExp,
+  limit: number,
+  isRegex: boolean,
+  replacement?: string,
+): SearchMatch[] {
+  const lineStarts = getLineStarts(content);
+  const matches: SearchMatch[] = [];
+  regex.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while (matches.length < limit && (match = regex.exec(content)) !== null) {
+    // Step past empty matches so the search always moves forward
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+
+    const lineIndex = findLine(lineStarts, match.index);
+    const lineStart = lineStarts[lineIndex];
+    const lineEnd = lineIndex + 1 < lineStarts.length ? lineStarts[lineIndex + 1] - 1 : content.length;
+    const column = match.index - lineStart;
+    const previewOffset = Math.max(0, column - PREVIEW_BEFORE);
+
+    matches.push({
+      line: lineIndex + 1,
+      column,
+      length: match[0].length,
+      preview: content.slice(lineStart + previewOffset, Math.min(lineEnd, lineStart + previewOffset + PREVIEW_LENGTH)).replace(/\r$/, ""),
+      previewStart: column - previewOffset,
+      ...(replacement !== undefined
+        ? { replacement: isRegex ? expandReplacement(content, match, replacement) : replacement }
+        : {}),
+    });
+  }
+
+  return matches;
+}
+
+// Text a match is replaced with, filling in $& (the match), $1 to $99
+// (groups), $<name> (named groups), $` and $' (text before and after) and $$
+function expandReplacement(content: string, match: RegExpMatchArray, template: string): string {
+  const index = match.index!;
+  return template.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, symbol: string, name?: string) => {
+    if (symbol === "$") return "$";
+    if (symbol === "&") return match[0];
+    if (symbol === "`") return content.slice(0, index);
+    if (symbol === "'") return content.slice(index + match[0].length);
+    if (name !== undefined) return match.groups ? match.groups[name] ?? "" : token;
+
+    // Two digits name a group only if it exists; otherwise the second is literal
+    const group = parseInt(symbol, 10);
+    if (group >= 1 && group < match.length) return match[group] ?? "";
+    if (symbol.length === 2) {
+      const single = parseInt(symbol[0], 10);
+      if (single >= 1 && single < match.length) return (match[single] ?? "") + symbol[1];
+    }
+    return token;
+  });
+}
+
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+function findLine(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
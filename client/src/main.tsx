@@ -2,8 +2,11 @@ import { createRoot } from "react-dom/client";
 import "./index.css";
 import { Toaster } from "@/components/ui/toaster";
 import { WebSocketProvider } from "./contexts/WebSocketContext";
+import { ProjectProvider } from "./contexts/ProjectContext";
+import { GitProvider } from "./contexts/GitContext";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
+import { AuthProvider } from "./hooks/useAuth";
 import ThemeUIContextProvider from "./contexts/ThemeUIProvider"; 
 import App from "./App";
 
@@ -12,10 +15,16 @@ function AppWithProviders() {
   return (
     <ThemeUIContextProvider>
       <QueryClientProvider client={queryClient}>
-        <WebSocketProvider>
-          <App />
-          <Toaster />
-        </WebSocketProvider>
+        <AuthProvider>
+          <WebSocketProvider>
+            <ProjectProvider>
+              <GitProvider>
+                <App />
+                <Toaster />
+              </GitProvider>
+            </ProjectProvider>
+          </WebSocketProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </ThemeUIContextProvider>
   );
@@ -0,0 +1,89 @@
+import React, { useState } from "react";
+import { Redirect } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+
+type Mode = "login" | "register";
+
+const AuthPage: React.FC = () => {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<Mode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Already signed in: go straight to the IDE
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username, password });
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="username">Username</Label>
+        <Input
+          id="username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+
+      {mutation.error && (
+        <p className="text-sm text-red-500" role="alert">
+          {mutation.error.message}
+        </p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={mutation.isPending}>
+        {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {mode === "login" ? "Sign in" : "Create account"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 dark:bg-dark-400">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>MAIK IDE</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
+            <TabsList className="grid grid-cols-2 mb-4">
+              <TabsTrigger value="login">Sign in</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">{form}</TabsContent>
+            <TabsContent value="register">{form}</TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthPage;
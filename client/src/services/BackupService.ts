@@ -3,6 +3,8 @@ import { StorageService } from './StorageService';
 import { EncryptionService } from './EncryptionService';
 import { nanoid } from 'nanoid';
 
+const FORMAT_CHANGED_FILES_KEY = 'backup_format_changed_files';
+
 export class BackupService {
   private static DB_NAME = 'bolt-diy-enhanced-backups';
   private static BACKUPS_STORE = 'backups';
@@ -112,6 +114,15 @@ export class BackupService {
     }
   }
   
+  // Whether backups format the files changed since the last backup first
+  public static isFormatChangedFiles(): boolean {
+    return localStorage.getItem(FORMAT_CHANGED_FILES_KEY) === 'true';
+  }
+  
+  public static setFormatChangedFiles(enabled: boolean): void {
+    localStorage.setItem(FORMAT_CHANGED_FILES_KEY, String(enabled));
+  }
+  
   public static async getBackupMetadata(): Promise<BackupMetadata[]> {
     try {
       const db = await BackupService.getDb();
@@ -0,0 +1,266 @@
+import * as Y from 'yjs';
+import type {
+  ICollabEditPayload,
+  ICollabErrorPayload,
+  ICollabJoinPayload,
+  ICollabPresencePayload,
+  ICollabRoom,
+  ICollabSyncPayload,
+  ICollabUser
+} from '@shared/api-types';
+import { WebSocketService, WebSocketMessage, WebSocketMessageType } from './WebSocketService';
+import { bindTextModel, decodeUpdate, diffText, encodeUpdate } from '../lib/collab';
+import type { monaco } from '../lib/monaco';
+
+// Name of the shared text in every room's document, as on the server
+const TEXT_NAME = 'content';
+
+// Origin of the updates that came from the server
+const REMOTE_ORIGIN = Symbol('remote');
+
+// Someone else editing one of the files open here
+export interface CollabPeer extends ICollabUser {
+  projectId: string;
+  path: string;
+  // When they last joined or changed the file
+  lastActivity: number;
+}
+
+interface Room extends ICollabRoom {
+  doc: Y.Doc;
+  model: monaco.editor.ITextModel | null;
+  binding: { dispose: () => void } | null;
+  // Text of the model when the last join was sent
+  joinContent: string;
+  peers: Map<string, CollabPeer>;
+}
+
+// Collaborative editing of open files over the WebSocket. Each file shared
+// here has a Yjs document that the server merges with everyone else's
+// copy. The document is kept after the file stops being shared, and all of
+// it is sent again on every join, so edits made while disconnected or away
+// are merged in once the connection is back
+export class CollabService {
+  private static rooms = new Map<string, Room>();
+  private static listeners: ((peers: CollabPeer[]) => void)[] = [];
+  private static listening = false;
+
+  // Edit a model together with everyone who has the same file open
+  // @returns Function that stops sharing the model
+  public static share(projectId: string, path: string, model: monaco.editor.ITextModel): () => void {
+    CollabService.listen();
+
+    const key = CollabService.getKey(projectId, path);
+    let room = CollabService.rooms.get(key);
+    if (!room) {
+      room = CollabService.createRoom(projectId, path);
+      CollabService.rooms.set(key, room);
+    }
+
+    room.binding?.dispose();
+    room.binding = null;
+    room.model = model;
+
+    // A document kept from before can be bound right away; a new one waits
+    // for the server to say what the file holds
+    if (room.doc.store.clients.size > 0) {
+      CollabService.replaceModelText(model, room.doc.getText(TEXT_NAME).toString());
+      room.binding = bindTextModel(room.doc.getText(TEXT_NAME), model);
+    }
+
+    CollabService.join(room);
+
+    const shared = room;
+    return () => CollabService.unshare(shared, model);
+  }
+
+  // Everyone else editing the files shared here
+  public static getPeers(): CollabPeer[] {
+    return Array.from(CollabService.rooms.values()).flatMap(room => Array.from(room.peers.values()));
+  }
+
+  // Be told whenever someone joins, leaves or edits a shared file
+  // @returns Function that stops the notifications
+  public static subscribe(listener: (peers: CollabPeer[]) => void): () => void {
+    CollabService.listeners.push(listener);
+    return () => {
+      CollabService.listeners = CollabService.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private static getKey(projectId: string, path: string): string {
+    return JSON.stringify([projectId, path]);
+  }
+
+  private static createRoom(projectId: string, path: string): Room {
+    const room: Room = {
+      projectId,
+      path,
+      doc: new Y.Doc(),
+      model: null,
+      binding: null,
+      joinContent: '',
+      peers: new Map()
+    };
+
+    // Send local changes on; while disconnected they wait in the document
+    // for the next join
+    room.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      const ws = WebSocketService.getInstance();
+      if (origin === REMOTE_ORIGIN || !room.model || !ws.isConnected()) return;
+
+      CollabService.send<ICollabEditPayload>(WebSocketMessageType.EDIT, {
+        projectId,
+        path,
+        update: encodeUpdate(update)
+      });
+    });
+
+    return room;
+  }
+
+  private static unshare(room: Room, model: monaco.editor.ITextModel): void {
+    if (room.model !== model) return;
+
+    room.binding?.dispose();
+    room.binding = null;
+    room.model = null;
+    room.peers.clear();
+    CollabService.notify();
+
+    if (WebSocketService.getInstance().isConnected()) {
+      CollabService.send<ICollabRoom>(WebSocketMessageType.COLLAB_LEAVE, {
+        projectId: room.projectId,
+        path: room.path
+      });
+    }
+  }
+
+  // Send the whole document, merging anything the server has not seen
+  private static join(room: Room): void {
+    if (!room.model || !WebSocketService.getInstance().isConnected()) return;
+
+    room.joinContent = room.model.getValue();
+    CollabService.send<ICollabJoinPayload>(WebSocketMessageType.COLLAB_JOIN, {
+      projectId: room.projectId,
+      path: room.path,
+      update: encodeUpdate(Y.encodeStateAsUpdate(room.doc)),
+      content: room.joinContent
+    });
+  }
+
+  private static listen(): void {
+    if (CollabService.listening) return;
+    CollabService.listening = true;
+
+    const ws = WebSocketService.getInstance();
+    ws.addMessageListener(CollabService.handleMessage);
+    ws.addConnectionListener((connected) => {
+      // Presence is only known while connected; joining again on reconnect
+      // brings both sides' copies back together
+      CollabService.rooms.forEach(room => {
+        room.peers.clear();
+        if (connected) {
+          CollabService.join(room);
+        }
+      });
+      CollabService.notify();
+    });
+  }
+
+  private static handleMessage = (message: WebSocketMessage): void => {
+    const payload = message.payload as ICollabRoom | undefined;
+    if (!payload || typeof payload.path !== 'string') return;
+
+    const room = CollabService.rooms.get(CollabService.getKey(payload.projectId, payload.path));
+    if (!room || !room.model) return;
+
+    switch (message.type) {
+      case WebSocketMessageType.COLLAB_SYNC:
+        CollabService.handleSync(room, message.payload as ICollabSyncPayload);
+        break;
+
+      case WebSocketMessageType.EDIT: {
+        Y.applyUpdate(room.doc, decodeUpdate((message.payload as ICollabEditPayload).update), REMOTE_ORIGIN);
+        const peer = message.userId ? room.peers.get(message.userId) : undefined;
+        if (peer) {
+          peer.lastActivity = Date.now();
+          CollabService.notify();
+        }
+        break;
+      }
+
+      case WebSocketMessageType.USER_JOINED: {
+        const { user } = message.payload as ICollabPresencePayload;
+        room.peers.set(user.id, { ...user, projectId: room.projectId, path: room.path, lastActivity: Date.now() });
+        CollabService.notify();
+        break;
+      }
+
+      case WebSocketMessageType.USER_LEFT:
+        room.peers.delete((message.payload as ICollabPresencePayload).user.id);
+        CollabService.notify();
+        break;
+
+      case WebSocketMessageType.ERROR:
+        console.warn(`Collaboration on ${room.path} failed: ${(message.payload as ICollabErrorPayload).message}`);
+        break;
+    }
+  };
+
+  private static handleSync(room: Room, payload: ICollabSyncPayload): void {
+    const model = room.model!;
+    const text = room.doc.getText(TEXT_NAME);
+    Y.applyUpdate(room.doc, decodeUpdate(payload.update), REMOTE_ORIGIN);
+
+    if (!room.binding) {
+      const shared = text.toString();
+      const typed = diffText(room.joinContent, model.getValue());
+
+      // Keep what was typed while joining if the file was as it was sent;
+      // otherwise the shared text wins
+      if (typed && shared === room.joinContent) {
+        room.doc.transact(() => {
+          text.delete(typed.offset, typed.deleted);
+          text.insert(typed.offset, typed.inserted);
+        });
+      } else {
+        CollabService.replaceModelText(model, shared);
+      }
+      room.binding = bindTextModel(text, model);
+    }
+
+    room.peers.clear();
+    for (const user of payload.users) {
+      room.peers.set(user.id, { ...user, projectId: room.projectId, path: room.path, lastActivity: Date.now() });
+    }
+    CollabService.notify();
+  }
+
+  // Change the model's text with one undoable edit covering only what differs
+  private static replaceModelText(model: monaco.editor.ITextModel, value: string): void {
+    const change = diffText(model.getValue(), value);
+    if (!change) return;
+
+    const start = model.getPositionAt(change.offset);
+    const end = model.getPositionAt(change.offset + change.deleted);
+    model.pushEditOperations([], [{
+      range: {
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column
+      },
+      text: change.inserted
+    }], () => null);
+  }
+
+  private static send<T>(type: WebSocketMessageType, payload: T): void {
+    WebSocketService.getInstance().sendMessage({ type, payload, timestamp: Date.now() });
+  }
+
+  private static notify(): void {
+    const peers = CollabService.getPeers();
+    CollabService.listeners.forEach(listener => listener(peers));
+  }
+}
@@ -0,0 +1,235 @@
+import { parse as parseYaml } from 'yaml';
+import type { Options } from 'prettier';
+import { FileEntry } from '../types';
+import { matchesGlob } from '../lib/glob';
+import FormatWorker from './format.worker?worker';
+
+// Message sent to the format worker
+export interface FormatRequest {
+  id: number;
+  content: string;
+  parser: string;
+  options: Options;
+  // Character offsets of a selection to format instead of the whole file
+  range?: { start: number; end: number };
+}
+
+// Reply from the format worker
+export type FormatResponse =
+  | { id: number; formatted: string }
+  | { id: number; error: string };
+
+interface PrettierOverride {
+  files: string | string[];
+  excludeFiles?: string | string[];
+  options?: Options;
+}
+
+interface PrettierConfig extends Options {
+  overrides?: PrettierOverride[];
+}
+
+// Prettier parser for each supported file extension
+const PARSERS: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'babel',
+  jsx: 'babel',
+  mjs: 'babel',
+  cjs: 'babel',
+  json: 'json',
+  css: 'css',
+  scss: 'scss',
+  less: 'less',
+  md: 'markdown',
+  markdown: 'markdown'
+};
+
+// Project files Prettier options are read from, first found wins
+const CONFIG_FILES = ['.prettierrc', '.prettierrc.json', '.prettierrc.yaml', '.prettierrc.yml'];
+
+const FORMAT_ON_SAVE_KEY = 'format_on_save';
+
+// Formats files with Prettier in a web worker, using the options of the
+// project's .prettierrc
+export class FormatService {
+  private static worker: Worker | null = null;
+  private static nextId = 1;
+  private static pending = new Map<number, { resolve: (formatted: string) => void; reject: (error: Error) => void }>();
+
+  // Whether a file of this path can be formatted
+  public static canFormat(path: string): boolean {
+    return FormatService.getParser(path) !== undefined;
+  }
+
+  // Format a whole file
+  public static async formatFile(
+    path: string,
+    content: string,
+    files: Record<string, FileEntry>
+  ): Promise<string> {
+    return FormatService.format(path, content, files);
+  }
+
+  // Format a selection, given as character offsets; Prettier widens it to
+  // the statements it touches and returns the whole file
+  public static async formatRange(
+    path: string,
+    content: string,
+    range: { start: number; end: number },
+    files: Record<string, FileEntry>
+  ): Promise<string> {
+    return FormatService.format(path, content, files, range);
+  }
+
+  // Format the given files that Prettier supports, skipping any it cannot
+  // parse; returns only the files whose content changed
+  public static async formatFiles(
+    paths: string[],
+    files: Record<string, FileEntry>
+  ): Promise<Record<string, string>> {
+    const formatted: Record<string, string> = {};
+
+    for (const path of paths) {
+      const content = files[path]?.content;
+      if (content === undefined || !FormatService.canFormat(path)) continue;
+
+      try {
+        const result = await FormatService.format(path, content, files);
+        if (result !== content) {
+          formatted[path] = result;
+        }
+      } catch (error) {
+        console.warn(`Skipping ${path}: ${(error as Error).message}`);
+      }
+    }
+
+    return formatted;
+  }
+
+  public static isFormatOnSave(): boolean {
+    return localStorage.getItem(FORMAT_ON_SAVE_KEY) === 'true';
+  }
+
+  public static setFormatOnSave(enabled: boolean): void {
+    localStorage.setItem(FORMAT_ON_SAVE_KEY, String(enabled));
+  }
+
+  // Prettier options for a file: the project's top-level options, then
+  // those of every override whose patterns match the file
+  public static resolveOptions(path: string, files: Record<string, FileEntry>): Options {
+    const config = FormatService.loadConfig(files);
+    if (!config) return {};
+
+    const { overrides, ...options } = config;
+    const relativePath = path.replace(/^\/+/, '');
+
+    for (const override of overrides || []) {
+      if (
+        matchesGlob(relativePath, override.files) &&
+        !matchesGlob(relativePath, override.excludeFiles)
+      ) {
+        Object.assign(options, override.options);
+      }
+    }
+
+    return options;
+  }
+
+  private static getParser(path: string): string | undefined {
+    const extension = path.split('/').pop()?.match(/\.([^.]+)$/)?.[1];
+    return extension ? PARSERS[extension.toLowerCase()] : undefined;
+  }
+
+  private static format(
+    path: string,
+    content: string,
+    files: Record<string, FileEntry>,
+    range?: { start: number; end: number }
+  ): Promise<string> {
+    const parser = FormatService.getParser(path);
+    if (!parser) {
+      return Promise.reject(new Error(`No formatter for ${path}`));
+    }
+
+    const request: FormatRequest = {
+      id: FormatService.nextId++,
+      content,
+      parser,
+      options: FormatService.resolveOptions(path, files),
+      range
+    };
+
+    return new Promise((resolve, reject) => {
+      FormatService.pending.set(request.id, { resolve, reject });
+      FormatService.getWorker().postMessage(request);
+    });
+  }
+
+  private static getWorker(): Worker {
+    if (FormatService.worker) return FormatService.worker;
+
+    const worker = new FormatWorker();
+
+    worker.onmessage = (event: MessageEvent<FormatResponse>) => {
+      const response = event.data;
+      const pending = FormatService.pending.get(response.id);
+      if (!pending) return;
+
+      FormatService.pending.delete(response.id);
+      if ('error' in response) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.formatted);
+      }
+    };
+
+    // A crashed worker fails everything it was working on; the next
+    // request starts a new one
+    worker.onerror = (event) => {
+      FormatService.pending.forEach(({ reject }) => {
+        reject(new Error(event.message || 'Formatter failed'));
+      });
+      FormatService.pending.clear();
+      worker.terminate();
+      FormatService.worker = null;
+    };
+
+    FormatService.worker = worker;
+    return worker;
+  }
+
+  // Read the Prettier config at the project root, if there is one
+  private static loadConfig(files: Record<string, FileEntry>): PrettierConfig | null {
+    const findFile = (name: string) => files[name] ?? files[`/${name}`];
+
+    for (const name of CONFIG_FILES) {
+      const content = findFile(name)?.content;
+      if (content === undefined) continue;
+
+      try {
+        // YAML is a superset of JSON, so one parser reads every form
+        const config = parseYaml(content);
+        return config && typeof config === 'object' ? config as PrettierConfig : null;
+      } catch (error) {
+        console.warn(`Ignoring invalid ${name}: ${(error as Error).message}`);
+        return null;
+      }
+    }
+
+    // package.json may carry the config under a "prettier" key
+    const packageJson = findFile('package.json')?.content;
+    if (packageJson) {
+      try {
+        const config = JSON.parse(packageJson).prettier;
+        if (config && typeof config === 'object') return config as PrettierConfig;
+      } catch {
+        // Not valid JSON; no config there
+      }
+    }
+
+    return null;
+  }
+}
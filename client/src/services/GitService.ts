@@ -0,0 +1,401 @@
+import LightningFS from '@isomorphic-git/lightning-fs';
+import git from 'isomorphic-git';
+import { Buffer } from 'buffer';
+import { FileEntry } from '../types';
+
+// isomorphic-git expects Node's Buffer as a global
+if (typeof globalThis.Buffer === 'undefined') {
+  globalThis.Buffer = Buffer as unknown as typeof globalThis.Buffer;
+}
+
+// How a file differs, between HEAD and the index for staged changes and
+// between the index and the project for unstaged ones
+export type GitChangeKind = 'added' | 'modified' | 'deleted' | 'untracked';
+
+export interface GitFileChange {
+  // Path relative to the repository root, without a leading slash
+  path: string;
+  kind: GitChangeKind;
+}
+
+export interface GitStatus {
+  // Checked-out branch, or null when HEAD is detached
+  branch: string | null;
+  hasCommits: boolean;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+}
+
+export interface GitCommitEntry {
+  oid: string;
+  message: string;
+  author: string;
+  timestamp: Date;
+}
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+// Both sides of a file's diff
+export interface GitDiff {
+  original: string;
+  modified: string;
+}
+
+// Project files a checkout changed, keyed by project path; deleted files
+// are listed separately
+export interface GitCheckoutResult {
+  written: Record<string, string>;
+  deleted: string[];
+}
+
+const DEFAULT_BRANCH = 'main';
+const LOG_DEPTH = 50;
+
+// Version control over the project files with isomorphic-git. The
+// repository lives in the browser: a working copy of the saved project
+// files plus the .git directory, all kept in IndexedDB, so it works offline
+export class GitService {
+  // Each user's project gets an IndexedDB database of its own, next to
+  // StorageService's 'bolt-diy-enhanced', so no two share a repository
+  private static FS_PREFIX = 'bolt-diy-enhanced-git';
+  private static DIR = '/project';
+
+  // Database name of the open repository
+  private static fsName: string | null = null;
+  private static fs: LightningFS | null = null;
+  // Contents of the working copy as last written, so a sync only writes
+  // the files that changed since
+  private static workdir: Map<string, string> | null = null;
+  // Repository operations run one at a time
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  // Switch to the repository of a user's project. Operations already
+  // started finish on the repository they were started on
+  public static async open(userId: number | string, projectId: string): Promise<void> {
+    return GitService.run(async () => {
+      const fsName = `${GitService.FS_PREFIX}-${userId}-${projectId}`;
+      if (fsName === GitService.fsName) return;
+
+      GitService.fsName = fsName;
+      GitService.fs = new LightningFS(fsName);
+      GitService.workdir = null;
+    });
+  }
+
+  // Bring the working copy up to date with the project and compare it with
+  // the index and HEAD
+  public static async status(files: Record<string, FileEntry>): Promise<GitStatus> {
+    return GitService.run(async () => {
+      await GitService.sync(files);
+      const { fs, dir } = GitService.repo();
+
+      const staged: GitFileChange[] = [];
+      const unstaged: GitFileChange[] = [];
+      const matrix = await git.statusMatrix({ fs, dir });
+
+      // Each row is [path, head, workdir, stage]: head is 0 (absent) or 1;
+      // workdir is 0 (absent), 1 (same as HEAD) or 2 (different); stage is
+      // 0 (absent), 1 (same as HEAD), 2 (same as workdir) or 3 (neither)
+      for (const [path, head, workdir, stage] of matrix) {
+        if (head === 0 && stage !== 0) {
+          staged.push({ path, kind: 'added' });
+        } else if (head === 1 && stage === 0) {
+          staged.push({ path, kind: 'deleted' });
+        } else if (head === 1 && (stage === 2 || stage === 3)) {
+          staged.push({ path, kind: 'modified' });
+        }
+
+        if (workdir === 0 && stage !== 0) {
+          unstaged.push({ path, kind: 'deleted' });
+        } else if (workdir !== 0 && stage === 0) {
+          unstaged.push({ path, kind: 'untracked' });
+        } else if ((workdir === 2 && stage === 1) || (workdir !== 0 && stage === 3)) {
+          unstaged.push({ path, kind: 'modified' });
+        }
+      }
+
+      return {
+        branch: (await git.currentBranch({ fs, dir })) ?? null,
+        hasCommits: (await GitService.resolveHead()) !== null,
+        staged,
+        unstaged
+      };
+    });
+  }
+
+  // Add the current content of the files to the index, or record their
+  // deletion
+  public static async stage(paths: string[], files: Record<string, FileEntry>): Promise<void> {
+    return GitService.run(async () => {
+      await GitService.sync(files);
+      const { fs, dir } = GitService.repo();
+
+      for (const filepath of paths) {
+        if (GitService.workdir?.has(filepath)) {
+          await git.add({ fs, dir, filepath });
+        } else {
+          await git.remove({ fs, dir, filepath });
+        }
+      }
+    });
+  }
+
+  // Put the index entries of the files back to what HEAD has
+  public static async unstage(paths: string[]): Promise<void> {
+    return GitService.run(async () => {
+      const { fs, dir } = GitService.repo();
+      for (const filepath of paths) {
+        await git.resetIndex({ fs, dir, filepath });
+      }
+    });
+  }
+
+  // Commit the staged changes on the current branch
+  // @returns The new commit's object ID
+  public static async commit(message: string, author: GitAuthor): Promise<string> {
+    return GitService.run(async () => {
+      const { fs, dir } = GitService.repo();
+      return git.commit({ fs, dir, message, author, disallowEmpty: true });
+    });
+  }
+
+  // What a change looks like: HEAD against the index for a staged change,
+  // the index against the project's saved content for an unstaged one
+  public static async diff(
+    filepath: string,
+    staged: boolean,
+    files: Record<string, FileEntry>
+  ): Promise<GitDiff> {
+    return GitService.run(async () => {
+      const indexed = await GitService.readStaged(filepath);
+      if (staged) {
+        return { original: (await GitService.readHead(filepath)) ?? '', modified: indexed ?? '' };
+      }
+
+      const file = files[GitService.toProjectPath(filepath, files)];
+      return { original: indexed ?? '', modified: file?.content ?? '' };
+    });
+  }
+
+  public static async listBranches(): Promise<string[]> {
+    return GitService.run(async () => {
+      const { fs, dir } = GitService.repo();
+      return (await git.listBranches({ fs, dir })).sort();
+    });
+  }
+
+  // Create a branch at the current commit, without switching to it
+  public static async createBranch(name: string): Promise<void> {
+    return GitService.run(async () => {
+      if ((await GitService.resolveHead()) === null) {
+        throw new Error('Commit at least once before creating a branch');
+      }
+      const { fs, dir } = GitService.repo();
+      await git.branch({ fs, dir, ref: name });
+    });
+  }
+
+  // Switch to a branch. Uncommitted changes are carried over unless the
+  // branch changes the same files, in which case nothing is switched
+  // @returns The project files the switch added, changed or removed
+  public static async checkout(branch: string, files: Record<string, FileEntry>): Promise<GitCheckoutResult> {
+    return GitService.run(async () => {
+      await GitService.sync(files);
+      const { fs, dir } = GitService.repo();
+
+      try {
+        await git.checkout({ fs, dir, ref: branch });
+      } catch (error) {
+        if (error instanceof git.Errors.CheckoutConflictError) {
+          throw new Error(`Commit or discard your changes to ${error.data.filepaths.join(', ')} before switching branches`);
+        }
+        throw error;
+      }
+
+      // Read back what the checkout wrote and report how the project differs
+      const before = GitService.workdir ?? new Map<string, string>();
+      GitService.workdir = await GitService.readWorkdir();
+
+      const result: GitCheckoutResult = { written: {}, deleted: [] };
+      GitService.workdir.forEach((content, filepath) => {
+        if (before.get(filepath) !== content) {
+          result.written[GitService.toProjectPath(filepath, files)] = content;
+        }
+      });
+      before.forEach((_content, filepath) => {
+        if (!GitService.workdir?.has(filepath)) {
+          result.deleted.push(GitService.toProjectPath(filepath, files));
+        }
+      });
+      return result;
+    });
+  }
+
+  // Commits reachable from HEAD, newest first
+  public static async log(depth = LOG_DEPTH): Promise<GitCommitEntry[]> {
+    return GitService.run(async () => {
+      if ((await GitService.resolveHead()) === null) return [];
+
+      const { fs, dir } = GitService.repo();
+      const commits = await git.log({ fs, dir, depth });
+      return commits.map(({ oid, commit }) => ({
+        oid,
+        message: commit.message.trim(),
+        author: commit.author.name,
+        timestamp: new Date(commit.author.timestamp * 1000)
+      }));
+    });
+  }
+
+  // Key of a repository path in the project files, which may or may not
+  // start with a slash
+  public static toProjectPath(filepath: string, files: Record<string, FileEntry>): string {
+    return files[filepath] || !files[`/${filepath}`] ? filepath : `/${filepath}`;
+  }
+
+  private static run<T>(task: () => Promise<T>): Promise<T> {
+    const result = GitService.queue.then(task);
+    GitService.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private static repo(): { fs: LightningFS; dir: string } {
+    if (!GitService.fs) {
+      throw new Error('No project repository is open');
+    }
+    return { fs: GitService.fs, dir: GitService.DIR };
+  }
+
+  // Create the repository on first use and write the project's saved files
+  // into the working copy, removing files the project no longer has
+  private static async sync(files: Record<string, FileEntry>): Promise<void> {
+    const { fs, dir } = GitService.repo();
+
+    try {
+      await fs.promises.stat(`${dir}/.git`);
+    } catch {
+      await GitService.mkdirs(dir);
+      await git.init({ fs, dir, defaultBranch: DEFAULT_BRANCH });
+    }
+
+    if (!GitService.workdir) {
+      GitService.workdir = await GitService.readWorkdir();
+    }
+    const workdir = GitService.workdir;
+
+    const wanted = new Map<string, string>();
+    for (const file of Object.values(files)) {
+      if (file.type === 'file' && file.content !== undefined) {
+        wanted.set(file.path.replace(/^\/+/, ''), file.content);
+      }
+    }
+
+    for (const filepath of Array.from(workdir.keys())) {
+      if (!wanted.has(filepath)) {
+        await fs.promises.unlink(`${dir}/${filepath}`);
+        workdir.delete(filepath);
+      }
+    }
+
+    for (const [filepath, content] of Array.from(wanted.entries())) {
+      if (workdir.get(filepath) === content) continue;
+
+      const folder = filepath.split('/').slice(0, -1).join('/');
+      if (folder) {
+        await GitService.mkdirs(`${dir}/${folder}`);
+      }
+      // Replace the file rather than overwrite it: git trusts a file with an
+      // unchanged size and inode that was modified within the same second
+      if (workdir.has(filepath)) {
+        await fs.promises.unlink(`${dir}/${filepath}`);
+      }
+      await fs.promises.writeFile(`${dir}/${filepath}`, content, 'utf8');
+      workdir.set(filepath, content);
+    }
+  }
+
+  // Every file of the working copy outside .git, by repository path
+  private static async readWorkdir(): Promise<Map<string, string>> {
+    const { fs, dir } = GitService.repo();
+    const contents = new Map<string, string>();
+
+    const visit = async (folder: string): Promise<void> => {
+      for (const name of await fs.promises.readdir(`${dir}${folder}`)) {
+        if (!folder && name === '.git') continue;
+
+        const filepath = folder ? `${folder.slice(1)}/${name}` : name;
+        const stat = await fs.promises.stat(`${dir}/${filepath}`);
+        if (stat.isDirectory()) {
+          await visit(`/${filepath}`);
+        } else {
+          contents.set(filepath, await fs.promises.readFile(`${dir}/${filepath}`, 'utf8'));
+        }
+      }
+    };
+
+    await visit('');
+    return contents;
+  }
+
+  private static async mkdirs(path: string): Promise<void> {
+    const { fs } = GitService.repo();
+    let current = '';
+    for (const part of path.split('/').filter(Boolean)) {
+      current += `/${part}`;
+      try {
+        await fs.promises.mkdir(current);
+      } catch {
+        // Already there
+      }
+    }
+  }
+
+  // Object ID of the current commit, or null before the first commit
+  private static async resolveHead(): Promise<string | null> {
+    const { fs, dir } = GitService.repo();
+    try {
+      return await git.resolveRef({ fs, dir, ref: 'HEAD' });
+    } catch (error) {
+      if (error instanceof git.Errors.NotFoundError) return null;
+      throw error;
+    }
+  }
+
+  private static async readHead(filepath: string): Promise<string | null> {
+    const oid = await GitService.resolveHead();
+    if (!oid) return null;
+
+    const { fs, dir } = GitService.repo();
+    try {
+      const { blob } = await git.readBlob({ fs, dir, oid, filepath });
+      return Buffer.from(blob).toString('utf8');
+    } catch (error) {
+      if (error instanceof git.Errors.NotFoundError) return null;
+      throw error;
+    }
+  }
+
+  // Content of a file as staged in the index
+  private static async readStaged(filepath: string): Promise<string | null> {
+    const { fs, dir } = GitService.repo();
+    const [oid] = await git.walk({
+      fs,
+      dir,
+      trees: [git.STAGE()],
+      map: async (path, [entry]) => {
+        if (path === filepath) {
+          return entry ? entry.oid() : undefined;
+        }
+        // Only descend into the folders that lead to the file
+        return path === '.' || filepath.startsWith(`${path}/`) ? undefined : null;
+      }
+    });
+    if (!oid) return null;
+
+    const { blob } = await git.readBlob({ fs, dir, oid });
+    return Buffer.from(blob).toString('utf8');
+  }
+}
@@ -0,0 +1,72 @@
+import { FileEntry } from '../types';
+import type { IApiResponse, IProject, IProjectFile, IProjectSummary } from '@shared/api-types';
+
+// Projects and their files, stored on the server under the signed-in user
+// through /api/projects, so they survive clearing the browser
+export class ProjectService {
+  public static async listProjects(): Promise<IProjectSummary[]> {
+    return ProjectService.request<IProjectSummary[]>('GET', '/api/projects');
+  }
+
+  public static async createProject(name: string, files: Array<Pick<IProjectFile, 'path' | 'content'>> = []): Promise<IProject> {
+    return ProjectService.request<IProject>('POST', '/api/projects', { name, files });
+  }
+
+  public static async loadProject(projectId: string): Promise<IProject> {
+    return ProjectService.request<IProject>('GET', `/api/projects/${encodeURIComponent(projectId)}`);
+  }
+
+  public static async saveFile(projectId: string, path: string, content: string): Promise<void> {
+    await ProjectService.request<IProjectFile>('PUT', ProjectService.fileUrl(projectId, path), { content });
+  }
+
+  public static async deleteFile(projectId: string, path: string): Promise<void> {
+    await ProjectService.request<unknown>('DELETE', ProjectService.fileUrl(projectId, path));
+  }
+
+  // The server has no rename; the file is written under its new path first
+  // so it is never lost
+  public static async renameFile(projectId: string, oldPath: string, newPath: string, content: string): Promise<void> {
+    await ProjectService.saveFile(projectId, newPath, content);
+    await ProjectService.deleteFile(projectId, oldPath);
+  }
+
+  // Files of a loaded project, keyed by path as ProjectState keeps them
+  public static toFileEntries(project: IProject): Record<string, FileEntry> {
+    const files: Record<string, FileEntry> = {};
+    for (const file of project.files) {
+      const name = file.path.split('/').pop() || file.path;
+      const extensionMatch = name.match(/\.([^.]+)$/);
+
+      files[file.path] = {
+        name,
+        path: file.path,
+        type: 'file',
+        content: file.content,
+        extension: extensionMatch ? extensionMatch[1] : undefined,
+        lastModified: new Date(file.lastModified)
+      };
+    }
+    return files;
+  }
+
+  private static fileUrl(projectId: string, path: string): string {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    return `/api/projects/${encodeURIComponent(projectId)}/files/${encodedPath}`;
+  }
+
+  private static async request<T>(method: string, url: string, body?: unknown): Promise<T> {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : {},
+      credentials: 'include',
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    const json = (await res.json()) as IApiResponse<T>;
+    if (!res.ok || !json.success) {
+      throw new Error(json.error?.message || res.statusText);
+    }
+    return json.data as T;
+  }
+}
@@ -0,0 +1,129 @@
+import { FileEntry } from '../types';
+import { isFileIncluded, SearchableFile, SearchOptions, SearchResults } from '../lib/search';
+import SearchWorker from './search.worker?worker';
+
+// Message sent to the search worker
+export type SearchWorkerRequest =
+  | { id: number; type: 'search'; files: SearchableFile[]; options: SearchOptions; replacement?: string }
+  | { id: number; type: 'replace'; files: SearchableFile[]; options: SearchOptions; replacement: string };
+
+// Reply from the search worker
+export type SearchWorkerResponse =
+  | { id: number; results: SearchResults }
+  | { id: number; contents: Record<string, string> }
+  | { id: number; error: string };
+
+// Rejection of a search that a newer one replaced
+export class SearchCancelledError extends Error {
+  constructor() {
+    super('Search cancelled');
+    this.name = 'SearchCancelledError';
+  }
+}
+
+interface PendingRequest {
+  type: SearchWorkerRequest['type'];
+  resolve: (response: SearchWorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+// Full-text search and replace across project files, run in a web worker.
+// Starting a search stops the one before it, so only the latest query
+// keeps the worker busy
+export class SearchService {
+  private static worker: Worker | null = null;
+  private static nextId = 1;
+  private static pending = new Map<number, PendingRequest>();
+
+  // Find matches in the project's files, with the text each would be
+  // replaced with when a replacement is given
+  public static async search(
+    files: Record<string, FileEntry>,
+    options: SearchOptions,
+    replacement?: string
+  ): Promise<SearchResults> {
+    SearchService.cancel();
+
+    const response = await SearchService.request({
+      id: SearchService.nextId++,
+      type: 'search',
+      files: SearchService.getSearchableFiles(files, options),
+      options,
+      replacement
+    });
+    if ('error' in response) throw new Error(response.error);
+    if (!('results' in response)) throw new Error('Unexpected search response');
+    return response.results;
+  }
+
+  // New content of each given file that the replacement changes
+  public static async replace(
+    files: Record<string, FileEntry>,
+    paths: string[],
+    options: SearchOptions,
+    replacement: string
+  ): Promise<Record<string, string>> {
+    const selected = new Set(paths);
+    const response = await SearchService.request({
+      id: SearchService.nextId++,
+      type: 'replace',
+      files: SearchService.getSearchableFiles(files, options).filter(file => selected.has(file.path)),
+      options,
+      replacement
+    });
+    if ('error' in response) throw new Error(response.error);
+    if (!('contents' in response)) throw new Error('Unexpected replace response');
+    return response.contents;
+  }
+
+  // Stop the running search, if any. A replace in progress is never
+  // stopped; the worker then finishes the search and its result is dropped
+  public static cancel(): void {
+    const requests = Array.from(SearchService.pending.values());
+    if (requests.length === 0 || !SearchService.worker || requests.some(request => request.type === 'replace')) return;
+
+    SearchService.worker.terminate();
+    SearchService.worker = null;
+    SearchService.pending.forEach(({ reject }) => reject(new SearchCancelledError()));
+    SearchService.pending.clear();
+  }
+
+  private static getSearchableFiles(files: Record<string, FileEntry>, options: SearchOptions): SearchableFile[] {
+    return Object.values(files)
+      .filter(file => file.type === 'file' && file.content !== undefined && isFileIncluded(file.path, options))
+      .map(file => ({ path: file.path, content: file.content! }));
+  }
+
+  private static request(request: SearchWorkerRequest): Promise<SearchWorkerResponse> {
+    return new Promise((resolve, reject) => {
+      SearchService.pending.set(request.id, { type: request.type, resolve, reject });
+      SearchService.getWorker().postMessage(request);
+    });
+  }
+
+  private static getWorker(): Worker {
+    if (SearchService.worker) return SearchService.worker;
+
+    const worker = new SearchWorker();
+
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      const pending = SearchService.pending.get(event.data.id);
+      if (!pending) return;
+
+      SearchService.pending.delete(event.data.id);
+      pending.resolve(event.data);
+    };
+
+    // A crashed worker fails everything it was working on; the next
+    // request starts a new one
+    worker.onerror = (event) => {
+      SearchService.pending.forEach(({ reject }) => reject(new Error(event.message || 'Search failed')));
+      SearchService.pending.clear();
+      worker.terminate();
+      SearchService.worker = null;
+    };
+
+    SearchService.worker = worker;
+    return worker;
+  }
+}
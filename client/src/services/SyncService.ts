@@ -1,5 +1,6 @@
 import { FileEntry } from '../types';
 import { EncryptionService } from './EncryptionService';
+import type { IApiResponse, ISyncResponse, ISyncTargetResult } from '@shared/api-types';
 
 export class SyncService {
   private static getGithubToken(): string | null {
@@ -12,39 +13,62 @@ export class SyncService {
   
   public static async syncWithCloud(
     files: FileEntry[],
-    targets: Array<'github' | 'onedrive'>
-  ): Promise<void> {
-    const promises: Promise<void>[] = [];
+    targets: Array<'github' | 'onedrive'>,
+    projectId: string,
+    resolve?: 'ours' | 'theirs'
+  ): Promise<ISyncTargetResult[]> {
+    const promises: Promise<ISyncTargetResult | void>[] = [];
     
     if (targets.includes('github')) {
-      promises.push(SyncService.syncWithGithub(files));
+      promises.push(SyncService.syncWithGithub(files, projectId, resolve));
     }
     
     if (targets.includes('onedrive')) {
       promises.push(SyncService.syncWithOneDrive(files));
     }
     
-    await Promise.all(promises);
+    const results = await Promise.all(promises);
+    return results.filter((result): result is ISyncTargetResult => !!result);
   }
   
-  private static async syncWithGithub(files: FileEntry[]): Promise<void> {
-    // Check if we have a token
-    const token = SyncService.getGithubToken();
-    if (!token) {
-      console.log('No GitHub token available. Skipping GitHub sync.');
-      return;
-    }
-    
+  // The server commits the files to its configured git remote, merges
+  // remote changes and returns them in `pulled` for the caller to apply.
+  // Files changed on both sides come back as a conflict, settled by
+  // syncing again with `resolve`
+  private static async syncWithGithub(
+    files: FileEntry[],
+    projectId: string,
+    resolve?: 'ours' | 'theirs'
+  ): Promise<ISyncTargetResult> {
     try {
       console.log('Syncing with GitHub...');
       
-      // In a real implementation, you would use the GitHub API to:
-      // 1. Get the repository contents
-      // 2. Compare with local files
-      // 3. Create or update files as needed
+      const res = await fetch('/api/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          projectId,
+          targets: ['github'],
+          resolve,
+          files: files
+            .filter(file => file.type === 'file')
+            .map(file => ({ path: file.path, content: file.content ?? '' }))
+        })
+      });
       
-      // For now, we'll just log the sync
-      console.log(`Synced ${files.length} files with GitHub`);
+      const json = (await res.json()) as IApiResponse<ISyncResponse>;
+      if (!res.ok || !json.success || !json.data) {
+        throw new Error(json.error?.message || res.statusText);
+      }
+      
+      const result = json.data.targets[0];
+      if (result.status === 'error') {
+        throw new Error(result.message);
+      }
+      
+      console.log(result.message);
+      return result;
     } catch (error) {
       console.error('GitHub sync failed:', error);
       throw error;
@@ -7,6 +7,20 @@ export enum WebSocketMessageType {
   USER_JOINED = 'user_joined',
   USER_LEFT = 'user_left',
   ERROR = 'error',
+  COLLAB_JOIN = 'collab:join',
+  COLLAB_LEAVE = 'collab:leave',
+  COLLAB_SYNC = 'collab:sync',
+  EXEC_START = 'exec:start',
+  EXEC_STDOUT = 'exec:stdout',
+  EXEC_STDERR = 'exec:stderr',
+  EXEC_EXIT = 'exec:exit',
+  EXEC_CANCEL = 'exec:cancel',
+  TERMINAL_OPEN = 'terminal:open',
+  TERMINAL_INPUT = 'terminal:input',
+  TERMINAL_RESIZE = 'terminal:resize',
+  TERMINAL_CLOSE = 'terminal:close',
+  TERMINAL_OUTPUT = 'terminal:output',
+  TERMINAL_EXIT = 'terminal:exit',
 }
 
 export interface WebSocketMessage {
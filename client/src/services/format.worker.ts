@@ -0,0 +1,29 @@
+import * as prettier from 'prettier/standalone';
+import * as babel from 'prettier/plugins/babel';
+import * as estree from 'prettier/plugins/estree';
+import * as typescript from 'prettier/plugins/typescript';
+import * as postcss from 'prettier/plugins/postcss';
+import * as markdown from 'prettier/plugins/markdown';
+import type { FormatRequest, FormatResponse } from './FormatService';
+
+// Runs Prettier off the main thread so large files don't block typing
+const plugins = [babel, estree, typescript, postcss, markdown];
+
+self.onmessage = async (event: MessageEvent<FormatRequest>) => {
+  const { id, content, parser, options, range } = event.data;
+
+  let response: FormatResponse;
+  try {
+    const formatted = await prettier.format(content, {
+      ...options,
+      parser,
+      plugins,
+      ...(range ? { rangeStart: range.start, rangeEnd: range.end } : {})
+    });
+    response = { id, formatted };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  self.postMessage(response);
+};
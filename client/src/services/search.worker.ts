@@ -0,0 +1,28 @@
+import { replaceInContent, searchFiles } from '../lib/search';
+import type { SearchWorkerRequest, SearchWorkerResponse } from './SearchService';
+
+// Searches project files off the main thread so large projects don't
+// freeze the UI while typing a query
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+
+  let response: SearchWorkerResponse;
+  try {
+    if (request.type === 'search') {
+      response = { id: request.id, results: searchFiles(request.files, request.options, request.replacement) };
+    } else {
+      const contents: Record<string, string> = {};
+      for (const file of request.files) {
+        const replaced = replaceInContent(file.content, request.options, request.replacement);
+        if (replaced !== file.content) {
+          contents[file.path] = replaced;
+        }
+      }
+      response = { id: request.id, contents };
+    }
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  self.postMessage(response);
+};
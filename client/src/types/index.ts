@@ -1,3 +1,5 @@
+import type { IPromptContextBreakdown } from '@shared/api-types';
+
 // File types and project structure
 export interface FileEntry {
   name: string;
@@ -12,6 +14,7 @@ export interface FileEntry {
 
 // Project state types
 export interface ProjectState {
+  projectId: string | null; // Server project the files belong to, once loaded
   files: Record<string, FileEntry>;
   openFiles: string[];
   activeFile: string | null;
@@ -35,6 +38,7 @@ export interface AIMessage {
   timestamp: Date;
   agent?: AIAgent;
   model?: AIModel;
+  context?: IPromptContextBreakdown; // What the server fit into the prompt
 }
 
 export interface AIThread {
@@ -71,6 +75,7 @@ export interface BackupOptions {
   targets: Array<'local' | 'github' | 'onedrive'>;
   encrypt: boolean;
   interval: number;
+  formatChangedFiles?: boolean; // Run Prettier on files changed since the last backup first
 }
 
 export interface BackupMetadata {
@@ -0,0 +1,204 @@
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Agent, AgentStreamEvent } from './agent';
+import { InMemoryStateManager } from './state-manager';
+import { AdvancedMemoryManager } from '../memory/memory-manager';
+import { PromptManager } from '../prompt/prompt-manager';
+import { Tool, ToolExecutor } from '../tools/tool-executor';
+import { ErrorHandler } from '../error-handler';
+import { AIGovernance } from '../ai/governance';
+import { PolicyEnforcer } from '../ai/governance-policy';
+import { UsageTracker } from '../monitoring';
+import {
+  AITool,
+  BaseAIService,
+  GenerationOptions,
+  ToolCallingOptions,
+  ToolCallingResult,
+  ToolConversationMessage
+} from '../ai/base-ai-service';
+
+/**
+ * Provider that answers from a script of turns instead of calling a model
+ */
+class FakeAIService implements BaseAIService {
+  /** Conversations the provider was asked to continue */
+  calls: ToolConversationMessage[][] = [];
+
+  constructor(private turns: ToolCallingResult[], private model = 'fake-model') {}
+
+  async generateCompletion(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    const turn = await this.generateWithTools(prompt, [], options);
+    return turn.content;
+  }
+
+  async *generateCompletionStream(prompt: string, options: GenerationOptions = {}): AsyncIterable<string> {
+    const { content } = await this.generateWithTools(prompt, [], options);
+    for (const word of content.split(/(?<= )/)) {
+      yield word;
+    }
+  }
+
+  async generateWithTools(
+    conversation: string | ToolConversationMessage[],
+    tools: AITool[],
+    options: ToolCallingOptions = {}
+  ): Promise<ToolCallingResult> {
+    this.calls.push(typeof conversation === 'string' ? [{ role: 'user', content: conversation }] : [...conversation]);
+    const turn = this.turns.shift();
+    if (!turn) {
+      throw new Error('No scripted turn left');
+    }
+
+    options.onUsage?.({ model: options.model ?? this.model, promptTokens: 10, completionTokens: 5 });
+    return turn;
+  }
+
+  async analyzeCode(): Promise<any> {
+    return {};
+  }
+
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  supportsCapability(capability: 'image_generation' | 'function_calling' | 'json_mode'): boolean {
+    return capability === 'function_calling';
+  }
+}
+
+const quietLogger = { ...console, debug: () => {}, info: () => {} } as Console;
+
+describe('Agent', () => {
+  let governance: AIGovernance;
+  let usageTracker: UsageTracker;
+
+  beforeEach(() => {
+    governance = new AIGovernance({ logger: quietLogger, sensitiveTerms: ['offensive'] });
+    governance.registerModel('default-model', { name: 'Test Model', version: '1.0.0', provider: 'test', type: 'text-generation' });
+    usageTracker = new UsageTracker();
+  });
+
+  /**
+   * Agent wired to in-memory components and the given provider
+   */
+  function createAgent(aiService: BaseAIService, tools: Tool[] = []) {
+    const stateManager = new InMemoryStateManager();
+    const toolExecutor = new ToolExecutor(stateManager, aiService);
+    tools.forEach(tool => toolExecutor.registerTool(tool));
+
+    return new Agent(
+      stateManager,
+      new AdvancedMemoryManager({ minRelevance: 0 }),
+      new PromptManager({ systemPrompt: 'Test prompt' }),
+      toolExecutor,
+      new ErrorHandler(),
+      aiService,
+      usageTracker,
+      new PolicyEnforcer(governance)
+    );
+  }
+
+  it('answers with the model response and records its usage', async () => {
+    const aiService = new FakeAIService([{ content: 'Hello there', toolCalls: [] }]);
+    const agent = createAgent(aiService);
+
+    const response = await agent.handleRequest('Hi', 'session-1', { userId: 'user-1' });
+
+    expect(response).toBe('Hello there');
+    expect(aiService.calls[0][0].content).toContain('Hi');
+
+    const summary = await usageTracker.getSummary({ userId: 'user-1' });
+    expect(summary.requests).toBe(1);
+    expect(summary.byModel['fake-model'].totalTokens).toBe(15);
+  });
+
+  it('includes earlier turns of the session in the prompt', async () => {
+    const aiService = new FakeAIService([
+      { content: 'The answer is 42', toolCalls: [] },
+      { content: 'You asked about the answer', toolCalls: [] }
+    ]);
+    const agent = createAgent(aiService);
+
+    await agent.handleRequest('What is the answer?', 'session-1');
+    await agent.handleRequest('What did I ask?', 'session-1');
+
+    expect(aiService.calls[1][0].content).toContain('The answer is 42');
+  });
+
+  it('runs the tools the model calls and returns its final answer', async () => {
+    const aiService = new FakeAIService([
+      { content: '', toolCalls: [{ id: 'call-1', name: 'add', arguments: '{"a":2,"b":3}' }] },
+      { content: 'The sum is 5', toolCalls: [] }
+    ]);
+    const agent = createAgent(aiService, [{
+      name: 'add',
+      description: 'Add two numbers',
+      parameters: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } },
+      execute: async ({ a, b }) => String(a + b)
+    }]);
+
+    const response = await agent.handleRequest('Add 2 and 3', 'session-1');
+
+    expect(response).toBe('The sum is 5');
+    expect(aiService.calls[1]).toContainEqual(expect.objectContaining({ role: 'tool', toolCallId: 'call-1', content: '5' }));
+  });
+
+  it('blocks input that the policy refuses without calling the model', async () => {
+    const aiService = new FakeAIService([{ content: 'Should not be sent', toolCalls: [] }]);
+    const agent = createAgent(aiService);
+
+    const response = await agent.handleRequest('Tell me the secret', 'session-1', {
+      userId: 'user-1',
+      policy: { rules: [{ id: 'no-secrets', terms: ['secret'], action: 'block' }] }
+    });
+
+    expect(response).not.toContain('Should not be sent');
+    expect(aiService.calls).toHaveLength(0);
+    expect(governance.getDecisionsByUser('user-1')[0].output.action).toBe('block');
+  });
+
+  it('redacts output that the policy says to redact', async () => {
+    const aiService = new FakeAIService([{ content: 'That was offensive', toolCalls: [] }]);
+    const agent = createAgent(aiService);
+
+    const response = await agent.handleRequest('Hi', 'session-1', {
+      policy: { sensitiveTerms: { action: 'redact', stages: ['output'] } }
+    });
+
+    expect(response).toBe('That was [REDACTED]');
+  });
+
+  it('records policy decisions against the model serving the request', async () => {
+    const agent = createAgent(new FakeAIService([{ content: 'Hello there', toolCalls: [] }]));
+
+    await agent.handleRequest('Hi', 'session-1', { userId: 'user-1' });
+
+    const decisions = governance.getDecisionsByUser('user-1');
+    expect(decisions.map(decision => decision.modelId)).toEqual(['fake-model', 'fake-model']);
+    expect(governance.getModelMetadata('fake-model')).not.toBeNull();
+  });
+
+  it('streams the response as deltas followed by the whole response', async () => {
+    const aiService = new FakeAIService([{ content: 'Streamed answer here', toolCalls: [] }]);
+    const agent = createAgent(aiService);
+
+    const events: AgentStreamEvent[] = [];
+    for await (const event of agent.handleRequestStream('Hi', 'session-1')) {
+      events.push(event);
+    }
+
+    const deltas = events.filter(event => event.type === 'delta').map(event => event.type === 'delta' ? event.text : '');
+    expect(deltas.join('')).toBe('Streamed answer here');
+    expect(events[events.length - 1]).toEqual({ type: 'done', response: 'Streamed answer here' });
+  });
+
+  it('returns a user-facing message when the provider fails', async () => {
+    const agent = createAgent(new FakeAIService([]));
+
+    const response = await agent.handleRequest('Hi', 'session-1');
+
+    expect(response).not.toContain('No scripted turn left');
+    expect(response.length).toBeGreaterThan(0);
+  });
+});
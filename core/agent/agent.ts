@@ -6,15 +6,56 @@
  */
 
 import { injectable, inject } from 'tsyringe';
+import { Span } from '@opentelemetry/api';
 import { 
   IStateManager, 
   IMemoryManager, 
   IPromptManager, 
-  IToolExecutor 
+  IToolExecutor,
+  ApplicationState,
+  ConstructedPrompt,
+  MemoryContext,
+  PromptBreakdown
 } from '../interfaces';
 import { ErrorHandler, MonitoredError } from '../error-handler';
-import { InputValidationError, LLMAPIError } from '../errors';
-import { PerformanceMonitor } from '../monitoring';
+import { InputValidationError, LLMAPIError, ToolExecutionError } from '../errors';
+import { PerformanceMonitor, RequestLabels, RequestMetrics, UsageTracker, recordSpanError, traceStream, withSpan } from '../monitoring';
+import { BaseAIService, TokenUsage } from '../ai/base-ai-service';
+import { GovernancePolicy, PolicyEnforcer, PolicyStage } from '../ai/governance-policy';
+
+/**
+ * Per-request options for the Agent
+ */
+export interface AgentRequestOptions {
+  /** Agent the request is made to, such as Coder, to label its metrics with */
+  agent?: string;
+  
+  /** System prompt sent to the model alongside the constructed prompt */
+  systemPrompt?: string;
+  
+  /** Provider model ID to use instead of the service default */
+  model?: string;
+  
+  /** User the request is made for, to attribute token usage to */
+  userId?: string;
+  
+  /** Signal that stops generation when aborted */
+  signal?: AbortSignal;
+  
+  /** Governance policy to apply on top of the default one, such as the workspace's */
+  policy?: GovernancePolicy;
+  
+  /** Called with what the prompt includes once it has been constructed */
+  onPromptBuilt?: (breakdown: PromptBreakdown) => void;
+}
+
+/**
+ * Event emitted while streaming a response
+ */
+export type AgentStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: string }
+  | { type: 'error'; message: string };
 
 /**
  * Core Agent class that orchestrates the handling of user requests
@@ -28,25 +69,130 @@ export class Agent {
    * @param promptManager - For constructing LLM prompts
    * @param toolExecutor - For executing tools
    * @param errorHandler - For consistent error handling
+   * @param aiService - For calling the language model
+   * @param usageTracker - For recording token usage and cost
+   * @param policyEnforcer - For screening input and output against governance policies
    */
   constructor(
     private stateManager: IStateManager,
     private memoryManager: IMemoryManager,
     private promptManager: IPromptManager,
     private toolExecutor: IToolExecutor,
-    private errorHandler: ErrorHandler
+    private errorHandler: ErrorHandler,
+    private aiService: BaseAIService,
+    private usageTracker?: UsageTracker,
+    private policyEnforcer?: PolicyEnforcer
   ) {}
 
   /**
    * Handle a user request
    * @param userInput - User input text
    * @param sessionId - Unique session identifier
+   * @param options - Per-request model options
    * @returns Response to the user
    */
-  async handleRequest(userInput: string, sessionId: string): Promise<string> {
+  async handleRequest(userInput: string, sessionId: string, options: AgentRequestOptions = {}): Promise<string> {
+    return withSpan('agent.request', { attributes: requestAttributes(sessionId, options) }, async (span) => {
+      // Start performance monitoring
+      const metrics = PerformanceMonitor.startRequest(sessionId, this.requestLabels(options));
+      let response: string | MonitoredError = 'Unknown response'; // Initialize with default
+      span.setAttribute('bolt.request.id', metrics.requestId);
+      
+      try {
+        // 1. Validate Input
+        if (!userInput || typeof userInput !== 'string' || userInput.trim().length === 0) {
+          throw new InputValidationError('Invalid user input received: Input is empty.');
+        }
+
+        // 2. Screen Input against the governance policy
+        const input = this.enforcePolicy('input', userInput, options, metrics);
+
+        // 3. Get State/Context
+        const currentState = await withSpan('agent.state', {}, () => this.stateManager.getState(sessionId));
+        const context = await withSpan('agent.memory', {}, () => this.memoryManager.getContext(sessionId, input));
+
+        // 4. Build Optimized Prompt
+        const { prompt, breakdown } = await this.buildPrompt(input, context, currentState, options);
+        options.onPromptBuilt?.(breakdown);
+
+        // 5. Execute LLM Call, running any tools it requests
+        const llmResponse = await withSpan('agent.llm', { attributes: modelAttributes(options) }, () =>
+          this.callLLM(prompt, sessionId, options, metrics)
+        );
+
+        // 6. Screen Output against the governance policy
+        const finalResponse = this.enforcePolicy('output', llmResponse, options, metrics);
+
+        // 7. Update State/Memory
+        await withSpan('agent.store', {}, async () => {
+          await this.stateManager.updateState(sessionId, { lastResponse: finalResponse });
+          await this.memoryManager.storeInteraction(sessionId, { input, response: finalResponse }, {
+            onUsage: (usage) => this.trackUsage(usage, sessionId, options)
+          });
+        });
+
+        response = finalResponse; // Assign successful response
+        return finalResponse;
+      } catch (error: any) { // Use 'any' to access constructor.name
+        // Update metrics for error tracking
+        metrics.errorOccurred = true;
+        metrics.errorType = error.constructor?.name || 'UnknownError';
+        
+        // Handle error with centralized handler
+        const monitoredError = this.errorHandler.handle(error, { userInput, sessionId });
+        response = monitoredError;
+        recordSpanError(span, error, monitoredError.category);
+        
+        // Return user-friendly error message
+        return monitoredError.userFacingMessage;
+      } finally {
+        // Complete performance monitoring
+        PerformanceMonitor.endRequest(metrics, response);
+        span.setAttributes(usageAttributes(metrics));
+      }
+    });
+  }
+
+  /**
+   * Handle a user request, streaming the model output as it is generated.
+   * Tool calls need whole model turns, so streamed requests are answered
+   * without tools; the final 'done' event carries the complete response.
+   * When the governance policy can redact or block output, the response
+   * is screened first and sent as a single delta.
+   * @param userInput - User input text
+   * @param sessionId - Unique session identifier
+   * @param options - Per-request model options
+   * @returns Async iterator of stream events
+   */
+  handleRequestStream(
+    userInput: string,
+    sessionId: string,
+    options: AgentRequestOptions = {}
+  ): AsyncGenerator<AgentStreamEvent> {
+    return traceStream('agent.request', { attributes: requestAttributes(sessionId, options) }, (span) =>
+      this.streamRequest(userInput, sessionId, options, span)
+    );
+  }
+
+  /**
+   * Run a streamed request inside its trace span
+   * @param userInput - User input text
+   * @param sessionId - Unique session identifier
+   * @param options - Per-request model options
+   * @param span - Span of the request
+   * @returns Async iterator of stream events
+   * @private
+   */
+  private async *streamRequest(
+    userInput: string,
+    sessionId: string,
+    options: AgentRequestOptions,
+    span: Span
+  ): AsyncGenerator<AgentStreamEvent> {
     // Start performance monitoring
-    const metrics = PerformanceMonitor.startRequest(sessionId);
+    const metrics = PerformanceMonitor.startRequest(sessionId, this.requestLabels(options));
     let response: string | MonitoredError = 'Unknown response'; // Initialize with default
+    span.setAttribute('bolt.request.id', metrics.requestId);
     
     try {
       // 1. Validate Input
@@ -54,26 +200,48 @@ export class Agent {
         throw new InputValidationError('Invalid user input received: Input is empty.');
       }
 
-      // 2. Get State/Context
-      const currentState = await this.stateManager.getState(sessionId);
-      const context = await this.memoryManager.getContext(sessionId, userInput);
+      // 2. Screen Input against the governance policy
+      const input = this.enforcePolicy('input', userInput, options, metrics);
 
-      // 3. Build Optimized Prompt
-      const prompt = await this.promptManager.constructPrompt(userInput, context, currentState);
+      // 3. Get State/Context
+      const currentState = await withSpan('agent.state', {}, () => this.stateManager.getState(sessionId));
+      const context = await withSpan('agent.memory', {}, () => this.memoryManager.getContext(sessionId, input));
 
-      // 4. Execute LLM Call
-      const llmResponse = await this.callLLM(prompt);
+      // 4. Build Optimized Prompt
+      const { prompt, breakdown } = await this.buildPrompt(input, context, currentState, options);
+      options.onPromptBuilt?.(breakdown);
 
-      // 5. Process Response / Execute Tools
-      const finalResponse = await this.toolExecutor.processResponse(llmResponse, sessionId);
+      // 5. Stream LLM Call; output that the policy may redact or block is
+      // held back until it has been screened in full
+      const screened = this.policyEnforcer?.screensOutput(options.policy) ?? false;
+      let llmResponse = '';
+      const deltas = traceStream('agent.llm', { attributes: modelAttributes(options) }, () =>
+        this.streamLLM(prompt, sessionId, options, metrics)
+      );
+      for await (const delta of deltas) {
+        llmResponse += delta;
+        if (!screened) {
+          yield { type: 'delta', text: delta };
+        }
+      }
+
+      // 6. Screen Output against the governance policy
+      const finalResponse = this.enforcePolicy('output', llmResponse, options, metrics);
+      if (screened && finalResponse) {
+        yield { type: 'delta', text: finalResponse };
+      }
 
-      // 6. Update State/Memory
-      await this.stateManager.updateState(sessionId, { lastResponse: finalResponse });
-      await this.memoryManager.storeInteraction(sessionId, { input: userInput, response: finalResponse });
+      // 7. Update State/Memory
+      await withSpan('agent.store', {}, async () => {
+        await this.stateManager.updateState(sessionId, { lastResponse: finalResponse });
+        await this.memoryManager.storeInteraction(sessionId, { input, response: finalResponse }, {
+          onUsage: (usage) => this.trackUsage(usage, sessionId, options)
+        });
+      });
 
-      response = finalResponse; // Assign successful response
-      return finalResponse;
-    } catch (error: any) { // Use 'any' to access constructor.name
+      response = finalResponse;
+      yield { type: 'done', response: finalResponse };
+    } catch (error: any) {
       // Update metrics for error tracking
       metrics.errorOccurred = true;
       metrics.errorType = error.constructor?.name || 'UnknownError';
@@ -81,49 +249,216 @@ export class Agent {
       // Handle error with centralized handler
       const monitoredError = this.errorHandler.handle(error, { userInput, sessionId });
       response = monitoredError;
+      recordSpanError(span, error, monitoredError.category);
       
-      // Return user-friendly error message
-      return monitoredError.userFacingMessage;
+      yield { type: 'error', message: monitoredError.userFacingMessage };
     } finally {
       // Complete performance monitoring
       PerformanceMonitor.endRequest(metrics, response);
+      span.setAttributes(usageAttributes(metrics));
     }
   }
 
   /**
-   * Call the LLM with a prompt
-   * @param prompt - Constructed prompt for the LLM
-   * @returns Response from the LLM
+   * Build the prompt for a request, tracing how much of the context fit
+   * @param input - Screened user input
+   * @param context - Conversation context from memory
+   * @param currentState - Session state
+   * @param options - Per-request model options
+   * @returns Prompt and its token breakdown
    * @private
    */
-  private async callLLM(prompt: string): Promise<string> {
-    console.log("Calling LLM with prompt snippet:", prompt.substring(0, 100) + "...");
-    
-    try {
-      // In a real implementation, this would call the LLM API
-      // For this example, we'll simulate a response
+  private buildPrompt(
+    input: string,
+    context: MemoryContext,
+    currentState: ApplicationState,
+    options: AgentRequestOptions
+  ): Promise<ConstructedPrompt> {
+    return withSpan('agent.prompt', { attributes: modelAttributes(options) }, async (span) => {
+      const built = await this.promptManager.constructPrompt(input, context, currentState, {
+        model: options.model,
+        systemPrompt: options.systemPrompt
+      });
       
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Simulate API errors for testing
-      if (prompt.includes("error_trigger")) {
-        throw new Error("Simulated LLM API Error");
+      const { breakdown } = built;
+      span.setAttributes({
+        'bolt.prompt.tokens': breakdown.totalTokens,
+        'bolt.prompt.max_tokens': breakdown.maxTokens,
+        'bolt.prompt.history_turns': breakdown.history.included,
+        'bolt.prompt.memories': breakdown.memories.included,
+        'bolt.prompt.truncated': breakdown.truncated
+      });
+      if (breakdown.model) {
+        span.setAttribute('gen_ai.request.model', breakdown.model);
       }
       
-      if (prompt.length > 8000) {
-        throw new Error("Simulated Context Length Exceeded Error");
+      return built;
+    });
+  }
+
+  /**
+   * Call the LLM with a prompt, letting it use the registered tools
+   * @param prompt - Constructed prompt for the LLM
+   * @param sessionId - Session identifier for tool state
+   * @param options - Per-request model options
+   * @param metrics - Request metrics to add token counts to
+   * @returns Final response from the LLM
+   * @private
+   */
+  private async callLLM(
+    prompt: string,
+    sessionId: string,
+    options: AgentRequestOptions,
+    metrics: RequestMetrics
+  ): Promise<string> {
+    try {
+      return await this.toolExecutor.run(prompt, sessionId, {
+        model: options.model,
+        systemPrompt: options.systemPrompt,
+        signal: options.signal,
+        onUsage: (usage) => this.recordUsage(usage, sessionId, options, metrics)
+      });
+    } catch (error) {
+      // Providers already raise LLMAPIError; wrap anything else
+      if (error instanceof LLMAPIError || error instanceof ToolExecutionError) {
+        throw error;
       }
       
-      // Generate simple response
-      return `I understood your request. Here's my response to: "${prompt.substring(0, 50)}..."`;
+      throw new LLMAPIError(
+        `LLM API call failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Stream the LLM output for a prompt
+   * @param prompt - Constructed prompt for the LLM
+   * @param sessionId - Session identifier to attribute usage to
+   * @param options - Per-request model options
+   * @param metrics - Request metrics to add token counts to
+   * @returns Async iterator of text deltas
+   * @private
+   */
+  private async *streamLLM(
+    prompt: string,
+    sessionId: string,
+    options: AgentRequestOptions,
+    metrics: RequestMetrics
+  ): AsyncIterable<string> {
+    try {
+      yield* this.aiService.generateCompletionStream(prompt, {
+        model: options.model,
+        systemPrompt: options.systemPrompt,
+        signal: options.signal,
+        onUsage: (usage) => this.recordUsage(usage, sessionId, options, metrics)
+      });
     } catch (error) {
-      console.error("LLM Call failed:", error);
+      // Providers already raise LLMAPIError; wrap anything else
+      if (error instanceof LLMAPIError) {
+        throw error;
+      }
       
-      // Convert to specific error type
       throw new LLMAPIError(
         `LLM API call failed: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * Check text against the governance policy, recording the decision
+   * @param stage - Whether the text is the user's input or the model's output
+   * @param text - Text to check
+   * @param options - Per-request options naming the user and workspace policy
+   * @param metrics - Request metrics identifying the request and the model serving it
+   * @returns Text with any redactions applied
+   * @throws AIGovernanceError if the policy blocks the text
+   * @private
+   */
+  private enforcePolicy(stage: PolicyStage, text: string, options: AgentRequestOptions, metrics: RequestMetrics): string {
+    const enforcer = this.policyEnforcer;
+    if (!enforcer) {
+      return text;
+    }
+    
+    return withSpan('agent.policy', { attributes: { 'bolt.policy.stage': stage } }, (span) => {
+      const result = enforcer.enforce(stage, text, {
+        requestId: metrics.requestId,
+        userId: options.userId,
+        model: metrics.model,
+        policy: options.policy
+      });
+      span.setAttributes({ 'bolt.policy.action': result.action, 'bolt.policy.decision_id': result.decisionId });
+      return result.text;
+    });
+  }
+  
+  /**
+   * Metric labels of a request; the model is replaced by the one the
+   * provider reports, which may differ after a fallback
+   * @param options - Per-request options naming the agent and model
+   * @returns Agent and model labels
+   * @private
+   */
+  private requestLabels(options: AgentRequestOptions): RequestLabels {
+    return { agent: options.agent, model: options.model ?? this.aiService.getDefaultModel?.() };
+  }
+  
+  /**
+   * Record the tokens a model call used against the request's session and user
+   * @param usage - Tokens reported by the provider
+   * @param sessionId - Session the request belongs to
+   * @param options - Per-request options naming the user
+   * @param metrics - Request metrics to add token counts to
+   * @private
+   */
+  private recordUsage(usage: TokenUsage, sessionId: string, options: AgentRequestOptions, metrics: RequestMetrics): void {
+    metrics.model = usage.model;
+    metrics.promptTokens = (metrics.promptTokens ?? 0) + usage.promptTokens;
+    metrics.responseTokens = (metrics.responseTokens ?? 0) + usage.completionTokens;
+    this.trackUsage(usage, sessionId, options);
+  }
+  
+  /**
+   * Charge the tokens a model call used to the session and user, without
+   * touching request metrics. Used for calls that outlive the request,
+   * such as memory summaries.
+   * @param usage - Tokens reported by the provider
+   * @param sessionId - Session the call was made for
+   * @param options - Per-request options naming the user
+   * @private
+   */
+  private trackUsage(usage: TokenUsage, sessionId: string, options: AgentRequestOptions): void {
+    // Accounting must never fail the request it accounts for
+    this.usageTracker?.record(usage, { sessionId, userId: options.userId }).catch((error) => {
+      console.error(`Failed to record token usage: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+}
+
+/**
+ * Span attributes identifying a request
+ */
+function requestAttributes(sessionId: string, options: AgentRequestOptions): Record<string, string> {
+  return {
+    'session.id': sessionId,
+    ...(options.userId ? { 'enduser.id': options.userId } : {}),
+    ...modelAttributes(options)
+  };
+}
+
+/**
+ * Span attributes naming the requested model, if any
+ */
+function modelAttributes(options: AgentRequestOptions): Record<string, string> {
+  return options.model ? { 'gen_ai.request.model': options.model } : {};
+}
+
+/**
+ * Span attributes with the tokens a request used
+ */
+function usageAttributes(metrics: RequestMetrics): Record<string, number> {
+  return {
+    ...(metrics.promptTokens !== undefined ? { 'gen_ai.usage.input_tokens': metrics.promptTokens } : {}),
+    ...(metrics.responseTokens !== undefined ? { 'gen_ai.usage.output_tokens': metrics.responseTokens } : {})
+  };
+}
@@ -14,7 +14,13 @@ import {
   GenerationOptions, 
   ToolCallingOptions,
   AITool,
-  AIModel
+  AIModel,
+  getErrorStatus,
+  TokenUsage,
+  ToolCallingResult,
+  ToolConversationMessage,
+  toToolConversation,
+  estimateUsage
 } from './base-ai-service';
 
 /**
@@ -86,7 +92,9 @@ export class AnthropicService extends AbstractAIService {
         messages: [
           { role: 'user', content: prompt }
         ],
-      });
+      }, { signal: options.signal });
+      
+      options.onUsage?.(this.toUsage(model, message.usage));
       
       // Check if we have a text content block
       if (message.content && message.content.length > 0) {
@@ -102,19 +110,82 @@ export class AnthropicService extends AbstractAIService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`Anthropic API call failed: ${errorMessage}`);
-      throw new LLMAPIError(`Anthropic API call failed: ${errorMessage}`);
+      throw new LLMAPIError(`Anthropic API call failed: ${errorMessage}`, getErrorStatus(error));
     }
   }
   
   /**
-   * Generate a completion with tool calling
-   * Note: Tool calling support depends on the Claude model version
+   * Generate a completion using the Anthropic API, streaming text deltas
    * @param prompt - User prompt
+   * @param options - Generation options
+   * @returns Async iterator of text deltas
+   */
+  async *generateCompletionStream(prompt: string, options: GenerationOptions = {}): AsyncIterable<string> {
+    const model = options.model || this.defaultModel;
+    const systemPrompt = options.systemPrompt || "You are an expert programmer helping with code.";
+    let usage: TokenUsage | undefined;
+    let completion = '';
+    let streaming = false;
+    
+    try {
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error('Anthropic API key not found. Please set ANTHROPIC_API_KEY environment variable.');
+      }
+      
+      const temperature = options.temperature ?? this.defaultTemperature;
+      const maxTokens = options.maxTokens ?? 2048;
+      
+      console.log(`Streaming from Anthropic with model: ${model}, temperature: ${temperature}`);
+      
+      const stream = this.anthropic.messages.stream({
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        system: systemPrompt,
+        messages: [
+          { role: 'user', content: prompt }
+        ],
+      }, { signal: options.signal });
+      streaming = true;
+      
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          completion += event.delta.text;
+          yield event.delta.text;
+        }
+      }
+      
+      const final = await stream.finalMessage();
+      usage = this.toUsage(model, final.usage);
+    } catch (error) {
+      // Stopping generation is not an error
+      if (options.signal?.aborted) {
+        return;
+      }
+      
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Anthropic streaming call failed: ${errorMessage}`);
+      throw new LLMAPIError(`Anthropic streaming call failed: ${errorMessage}`, getErrorStatus(error));
+    } finally {
+      // A stream stopped before its final message is still billed
+      if (streaming) {
+        options.onUsage?.(usage ?? estimateUsage(model, `${systemPrompt}\n${prompt}`, completion));
+      }
+    }
+  }
+  
+  /**
+   * Generate the next turn of a tool calling conversation
+   * @param conversation - User prompt or conversation so far
    * @param tools - Available tools
    * @param options - Generation options
-   * @returns Generated completion with potential tool calls
+   * @returns Model text and requested tool calls
    */
-  async generateWithTools(prompt: string, tools: AITool[], options: ToolCallingOptions = {}): Promise<any> {
+  async generateWithTools(
+    conversation: string | ToolConversationMessage[],
+    tools: AITool[],
+    options: ToolCallingOptions = {}
+  ): Promise<ToolCallingResult> {
     try {
       if (!process.env.ANTHROPIC_API_KEY) {
         throw new Error('Anthropic API key not found. Please set ANTHROPIC_API_KEY environment variable.');
@@ -131,21 +202,84 @@ export class AnthropicService extends AbstractAIService {
         max_tokens: maxTokens,
         temperature,
         system: options.systemPrompt || "You are an expert programmer helping with code.",
-        messages: [
-          { role: 'user', content: prompt }
-        ],
-        tools: tools as any,
-      });
+        messages: this.toAnthropicMessages(toToolConversation(conversation)),
+        tools: tools.map(tool => ({
+          name: tool.function.name,
+          description: tool.function.description,
+          input_schema: tool.function.parameters as Anthropic.Tool.InputSchema
+        })),
+      }, { signal: options.signal });
       
-      return message;
+      const usage = this.toUsage(model, message.usage);
+      options.onUsage?.(usage);
+      
+      const result: ToolCallingResult = { content: '', toolCalls: [], usage };
+      for (const block of message.content) {
+        if (block.type === 'text') {
+          result.content += block.text;
+        } else if (block.type === 'tool_use') {
+          result.toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input) });
+        }
+      }
+      return result;
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`Anthropic API call with tools failed: ${errorMessage}`);
-      throw new LLMAPIError(`Anthropic API call with tools failed: ${errorMessage}`);
+      throw new LLMAPIError(`Anthropic API call with tools failed: ${errorMessage}`, getErrorStatus(error));
     }
   }
   
+  /**
+   * Convert the usage Anthropic reports to our common format
+   * @param model - Model the request was made with
+   * @param usage - Usage from the response
+   * @returns Token usage
+   */
+  private toUsage(model: string, usage: Anthropic.Usage): TokenUsage {
+    return { model, promptTokens: usage.input_tokens, completionTokens: usage.output_tokens };
+  }
+  
+  /**
+   * Convert a conversation to Anthropic's message format. Tool results
+   * are sent back as tool_result blocks of a single user message.
+   * @param conversation - Messages in our common format
+   * @returns Messages in Anthropic's format
+   */
+  private toAnthropicMessages(conversation: ToolConversationMessage[]): Anthropic.MessageParam[] {
+    const messages: Anthropic.MessageParam[] = [];
+    
+    for (const message of conversation) {
+      if (message.role === 'user') {
+        messages.push({ role: 'user', content: message.content });
+      } else if (message.role === 'assistant') {
+        const content: Anthropic.ContentBlockParam[] = [];
+        if (message.content) {
+          content.push({ type: 'text', text: message.content });
+        }
+        for (const call of message.toolCalls || []) {
+          content.push({ type: 'tool_use', id: call.id, name: call.name, input: JSON.parse(call.arguments || '{}') });
+        }
+        messages.push({ role: 'assistant', content });
+      } else {
+        const block: Anthropic.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: message.toolCallId,
+          content: message.content,
+          is_error: message.isError
+        };
+        const previous = messages[messages.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content)) {
+          previous.content.push(block);
+        } else {
+          messages.push({ role: 'user', content: [block] });
+        }
+      }
+    }
+    
+    return messages;
+  }
+  
   /**
    * Analyze code using the Anthropic API
    * @param code - Code to analyze
@@ -193,6 +327,14 @@ export class AnthropicService extends AbstractAIService {
     }
   }
   
+  /**
+   * Get the model ID used when a request names none
+   * @returns Default model ID
+   */
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+  
   /**
    * Get available Anthropic models
    * @returns List of available models
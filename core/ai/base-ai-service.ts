@@ -7,13 +7,14 @@
  */
 
 import { injectable } from 'tsyringe';
+import { createTokenCounter } from '../prompt/tokenizer';
 
 /**
  * Model information with common fields across providers
  */
 export interface AIModel {
   id: string;
-  provider: 'openai' | 'anthropic' | 'google' | 'deepseek' | 'openrouter';
+  provider: 'openai' | 'anthropic' | 'google' | 'deepseek' | 'openrouter' | 'local';
   name: string;
   contextWindow: number;
   maxOutputTokens?: number;
@@ -33,6 +34,16 @@ export interface AIServiceConfig {
   organization?: string;
 }
 
+/**
+ * Tokens a provider reports for one request
+ */
+export interface TokenUsage {
+  /** Model ID the request was made with */
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
 /**
  * Common options for text generation
  */
@@ -42,6 +53,12 @@ export interface GenerationOptions {
   maxTokens?: number;
   systemPrompt?: string;
   responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+  /**
+   * Called with the provider's token counts once the request completes.
+   * Streams stopped early report estimated counts instead.
+   */
+  onUsage?: (usage: TokenUsage) => void;
 }
 
 /**
@@ -52,6 +69,9 @@ export interface ToolCallingOptions {
   temperature?: number;
   systemPrompt?: string;
   maxTokens?: number;
+  signal?: AbortSignal;
+  /** Called with the provider's token counts once the request completes */
+  onUsage?: (usage: TokenUsage) => void;
 }
 
 /**
@@ -74,6 +94,30 @@ export interface FunctionCall {
   arguments: string; // JSON string
 }
 
+/**
+ * Tool call requested by the model, identified so its result can be matched
+ */
+export interface ToolCall extends FunctionCall {
+  id: string;
+}
+
+/**
+ * Message in a tool calling conversation, in a provider-neutral shape
+ */
+export type ToolConversationMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string; isError?: boolean };
+
+/**
+ * Model turn returned by generateWithTools: text and any requested tool calls
+ */
+export interface ToolCallingResult {
+  content: string;
+  toolCalls: ToolCall[];
+  usage?: TokenUsage;
+}
+
 /**
  * Base interface for all AI services
  */
@@ -84,9 +128,20 @@ export interface BaseAIService {
   generateCompletion(prompt: string, options?: GenerationOptions): Promise<string>;
   
   /**
-   * Generate completion with potential tool/function calls
+   * Generate text completion as a stream of text deltas.
+   * Aborting `options.signal` stops generation.
    */
-  generateWithTools(prompt: string, tools: AITool[], options?: ToolCallingOptions): Promise<any>;
+  generateCompletionStream(prompt: string, options?: GenerationOptions): AsyncIterable<string>;
+  
+  /**
+   * Generate the next model turn of a tool calling conversation.
+   * A string prompt is a conversation with a single user message.
+   */
+  generateWithTools(
+    conversation: string | ToolConversationMessage[],
+    tools: AITool[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResult>;
   
   /**
    * Analyze code with the AI
@@ -103,6 +158,11 @@ export interface BaseAIService {
    */
   getAvailableModels?(): Promise<AIModel[]>;
   
+  /**
+   * Get the model ID used when a request names none
+   */
+  getDefaultModel?(): string;
+  
   /**
    * Check if a specific capability is supported
    */
@@ -114,7 +174,12 @@ export interface BaseAIService {
  */
 export abstract class AbstractAIService implements BaseAIService {
   abstract generateCompletion(prompt: string, options?: GenerationOptions): Promise<string>;
-  abstract generateWithTools(prompt: string, tools: AITool[], options?: ToolCallingOptions): Promise<any>;
+  abstract generateCompletionStream(prompt: string, options?: GenerationOptions): AsyncIterable<string>;
+  abstract generateWithTools(
+    conversation: string | ToolConversationMessage[],
+    tools: AITool[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResult>;
   abstract analyzeCode(code: string, language: string): Promise<any>;
   
   // Optional methods with default implementations
@@ -129,4 +194,36 @@ export abstract class AbstractAIService implements BaseAIService {
   supportsCapability?(capability: 'image_generation' | 'function_calling' | 'json_mode'): boolean {
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Normalize a tool calling conversation given as a single prompt
+ * @param conversation - Prompt or conversation messages
+ * @returns Conversation messages
+ */
+export function toToolConversation(conversation: string | ToolConversationMessage[]): ToolConversationMessage[] {
+  return typeof conversation === 'string' ? [{ role: 'user', content: conversation }] : conversation;
+}
+
+/**
+ * HTTP status of a provider SDK error, if it has one
+ * @param error - Error raised by a provider SDK
+ * @returns Status code, or undefined for network and other errors
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Estimate the usage of a request the provider did not report on, such
+ * as a stream stopped before its final chunk
+ * @param model - Model ID the request was made with
+ * @param prompt - Text sent to the model, system prompt included
+ * @param completion - Text received so far
+ * @returns Estimated token counts
+ */
+export function estimateUsage(model: string, prompt: string, completion: string): TokenUsage {
+  const countTokens = createTokenCounter(model);
+  return { model, promptTokens: countTokens(prompt), completionTokens: countTokens(completion) };
+}
@@ -13,7 +13,10 @@ import {
   SchemaType,
   Tool as GeminiTool,
   FunctionDeclaration,
-  FunctionDeclarationSchema
+  FunctionDeclarationSchema,
+  Content,
+  Part,
+  UsageMetadata
 } from '@google/generative-ai';
 import { injectable } from 'tsyringe';
 import { LLMAPIError } from '../errors';
@@ -23,7 +26,13 @@ import {
   GenerationOptions, 
   ToolCallingOptions,
   AITool,
-  AIModel
+  AIModel,
+  getErrorStatus,
+  TokenUsage,
+  ToolCallingResult,
+  ToolConversationMessage,
+  toToolConversation,
+  estimateUsage
 } from './base-ai-service';
 
 /**
@@ -145,7 +154,12 @@ export class GeminiService extends AbstractAIService {
       });
       
       // Send the user's message and get a response
-      const result = await chat.sendMessage(prompt);
+      const result = await chat.sendMessage(prompt, { signal: options.signal });
+      
+      const usage = this.toUsage(model, result.response.usageMetadata);
+      if (usage) {
+        options.onUsage?.(usage);
+      }
       
       // Get the response text
       return result.response.text();
@@ -153,30 +167,30 @@ export class GeminiService extends AbstractAIService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`Gemini API call failed: ${errorMessage}`);
-      throw new LLMAPIError(`Gemini API call failed: ${errorMessage}`);
+      throw new LLMAPIError(`Gemini API call failed: ${errorMessage}`, getErrorStatus(error));
     }
   }
   
   /**
-   * Generate a completion with tool calling
+   * Generate a completion using the Gemini API, streaming text deltas
    * @param prompt - User prompt
-   * @param tools - Available tools
    * @param options - Generation options
-   * @returns Generated completion with potential tool calls
+   * @returns Async iterator of text deltas
    */
-  async generateWithTools(prompt: string, tools: AITool[], options: ToolCallingOptions = {}): Promise<any> {
+  async *generateCompletionStream(prompt: string, options: GenerationOptions = {}): AsyncIterable<string> {
+    const model = options.model || this.defaultModel;
+    let usage: TokenUsage | undefined;
+    let completion = '';
+    let streaming = false;
+    
     try {
       if (!process.env.GEMINI_API_KEY) {
         throw new Error('Gemini API key not found. Please set GEMINI_API_KEY environment variable.');
       }
       
-      const model = options.model || this.defaultModel;
       const temperature = options.temperature ?? this.defaultTemperature;
       
-      console.log(`Calling Gemini with tools, model: ${model}`);
-      
-      // Convert tools from our common format to Gemini's expected format
-      const geminiTools = this.convertToolsToGeminiFormat(tools);
+      console.log(`Streaming from Gemini with model: ${model}, temperature: ${temperature}`);
       
       // Initialize the model
       const genModel = this.generativeAI.getGenerativeModel({
@@ -187,15 +201,11 @@ export class GeminiService extends AbstractAIService {
           topP: 0.95,
           topK: 40,
         },
-        tools: geminiTools
       });
       
-      // Create the prompt parts
-      const systemPrompt = options.systemPrompt || "You are an expert programmer helping with code. Use the provided tools when appropriate.";
-      
-      // Create the chat
+      // Create a chat session
       const chat = genModel.startChat({
-        history: [
+        history: options.systemPrompt ? [
           {
             role: "user",
             parts: [{ text: "You are an AI assistant with the following instructions. Please acknowledge." }],
@@ -206,49 +216,181 @@ export class GeminiService extends AbstractAIService {
           },
           {
             role: "user",
-            parts: [{ text: systemPrompt }],
+            parts: [{ text: options.systemPrompt }],
           },
           {
             role: "model",
             parts: [{ text: "I understand and will act accordingly." }],
           }
-        ],
+        ] : [],
       });
       
-      // Send the message
-      const result = await chat.sendMessage(prompt);
+      const result = await chat.sendMessageStream(prompt, { signal: options.signal });
+      streaming = true;
+      
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        if (delta) {
+          completion += delta;
+          yield delta;
+        }
+      }
       
-      // Check if there are any function calls
-      const functionCalls = result.response.functionCalls();
+      usage = this.toUsage(model, (await result.response).usageMetadata);
+    } catch (error) {
+      // Stopping generation is not an error
+      if (options.signal?.aborted) {
+        return;
+      }
       
-      if (functionCalls && functionCalls.length > 0) {
-        return {
-          message: {
-            content: result.response.text(),
-            tool_calls: functionCalls.map(fc => ({
-              id: `call-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-              type: 'function',
-              function: {
-                name: fc.name,
-                arguments: JSON.stringify(fc.args)
-              }
-            }))
-          }
-        };
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Gemini streaming call failed: ${errorMessage}`);
+      throw new LLMAPIError(`Gemini streaming call failed: ${errorMessage}`, getErrorStatus(error));
+    } finally {
+      // A stream stopped before its final chunk is still billed
+      if (streaming) {
+        const sent = options.systemPrompt ? `${options.systemPrompt}\n${prompt}` : prompt;
+        options.onUsage?.(usage ?? estimateUsage(model, sent, completion));
+      }
+    }
+  }
+  
+  /**
+   * Generate the next turn of a tool calling conversation
+   * @param conversation - User prompt or conversation so far
+   * @param tools - Available tools
+   * @param options - Generation options
+   * @returns Model text and requested tool calls
+   */
+  async generateWithTools(
+    conversation: string | ToolConversationMessage[],
+    tools: AITool[],
+    options: ToolCallingOptions = {}
+  ): Promise<ToolCallingResult> {
+    try {
+      if (!process.env.GEMINI_API_KEY) {
+        throw new Error('Gemini API key not found. Please set GEMINI_API_KEY environment variable.');
+      }
+      
+      const model = options.model || this.defaultModel;
+      const temperature = options.temperature ?? this.defaultTemperature;
+      
+      console.log(`Calling Gemini with tools, model: ${model}`);
+      
+      // Initialize the model
+      const genModel = this.generativeAI.getGenerativeModel({
+        model,
+        safetySettings: this.getSafetySettings(),
+        generationConfig: {
+          temperature,
+          topP: 0.95,
+          topK: 40,
+        },
+        // Convert tools from our common format to Gemini's expected format
+        tools: tools.length > 0 ? this.convertToolsToGeminiFormat(tools) : undefined
+      });
+      
+      // Create the prompt parts
+      const systemPrompt = options.systemPrompt || "You are an expert programmer helping with code. Use the provided tools when appropriate.";
+      
+      const contents: Content[] = [
+        {
+          role: "user",
+          parts: [{ text: "You are an AI assistant with the following instructions. Please acknowledge." }],
+        },
+        {
+          role: "model",
+          parts: [{ text: "I understand and will follow these instructions." }],
+        },
+        {
+          role: "user",
+          parts: [{ text: systemPrompt }],
+        },
+        {
+          role: "model",
+          parts: [{ text: "I understand and will act accordingly." }],
+        },
+        ...this.toGeminiContents(toToolConversation(conversation))
+      ];
+      
+      const result = await genModel.generateContent({ contents }, { signal: options.signal });
+      
+      // Gemini does not identify calls, so give each one an id of our own
+      const functionCalls = result.response.functionCalls() || [];
+      const usage = this.toUsage(model, result.response.usageMetadata);
+      if (usage) {
+        options.onUsage?.(usage);
       }
       
-      // Return plain text response if no function calls
       return {
-        message: {
-          content: result.response.text()
-        }
+        content: result.response.text(),
+        toolCalls: functionCalls.map(fc => ({
+          id: `call-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+          name: fc.name,
+          arguments: JSON.stringify(fc.args)
+        })),
+        usage
       };
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`Gemini API call with tools failed: ${errorMessage}`);
-      throw new LLMAPIError(`Gemini API call with tools failed: ${errorMessage}`);
+      throw new LLMAPIError(`Gemini API call with tools failed: ${errorMessage}`, getErrorStatus(error));
+    }
+  }
+  
+  /**
+   * Convert the usage Gemini reports to our common format
+   * @param model - Model the request was made with
+   * @param usage - Usage metadata from the response, if any
+   * @returns Token usage, or undefined if none was reported
+   */
+  private toUsage(model: string, usage?: UsageMetadata): TokenUsage | undefined {
+    if (!usage) {
+      return undefined;
     }
+    
+    return { model, promptTokens: usage.promptTokenCount, completionTokens: usage.candidatesTokenCount ?? 0 };
+  }
+  
+  /**
+   * Convert a conversation to Gemini's content format. Tool results are
+   * sent back as functionResponse parts of a single function turn.
+   * @param conversation - Messages in our common format
+   * @returns Contents in Gemini's format
+   */
+  private toGeminiContents(conversation: ToolConversationMessage[]): Content[] {
+    const contents: Content[] = [];
+    
+    for (const message of conversation) {
+      if (message.role === 'user') {
+        contents.push({ role: 'user', parts: [{ text: message.content }] });
+      } else if (message.role === 'assistant') {
+        const parts: Part[] = [];
+        if (message.content) {
+          parts.push({ text: message.content });
+        }
+        for (const call of message.toolCalls || []) {
+          parts.push({ functionCall: { name: call.name, args: JSON.parse(call.arguments || '{}') } });
+        }
+        contents.push({ role: 'model', parts });
+      } else {
+        const part: Part = {
+          functionResponse: {
+            name: message.name,
+            response: message.isError ? { error: message.content } : { result: message.content }
+          }
+        };
+        const previous = contents[contents.length - 1];
+        if (previous?.role === 'function') {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: 'function', parts: [part] });
+        }
+      }
+    }
+    
+    return contents;
   }
   
   /**
@@ -325,6 +467,14 @@ ${code}
     }
   }
   
+  /**
+   * Get the model ID used when a request names none
+   * @returns Default model ID
+   */
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+  
   /**
    * Get available Gemini models
    * @returns List of available models
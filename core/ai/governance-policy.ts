@@ -0,0 +1,444 @@
+/**
+ * Governance Policy Enforcement for Bolt DIY
+ *
+ * This module screens the text going into and coming out of the language
+ * model against the governance sensitive terms and custom rules. Matches are
+ * flagged, redacted or blocked as the policy says, and every check is
+ * recorded as a decision of the policy's model.
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { AIGovernance } from './governance';
+import { AIGovernanceError } from '../errors';
+
+/**
+ * Point in the request pipeline a check runs at
+ */
+export type PolicyStage = 'input' | 'output';
+
+/**
+ * What to do with text that matches
+ */
+export type PolicyAction = 'flag' | 'redact' | 'block';
+
+/**
+ * Custom rule matching terms or a regular expression
+ */
+export interface PolicyRule {
+  /** Identifier reported in decisions and errors */
+  id: string;
+  description?: string;
+
+  /** Terms matched case-insensitively anywhere in the text */
+  terms?: string[];
+
+  /** Regular expression source, matched with the given flags */
+  pattern?: string;
+  flags?: string;
+
+  action: PolicyAction;
+
+  /** Stages the rule applies to; both if unset */
+  stages?: PolicyStage[];
+
+  /** Text that redacted matches are replaced with */
+  replacement?: string;
+
+  /** Category of the decision and of the error when blocked */
+  category?: string;
+}
+
+/**
+ * Policy applied to a request
+ */
+export interface GovernancePolicy {
+  /** Registered model that decisions are recorded against when the request does not name one */
+  modelId?: string;
+
+  /** How matches of the governance sensitive terms are handled */
+  sensitiveTerms?: {
+    action: PolicyAction;
+    stages?: PolicyStage[];
+  };
+
+  rules?: PolicyRule[];
+
+  /** Text that redacted matches are replaced with unless a rule sets its own */
+  redactionText?: string;
+}
+
+/**
+ * A rule that matched the checked text
+ */
+export interface PolicyMatch {
+  ruleId: string;
+  action: PolicyAction;
+  category: string;
+
+  /** Number of occurrences in the text */
+  count: number;
+}
+
+/**
+ * Outcome of checking text against a policy
+ */
+export interface PolicyResult {
+  /** Strictest action taken, 'allow' when nothing matched */
+  action: 'allow' | PolicyAction;
+
+  /** Text with redactions applied */
+  text: string;
+
+  matches: PolicyMatch[];
+
+  /** Identifier of the decision recorded for the check */
+  decisionId: string;
+}
+
+/**
+ * Request the checked text belongs to
+ */
+export interface PolicyCheckContext {
+  requestId: string;
+  userId?: string;
+
+  /** Model that serves the request, which decisions are recorded against */
+  model?: string;
+
+  /** Policy to add to the default one, such as a workspace's */
+  policy?: GovernancePolicy;
+}
+
+/**
+ * Policy used when none is configured: sensitive terms are flagged only
+ */
+export const DEFAULT_GOVERNANCE_POLICY: GovernancePolicy = {
+  modelId: 'default-model',
+  sensitiveTerms: { action: 'flag' },
+  rules: [],
+  redactionText: '[REDACTED]'
+};
+
+/**
+ * Rule ID reported for matches of the governance sensitive terms
+ */
+export const SENSITIVE_TERMS_RULE = 'sensitive-terms';
+
+const ACTIONS: PolicyAction[] = ['flag', 'redact', 'block'];
+const STAGES: PolicyStage[] = ['input', 'output'];
+const ANONYMOUS_USER = 'anonymous';
+
+/**
+ * Checks request input and model output against governance policies
+ */
+export class PolicyEnforcer {
+  /**
+   * Create a new policy enforcer
+   * @param governance - Governance module providing sensitive terms and the decision log
+   * @param defaultPolicy - Policy applied to every request
+   */
+  constructor(
+    private governance: AIGovernance,
+    private defaultPolicy: GovernancePolicy = DEFAULT_GOVERNANCE_POLICY
+  ) {}
+
+  /**
+   * Check text at a stage of a request, redacting or blocking as the policy
+   * says, and record the outcome as a decision
+   * @param stage - Whether the text is the user's input or the model's output
+   * @param text - Text to check
+   * @param context - Request the text belongs to
+   * @returns Outcome of the check
+   * @throws AIGovernanceError if a blocking rule matched, or no model is named and the policy's model is not registered
+   */
+  enforce(stage: PolicyStage, text: string, context: PolicyCheckContext): PolicyResult {
+    const policy = mergeGovernancePolicies(this.defaultPolicy, context.policy);
+    const modelId = context.model || policy.modelId || DEFAULT_GOVERNANCE_POLICY.modelId!;
+    if (context.model) {
+      this.registerServingModel(context.model);
+    } else if (!this.governance.getModelMetadata(modelId)) {
+      throw new AIGovernanceError(`Governance policy model ${modelId} is not registered`, 'configuration');
+    }
+
+    const matches: PolicyMatch[] = [];
+    let checked = text;
+
+    // Sensitive terms come from the governance module itself
+    const sensitive = policy.sensitiveTerms;
+    if (sensitive && appliesTo(sensitive.stages, stage)) {
+      const analysis = this.governance.analyzeTextForBias(text);
+      if (analysis.biasDetected) {
+        const expression = termsExpression(analysis.terms);
+        matches.push({
+          ruleId: SENSITIVE_TERMS_RULE,
+          action: sensitive.action,
+          category: 'bias',
+          count: countMatches(text, expression)
+        });
+        if (sensitive.action === 'redact') {
+          checked = redact(checked, expression, policy.redactionText ?? DEFAULT_GOVERNANCE_POLICY.redactionText!);
+        }
+      }
+    }
+
+    for (const rule of policy.rules || []) {
+      if (!appliesTo(rule.stages, stage)) {
+        continue;
+      }
+
+      const expression = ruleExpression(rule);
+      const count = countMatches(checked, expression);
+      if (count === 0) {
+        continue;
+      }
+
+      matches.push({ ruleId: rule.id, action: rule.action, category: rule.category || 'policy', count });
+      if (rule.action === 'redact') {
+        checked = redact(checked, expression, rule.replacement ?? policy.redactionText ?? DEFAULT_GOVERNANCE_POLICY.redactionText!);
+      }
+    }
+
+    const blocking = matches.find(match => match.action === 'block');
+    const action = blocking ? 'block'
+      : matches.some(match => match.action === 'redact') ? 'redact'
+      : matches.length > 0 ? 'flag'
+      : 'allow';
+
+    // Blocked text is not recorded, so the log does not keep what was refused
+    const decisionId = this.governance.logDecision(modelId, {
+      requestId: context.requestId,
+      userId: context.userId || ANONYMOUS_USER,
+      input: blocking ? { stage, characters: text.length } : { stage, text: checked },
+      output: { action, matches },
+      explanation: { ruleIds: matches.map(match => match.ruleId) },
+      category: 'content-policy'
+    });
+
+    if (blocking) {
+      throw new AIGovernanceError(
+        `${stage === 'input' ? 'Request' : 'Response'} blocked by governance rule ${blocking.ruleId} (decision ${decisionId})`,
+        blocking.category
+      );
+    }
+
+    return { action, text: checked, matches, decisionId };
+  }
+
+  /**
+   * Register a model that serves requests the first time a decision is
+   * recorded against it, so providers' models need not be listed up front
+   * @param modelId - Model reported by the provider
+   */
+  private registerServingModel(modelId: string): void {
+    if (this.governance.getModelMetadata(modelId)) {
+      return;
+    }
+
+    this.governance.registerModel(modelId, {
+      name: modelId,
+      version: 'unspecified',
+      provider: 'unspecified',
+      type: 'text-generation',
+      description: 'Registered when it first served a request'
+    });
+  }
+
+  /**
+   * Whether model output can be changed or withheld by a policy, in which
+   * case it has to be checked in full before any of it is shown
+   * @param policy - Policy to add to the default one
+   * @returns True if an output-stage rule redacts or blocks
+   */
+  screensOutput(policy?: GovernancePolicy): boolean {
+    const merged = mergeGovernancePolicies(this.defaultPolicy, policy);
+    const screens = (action: PolicyAction, stages?: PolicyStage[]) => action !== 'flag' && appliesTo(stages, 'output');
+
+    return (!!merged.sensitiveTerms && screens(merged.sensitiveTerms.action, merged.sensitiveTerms.stages)) ||
+      (merged.rules || []).some(rule => screens(rule.action, rule.stages));
+  }
+}
+
+/**
+ * Add a policy to a base policy. Rules are added to the base rules, which
+ * stay in force; the model, sensitive-term handling and redaction text
+ * replace the base settings when given.
+ * @param base - Policy applied to every request
+ * @param override - Policy to add, such as a workspace's
+ * @returns Combined policy
+ */
+export function mergeGovernancePolicies(base: GovernancePolicy, override?: GovernancePolicy): GovernancePolicy {
+  if (!override) {
+    return base;
+  }
+
+  return {
+    modelId: override.modelId ?? base.modelId,
+    sensitiveTerms: override.sensitiveTerms ?? base.sensitiveTerms,
+    rules: [...(base.rules || []), ...(override.rules || [])],
+    redactionText: override.redactionText ?? base.redactionText
+  };
+}
+
+/**
+ * Parse and validate a policy written as JSON or YAML
+ * @param content - Policy document
+ * @param source - File name the document came from; YAML unless it ends in .json
+ * @returns Validated policy
+ * @throws AIGovernanceError if the document is not a valid policy
+ */
+export function parseGovernancePolicy(content: string, source = 'policy.yaml'): GovernancePolicy {
+  let document: unknown;
+  try {
+    document = path.extname(source).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new AIGovernanceError(
+      `Governance policy ${source} could not be parsed: ${error instanceof Error ? error.message : String(error)}`,
+      'configuration'
+    );
+  }
+
+  return validatePolicy(document ?? {}, source);
+}
+
+/**
+ * Read a policy file written as JSON (.json) or YAML (.yaml, .yml)
+ * @param filePath - Policy file
+ * @returns Validated policy
+ * @throws AIGovernanceError if the file is not a valid policy
+ */
+export function loadGovernancePolicy(filePath: string): GovernancePolicy {
+  return parseGovernancePolicy(readFileSync(filePath, 'utf8'), filePath);
+}
+
+/**
+ * Check a parsed document against the policy structure
+ */
+function validatePolicy(document: unknown, source: string): GovernancePolicy {
+  const invalid = (reason: string) => new AIGovernanceError(`Invalid governance policy ${source}: ${reason}`, 'configuration');
+  const isObject = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+  const checkStages = (stages: unknown, where: string) => {
+    if (stages !== undefined && (!Array.isArray(stages) || stages.some(stage => !STAGES.includes(stage)))) {
+      throw invalid(`${where}.stages must list stages from ${STAGES.join(', ')}`);
+    }
+  };
+  const checkAction = (action: unknown, where: string) => {
+    if (!ACTIONS.includes(action as PolicyAction)) {
+      throw invalid(`${where}.action must be one of ${ACTIONS.join(', ')}`);
+    }
+  };
+
+  if (!isObject(document)) {
+    throw invalid('expected an object');
+  }
+
+  const { modelId, sensitiveTerms, rules = [], redactionText } = document;
+  if (modelId !== undefined && (typeof modelId !== 'string' || !modelId)) {
+    throw invalid('modelId must be a non-empty string');
+  }
+  if (redactionText !== undefined && typeof redactionText !== 'string') {
+    throw invalid('redactionText must be a string');
+  }
+
+  if (sensitiveTerms !== undefined) {
+    if (!isObject(sensitiveTerms)) {
+      throw invalid('sensitiveTerms must be an object');
+    }
+    checkAction(sensitiveTerms.action, 'sensitiveTerms');
+    checkStages(sensitiveTerms.stages, 'sensitiveTerms');
+  }
+
+  if (!Array.isArray(rules)) {
+    throw invalid('rules must be a list');
+  }
+
+  const ids = new Set<string>();
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    const where = `rules[${i}]`;
+    if (!isObject(rule)) {
+      throw invalid(`${where} must be an object`);
+    }
+    if (typeof rule.id !== 'string' || !rule.id) {
+      throw invalid(`${where}.id must be a non-empty string`);
+    }
+    if (ids.has(rule.id) || rule.id === SENSITIVE_TERMS_RULE) {
+      throw invalid(`rule ID ${rule.id} is used more than once`);
+    }
+    ids.add(rule.id);
+
+    checkAction(rule.action, where);
+    checkStages(rule.stages, where);
+
+    const hasTerms = Array.isArray(rule.terms) && rule.terms.length > 0;
+    if (rule.terms !== undefined && (!Array.isArray(rule.terms) || rule.terms.some((term: unknown) => typeof term !== 'string' || !term))) {
+      throw invalid(`${where}.terms must be a list of non-empty strings`);
+    }
+    if (rule.pattern !== undefined) {
+      if (hasTerms || typeof rule.pattern !== 'string' || !rule.pattern) {
+        throw invalid(`${where} must have either terms or a pattern`);
+      }
+      try {
+        ruleExpression(rule as PolicyRule);
+      } catch (error) {
+        throw invalid(`${where}.pattern is not a valid regular expression: ${(error as Error).message}`);
+      }
+    } else if (!hasTerms) {
+      throw invalid(`${where} must have either terms or a pattern`);
+    }
+
+    for (const field of ['description', 'flags', 'replacement', 'category']) {
+      if (rule[field] !== undefined && typeof rule[field] !== 'string') {
+        throw invalid(`${where}.${field} must be a string`);
+      }
+    }
+  }
+
+  return { modelId, sensitiveTerms, rules, redactionText } as GovernancePolicy;
+}
+
+/**
+ * Whether a rule with the given stages applies at a stage
+ */
+function appliesTo(stages: PolicyStage[] | undefined, stage: PolicyStage): boolean {
+  return !stages || stages.includes(stage);
+}
+
+/**
+ * Global expression matching a rule's terms or pattern
+ */
+function ruleExpression(rule: PolicyRule): RegExp {
+  if (rule.pattern) {
+    const flags = rule.flags ?? 'i';
+    return new RegExp(rule.pattern, flags.includes('g') ? flags : `${flags}g`);
+  }
+  return termsExpression(rule.terms || []);
+}
+
+/**
+ * Global, case-insensitive expression matching any of the terms
+ */
+function termsExpression(terms: string[]): RegExp {
+  // Longest first, so a term is not cut short by another it starts with
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(alternatives.join('|'), 'gi');
+}
+
+/**
+ * Number of occurrences of a global expression in the text
+ */
+function countMatches(text: string, expression: RegExp): number {
+  return Array.from(text.matchAll(expression)).filter(match => match[0].length > 0).length;
+}
+
+/**
+ * Replace the non-empty occurrences of a global expression, taking the
+ * replacement literally
+ */
+function redact(text: string, expression: RegExp, replacement: string): string {
+  return text.replace(expression, match => (match ? replacement : match));
+}
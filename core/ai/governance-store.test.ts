@@ -0,0 +1,95 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GovernanceStore } from './governance-store';
+import { AIGovernanceError } from '../errors';
+
+describe('GovernanceStore', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'governance-'));
+    logPath = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Store holding three decisions, written to disk
+   */
+  async function storeWithRecords(): Promise<GovernanceStore> {
+    const store = new GovernanceStore(logPath);
+    store.append('decision', '2026-01-01T00:00:00.000Z', { action: 'allow' });
+    store.append('decision', '2026-01-01T00:00:01.000Z', { action: 'block' });
+    store.append('bias_report', '2026-01-01T00:00:02.000Z', { score: 0.1 });
+    await store.flush();
+    return store;
+  }
+
+  const readLines = () => readFileSync(logPath, 'utf8').trimEnd().split('\n');
+  const writeLines = (lines: string[]) => writeFileSync(logPath, `${lines.join('\n')}\n`);
+
+  it('verifies an untouched chain and continues it after a restart', async () => {
+    await storeWithRecords();
+
+    const reopened = new GovernanceStore(logPath);
+    expect(reopened.load()).toHaveLength(3);
+    reopened.append('decision', '2026-01-01T00:00:03.000Z', { action: 'allow' });
+
+    await expect(reopened.verify()).resolves.toEqual({ valid: true, records: 4 });
+  });
+
+  it('detects an edited record', async () => {
+    const store = await storeWithRecords();
+    const lines = readLines();
+    const edited = JSON.parse(lines[1]);
+    edited.data.action = 'allow';
+    lines[1] = JSON.stringify(edited);
+    writeLines(lines);
+
+    await expect(store.verify()).resolves.toMatchObject({ valid: false, brokenAt: 2, reason: 'Hash does not match the record contents' });
+  });
+
+  it('detects reordered records', async () => {
+    const store = await storeWithRecords();
+    const [first, second, third] = readLines();
+    writeLines([first, third, second]);
+
+    await expect(store.verify()).resolves.toMatchObject({ valid: false, brokenAt: 2 });
+  });
+
+  it('detects a removed record', async () => {
+    const store = await storeWithRecords();
+    const [first, , third] = readLines();
+    writeLines([first, third]);
+
+    await expect(store.verify()).resolves.toMatchObject({ valid: false, brokenAt: 2 });
+  });
+
+  it('cuts off a torn last line when loading', async () => {
+    await storeWithRecords();
+    appendFileSync(logPath, '{"sequence":4,"timest');
+
+    const reopened = new GovernanceStore(logPath);
+    expect(reopened.load()).toHaveLength(3);
+    expect(readFileSync(logPath, 'utf8').endsWith('}\n')).toBe(true);
+
+    reopened.append('decision', '2026-01-01T00:00:03.000Z', { action: 'allow' });
+    await expect(reopened.verify()).resolves.toEqual({ valid: true, records: 4 });
+  });
+
+  it('refuses to load a log with a corrupt record in the middle', async () => {
+    await storeWithRecords();
+    const lines = readLines();
+    lines[1] = lines[1].slice(0, 20);
+    writeLines(lines);
+    const content = readFileSync(logPath, 'utf8');
+
+    expect(() => new GovernanceStore(logPath).load()).toThrow(AIGovernanceError);
+    expect(readFileSync(logPath, 'utf8')).toBe(content);
+  });
+});
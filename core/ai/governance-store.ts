@@ -0,0 +1,251 @@
+/**
+ * Governance Audit Store for Bolt DIY
+ *
+ * This module keeps the AI governance history in an append-only JSON Lines
+ * file. Each record carries the SHA-256 hash of the record before it, so
+ * editing, removing or reordering past records breaks the chain and is
+ * detected by verification.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs, readFileSync, truncateSync } from 'fs';
+import path from 'path';
+import { AIGovernanceError } from '../errors';
+
+/**
+ * Kinds of governance events
+ */
+export type AuditRecordType = 'decision' | 'bias_report' | 'bias_report_update';
+
+/**
+ * Record of one governance event in the chain
+ */
+export interface AuditRecord {
+  /** Position in the chain, starting at 1 */
+  sequence: number;
+  timestamp: string;
+  type: AuditRecordType;
+  data: Record<string, any>;
+
+  /** Hash of the previous record, or GENESIS_HASH for the first */
+  previousHash: string;
+  hash: string;
+}
+
+/**
+ * Result of checking the chain
+ */
+export interface AuditVerification {
+  valid: boolean;
+  records: number;
+
+  /** Sequence number of the first record that does not match the chain */
+  brokenAt?: number;
+  reason?: string;
+}
+
+/**
+ * Previous hash of the first record
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Append-only, hash-chained store of governance events
+ */
+export class GovernanceStore {
+  private filePath: string;
+  private lastHash = GENESIS_HASH;
+  private lastSequence = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a store backed by a file
+   * @param filePath - JSON Lines file the records are appended to
+   */
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Read the stored records so the chain can continue from the last one.
+   * A partly written final line, left by a crash, is cut off.
+   * @returns Stored records, oldest first
+   * @throws AIGovernanceError if a record before the last cannot be read
+   */
+  load(): AuditRecord[] {
+    let content: string;
+    try {
+      content = readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const { records, validLength } = parseRecords(content);
+    if (validLength < Buffer.byteLength(content)) {
+      // Never drop complete records: a damaged one needs investigating
+      if (Buffer.from(content).indexOf('\n', validLength) !== -1) {
+        throw new AIGovernanceError(
+          `Governance audit log ${this.filePath} has an unreadable record after record ${records.length}`,
+          'audit'
+        );
+      }
+
+      console.warn(`Cutting off an incomplete record at the end of ${this.filePath}`);
+      truncateSync(this.filePath, validLength);
+    }
+
+    const verification = verifyChain(records);
+    if (!verification.valid) {
+      console.error(`Governance audit log failed verification at record ${verification.brokenAt}: ${verification.reason}`);
+    }
+
+    const last = records[records.length - 1];
+    if (last) {
+      this.lastHash = last.hash;
+      this.lastSequence = last.sequence;
+    }
+
+    return records;
+  }
+
+  /**
+   * Add an event to the chain. The record is linked immediately and
+   * written in the background; use flush() to wait for the write.
+   * @param type - Kind of event
+   * @param timestamp - When the event happened
+   * @param data - Event details
+   * @returns The chained record
+   */
+  append(type: AuditRecordType, timestamp: string, data: Record<string, any>): AuditRecord {
+    const sequence = this.lastSequence + 1;
+    const previousHash = this.lastHash;
+    const record: AuditRecord = {
+      sequence,
+      timestamp,
+      type,
+      data,
+      previousHash,
+      hash: hashRecord(previousHash, sequence, timestamp, type, data)
+    };
+
+    this.lastSequence = sequence;
+    this.lastHash = record.hash;
+
+    const line = `${JSON.stringify(record)}\n`;
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, line, 'utf8');
+    });
+    this.writeQueue.catch((error) => {
+      console.error(`Failed to write governance record ${sequence}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+    return record;
+  }
+
+  /**
+   * Wait until every appended record has been written
+   * @throws Error if the last write failed
+   */
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  /**
+   * Check the chain as it is stored on disk
+   * @returns Verification result
+   */
+  async verify(): Promise<AuditVerification> {
+    await this.flush().catch(() => undefined);
+
+    let content = '';
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const { records, validLength } = parseRecords(content);
+    if (validLength < Buffer.byteLength(content)) {
+      return { valid: false, records: records.length, brokenAt: records.length + 1, reason: 'Unreadable record' };
+    }
+
+    return verifyChain(records);
+  }
+}
+
+/**
+ * Hash of a record's contents linked to the previous record
+ */
+function hashRecord(
+  previousHash: string,
+  sequence: number,
+  timestamp: string,
+  type: AuditRecordType,
+  data: Record<string, any>
+): string {
+  return createHash('sha256')
+    .update(previousHash)
+    .update(JSON.stringify({ sequence, timestamp, type, data }))
+    .digest('hex');
+}
+
+/**
+ * Check that every record links to the one before it and matches its hash
+ * @param records - Records, oldest first
+ * @returns Verification result
+ */
+export function verifyChain(records: AuditRecord[]): AuditVerification {
+  let previousHash = GENESIS_HASH;
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    const fail = (reason: string): AuditVerification => (
+      { valid: false, records: records.length, brokenAt: i + 1, reason }
+    );
+
+    if (record.sequence !== i + 1) {
+      return fail(`Expected sequence ${i + 1}, found ${record.sequence}`);
+    }
+    if (record.previousHash !== previousHash) {
+      return fail('Previous hash does not match the record before it');
+    }
+    if (record.hash !== hashRecord(record.previousHash, record.sequence, record.timestamp, record.type, record.data)) {
+      return fail('Hash does not match the record contents');
+    }
+
+    previousHash = record.hash;
+  }
+
+  return { valid: true, records: records.length };
+}
+
+/**
+ * Parse JSON Lines content, stopping at the first line that is not a
+ * complete record; a final line without a newline counts as incomplete
+ * @returns Parsed records and the byte length of the content they span
+ */
+function parseRecords(content: string): { records: AuditRecord[]; validLength: number } {
+  const records: AuditRecord[] = [];
+  const lines = content.split('\n');
+  let validLength = 0;
+
+  // The last element is whatever follows the final newline
+  for (const line of lines.slice(0, -1)) {
+    if (line.trim()) {
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        break;
+      }
+    }
+    validLength += Buffer.byteLength(line) + 1;
+  }
+
+  return { records, validLength };
+}
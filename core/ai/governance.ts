@@ -7,6 +7,37 @@
  */
 
 import { injectable } from 'tsyringe';
+import { AuditRecord, AuditRecordType, AuditVerification, GovernanceStore } from './governance-store';
+
+/**
+ * Criteria for querying logged decisions
+ */
+export interface DecisionQuery {
+  modelId?: string;
+  userId?: string;
+  category?: string;
+  
+  /** Earliest decision time, inclusive */
+  from?: Date;
+  
+  /** Latest decision time, inclusive */
+  to?: Date;
+  
+  /** Maximum number of decisions to return */
+  limit?: number;
+}
+
+/**
+ * Criteria for querying bias reports
+ */
+export interface BiasReportQuery {
+  modelId?: string;
+  status?: string;
+  userId?: string;
+  
+  /** Maximum number of reports to return */
+  limit?: number;
+}
 
 /**
  * AI Governance class for managing AI ethics, transparency, and fairness
@@ -19,6 +50,7 @@ export class AIGovernance {
   private decisions: any[];
   private biasReports: any[];
   private auditLog: any[];
+  private store?: GovernanceStore;
 
   /**
    * Create a new AIGovernance instance
@@ -28,6 +60,8 @@ export class AIGovernance {
     modelMetadata?: Record<string, any>;
     logger?: Console;
     sensitiveTerms?: string[];
+    /** Durable log that decisions and bias reports are recorded in and restored from */
+    store?: GovernanceStore;
   } = {}) {
     this.modelMetadata = options.modelMetadata || {};
     this.logger = options.logger || console;
@@ -35,6 +69,12 @@ export class AIGovernance {
     this.decisions = [];
     this.biasReports = [];
     this.auditLog = [];
+    this.store = options.store;
+    
+    // Rebuild the history from earlier runs
+    for (const record of this.store?.load() || []) {
+      this.apply(record);
+    }
   }
   
   /**
@@ -58,7 +98,7 @@ export class AIGovernance {
       throw new Error('Model ID is required');
     }
     
-    const requiredFields = ['name', 'version', 'provider', 'type'];
+    const requiredFields = ['name', 'version', 'provider', 'type'] as const;
     for (const field of requiredFields) {
       if (!metadata[field]) {
         throw new Error(`Required metadata field missing: ${field}`);
@@ -111,7 +151,7 @@ export class AIGovernance {
       throw new Error('Invalid or unregistered model ID');
     }
     
-    const requiredFields = ['requestId', 'userId', 'input', 'output'];
+    const requiredFields = ['requestId', 'userId', 'input', 'output'] as const;
     for (const field of requiredFields) {
       if (!decision[field]) {
         throw new Error(`Required decision field missing: ${field}`);
@@ -127,16 +167,7 @@ export class AIGovernance {
       ...decision
     };
     
-    this.decisions.push(decisionLog);
-    
-    // Add to audit log
-    this.auditLog.push({
-      type: 'decision',
-      timestamp: decisionLog.timestamp,
-      modelId,
-      requestId: decision.requestId,
-      userId: decision.userId
-    });
+    this.record('decision', decisionLog.timestamp, decisionLog);
     
     this.logger.debug(`AI decision logged: ${decisionLog.id}`, { modelId, decisionId: decisionLog.id });
     
@@ -159,10 +190,7 @@ export class AIGovernance {
    * @returns Decision logs
    */
   getDecisionsByModel(modelId: string, limit = 100): Record<string, any>[] {
-    return this.decisions
-      .filter(d => d.modelId === modelId)
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-      .slice(0, limit);
+    return this.queryDecisions({ modelId, limit });
   }
   
   /**
@@ -172,10 +200,28 @@ export class AIGovernance {
    * @returns Decision logs
    */
   getDecisionsByUser(userId: string, limit = 100): Record<string, any>[] {
+    return this.queryDecisions({ userId, limit });
+  }
+  
+  /**
+   * Find decisions matching all of the given criteria
+   * @param query - Model, user, category and time range to match
+   * @returns Decision logs, newest first
+   */
+  queryDecisions(query: DecisionQuery = {}): Record<string, any>[] {
+    const from = query.from?.getTime() ?? -Infinity;
+    const to = query.to?.getTime() ?? Infinity;
+    
     return this.decisions
-      .filter(d => d.userId === userId)
+      .filter(d => {
+        const time = new Date(d.timestamp).getTime();
+        return (!query.modelId || d.modelId === query.modelId) &&
+          (!query.userId || d.userId === query.userId) &&
+          (!query.category || d.category === query.category) &&
+          time >= from && time <= to;
+      })
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-      .slice(0, limit);
+      .slice(0, query.limit ?? 100);
   }
   
   /**
@@ -225,7 +271,7 @@ export class AIGovernance {
       throw new Error('Invalid or unregistered model ID');
     }
     
-    const requiredFields = ['userId', 'type', 'description'];
+    const requiredFields = ['userId', 'type', 'description'] as const;
     for (const field of requiredFields) {
       if (!biasReport[field]) {
         throw new Error(`Required bias report field missing: ${field}`);
@@ -242,17 +288,7 @@ export class AIGovernance {
       ...biasReport
     };
     
-    this.biasReports.push(reportLog);
-    
-    // Add to audit log
-    this.auditLog.push({
-      type: 'bias_report',
-      timestamp: reportLog.timestamp,
-      modelId,
-      decisionId,
-      userId: biasReport.userId,
-      biasType: biasReport.type
-    });
+    this.record('bias_report', reportLog.timestamp, reportLog);
     
     this.logger.warn(`Bias reported: ${reportLog.id}`, {
       modelId,
@@ -278,18 +314,8 @@ export class AIGovernance {
       return null;
     }
     
-    report.status = status;
-    report.resolution = resolution;
-    report.updatedAt = new Date().toISOString();
-    
-    // Add to audit log
-    this.auditLog.push({
-      type: 'bias_report_update',
-      timestamp: report.updatedAt,
-      reportId,
-      status,
-      resolution
-    });
+    const updatedAt = new Date().toISOString();
+    this.record('bias_report_update', updatedAt, { reportId, status, resolution, updatedAt });
     
     this.logger.info(`Bias report updated: ${reportId}`, { reportId, status, resolution });
     
@@ -312,10 +338,21 @@ export class AIGovernance {
    * @returns Bias reports
    */
   getBiasReportsByModel(modelId: string, limit = 100): Record<string, any>[] {
+    return this.queryBiasReports({ modelId, limit });
+  }
+  
+  /**
+   * Find bias reports matching all of the given criteria
+   * @param query - Model, status and reporting user to match
+   * @returns Bias reports, newest first
+   */
+  queryBiasReports(query: BiasReportQuery = {}): Record<string, any>[] {
     return this.biasReports
-      .filter(r => r.modelId === modelId)
+      .filter(r => (!query.modelId || r.modelId === query.modelId) &&
+        (!query.status || r.status === query.status) &&
+        (!query.userId || r.userId === query.userId))
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-      .slice(0, limit);
+      .slice(0, query.limit ?? 100);
   }
   
   /**
@@ -366,11 +403,33 @@ export class AIGovernance {
    * @returns Audit log entries
    */
   getAuditLog(limit = 100): Record<string, any>[] {
-    return this.auditLog
+    // Reversed first so entries logged in the same millisecond stay newest first
+    return [...this.auditLog]
+      .reverse()
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
       .slice(0, limit);
   }
   
+  /**
+   * Wait until every recorded event has been written to the store
+   * @throws Error if writing to the store failed
+   */
+  async flush(): Promise<void> {
+    await this.store?.flush();
+  }
+  
+  /**
+   * Check that the stored history has not been altered
+   * @returns Verification result; always valid without a store
+   */
+  async verifyAuditLog(): Promise<AuditVerification> {
+    if (!this.store) {
+      return { valid: true, records: 0 };
+    }
+    
+    return this.store.verify();
+  }
+  
   /**
    * Generate an explanation for an AI decision
    * @param modelId - Model identifier
@@ -416,7 +475,7 @@ export class AIGovernance {
       return false;
     }
     
-    return model.useCases.some(uc => uc.toLowerCase() === useCase.toLowerCase());
+    return model.useCases.some((uc: string) => uc.toLowerCase() === useCase.toLowerCase());
   }
   
   /**
@@ -433,4 +492,68 @@ export class AIGovernance {
       sensitiveTerms: this.sensitiveTerms
     };
   }
+  
+  /**
+   * Record a governance event, in the store if there is one, and apply it
+   * @param type - Kind of event
+   * @param timestamp - When the event happened
+   * @param data - Event details
+   */
+  private record(type: AuditRecordType, timestamp: string, data: Record<string, any>): void {
+    this.apply(this.store
+      ? this.store.append(type, timestamp, data)
+      : { sequence: this.auditLog.length + 1, timestamp, type, data, previousHash: '', hash: '' });
+  }
+  
+  /**
+   * Apply a recorded event to the in-memory history
+   * @param record - Event to apply
+   */
+  private apply(record: AuditRecord): void {
+    const { data } = record;
+    const chain = this.store ? { sequence: record.sequence, hash: record.hash } : {};
+    
+    switch (record.type) {
+      case 'decision':
+        this.decisions.push(data);
+        this.auditLog.push({
+          type: 'decision',
+          timestamp: record.timestamp,
+          modelId: data.modelId,
+          requestId: data.requestId,
+          userId: data.userId,
+          ...chain
+        });
+        break;
+      case 'bias_report':
+        this.biasReports.push(data);
+        this.auditLog.push({
+          type: 'bias_report',
+          timestamp: record.timestamp,
+          modelId: data.modelId,
+          decisionId: data.decisionId,
+          userId: data.userId,
+          biasType: data.type,
+          ...chain
+        });
+        break;
+      case 'bias_report_update': {
+        const report = this.biasReports.find(r => r.id === data.reportId);
+        if (report) {
+          report.status = data.status;
+          report.resolution = data.resolution;
+          report.updatedAt = data.updatedAt;
+        }
+        this.auditLog.push({
+          type: 'bias_report_update',
+          timestamp: record.timestamp,
+          reportId: data.reportId,
+          status: data.status,
+          resolution: data.resolution,
+          ...chain
+        });
+        break;
+      }
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,192 @@
+/**
+ * Local AI Service for MAIK IDE
+ *
+ * This module provides an offline AI service that never leaves the process.
+ * It returns deterministic responses so the full request path (route, agent,
+ * memory, prompt, tools) can be exercised without API keys or network access.
+ * Select it with AI_PROVIDER=local.
+ */
+
+import { injectable } from 'tsyringe';
+import {
+  AbstractAIService,
+  AIServiceConfig,
+  GenerationOptions,
+  ToolCallingOptions,
+  AITool,
+  ToolCallingResult,
+  ToolConversationMessage,
+  toToolConversation,
+  AIModel,
+  TokenUsage
+} from './base-ai-service';
+import { createTokenCounter } from '../prompt/tokenizer';
+
+/**
+ * Function that produces the local model's reply for a prompt
+ */
+export type LocalResponder = (prompt: string, options: GenerationOptions) => string | Promise<string>;
+
+/**
+ * Default responder: acknowledges the latest user turn in the prompt
+ */
+const echoResponder: LocalResponder = (prompt) => {
+  const userTurns = prompt.match(/User: ([\s\S]*?)(?=\nAssistant:|$)/g);
+  const lastInput = userTurns
+    ? userTurns[userTurns.length - 1].replace(/^User: /, '').trim()
+    : prompt.trim();
+
+  return `Local model response to: ${lastInput}`;
+};
+
+/**
+ * Offline, deterministic AI service
+ */
+@injectable()
+export class LocalAIService extends AbstractAIService {
+  private defaultModel = 'local-echo';
+  private responder: LocalResponder = echoResponder;
+
+  /**
+   * Create a new local AI service
+   */
+  constructor() {
+    super();
+  }
+
+  /**
+   * Configure the service with the provided configuration
+   */
+  public configure(config: AIServiceConfig) {
+    if (config.defaultModel) {
+      this.defaultModel = config.defaultModel;
+    }
+  }
+
+  /**
+   * Replace the function that produces replies, e.g. to script a conversation
+   * @param responder - Reply function, or undefined to restore the default
+   */
+  public setResponder(responder?: LocalResponder) {
+    this.responder = responder || echoResponder;
+  }
+
+  /**
+   * Generate a completion locally. Usage is reported as the token counts
+   * of the prompt and reply, as a hosted model would.
+   * @param prompt - User prompt
+   * @param options - Generation options
+   * @returns Generated text
+   */
+  async generateCompletion(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    const model = options.model || this.defaultModel;
+    const text = await this.responder(prompt, { ...options, model });
+    
+    const countTokens = createTokenCounter(model);
+    options.onUsage?.({
+      model,
+      promptTokens: countTokens(`${options.systemPrompt || ''}${prompt}`),
+      completionTokens: countTokens(text)
+    });
+    
+    return text;
+  }
+
+  /**
+   * Generate a completion locally, streamed word by word
+   * @param prompt - User prompt
+   * @param options - Generation options
+   * @returns Async iterator of text deltas
+   */
+  async *generateCompletionStream(prompt: string, options: GenerationOptions = {}): AsyncIterable<string> {
+    const text = await this.generateCompletion(prompt, options);
+    
+    for (const delta of text.match(/\S+\s*|\s+/g) || []) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      yield delta;
+    }
+  }
+  
+  /**
+   * Generate the next turn of a tool calling conversation. The local
+   * model never requests tools on its own, it only answers the latest
+   * user message with text.
+   * @param conversation - User prompt or conversation so far
+   * @param tools - Available tools
+   * @param options - Generation options
+   * @returns Model text with no tool calls
+   */
+  async generateWithTools(
+    conversation: string | ToolConversationMessage[],
+    tools: AITool[],
+    options: ToolCallingOptions = {}
+  ): Promise<ToolCallingResult> {
+    const lastUserMessage = toToolConversation(conversation)
+      .filter(message => message.role === 'user')
+      .pop();
+    
+    let usage: TokenUsage | undefined;
+    const content = await this.generateCompletion(lastUserMessage?.content ?? '', {
+      ...options,
+      onUsage: (reported) => {
+        usage = reported;
+        options.onUsage?.(reported);
+      }
+    });
+    
+    return { content, toolCalls: [], usage };
+  }
+
+  /**
+   * Analyze code locally (returns a fixed, well-formed result)
+   * @param code - Code to analyze
+   * @param language - Programming language
+   * @returns Analysis results
+   */
+  async analyzeCode(code: string, language: string): Promise<any> {
+    return {
+      summary: `${language} code, ${code.split('\n').length} lines`,
+      complexity: 'Low',
+      qualityIssues: [],
+      securityIssues: [],
+      suggestions: [],
+      dependencies: []
+    };
+  }
+
+  /**
+   * Get the model ID used when a request names none
+   * @returns Default model ID
+   */
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+  
+  /**
+   * Get available local models
+   * @returns List of available models
+   */
+  async getAvailableModels(): Promise<AIModel[]> {
+    return [
+      {
+        id: this.defaultModel,
+        provider: 'local',
+        name: 'Local Echo',
+        contextWindow: 8192,
+        supportsFunctions: false,
+        supportsImages: false,
+      }
+    ];
+  }
+
+  /**
+   * Check if the local service supports a specific capability
+   * @param capability - Capability to check
+   * @returns Whether the capability is supported
+   */
+  supportsCapability(capability: 'image_generation' | 'function_calling' | 'json_mode'): boolean {
+    return false;
+  }
+}
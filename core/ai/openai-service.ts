@@ -14,7 +14,13 @@ import {
   GenerationOptions, 
   ToolCallingOptions,
   AITool,
-  AIModel
+  AIModel,
+  getErrorStatus,
+  TokenUsage,
+  ToolCallingResult,
+  ToolConversationMessage,
+  toToolConversation,
+  estimateUsage
 } from './base-ai-service';
 
 /**
@@ -95,26 +101,35 @@ export class OpenAIService extends AbstractAIService {
       }
       
       console.log(`Calling OpenAI with model: ${model}, temperature: ${temperature}`);
-      const response = await this.openai.chat.completions.create(requestOptions);
+      const response = await this.openai.chat.completions.create(requestOptions, { signal: options.signal });
+      
+      const usage = this.toUsage(model, response.usage);
+      if (usage) {
+        options.onUsage?.(usage);
+      }
       
       return response.choices[0].message.content || "";
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`OpenAI API call failed: ${errorMessage}`);
-      throw new LLMAPIError(`OpenAI API call failed: ${errorMessage}`);
+      throw new LLMAPIError(`OpenAI API call failed: ${errorMessage}`, getErrorStatus(error));
     }
   }
   
   /**
-   * Generate a completion with tool calling
+   * Generate a completion using the OpenAI API, streaming text deltas
    * @param prompt - User prompt
-   * @param tools - Available tools
    * @param options - Generation options
-   * @returns Generated completion with potential tool calls
+   * @returns Async iterator of text deltas
    */
-  async generateWithTools(prompt: string, tools: AITool[], options: ToolCallingOptions = {}): Promise<any> {
+  async *generateCompletionStream(prompt: string, options: GenerationOptions = {}): AsyncIterable<string> {
+    const model = options.model || this.defaultModel;
+    const systemPrompt = options.systemPrompt || "You are an expert programmer helping with code.";
+    let usage: TokenUsage | undefined;
+    let completion = '';
+    let streaming = false;
+    
     try {
-      const model = options.model || this.defaultModel;
       const temperature = options.temperature ?? this.defaultTemperature;
       const maxTokens = options.maxTokens ?? 2048;
       
@@ -122,7 +137,7 @@ export class OpenAIService extends AbstractAIService {
       const messages: Array<{role: 'system' | 'user' | 'assistant', content: string}> = [
         {
           role: "system",
-          content: options.systemPrompt || "You are an expert programmer helping with code."
+          content: systemPrompt
         },
         {
           role: "user",
@@ -130,21 +145,136 @@ export class OpenAIService extends AbstractAIService {
         }
       ];
       
+      console.log(`Streaming from OpenAI with model: ${model}, temperature: ${temperature}`);
+      const stream = await this.openai.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      }, { signal: options.signal });
+      streaming = true;
+      
+      // Usage arrives in a final chunk without choices
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          completion += delta;
+          yield delta;
+        }
+        usage = this.toUsage(model, chunk.usage) || usage;
+      }
+    } catch (error) {
+      // Stopping generation is not an error
+      if (options.signal?.aborted) {
+        return;
+      }
+      
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`OpenAI streaming call failed: ${errorMessage}`);
+      throw new LLMAPIError(`OpenAI streaming call failed: ${errorMessage}`, getErrorStatus(error));
+    } finally {
+      // A stream stopped before its final chunk is still billed
+      if (streaming) {
+        options.onUsage?.(usage ?? estimateUsage(model, `${systemPrompt}\n${prompt}`, completion));
+      }
+    }
+  }
+  
+  /**
+   * Generate the next turn of a tool calling conversation
+   * @param conversation - User prompt or conversation so far
+   * @param tools - Available tools
+   * @param options - Generation options
+   * @returns Model text and requested tool calls
+   */
+  async generateWithTools(
+    conversation: string | ToolConversationMessage[],
+    tools: AITool[],
+    options: ToolCallingOptions = {}
+  ): Promise<ToolCallingResult> {
+    try {
+      const model = options.model || this.defaultModel;
+      const temperature = options.temperature ?? this.defaultTemperature;
+      const maxTokens = options.maxTokens ?? 2048;
+      
+      const messages: any[] = [
+        {
+          role: "system",
+          content: options.systemPrompt || "You are an expert programmer helping with code."
+        },
+        ...toToolConversation(conversation).map(message => this.toOpenAIMessage(message))
+      ];
+      
       console.log(`Calling OpenAI with tools, model: ${model}`);
       const response = await this.openai.chat.completions.create({
         model,
         messages,
         temperature,
         max_tokens: maxTokens,
-        tools,
-        tool_choice: "auto",
-      } as any);
+        ...(tools.length > 0 ? { tools, tool_choice: "auto" } : {}),
+      } as any, { signal: options.signal });
+      
+      const message = response.choices[0].message;
+      const usage = this.toUsage(model, response.usage);
+      if (usage) {
+        options.onUsage?.(usage);
+      }
       
-      return response.choices[0];
+      return {
+        content: message.content || "",
+        toolCalls: (message.tool_calls || []).map(call => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments
+        })),
+        usage
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`OpenAI API call with tools failed: ${errorMessage}`);
-      throw new LLMAPIError(`OpenAI API call with tools failed: ${errorMessage}`);
+      throw new LLMAPIError(`OpenAI API call with tools failed: ${errorMessage}`, getErrorStatus(error));
+    }
+  }
+  
+  /**
+   * Convert the usage OpenAI reports to our common format
+   * @param model - Model the request was made with
+   * @param usage - Usage from the response, if any
+   * @returns Token usage, or undefined if none was reported
+   */
+  private toUsage(model: string, usage?: OpenAI.CompletionUsage | null): TokenUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    
+    return { model, promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+  }
+  
+  /**
+   * Convert a conversation message to OpenAI's chat message format
+   * @param message - Message in our common format
+   * @returns Message in OpenAI's format
+   */
+  private toOpenAIMessage(message: ToolConversationMessage): any {
+    switch (message.role) {
+      case 'user':
+        return { role: 'user', content: message.content };
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          ...(message.toolCalls?.length ? {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: call.arguments }
+            }))
+          } : {})
+        };
+      case 'tool':
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
     }
   }
   
@@ -201,10 +331,18 @@ export class OpenAIService extends AbstractAIService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`OpenAI Image generation failed: ${errorMessage}`);
-      throw new LLMAPIError(`OpenAI Image generation failed: ${errorMessage}`);
+      throw new LLMAPIError(`OpenAI Image generation failed: ${errorMessage}`, getErrorStatus(error));
     }
   }
   
+  /**
+   * Get the model ID used when a request names none
+   * @returns Default model ID
+   */
+  getDefaultModel(): string {
+    return this.defaultModel;
+  }
+  
   /**
    * Get available OpenAI models
    * @returns List of available models
@@ -0,0 +1,88 @@
+/**
+ * Model Pricing for MAIK IDE
+ *
+ * This module holds the price of each model, keyed by AIModel.id, and
+ * converts reported token usage into cost.
+ */
+
+import { TokenUsage } from './base-ai-service';
+
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Table of model prices, keyed by model ID
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * List prices of the models the providers offer
+ */
+export const MODEL_PRICING: PricingTable = {
+  // OpenAI
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+
+  // Anthropic
+  'claude-3-7-sonnet-20250219': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet-20240620': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-opus-20240229': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-3-sonnet-20240229': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-haiku-20240307': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+
+  // Google
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'gemini-1.0-pro': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  'gemini-1.0-pro-vision': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+
+  // Offline
+  'local-echo': { inputPerMillion: 0, outputPerMillion: 0 }
+};
+
+/**
+ * Find the price of a model. Dated snapshots such as `gpt-4o-2024-08-06`
+ * are priced as the closest listed model they extend.
+ * @param model - Model ID
+ * @param pricing - Table to look the model up in
+ * @returns Price, or undefined if the model is not listed
+ */
+export function getModelPricing(model: string, pricing: PricingTable = MODEL_PRICING): ModelPricing | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+
+  const base = Object.keys(pricing)
+    .filter(id => model.startsWith(`${id}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return base ? pricing[base] : undefined;
+}
+
+/**
+ * Cost of a request in US dollars
+ * @param usage - Tokens reported for the request
+ * @param pricing - Table to price the model with
+ * @returns Cost, or undefined if the model is not listed
+ */
+export function calculateCost(usage: TokenUsage, pricing: PricingTable = MODEL_PRICING): number | undefined {
+  const price = getModelPricing(usage.model, pricing);
+  return price ? costAt(usage, price) : undefined;
+}
+
+/**
+ * Cost of a request at a given price, in US dollars
+ * @param usage - Tokens reported for the request
+ * @param price - Price to apply
+ * @returns Cost
+ */
+export function costAt(usage: TokenUsage, price: ModelPricing): number {
+  return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { LLMAPIError } from '../errors';
+import { AbstractAIService, GenerationOptions } from './base-ai-service';
+import { CircuitBreaker, RoutingAIService } from './routing-ai-service';
+
+/**
+ * Provider that answers from a script of results, raising any errors in it
+ * and waiting on any pending answers
+ */
+class ScriptedAIService extends AbstractAIService {
+  calls = 0;
+
+  constructor(private results: Array<string | Error | Promise<string>>) {
+    super();
+  }
+
+  async generateCompletion(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    this.calls++;
+    const result = this.results.length > 1 ? this.results.shift()! : this.results[0];
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  }
+
+  async *generateCompletionStream(prompt: string, options: GenerationOptions = {}): AsyncIterable<string> {
+    yield await this.generateCompletion(prompt, options);
+  }
+
+  async analyzeCode(): Promise<any> {
+    return {};
+  }
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold and lets one trial through after the reset timeout', () => {
+    let time = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 }, () => time);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(false);
+
+    time = 1000;
+    expect(breaker.getState()).toBe('half-open');
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('re-opens when the trial request fails', () => {
+    let time = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 }, () => time);
+
+    breaker.recordFailure();
+    time = 1000;
+    expect(breaker.getState()).toBe('half-open');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('turns requests away while the trial request is in flight', () => {
+    let time = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 }, () => time);
+
+    expect(breaker.acquire()).toBe('request');
+    breaker.recordFailure();
+    time = 1000;
+
+    expect(breaker.acquire()).toBe('trial');
+    expect(breaker.acquire()).toBeUndefined();
+    expect(breaker.canRequest()).toBe(false);
+
+    // A trial that ends without an outcome frees the slot for the next one
+    breaker.endTrial();
+    expect(breaker.acquire()).toBe('trial');
+    breaker.recordSuccess();
+    breaker.endTrial();
+    expect(breaker.acquire()).toBe('request');
+    expect(breaker.acquire()).toBe('request');
+  });
+});
+
+describe('RoutingAIService', () => {
+  const options = { retry: { maxAttempts: 2, initialDelayMs: 0 }, circuitBreaker: { failureThreshold: 2 } };
+
+  it('falls back to the next provider when one has an outage', async () => {
+    const primary = new ScriptedAIService([new LLMAPIError('Unavailable', 503)]);
+    const fallback = new ScriptedAIService(['From fallback']);
+    const service = new RoutingAIService([
+      { name: 'primary', service: primary },
+      { name: 'fallback', service: fallback }
+    ], options);
+
+    await expect(service.generateCompletion('Hi')).resolves.toBe('From fallback');
+    expect(primary.calls).toBe(2);
+    expect(service.getCircuitStates()).toEqual({ primary: 'open', fallback: 'closed' });
+  });
+
+  it('sends a single trial request to a half-open provider and the rest to the fallback', async () => {
+    let time = 0;
+    let recover!: (text: string) => void;
+    const primary = new ScriptedAIService([
+      new LLMAPIError('Unavailable', 503),
+      new Promise<string>(resolve => { recover = resolve; })
+    ]);
+    const fallback = new ScriptedAIService(['From fallback']);
+    const service = new RoutingAIService([
+      { name: 'primary', service: primary },
+      { name: 'fallback', service: fallback }
+    ], { ...options, circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 1000 }, now: () => time });
+
+    await expect(service.generateCompletion('Hi')).resolves.toBe('From fallback');
+    time = 1000;
+
+    const trial = service.generateCompletion('Hi');
+    await expect(Promise.all([service.generateCompletion('Hi'), service.generateCompletion('Hi')]))
+      .resolves.toEqual(['From fallback', 'From fallback']);
+    expect(primary.calls).toBe(2);
+
+    recover('Recovered');
+    await expect(trial).resolves.toBe('Recovered');
+    expect(service.getCircuitStates().primary).toBe('closed');
+  });
+
+  it('does not count rejected requests against the circuit', async () => {
+    const primary = new ScriptedAIService([new LLMAPIError('Bad request', 400)]);
+    const service = new RoutingAIService([{ name: 'primary', service: primary }], options);
+
+    for (let i = 0; i < 3; i++) {
+      await expect(service.generateCompletion('Hi')).rejects.toThrow();
+    }
+
+    expect(primary.calls).toBe(3);
+    expect(service.getCircuitStates().primary).toBe('closed');
+  });
+
+  it('does not count aborted requests against the circuit', async () => {
+    const primary = new ScriptedAIService([new LLMAPIError('Aborted')]);
+    const service = new RoutingAIService([{ name: 'primary', service: primary }], options);
+    const controller = new AbortController();
+    controller.abort();
+
+    for (let i = 0; i < 3; i++) {
+      await expect(service.generateCompletion('Hi', { signal: controller.signal })).rejects.toThrow();
+      await expect(collect(service.generateCompletionStream('Hi', { signal: controller.signal }))).rejects.toThrow();
+    }
+
+    expect(service.getCircuitStates().primary).toBe('closed');
+  });
+});
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const deltas: string[] = [];
+  for await (const delta of stream) {
+    deltas.push(delta);
+  }
+  return deltas;
+}
@@ -0,0 +1,525 @@
+/**
+ * Routing AI Service for MAIK IDE
+ *
+ * This module composes several AI services behind the common interface.
+ * Requests go to the first provider that supports what they need and whose
+ * circuit is closed; retryable failures are retried with exponential
+ * backoff before the request falls back to the next provider.
+ */
+
+import { Span, SpanKind } from '@opentelemetry/api';
+import { LLMAPIError } from '../errors';
+import { traceStream, withSpan } from '../monitoring/tracing';
+import {
+  AbstractAIService,
+  AIModel,
+  AITool,
+  BaseAIService,
+  GenerationOptions,
+  ToolCallingOptions,
+  ToolCallingResult,
+  ToolConversationMessage
+} from './base-ai-service';
+
+type Capability = 'image_generation' | 'function_calling' | 'json_mode';
+
+/**
+ * AI service taking part in routing
+ */
+export interface RoutedProvider {
+  /** Name used in logs and errors */
+  name: string;
+  service: BaseAIService;
+}
+
+/**
+ * Retry policy applied to each provider
+ */
+export interface RetryPolicy {
+  /** Attempts per provider, including the first */
+  maxAttempts: number;
+
+  /** Delay before the first retry */
+  initialDelayMs: number;
+
+  /** Upper bound of the delay between attempts */
+  maxDelayMs: number;
+
+  /** Factor the delay grows by after every retry */
+  multiplier: number;
+}
+
+/**
+ * Circuit breaker settings applied to each provider
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+
+  /** How long an open circuit rejects requests before a trial request */
+  resetTimeoutMs: number;
+}
+
+/**
+ * Configuration options for the routing service
+ */
+export interface RoutingOptions {
+  retry?: Partial<RetryPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+
+  /** Clock, replaceable for tests */
+  now?: () => number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  multiplier: 2
+};
+
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000
+};
+
+/**
+ * Permission to send one request through a circuit: an ordinary request
+ * while closed, or the single trial request while half-open
+ */
+export type CircuitPermit = 'request' | 'trial';
+
+/**
+ * Circuit breaker for one provider. After too many consecutive failures
+ * the circuit opens and the provider is skipped; once the reset timeout
+ * has passed a single trial request is let through (half-open), and its
+ * outcome closes or re-opens the circuit. Requests made while the trial
+ * is in flight are turned away.
+ */
+export class CircuitBreaker {
+  private state: 'closed' | 'open' | 'half-open' = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private options: CircuitBreakerOptions;
+  private now: () => number;
+
+  /**
+   * Create a new circuit breaker
+   * @param options - Failure threshold and reset timeout
+   * @param now - Clock
+   */
+  constructor(options: CircuitBreakerOptions, now: () => number = Date.now) {
+    this.options = options;
+    this.now = now;
+  }
+
+  /**
+   * Current state, moving an expired open circuit to half-open
+   */
+  getState(): 'closed' | 'open' | 'half-open' {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be sent to the provider now
+   */
+  canRequest(): boolean {
+    const state = this.getState();
+    return state === 'closed' || (state === 'half-open' && !this.trialInFlight);
+  }
+
+  /**
+   * Claim permission to send a request, taking the trial slot if the
+   * circuit is half-open. A trial must be ended with endTrial once its
+   * outcome has been recorded, or when it ends without one.
+   * @returns Permit, or undefined if the request may not be sent
+   */
+  acquire(): CircuitPermit | undefined {
+    if (!this.canRequest()) {
+      return undefined;
+    }
+    if (this.state === 'half-open') {
+      this.trialInFlight = true;
+      return 'trial';
+    }
+    return 'request';
+  }
+
+  /**
+   * Free the trial slot, letting another trial through if the circuit is
+   * still half-open (e.g. the trial was aborted or rejected as invalid)
+   */
+  endTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  /**
+   * Record a failed request
+   */
+  recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+}
+
+/**
+ * Whether a provider error is worth retrying on the same provider:
+ * network failures, timeouts, conflicts, rate limits and server errors
+ * @param error - Error raised by a provider
+ */
+export function isRetryableProviderError(error: unknown): boolean {
+  if (!(error instanceof LLMAPIError)) {
+    return false;
+  }
+
+  const status = error.statusCode;
+  return status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * AI service that routes each request across several providers
+ */
+export class RoutingAIService extends AbstractAIService {
+  private providers: RoutedProvider[];
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private retryPolicy: RetryPolicy;
+
+  /**
+   * Create a new routing service
+   * @param providers - Providers in order of preference
+   * @param options - Retry policy and circuit breaker settings
+   */
+  constructor(providers: RoutedProvider[], options: RoutingOptions = {}) {
+    super();
+
+    if (providers.length === 0) {
+      throw new Error('RoutingAIService needs at least one provider');
+    }
+
+    this.providers = providers;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+
+    const breakerOptions = { ...DEFAULT_CIRCUIT_BREAKER, ...options.circuitBreaker };
+    for (const provider of providers) {
+      this.breakers.set(provider.name, new CircuitBreaker(breakerOptions, options.now));
+    }
+  }
+
+  /**
+   * Names of the providers, in order of preference
+   */
+  getProviderNames(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  /**
+   * Circuit state of every provider
+   */
+  getCircuitStates(): Record<string, 'closed' | 'open' | 'half-open'> {
+    const states: Record<string, 'closed' | 'open' | 'half-open'> = {};
+    for (const provider of this.providers) {
+      states[provider.name] = this.breakers.get(provider.name)!.getState();
+    }
+    return states;
+  }
+
+  async generateCompletion(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    const capability = options.responseFormat === 'json' ? 'json_mode' : undefined;
+    return this.route('text_completion', capability, options, (service, primary, span) =>
+      service.generateCompletion(prompt, this.forProvider(options, primary, span))
+    );
+  }
+
+  /**
+   * Stream a completion. A provider is only retried or replaced while it
+   * has not produced any text; failures after the first delta are raised.
+   */
+  async *generateCompletionStream(prompt: string, options: GenerationOptions = {}): AsyncIterable<string> {
+    const errors: string[] = [];
+    let lastError: unknown;
+
+    const eligible = this.eligibleProviders(undefined);
+    for (let index = 0; index < eligible.length; index++) {
+      const provider = eligible[index];
+      const breaker = this.breakers.get(provider.name)!;
+
+      for (let attempt = 1; attempt <= this.retryPolicy.maxAttempts; attempt++) {
+        const permit = breaker.acquire();
+        if (!permit) {
+          break;
+        }
+
+        let started = false;
+        try {
+          const deltas = traceStream(
+            this.spanName('text_completion', provider, index === 0, options.model),
+            this.spanOptions('text_completion', provider, index === 0, options.model, attempt),
+            (span) => provider.service.generateCompletionStream(prompt, this.forProvider(options, index === 0, span))
+          );
+          for await (const delta of deltas) {
+            started = true;
+            yield delta;
+          }
+          breaker.recordSuccess();
+          return;
+        } catch (error) {
+          if (options.signal?.aborted) {
+            throw error;
+          }
+          this.recordFailure(breaker, error);
+          if (started) {
+            throw error;
+          }
+
+          lastError = error;
+          if (!(await this.shouldRetry(provider.name, error, attempt, options.signal))) {
+            errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+            break;
+          }
+        } finally {
+          if (permit === 'trial') {
+            breaker.endTrial();
+          }
+        }
+      }
+    }
+
+    throw this.exhaustedError(undefined, errors, lastError);
+  }
+
+  async generateWithTools(
+    conversation: string | ToolConversationMessage[],
+    tools: AITool[],
+    options: ToolCallingOptions = {}
+  ): Promise<ToolCallingResult> {
+    // Tool definitions only mean something to providers that can call them
+    const capability = tools.length > 0 ? 'function_calling' : undefined;
+    return this.route('chat', capability, options, (service, primary, span) =>
+      service.generateWithTools(conversation, tools, this.forProvider(options, primary, span))
+    );
+  }
+
+  async analyzeCode(code: string, language: string): Promise<any> {
+    return this.route('analyze_code', undefined, {}, service => service.analyzeCode(code, language));
+  }
+
+  async generateImage(prompt: string): Promise<string> {
+    return this.route('generate_image', 'image_generation', {}, service => service.generateImage!(prompt));
+  }
+
+  async getAvailableModels(): Promise<AIModel[]> {
+    const lists = await Promise.all(this.providers.map(provider =>
+      provider.service.getAvailableModels?.().catch(() => []) ?? Promise.resolve([])
+    ));
+    return lists.flat();
+  }
+
+  getDefaultModel(): string {
+    const provider = this.providers.find(candidate => this.breakers.get(candidate.name)!.canRequest()) || this.providers[0];
+    return provider.service.getDefaultModel?.() || '';
+  }
+
+  supportsCapability(capability: Capability): boolean {
+    return this.providers.some(provider => provider.service.supportsCapability?.(capability));
+  }
+
+  /**
+   * Send a request to the eligible providers in order until one succeeds,
+   * tracing each attempt in its own span
+   * @param operation - Operation name reported in the spans
+   * @param capability - Capability the provider must support, if any
+   * @param options - Requested model, and signal that stops retrying when aborted
+   * @param request - Request to send; `primary` is set for the preferred provider
+   * @returns Result of the first successful provider
+   * @throws LLMAPIError if every provider failed or none was eligible
+   */
+  private async route<T>(
+    operation: string,
+    capability: Capability | undefined,
+    options: { model?: string; signal?: AbortSignal },
+    request: (service: BaseAIService, primary: boolean, span: Span) => Promise<T>
+  ): Promise<T> {
+    const { signal } = options;
+    const errors: string[] = [];
+    let lastError: unknown;
+
+    const eligible = this.eligibleProviders(capability);
+    for (let index = 0; index < eligible.length; index++) {
+      const provider = eligible[index];
+      const breaker = this.breakers.get(provider.name)!;
+
+      for (let attempt = 1; attempt <= this.retryPolicy.maxAttempts; attempt++) {
+        const permit = breaker.acquire();
+        if (!permit) {
+          break;
+        }
+
+        try {
+          const primary = index === 0;
+          const result = await withSpan(
+            this.spanName(operation, provider, primary, options.model),
+            this.spanOptions(operation, provider, primary, options.model, attempt),
+            (span) => request(provider.service, primary, span)
+          );
+          breaker.recordSuccess();
+          return result;
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          this.recordFailure(breaker, error);
+
+          lastError = error;
+          if (!(await this.shouldRetry(provider.name, error, attempt, signal))) {
+            errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+            break;
+          }
+        } finally {
+          if (permit === 'trial') {
+            breaker.endTrial();
+          }
+        }
+      }
+    }
+
+    throw this.exhaustedError(capability, errors, lastError);
+  }
+
+  /**
+   * Providers that support a capability, in order of preference
+   */
+  private eligibleProviders(capability: Capability | undefined): RoutedProvider[] {
+    if (!capability) {
+      return this.providers;
+    }
+    return this.providers.filter(provider => provider.service.supportsCapability?.(capability));
+  }
+
+  /**
+   * Count a failed attempt against the provider's circuit. Only outages
+   * count: network errors, rate limits and server errors. A request the
+   * provider rejected, such as one with invalid input, says nothing about
+   * its health, and an aborted request is not counted at all.
+   */
+  private recordFailure(breaker: CircuitBreaker, error: unknown): void {
+    if (isRetryableProviderError(error)) {
+      breaker.recordFailure();
+    }
+  }
+
+  /**
+   * Decide whether to retry a failed attempt, waiting out the backoff if so
+   * @returns True to retry on the same provider, false to move on
+   */
+  private async shouldRetry(name: string, error: unknown, attempt: number, signal?: AbortSignal): Promise<boolean> {
+    if (attempt >= this.retryPolicy.maxAttempts || !isRetryableProviderError(error)) {
+      return false;
+    }
+
+    const { initialDelayMs, multiplier, maxDelayMs } = this.retryPolicy;
+    const backoff = Math.min(initialDelayMs * Math.pow(multiplier, attempt - 1), maxDelayMs);
+    // Full jitter keeps clients that failed together from retrying together
+    const delay = Math.round(Math.random() * backoff);
+
+    console.warn(`AI provider ${name} failed (attempt ${attempt}), retrying in ${delay}ms`);
+    await sleep(delay, signal);
+    return !signal?.aborted;
+  }
+
+  /**
+   * Error raised when no provider could serve a request
+   */
+  private exhaustedError(capability: Capability | undefined, errors: string[], lastError: unknown): LLMAPIError {
+    if (errors.length === 0) {
+      const reason = capability ? `supports ${capability} and ` : '';
+      return new LLMAPIError(`No AI provider that ${reason}is available (circuits open: ${
+        this.providers.filter(provider => !this.breakers.get(provider.name)!.canRequest()).map(provider => provider.name).join(', ') || 'none'
+      })`);
+    }
+
+    const statusCode = lastError instanceof LLMAPIError ? lastError.statusCode : undefined;
+    return new LLMAPIError(`All AI providers failed: ${errors.join('; ')}`, statusCode);
+  }
+
+  /**
+   * Options for one provider. Model IDs are provider-specific, so a
+   * requested model only goes to the preferred provider; fallbacks use
+   * their own default. Reported token usage is added to the attempt's span.
+   */
+  private forProvider<T extends { model?: string; onUsage?: GenerationOptions['onUsage'] }>(
+    options: T,
+    primary: boolean,
+    span: Span
+  ): T {
+    return {
+      ...options,
+      model: primary ? options.model : undefined,
+      onUsage: (usage) => {
+        span.setAttributes({
+          'gen_ai.response.model': usage.model,
+          'gen_ai.usage.input_tokens': usage.promptTokens,
+          'gen_ai.usage.output_tokens': usage.completionTokens
+        });
+        options.onUsage?.(usage);
+      }
+    };
+  }
+
+  /**
+   * Span name of a provider call, following the GenAI "{operation} {model}" convention
+   */
+  private spanName(operation: string, provider: RoutedProvider, primary: boolean, model?: string): string {
+    return `${operation} ${(primary && model) || provider.service.getDefaultModel?.() || provider.name}`;
+  }
+
+  /**
+   * Span kind and attributes of a provider call
+   */
+  private spanOptions(operation: string, provider: RoutedProvider, primary: boolean, model: string | undefined, attempt: number) {
+    const requestModel = (primary && model) || provider.service.getDefaultModel?.();
+    return {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'gen_ai.operation.name': operation,
+        'gen_ai.system': provider.name,
+        ...(requestModel ? { 'gen_ai.request.model': requestModel } : {}),
+        'bolt.ai.attempt': attempt,
+        'bolt.ai.fallback': !primary
+      }
+    };
+  }
+}
+
+/**
+ * Wait for a delay, returning early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      return resolve();
+    }
+
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
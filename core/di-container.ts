@@ -11,6 +11,7 @@
  */
 
 import 'reflect-metadata';
+import path from 'path';
 import { container, DependencyContainer, Lifecycle } from 'tsyringe';
 
 // Core services
@@ -18,13 +19,20 @@ import { ErrorHandler } from './error-handler';
 import { Agent } from './agent/agent';
 import { InMemoryStateManager } from './agent/state-manager';
 import { AdvancedMemoryManager } from './memory/memory-manager';
+import { LocalEmbeddingProvider, OpenAIEmbeddingProvider } from './memory/embedding-provider';
 import { PromptManager } from './prompt/prompt-manager';
 import { ToolExecutor, Tool } from './tools/tool-executor';
 import { AIGovernance } from './ai/governance';
+import { GovernanceStore } from './ai/governance-store';
+import { DEFAULT_GOVERNANCE_POLICY, loadGovernancePolicy, mergeGovernancePolicies, PolicyEnforcer } from './ai/governance-policy';
 import { OpenAIService } from './ai/openai-service';
 import { AnthropicService } from './ai/anthropic-service';
 import { GeminiService } from './ai/gemini-service';
-import { AIServiceConfig, BaseAIService } from './ai/base-ai-service';
+import { LocalAIService } from './ai/local-ai-service';
+import { BaseAIService } from './ai/base-ai-service';
+import { RoutedProvider, RoutingAIService } from './ai/routing-ai-service';
+import { MODEL_PRICING } from './ai/pricing';
+import { UsageTracker } from './monitoring';
 
 // Interfaces
 import { 
@@ -40,6 +48,19 @@ const SYSTEM_PROMPT = process.env.SYSTEM_PROMPT ||
   'You are a helpful AI assistant that provides accurate, helpful information, and prioritizes user success.';
 const MAX_TOKENS = parseInt(process.env.MAX_TOKENS || '4000', 10);
 const MEMORY_MAX_SHORT_TERM_TURNS = parseInt(process.env.MEMORY_MAX_SHORT_TERM_TURNS || '10', 10);
+const MEMORY_TOP_K = parseInt(process.env.MEMORY_TOP_K || '5', 10);
+const MEMORY_MIN_RELEVANCE = parseFloat(process.env.MEMORY_MIN_RELEVANCE || '0.2');
+const MEMORY_SUMMARY_MAX_TOKENS = parseInt(process.env.MEMORY_SUMMARY_MAX_TOKENS || '500', 10);
+const MEMORY_DIR = process.env.MEMORY_DIR || path.join(process.env.DATA_DIR || 'data', 'memory');
+const AI_RETRY_ATTEMPTS = parseInt(process.env.AI_RETRY_ATTEMPTS || '3', 10);
+const AI_CIRCUIT_FAILURES = parseInt(process.env.AI_CIRCUIT_FAILURES || '5', 10);
+const AI_CIRCUIT_RESET_MS = parseInt(process.env.AI_CIRCUIT_RESET_MS || '30000', 10);
+const GOVERNANCE_LOG = process.env.GOVERNANCE_LOG || path.join(process.env.DATA_DIR || 'data', 'governance', 'audit.jsonl');
+const GOVERNANCE_POLICY_FILE = process.env.GOVERNANCE_POLICY_FILE;
+const USAGE_FILE = process.env.USAGE_FILE || path.join(process.env.DATA_DIR || 'data', 'usage.json');
+const USAGE_MONTHLY_BUDGET_USD = process.env.USAGE_MONTHLY_BUDGET_USD
+  ? parseFloat(process.env.USAGE_MONTHLY_BUDGET_USD)
+  : undefined;
 
 /**
  * Default tools for the system
@@ -50,6 +71,8 @@ const defaultTools: Tool[] = [
   {
     name: 'getCurrentTime',
     description: 'Get the current server time',
+    parameters: { type: 'object', properties: {} },
+    parallel: true,
     execute: async () => {
       return new Date().toISOString();
     }
@@ -70,14 +93,27 @@ export function setupDependencyInjection() {
   // These should be available throughout the application lifecycle
   container.registerSingleton(ErrorHandler);
   
-  // Register AI Governance singleton for consistent governance policies
-  container.registerSingleton(AIGovernance);
+  // Register AI Governance singleton for consistent governance policies,
+  // with its decisions and bias reports kept in a tamper-evident log
+  container.registerInstance(AIGovernance, new AIGovernance({
+    store: new GovernanceStore(GOVERNANCE_LOG)
+  }));
   initializeAIGovernance(container);
   
+  // Register the policy enforcer that screens every request and response;
+  // GOVERNANCE_POLICY_FILE adds rules to the default policy
+  container.registerInstance(PolicyEnforcer, new PolicyEnforcer(
+    container.resolve(AIGovernance),
+    GOVERNANCE_POLICY_FILE
+      ? mergeGovernancePolicies(DEFAULT_GOVERNANCE_POLICY, loadGovernancePolicy(GOVERNANCE_POLICY_FILE))
+      : DEFAULT_GOVERNANCE_POLICY
+  ));
+  
   // Register AI services based on available API keys
   const openaiApiKey = process.env.OPENAI_API_KEY;
   const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
   const geminiApiKey = process.env.GEMINI_API_KEY;
+  const aiProvider = process.env.AI_PROVIDER;
   
   // Register all AI services and their configuration
   console.log('Registering AI services...');
@@ -91,100 +127,84 @@ export function setupDependencyInjection() {
   // Register Gemini service
   container.registerSingleton(GeminiService);
   
-  // Default to OpenAI if the API key is available
-  if (openaiApiKey) {
-    console.log('OpenAI API key detected. Configuring OpenAI as primary service.');
-    
-    // Register OpenAI configuration
-    const openaiConfig: AIServiceConfig = {
-      apiKey: openaiApiKey,
-      defaultModel: 'gpt-4o',
-      defaultTemperature: 0.7
-    };
-    
-    // Get the OpenAI service instance and configure it
-    const openaiService = container.resolve(OpenAIService);
-    openaiService.configure(openaiConfig);
-    
-    // Register as the default AI service
-    container.register<BaseAIService>('BaseAIService', {
-      useValue: openaiService
-    });
-  } 
-  // Fall back to Anthropic if only that API key is available
-  else if (anthropicApiKey) {
-    console.log('Anthropic API key detected. Configuring Anthropic as primary service.');
-    
-    // Register Anthropic configuration
-    const anthropicConfig: AIServiceConfig = {
-      apiKey: anthropicApiKey,
-      defaultModel: 'claude-3-7-sonnet-20250219',
-      defaultTemperature: 0.7
-    };
-    
-    // Get the Anthropic service instance and configure it
-    const anthropicService = container.resolve(AnthropicService);
-    anthropicService.configure(anthropicConfig);
-    
-    // Register as the default AI service
-    container.register<BaseAIService>('BaseAIService', {
-      useValue: anthropicService
-    });
-  }
-  // If no API keys are available, use a warning
-  else {
-    console.warn('No AI service API keys found. Some features will be limited.');
-    
-    // Create a basic config anyway
-    const fallbackConfig: AIServiceConfig = {
-      defaultModel: 'gpt-4o',
-      defaultTemperature: 0.7
-    };
-    
-    // Configure OpenAI service as the default, even though it won't work
-    const openaiService = container.resolve(OpenAIService);
-    openaiService.configure(fallbackConfig);
-    
-    // Register as the default AI service
-    container.register<BaseAIService>('BaseAIService', {
-      useValue: openaiService
-    });
-  }
+  // Register the offline local service
+  container.registerSingleton(LocalAIService);
+  
+  const providers: RoutedProvider[] = [];
   
-  // Configure additional services if their API keys are available
-  if (openaiApiKey && anthropicApiKey) {
-    console.log('Both OpenAI and Anthropic services are available');
+  // Use the local service alone when explicitly requested (offline development and testing)
+  if (aiProvider === 'local') {
+    console.log('AI_PROVIDER=local. Configuring the offline local service as the only provider.');
     
-    // Configure Anthropic service if not already configured
-    if (container.resolve<BaseAIService>('BaseAIService') !== container.resolve(AnthropicService)) {
-      const anthropicConfig: AIServiceConfig = {
+    const localService = container.resolve(LocalAIService);
+    localService.configure({ defaultModel: 'local-echo' });
+    providers.push({ name: 'local', service: localService });
+  } else {
+    // Configure every provider whose API key is available
+    if (openaiApiKey) {
+      const openaiService = container.resolve(OpenAIService);
+      openaiService.configure({
+        apiKey: openaiApiKey,
+        defaultModel: 'gpt-4o',
+        defaultTemperature: 0.7
+      });
+      providers.push({ name: 'openai', service: openaiService });
+    }
+    
+    if (anthropicApiKey) {
+      const anthropicService = container.resolve(AnthropicService);
+      anthropicService.configure({
         apiKey: anthropicApiKey,
         defaultModel: 'claude-3-7-sonnet-20250219',
         defaultTemperature: 0.7
-      };
-      
-      // Get the Anthropic service instance and configure it
-      const anthropicService = container.resolve(AnthropicService);
-      anthropicService.configure(anthropicConfig);
+      });
+      providers.push({ name: 'anthropic', service: anthropicService });
+    }
+    
+    if (geminiApiKey) {
+      const geminiService = container.resolve(GeminiService);
+      geminiService.configure({
+        apiKey: geminiApiKey,
+        defaultModel: 'gemini-1.5-pro',
+        defaultTemperature: 0.7
+      });
+      providers.push({ name: 'gemini', service: geminiService });
     }
-  }
-  
-  // Configure Gemini if its API key is available
-  if (geminiApiKey) {
-    console.log('Google Gemini service is available');
     
-    // Configure Gemini service
-    const geminiConfig: AIServiceConfig = {
-      apiKey: geminiApiKey,
-      defaultModel: 'gemini-1.5-pro',
-      defaultTemperature: 0.7
-    };
+    // AI_PROVIDER picks the preferred provider; the others become fallbacks
+    const preferred = providers.findIndex(provider => provider.name === aiProvider);
+    if (preferred > 0) {
+      providers.unshift(...providers.splice(preferred, 1));
+    }
     
-    // Get the Gemini service instance and configure it
-    const geminiService = container.resolve(GeminiService);
-    geminiService.configure(geminiConfig);
+    // If no API keys are available, use a warning
+    if (providers.length === 0) {
+      console.warn('No AI service API keys found. Some features will be limited.');
+      
+      // Configure OpenAI service as the default, even though it won't work
+      const openaiService = container.resolve(OpenAIService);
+      openaiService.configure({
+        defaultModel: 'gpt-4o',
+        defaultTemperature: 0.7
+      });
+      providers.push({ name: 'openai', service: openaiService });
+    }
   }
   
+  console.log(`AI providers in order of preference: ${providers.map(provider => provider.name).join(', ')}`);
+  
+  // Register the routing service as the default AI service
+  const routingService = new RoutingAIService(providers, {
+    retry: { maxAttempts: AI_RETRY_ATTEMPTS },
+    circuitBreaker: {
+      failureThreshold: AI_CIRCUIT_FAILURES,
+      resetTimeoutMs: AI_CIRCUIT_RESET_MS
+    }
+  });
+  container.register<BaseAIService>('BaseAIService', {
+    useValue: routingService
+  });
+  
   // ===== STATE MANAGEMENT =====
   
   // Register state manager as singleton to maintain consistent state
@@ -194,27 +214,33 @@ export function setupDependencyInjection() {
   
   // ===== MEMORY MANAGEMENT =====
   
+  // Embed memories with OpenAI when it is available, locally otherwise
+  const embeddingProvider = (process.env.EMBEDDING_PROVIDER || (openaiApiKey && aiProvider !== 'local' ? 'openai' : 'local')) === 'openai'
+    ? new OpenAIEmbeddingProvider({ apiKey: openaiApiKey, model: process.env.EMBEDDING_MODEL })
+    : new LocalEmbeddingProvider();
+  
   // Register memory manager with configuration
   container.register<IMemoryManager>('IMemoryManager', {
-    useClass: AdvancedMemoryManager
-  }, { lifecycle: Lifecycle.Singleton });
-  
-  // Configure the memory manager after registration
-  container.resolve<IMemoryManager>('IMemoryManager');
+    useValue: new AdvancedMemoryManager({
+      maxShortTermTurns: MEMORY_MAX_SHORT_TERM_TURNS,
+      embeddingProvider,
+      topK: MEMORY_TOP_K,
+      minRelevance: MEMORY_MIN_RELEVANCE,
+      persistDir: MEMORY_DIR,
+      aiService: container.resolve<BaseAIService>('BaseAIService'),
+      summaryMaxTokens: MEMORY_SUMMARY_MAX_TOKENS
+    })
+  });
   
   // ===== PROMPT MANAGEMENT =====
   
-  // Register prompt manager
+  // Register prompt manager, sized to the context windows of the AI service's models
   container.register<IPromptManager>('IPromptManager', {
-    useClass: PromptManager
-  }, { lifecycle: Lifecycle.Singleton });
-  
-  // Configure the prompt manager after registration
-  const promptManager = container.resolve<PromptManager>('IPromptManager');
-  // Initialize with system prompt and token settings
-  Object.assign(promptManager, {
-    systemPrompt: SYSTEM_PROMPT,
-    maxTokens: MAX_TOKENS
+    useValue: new PromptManager({
+      systemPrompt: SYSTEM_PROMPT,
+      maxTokens: MAX_TOKENS,
+      aiService: container.resolve<BaseAIService>('BaseAIService')
+    })
   });
   
   // ===== TOOL EXECUTION =====
@@ -223,7 +249,7 @@ export function setupDependencyInjection() {
   const stateManager = container.resolve<IStateManager>('IStateManager');
   
   // Create a new tool executor instance manually
-  const toolExecutor = new ToolExecutor(stateManager);
+  const toolExecutor = new ToolExecutor(stateManager, container.resolve<BaseAIService>('BaseAIService'));
   
   // Register it as a singleton value
   container.registerInstance<IToolExecutor>('IToolExecutor', toolExecutor);
@@ -231,6 +257,19 @@ export function setupDependencyInjection() {
   // Initialize the tool executor with default tools
   defaultTools.forEach(tool => toolExecutor.registerTool(tool));
   
+  // ===== USAGE ACCOUNTING =====
+  
+  // Register the usage tracker; MODEL_PRICING adds or overrides prices and
+  // USAGE_USER_BUDGETS sets monthly limits per user ID, both as JSON
+  container.register<UsageTracker>('UsageTracker', {
+    useValue: new UsageTracker({
+      persistPath: USAGE_FILE,
+      pricing: { ...MODEL_PRICING, ...parseJsonEnv('MODEL_PRICING') },
+      monthlyBudgetUsd: USAGE_MONTHLY_BUDGET_USD,
+      userBudgetsUsd: parseJsonEnv('USAGE_USER_BUDGETS')
+    })
+  });
+  
   // ===== MAIN AGENT =====
   
   // Create an Agent instance manually with all dependencies
@@ -239,7 +278,10 @@ export function setupDependencyInjection() {
     container.resolve<IMemoryManager>('IMemoryManager'),
     container.resolve<IPromptManager>('IPromptManager'),
     toolExecutor,
-    container.resolve<ErrorHandler>(ErrorHandler)
+    container.resolve<ErrorHandler>(ErrorHandler),
+    container.resolve<BaseAIService>('BaseAIService'),
+    container.resolve<UsageTracker>('UsageTracker'),
+    container.resolve(PolicyEnforcer)
   );
   
   // Register the Agent instance
@@ -248,6 +290,25 @@ export function setupDependencyInjection() {
   return container;
 }
 
+/**
+ * Read an environment variable holding a JSON object
+ * @param name - Variable name
+ * @returns Parsed object, or undefined if the variable is unset
+ * @throws Error if the value is not a JSON object
+ */
+function parseJsonEnv(name: string): Record<string, any> | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  
+  const parsed = JSON.parse(value);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${name} must be a JSON object`);
+  }
+  return parsed;
+}
+
 /**
  * Initialize AI governance with default sensitive terms and model registrations
  * @param container - The dependency container
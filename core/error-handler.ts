@@ -16,6 +16,7 @@
 
 import { injectable, inject } from 'tsyringe';
 import { SentrySDK } from './monitoring/sentry-sdk';
+import { recordError } from './monitoring/metrics';
 import { 
   BoltDIYError, 
   MemoryStorageError,
@@ -192,6 +193,7 @@ export class ErrorHandler {
     
     // Increment error count for this category
     this.errorCount[category]++;
+    recordError(category, severity);
     
     // Log error rate data if it exceeds thresholds
     if (this.errorCount[category] > 10) {
@@ -226,8 +228,20 @@ export class ErrorHandler {
       enhancedContext.stackTrace = errorStack;
     }
     
-    // Report error to monitoring system
-    monitoredError.errorId = SentrySDK.captureException(error, enhancedContext);
+    // Report error to monitoring system, tagged for searching by category and severity
+    monitoredError.errorId = SentrySDK.captureException(error, enhancedContext, {
+      tags: { ...this.config.globalTags, category, severity },
+      level: severity === ErrorSeverity.CRITICAL ? 'fatal' : severity
+    });
+    
+    // Leave a trail for the events reported after this one
+    SentrySDK.addBreadcrumb({
+      type: 'error',
+      category: `error.${category}`,
+      message: `${errorType}: ${errorMessage}`,
+      level: severity === ErrorSeverity.CRITICAL ? 'fatal' : severity,
+      data: { errorId: monitoredError.errorId }
+    });
     
     // Log in structured format for easier searching/filtering
     console.error(`[ErrorHandler] ${severity.toUpperCase()} ${category} error:`, {
@@ -90,4 +90,19 @@ export class AIGovernanceError extends BoltDIYError {
     this.category = category;
     Object.setPrototypeOf(this, AIGovernanceError.prototype);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Error thrown when a user has spent their monthly AI budget
+ */
+export class UsageBudgetExceededError extends BoltDIYError {
+  readonly limitUsd: number;
+  readonly spentUsd: number;
+  
+  constructor(message: string, limitUsd: number, spentUsd: number) {
+    super(message);
+    this.limitUsd = limitUsd;
+    this.spentUsd = spentUsd;
+    Object.setPrototypeOf(this, UsageBudgetExceededError.prototype);
+  }
+}
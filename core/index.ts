@@ -5,6 +5,9 @@
  * for initializing and using the system.
  */
 
+// Must be loaded before any tsyringe-decorated class
+import 'reflect-metadata';
+
 // Export all interfaces
 export * from './interfaces';
 
@@ -18,16 +21,59 @@ export * from './error-handler';
 export * from './monitoring';
 
 // Export agent
-export { Agent } from './agent/agent';
+export { Agent, type AgentRequestOptions, type AgentStreamEvent } from './agent/agent';
 
 // Export memory manager
-export { AdvancedMemoryManager } from './memory/memory-manager';
+export { AdvancedMemoryManager, type MemoryManagerOptions } from './memory/memory-manager';
+export {
+  LocalEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  type EmbeddingProvider
+} from './memory/embedding-provider';
+export { VectorIndex, type VectorEntry, type VectorMatch } from './memory/vector-index';
 
 // Export prompt manager
 export { PromptManager } from './prompt/prompt-manager';
+export { createTokenCounter, getEncodingName, type TokenCounter } from './prompt/tokenizer';
+
+// Export AI governance
+export { AIGovernance, type DecisionQuery, type BiasReportQuery } from './ai/governance';
+export {
+  GovernanceStore,
+  verifyChain,
+  type AuditRecord,
+  type AuditRecordType,
+  type AuditVerification
+} from './ai/governance-store';
+export {
+  PolicyEnforcer,
+  DEFAULT_GOVERNANCE_POLICY,
+  SENSITIVE_TERMS_RULE,
+  mergeGovernancePolicies,
+  parseGovernancePolicy,
+  loadGovernancePolicy,
+  type GovernancePolicy,
+  type PolicyRule,
+  type PolicyStage,
+  type PolicyAction,
+  type PolicyMatch,
+  type PolicyResult,
+  type PolicyCheckContext
+} from './ai/governance-policy';
+
+// Export provider routing
+export {
+  RoutingAIService,
+  CircuitBreaker,
+  isRetryableProviderError,
+  type RoutedProvider,
+  type RoutingOptions,
+  type RetryPolicy,
+  type CircuitBreakerOptions
+} from './ai/routing-ai-service';
 
 // Export tool executor
-export { ToolExecutor, type Tool } from './tools/tool-executor';
+export { ToolExecutor, type Tool, type ToolResultMessage } from './tools/tool-executor';
 
 // Export DI container setup
 export { setupDependencyInjection } from './di-container';
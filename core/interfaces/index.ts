@@ -5,6 +5,8 @@
  * of the Bolt DIY system.
  */
 
+import type { TokenUsage } from '../ai/base-ai-service';
+
 /**
  * Defines the structure of an interaction between a user and the system
  */
@@ -88,8 +90,82 @@ export interface IMemoryManager {
    * Store a new interaction in the memory
    * @param sessionId - Unique session identifier
    * @param interaction - The interaction to store
+   * @param options - Options for the model calls the memory makes
    */
-  storeInteraction(sessionId: string, interaction: Interaction): Promise<void>;
+  storeInteraction(sessionId: string, interaction: Interaction, options?: StoreInteractionOptions): Promise<void>;
+}
+
+/**
+ * Options for storing an interaction in the memory
+ */
+export interface StoreInteractionOptions {
+  /** Called with the usage of model calls made for the interaction, such as summaries */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Token usage of one part of the prompt context
+ */
+export interface PromptSectionUsage {
+  /** Items included in the prompt */
+  included: number;
+  
+  /** Items left out to fit the token budget */
+  dropped: number;
+  
+  /** Tokens taken by the included items */
+  tokens: number;
+}
+
+/**
+ * What went into a constructed prompt and what was cut to fit
+ */
+export interface PromptBreakdown {
+  /** Model the prompt was sized for, if known */
+  model?: string;
+  
+  /** Encoding used to count tokens */
+  tokenizer: string;
+  
+  /** Token budget of the prompt */
+  maxTokens: number;
+  
+  /** Tokens in the final prompt */
+  totalTokens: number;
+  
+  /** Tokens taken by the system prompt and the user input */
+  baseTokens: number;
+  
+  /** Conversation turns, cut oldest first */
+  history: PromptSectionUsage;
+  
+  /** Long-term memories, cut least relevant first */
+  memories: PromptSectionUsage;
+  
+  /** Conversation summary, cut last */
+  summary: PromptSectionUsage;
+  
+  /** Whether anything was left out */
+  truncated: boolean;
+}
+
+/**
+ * Prompt ready to send to the LLM, with its token breakdown
+ */
+export interface ConstructedPrompt {
+  prompt: string;
+  breakdown: PromptBreakdown;
+}
+
+/**
+ * Options for constructing a prompt
+ */
+export interface PromptOptions {
+  /** Provider model ID the prompt is for; sets the tokenizer and budget */
+  model?: string;
+  
+  /** System prompt sent to the model alongside the prompt; counted against the budget */
+  systemPrompt?: string;
 }
 
 /**
@@ -101,9 +177,35 @@ export interface IPromptManager {
    * @param userInput - Current user input
    * @param context - Memory context from memory manager
    * @param state - Current application state
-   * @returns Constructed prompt string
+   * @param options - Model the prompt is for
+   * @returns Constructed prompt and what it includes
    */
-  constructPrompt(userInput: string, context: MemoryContext, state: ApplicationState): Promise<string>;
+  constructPrompt(
+    userInput: string,
+    context: MemoryContext,
+    state: ApplicationState,
+    options?: PromptOptions
+  ): Promise<ConstructedPrompt>;
+}
+
+/**
+ * Options for answering a prompt with tools
+ */
+export interface ToolLoopOptions {
+  /** System prompt sent to the model */
+  systemPrompt?: string;
+  
+  /** Provider model ID to use instead of the service default */
+  model?: string;
+  
+  /** Signal that stops generation when aborted */
+  signal?: AbortSignal;
+  
+  /** Model turns allowed before giving up */
+  maxIterations?: number;
+  
+  /** Called with the tokens each model turn used */
+  onUsage?: (usage: TokenUsage) => void;
 }
 
 /**
@@ -111,10 +213,12 @@ export interface IPromptManager {
  */
 export interface IToolExecutor {
   /**
-   * Process LLM response and execute any tools
-   * @param llmResponse - Raw response from LLM
+   * Answer a prompt, running the tools the model calls until it gives
+   * a final answer
+   * @param prompt - Constructed prompt for the LLM
    * @param sessionId - Session identifier for state context
-   * @returns Final processed response after tool execution
+   * @param options - Model options and iteration limit
+   * @returns Final answer from the model
    */
-  processResponse(llmResponse: string, sessionId: string): Promise<string>;
-}
\ No newline at end of file
+  run(prompt: string, sessionId: string, options?: ToolLoopOptions): Promise<string>;
+}
@@ -0,0 +1,147 @@
+/**
+ * Embedding Providers for Bolt DIY
+ *
+ * This module turns text into vectors for semantic memory retrieval.
+ * Providers are pluggable: a deterministic local embedder that needs no
+ * network access, and one backed by OpenAI's embeddings API.
+ */
+
+import OpenAI from 'openai';
+import { LLMAPIError } from '../errors';
+
+/**
+ * Interface for turning text into embedding vectors
+ */
+export interface EmbeddingProvider {
+  /** Identifies the embedding space; vectors from different ids don't compare */
+  readonly id: string;
+  
+  /** Length of every vector produced */
+  readonly dimensions: number;
+  
+  /**
+   * Embed a batch of texts
+   * @param texts - Texts to embed
+   * @returns One vector per text, in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Deterministic embedder using feature hashing of words and word pairs.
+ * It captures lexical overlap rather than meaning, which is enough for
+ * offline use and gives stable vectors for tests.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  
+  /**
+   * Create a new local embedder
+   * @param dimensions - Length of the hashed vectors
+   */
+  constructor(dimensions: number = 256) {
+    this.dimensions = dimensions;
+    this.id = `local-hash-${dimensions}`;
+  }
+  
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+  
+  /**
+   * Hash the features of a text into a normalized vector
+   * @param text - Text to embed
+   * @returns Unit-length vector (all zeros for text without words)
+   */
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9_\u00c0-\uffff]+/g) || [];
+    
+    const counts = new Map<string, number>();
+    words.forEach((word, index) => {
+      counts.set(word, (counts.get(word) || 0) + 1);
+      if (index > 0) {
+        const pair = `${words[index - 1]} ${word}`;
+        counts.set(pair, (counts.get(pair) || 0) + 0.5);
+      }
+    });
+    
+    for (const [feature, count] of Array.from(counts.entries())) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so unrelated features tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * Math.log(1 + count);
+    }
+    
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embedder backed by the OpenAI embeddings API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  private openai: OpenAI;
+  private model: string;
+  
+  /**
+   * Create a new OpenAI embedder
+   * @param options - API key and embedding model
+   */
+  constructor(options: { apiKey?: string; model?: string; dimensions?: number } = {}) {
+    this.openai = new OpenAI({ apiKey: options.apiKey || process.env.OPENAI_API_KEY });
+    this.model = options.model || 'text-embedding-3-small';
+    this.dimensions = options.dimensions || 1536;
+    this.id = `openai-${this.model}-${this.dimensions}`;
+  }
+  
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    
+    try {
+      const response = await this.openai.embeddings.create({
+        model: this.model,
+        input: texts,
+        dimensions: this.dimensions
+      });
+      
+      // The API may return items out of order; place them by index
+      const vectors: number[][] = new Array(texts.length);
+      for (const item of response.data) {
+        vectors[item.index] = normalize(item.embedding);
+      }
+      return vectors;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`OpenAI embedding call failed: ${errorMessage}`);
+      throw new LLMAPIError(`OpenAI embedding call failed: ${errorMessage}`);
+    }
+  }
+}
+
+/**
+ * Scale a vector to unit length so cosine similarity is a dot product
+ * @param vector - Vector to normalize
+ * @returns Normalized copy (unchanged if all zeros)
+ */
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector.slice() : vector.map(value => value / length);
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,147 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AdvancedMemoryManager } from './memory-manager';
+import { EmbeddingProvider } from './embedding-provider';
+import { AbstractAIService, GenerationOptions } from '../ai/base-ai-service';
+
+const TOPICS = ['database', 'styles', 'deploy'];
+
+/**
+ * Embedder with one dimension per topic, counting the topic's mentions,
+ * so which memory is nearest to a query is known in advance
+ */
+class TopicEmbeddingProvider implements EmbeddingProvider {
+  readonly dimensions = TOPICS.length;
+
+  constructor(readonly id = 'topics') {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => TOPICS.map(topic => text.toLowerCase().split(topic).length - 1));
+  }
+}
+
+/**
+ * Model that numbers the summaries it writes and keeps the prompts it was sent
+ */
+class SummarizingAIService extends AbstractAIService {
+  prompts: string[] = [];
+
+  async generateCompletion(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    this.prompts.push(prompt);
+    options.onUsage?.({ model: 'summarizer', promptTokens: 100, completionTokens: 10 });
+    return `Summary ${this.prompts.length}`;
+  }
+
+  async *generateCompletionStream(prompt: string, options: GenerationOptions = {}): AsyncIterable<string> {
+    yield await this.generateCompletion(prompt, options);
+  }
+
+  async analyzeCode(): Promise<any> {
+    return {};
+  }
+}
+
+const interaction = (input: string, response: string) => ({ input, response });
+
+describe('AdvancedMemoryManager', () => {
+  let persistDir: string;
+
+  beforeEach(() => {
+    persistDir = mkdtempSync(path.join(os.tmpdir(), 'memory-'));
+  });
+
+  afterEach(() => {
+    rmSync(persistDir, { recursive: true, force: true });
+  });
+
+  it('retrieves the memories nearest to the query, leaving out recent history', async () => {
+    const memory = new AdvancedMemoryManager({ embeddingProvider: new TopicEmbeddingProvider(), maxShortTermTurns: 1, topK: 1 });
+
+    await memory.storeInteraction('session-1', interaction('How do I migrate the database?', 'Run the database migrations'));
+    await memory.storeInteraction('session-1', interaction('Why are the styles broken?', 'The styles file is missing'));
+    await memory.storeInteraction('session-1', interaction('When do we deploy?', 'We deploy on Fridays'));
+
+    const context = await memory.getContext('session-1', 'Back to the database question');
+
+    expect(context.history.map(turn => turn.input)).toEqual(['When do we deploy?']);
+    expect(context.memories).toEqual(['User: How do I migrate the database?\nAssistant: Run the database migrations']);
+  });
+
+  it('does not return memories below the relevance threshold', async () => {
+    const memory = new AdvancedMemoryManager({ embeddingProvider: new TopicEmbeddingProvider(), maxShortTermTurns: 1 });
+
+    await memory.storeInteraction('session-1', interaction('Which database?', 'Postgres'));
+    await memory.storeInteraction('session-1', interaction('Hello', 'Hi'));
+
+    const context = await memory.getContext('session-1', 'How do the styles load?');
+
+    expect(context.memories).toEqual([]);
+  });
+
+  it('keeps sessions apart', async () => {
+    const memory = new AdvancedMemoryManager({ embeddingProvider: new TopicEmbeddingProvider(), maxShortTermTurns: 1 });
+
+    await memory.storeInteraction('session-1', interaction('Which database?', 'Postgres'));
+    await memory.storeInteraction('session-1', interaction('Hello', 'Hi'));
+
+    const context = await memory.getContext('session-2', 'Which database?');
+
+    expect(context.history).toEqual([]);
+    expect(context.memories).toEqual([]);
+  });
+
+  it('reloads saved memories, discarding those from another embedding space', async () => {
+    const first = new AdvancedMemoryManager({ embeddingProvider: new TopicEmbeddingProvider(), persistDir });
+    await first.storeInteraction('session-1', interaction('Which database?', 'Postgres'));
+
+    const reloaded = new AdvancedMemoryManager({ embeddingProvider: new TopicEmbeddingProvider(), persistDir });
+    expect((await reloaded.getContext('session-1', 'database')).memories).toHaveLength(1);
+
+    const otherSpace = new AdvancedMemoryManager({ embeddingProvider: new TopicEmbeddingProvider('other-topics'), persistDir });
+    expect((await otherSpace.getContext('session-1', 'database')).memories).toEqual([]);
+  });
+
+  it('summarizes turns as they leave the recent history', async () => {
+    const aiService = new SummarizingAIService();
+    const usage: string[] = [];
+    const memory = new AdvancedMemoryManager({ embeddingProvider: new TopicEmbeddingProvider(), maxShortTermTurns: 1, aiService });
+    const onUsage = ({ model }: { model: string }) => usage.push(model);
+
+    await memory.storeInteraction('session-1', interaction('Which database?', 'Postgres'), { onUsage });
+    expect((await memory.getContext('session-1', 'Hello')).summary).toBeUndefined();
+
+    await memory.storeInteraction('session-1', interaction('Hello', 'Hi'), { onUsage });
+    const context = await memory.getContext('session-1', 'Hello');
+
+    expect(context.summary).toBe('Summary 1');
+    expect(aiService.prompts).toHaveLength(1);
+    expect(aiService.prompts[0]).toContain('There is no summary yet.');
+    expect(aiService.prompts[0]).toContain('User: Which database?\nAssistant: Postgres');
+    expect(aiService.prompts[0]).not.toContain('Hello');
+    expect(usage).toEqual(['summarizer']);
+  });
+
+  it('reuses the summary until more turns leave the recent history, then builds on it', async () => {
+    const aiService = new SummarizingAIService();
+    const memory = new AdvancedMemoryManager({ embeddingProvider: new TopicEmbeddingProvider(), maxShortTermTurns: 1, aiService, persistDir });
+
+    await memory.storeInteraction('session-1', interaction('Which database?', 'Postgres'));
+    await memory.storeInteraction('session-1', interaction('Hello', 'Hi'));
+    expect((await memory.getContext('session-1', 'Hello')).summary).toBe('Summary 1');
+    expect((await memory.getContext('session-1', 'Which database?')).summary).toBe('Summary 1');
+    expect(aiService.prompts).toHaveLength(1);
+
+    await memory.storeInteraction('session-1', interaction('When do we deploy?', 'Fridays'));
+    expect((await memory.getContext('session-1', 'deploy')).summary).toBe('Summary 2');
+    expect(aiService.prompts[1]).toContain('Summary so far:\nSummary 1');
+    expect(aiService.prompts[1]).toContain('User: Hello\nAssistant: Hi');
+    expect(aiService.prompts[1]).not.toContain('Postgres');
+
+    // The summary is saved with the session
+    const reloaded = new AdvancedMemoryManager({ embeddingProvider: new TopicEmbeddingProvider(), aiService, persistDir });
+    expect((await reloaded.getContext('session-1', 'deploy')).summary).toBe('Summary 2');
+    expect(aiService.prompts).toHaveLength(2);
+  });
+});
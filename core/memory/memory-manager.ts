@@ -1,12 +1,65 @@
 /**
  * Memory Manager for Bolt DIY
- * 
+ *
  * This module provides conversation memory management with support for
  * both short-term recent history and longer-term semantic memory.
+ * Every interaction is embedded into a per-session vector index; the
+ * memories most similar to the current query are retrieved as context.
+ * Turns that fall out of the recent history are rolled into a running
+ * summary of the session.
  */
 
-import { IMemoryManager, MemoryContext, Interaction } from '../interfaces';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IMemoryManager, MemoryContext, Interaction, StoreInteractionOptions } from '../interfaces';
 import { MemoryStorageError } from '../errors';
+import { BaseAIService, TokenUsage } from '../ai/base-ai-service';
+import { EmbeddingProvider, LocalEmbeddingProvider } from './embedding-provider';
+import { VectorIndex, VectorIndexData } from './vector-index';
+
+/**
+ * Configuration options for the memory manager
+ */
+export interface MemoryManagerOptions {
+  /** Interactions kept verbatim as recent history */
+  maxShortTermTurns?: number;
+  
+  /** Provider used to embed memories and queries */
+  embeddingProvider?: EmbeddingProvider;
+  
+  /** Maximum number of memories retrieved per query */
+  topK?: number;
+  
+  /** Minimum cosine similarity for a memory to count as relevant */
+  minRelevance?: number;
+  
+  /** Memories kept per session; the oldest are dropped first */
+  maxLongTermMemories?: number;
+  
+  /** Directory the session memories are saved to; in memory only when unset */
+  persistDir?: string;
+  
+  /** Model that summarizes evicted turns; no summary is kept when unset */
+  aiService?: BaseAIService;
+  
+  /** Token budget of the running summary */
+  summaryMaxTokens?: number;
+  
+  /** Token counter used to hold the summary to its budget */
+  tokenCountEstimator?: (text: string) => number;
+}
+
+/**
+ * Long-term memory of one session
+ */
+interface SessionMemory {
+  /** Embedded interactions */
+  index: VectorIndex;
+  
+  /** Running summary of the turns evicted from the recent history */
+  summary?: string;
+}
 
 /**
  * Implementation of Memory Manager with in-memory storage
@@ -15,20 +68,46 @@ export class AdvancedMemoryManager implements IMemoryManager {
   // Short-term memory storage (recent turns)
   private shortTermMemory: Map<string, Interaction[]> = new Map();
   
-  // Long-term memory storage (semantic memories)
-  private longTermMemory: Map<string, string[]> = new Map();
+  // Long-term memory storage (vector index and summary per session, loaded lazily)
+  private longTermMemory: Map<string, Promise<SessionMemory>> = new Map();
+  
+  // Evicted turns not yet folded into the summary
+  private pendingSummaryTurns: Map<string, Interaction[]> = new Map();
+  
+  // Running summary updates per session
+  private summaryQueues: Map<string, Promise<void>> = new Map();
+  
+  // Pending session writes, so saves happen one at a time
+  private saveQueues: Map<string, Promise<void>> = new Map();
   
   // Configuration
   private maxShortTermTurns: number;
+  private embeddingProvider: EmbeddingProvider;
+  private topK: number;
+  private minRelevance: number;
+  private maxLongTermMemories: number;
+  private persistDir?: string;
+  private aiService?: BaseAIService;
+  private summaryMaxTokens: number;
+  private tokenCountEstimator: (text: string) => number;
   
   /**
    * Create a new memory manager
    * @param options - Configuration options
    */
-  constructor(options: {
-    maxShortTermTurns?: number;
-  } = {}) {
+  constructor(options: MemoryManagerOptions = {}) {
     this.maxShortTermTurns = options.maxShortTermTurns || 10;
+    this.embeddingProvider = options.embeddingProvider || new LocalEmbeddingProvider();
+    this.topK = options.topK ?? 5;
+    this.minRelevance = options.minRelevance ?? 0.2;
+    this.maxLongTermMemories = options.maxLongTermMemories || 1000;
+    this.persistDir = options.persistDir ? path.resolve(options.persistDir) : undefined;
+    this.aiService = options.aiService;
+    this.summaryMaxTokens = options.summaryMaxTokens || 500;
+    
+    // Simple estimator function (roughly 4 chars per token)
+    this.tokenCountEstimator = options.tokenCountEstimator ||
+      ((text: string) => Math.ceil(text.length / 4));
   }
   
   /**
@@ -42,13 +121,17 @@ export class AdvancedMemoryManager implements IMemoryManager {
       // Get short-term history or initialize empty array
       const history = this.shortTermMemory.get(sessionId) || [];
       
-      // In a real implementation, we would perform vector similarity search
-      // based on the query to retrieve relevant long-term memories
-      const memories = this.retrieveRelevantMemories(sessionId, query);
+      // Let a summary update started by the previous turn finish first
+      await this.summaryQueues.get(sessionId);
+      const session = await this.getSession(sessionId);
+      
+      // Search long-term memory for what is relevant to the query
+      const memories = await this.retrieveRelevantMemories(session, query, history.length);
       
       return {
         history,
-        memories
+        memories,
+        summary: session.summary
       };
     } catch (error) {
       console.error(`Failed to get context for session ${sessionId}:`, error);
@@ -60,8 +143,9 @@ export class AdvancedMemoryManager implements IMemoryManager {
    * Store a new interaction in the memory
    * @param sessionId - Unique session identifier
    * @param interaction - The interaction to store
+   * @param options - Options for the model calls made to summarize
    */
-  async storeInteraction(sessionId: string, interaction: Interaction): Promise<void> {
+  async storeInteraction(sessionId: string, interaction: Interaction, options: StoreInteractionOptions = {}): Promise<void> {
     try {
       // Ensure timestamp is set
       const timestampedInteraction = {
@@ -77,12 +161,23 @@ export class AdvancedMemoryManager implements IMemoryManager {
       
       // Limit history size to max turns
       const trimmedHistory = updatedHistory.slice(-this.maxShortTermTurns);
+      const evictedTurns = updatedHistory.slice(0, updatedHistory.length - trimmedHistory.length);
       
       // Update short-term memory
       this.shortTermMemory.set(sessionId, trimmedHistory);
       
-      // In a real implementation, we would also store the interaction
-      // in long-term memory with vector embeddings for retrieval
+      // Embed the interaction into the session's long-term memory
+      const text = `User: ${timestampedInteraction.input}\nAssistant: ${timestampedInteraction.response}`;
+      const [vector] = await this.embeddingProvider.embed([text]);
+      const session = await this.getSession(sessionId);
+      session.index.add({ text, vector, timestamp: timestampedInteraction.timestamp });
+      
+      await this.saveSession(sessionId, session);
+      
+      // Summarize in the background; the next getContext waits for it
+      if (evictedTurns.length > 0) {
+        this.scheduleSummary(sessionId, evictedTurns, options.onUsage);
+      }
     } catch (error) {
       console.error(`Failed to store interaction for session ${sessionId}:`, error);
       throw new MemoryStorageError(`Failed to store interaction: ${error instanceof Error ? error.message : String(error)}`);
@@ -91,20 +186,192 @@ export class AdvancedMemoryManager implements IMemoryManager {
   
   /**
    * Retrieve memories relevant to the current query
-   * @param sessionId - Unique session identifier
+   * @param session - Long-term memory of the session
    * @param query - Current user query
-   * @returns Array of relevant memories as strings
+   * @param recentTurns - Newest memories already present as history
+   * @returns Relevant memories as strings, most relevant first
+   */
+  private async retrieveRelevantMemories(session: SessionMemory, query: string, recentTurns: number): Promise<string[]> {
+    if (session.index.size <= recentTurns || !query.trim()) {
+      return [];
+    }
+    
+    const [queryVector] = await this.embeddingProvider.embed([query]);
+    return session.index
+      .search(queryVector, this.topK, this.minRelevance, recentTurns)
+      .map(match => match.text);
+  }
+  
+  /**
+   * Queue evicted turns to be folded into the session's running summary.
+   * Turns whose summary update fails stay pending for the next update.
+   * @param sessionId - Unique session identifier
+   * @param turns - Turns evicted from the recent history
+   * @param onUsage - Receives the usage of the summary call
    */
-  private retrieveRelevantMemories(sessionId: string, query: string): string[] {
-    // Get existing memories or initialize empty array
-    const memories = this.longTermMemory.get(sessionId) || [];
+  private scheduleSummary(sessionId: string, turns: Interaction[], onUsage?: (usage: TokenUsage) => void): void {
+    const aiService = this.aiService;
+    if (!aiService) {
+      return;
+    }
     
-    // In a real implementation, we would:
-    // 1. Generate vector embedding for the query
-    // 2. Perform similarity search against stored memory embeddings
-    // 3. Return top N most relevant memories
+    const pending = this.pendingSummaryTurns.get(sessionId) || [];
+    this.pendingSummaryTurns.set(sessionId, [...pending, ...turns]);
     
-    // For this simplified implementation, we just return all memories
-    return memories;
+    const previous = this.summaryQueues.get(sessionId) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const batch = this.pendingSummaryTurns.get(sessionId) || [];
+      if (batch.length === 0) {
+        return;
+      }
+      
+      try {
+        const session = await this.getSession(sessionId);
+        session.summary = await this.summarize(aiService, session.summary, batch, onUsage);
+        
+        // Turns evicted while the model was busy stay pending
+        this.pendingSummaryTurns.set(sessionId, (this.pendingSummaryTurns.get(sessionId) || []).slice(batch.length));
+        await this.saveSession(sessionId, session);
+      } catch (error) {
+        console.error(`Failed to summarize conversation for session ${sessionId}:`, error);
+      }
+    });
+    
+    this.summaryQueues.set(sessionId, next);
+    next.finally(() => {
+      if (this.summaryQueues.get(sessionId) === next) {
+        this.summaryQueues.delete(sessionId);
+      }
+    });
+  }
+  
+  /**
+   * Fold turns into a running summary with the configured model
+   * @param aiService - Model that writes the summary
+   * @param summary - Summary so far, if any
+   * @param turns - Turns to add to the summary, oldest first
+   * @param onUsage - Receives the usage of the summary call
+   * @returns Updated summary, held to the token budget
+   */
+  private async summarize(
+    aiService: BaseAIService,
+    summary: string | undefined,
+    turns: Interaction[],
+    onUsage?: (usage: TokenUsage) => void
+  ): Promise<string> {
+    const transcript = turns
+      .map(turn => `User: ${turn.input}\nAssistant: ${turn.response}`)
+      .join('\n\n');
+    
+    const prompt = [
+      summary ? `Summary so far:\n${summary}` : 'There is no summary yet.',
+      `New conversation turns:\n${transcript}`,
+      `Write the updated summary in at most ${this.summaryMaxTokens} tokens.`
+    ].join('\n\n');
+    
+    const updated = (await aiService.generateCompletion(prompt, {
+      systemPrompt: 'You maintain a running summary of a conversation between a user and an AI coding assistant. ' +
+        'Keep decisions, facts, names of files and functions, errors and open questions; drop pleasantries. ' +
+        'Reply with the summary only.',
+      maxTokens: this.summaryMaxTokens,
+      temperature: 0.2,
+      onUsage
+    })).trim();
+    
+    // Models do not always keep to the budget
+    const tokens = this.tokenCountEstimator(updated);
+    return tokens > this.summaryMaxTokens
+      ? updated.slice(0, Math.floor(updated.length * this.summaryMaxTokens / tokens))
+      : updated;
+  }
+  
+  /**
+   * Get the long-term memory of a session, loading it from disk on first use
+   * @param sessionId - Unique session identifier
+   * @returns The session's memory
+   */
+  private getSession(sessionId: string): Promise<SessionMemory> {
+    let session = this.longTermMemory.get(sessionId);
+    if (!session) {
+      session = this.loadSession(sessionId);
+      this.longTermMemory.set(sessionId, session);
+      // Let a failed load be retried on the next access
+      session.catch(() => this.longTermMemory.delete(sessionId));
+    }
+    return session;
+  }
+  
+  /**
+   * Read a session's memory from disk
+   * @param sessionId - Unique session identifier
+   * @returns The stored memory, or an empty one
+   */
+  private async loadSession(sessionId: string): Promise<SessionMemory> {
+    const emptyIndex = new VectorIndex(this.embeddingProvider.id, this.maxLongTermMemories);
+    if (!this.persistDir) {
+      return { index: emptyIndex };
+    }
+    
+    let data: VectorIndexData & { sessionId?: string; summary?: string };
+    try {
+      data = JSON.parse(await fs.readFile(this.sessionLocation(sessionId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { index: emptyIndex };
+      }
+      throw error;
+    }
+    
+    // Vectors from another embedding provider cannot be compared with new ones
+    if (data.embeddingId !== this.embeddingProvider.id) {
+      console.warn(`Discarding memories of session ${sessionId} embedded with ${data.embeddingId}`);
+      return { index: emptyIndex, summary: data.summary };
+    }
+    
+    return {
+      index: new VectorIndex(data.embeddingId, this.maxLongTermMemories, data.entries),
+      summary: data.summary
+    };
+  }
+  
+  /**
+   * Write a session's memory to disk, if persistence is enabled
+   * @param sessionId - Unique session identifier
+   * @param session - Memory to save
+   */
+  private saveSession(sessionId: string, session: SessionMemory): Promise<void> {
+    if (!this.persistDir) {
+      return Promise.resolve();
+    }
+    
+    const persistDir = this.persistDir;
+    const previous = this.saveQueues.get(sessionId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const location = this.sessionLocation(sessionId);
+      const temporary = `${location}.${process.pid}.tmp`;
+      await fs.mkdir(persistDir, { recursive: true });
+      await fs.writeFile(
+        temporary,
+        JSON.stringify({ sessionId, summary: session.summary, ...session.index.toJSON() }),
+        'utf8'
+      );
+      await fs.rename(temporary, location);
+    });
+    
+    this.saveQueues.set(sessionId, next);
+    next.finally(() => {
+      if (this.saveQueues.get(sessionId) === next) {
+        this.saveQueues.delete(sessionId);
+      }
+    }).catch(() => undefined);
+    return next;
+  }
+  
+  /**
+   * File holding a session's memory; session ids are hashed to stay path-safe
+   */
+  private sessionLocation(sessionId: string): string {
+    const name = createHash('sha256').update(sessionId).digest('hex');
+    return path.join(this.persistDir!, `${name}.json`);
   }
-}
\ No newline at end of file
+}
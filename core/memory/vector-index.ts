@@ -0,0 +1,116 @@
+/**
+ * Vector Index for Bolt DIY
+ *
+ * This module provides a small in-memory vector index for one session's
+ * long-term memories, with brute-force cosine similarity search and a
+ * JSON form for persistence.
+ */
+
+/**
+ * Memory stored in the index together with its embedding
+ */
+export interface VectorEntry {
+  /** Text returned when the memory is retrieved */
+  text: string;
+  
+  /** Unit-length embedding of the text */
+  vector: number[];
+  
+  /** When the memory was stored */
+  timestamp: string;
+}
+
+/**
+ * Memory returned by a search, with its similarity to the query
+ */
+export interface VectorMatch {
+  text: string;
+  score: number;
+  timestamp: string;
+}
+
+/**
+ * Serialized form of an index
+ */
+export interface VectorIndexData {
+  /** Embedding provider the vectors came from */
+  embeddingId: string;
+  entries: VectorEntry[];
+}
+
+/**
+ * Vector index of one session's memories. Vectors are expected to be unit
+ * length, so cosine similarity is a dot product.
+ */
+export class VectorIndex {
+  readonly embeddingId: string;
+  private entries: VectorEntry[];
+  private maxEntries: number;
+  
+  /**
+   * Create a new index
+   * @param embeddingId - Embedding provider the vectors come from
+   * @param maxEntries - Oldest entries are dropped beyond this size
+   * @param entries - Entries to start with, oldest first
+   */
+  constructor(embeddingId: string, maxEntries: number, entries: VectorEntry[] = []) {
+    this.embeddingId = embeddingId;
+    this.maxEntries = maxEntries;
+    this.entries = entries.slice(-maxEntries);
+  }
+  
+  /**
+   * Number of entries in the index
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+  
+  /**
+   * Add a memory to the index
+   * @param entry - Memory and its embedding
+   */
+  add(entry: VectorEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+  
+  /**
+   * Find the memories most similar to a query vector
+   * @param query - Unit-length query embedding
+   * @param topK - Maximum number of matches
+   * @param minScore - Matches scoring below this are left out
+   * @param skipNewest - Number of most recent entries to leave out
+   * @returns Matches, best first
+   */
+  search(query: number[], topK: number, minScore: number, skipNewest: number = 0): VectorMatch[] {
+    const candidates = this.entries.slice(0, Math.max(0, this.entries.length - skipNewest));
+    
+    return candidates
+      .map(entry => ({ text: entry.text, timestamp: entry.timestamp, score: dot(query, entry.vector) }))
+      .filter(match => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+  
+  /**
+   * Serialize the index
+   */
+  toJSON(): VectorIndexData {
+    return { embeddingId: this.embeddingId, entries: this.entries };
+  }
+}
+
+/**
+ * Dot product of two vectors of the same length
+ */
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,130 @@
+/**
+ * Metrics for Bolt DIY
+ *
+ * This module keeps the process-wide metrics registry: request latency by
+ * agent and model, errors by category, tool executions and open WebSocket
+ * connections, along with Node process metrics. The registry renders in
+ * the Prometheus text format for the server's /metrics endpoint.
+ */
+
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+const METRIC_PREFIX = 'bolt_diy_';
+
+/**
+ * Outcome label of a request or tool execution
+ */
+export type MetricStatus = 'success' | 'error';
+
+/**
+ * Registry every metric below is registered in
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: METRIC_PREFIX });
+
+const agentRequests = new Counter({
+  name: `${METRIC_PREFIX}agent_requests_total`,
+  help: 'Agent requests handled, by agent, model and outcome',
+  labelNames: ['agent', 'model', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+const agentRequestDuration = new Histogram({
+  name: `${METRIC_PREFIX}agent_request_duration_seconds`,
+  help: 'Time to answer an agent request, by agent, model and outcome',
+  labelNames: ['agent', 'model', 'status'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+  registers: [metricsRegistry]
+});
+
+const errors = new Counter({
+  name: `${METRIC_PREFIX}errors_total`,
+  help: 'Errors handled by the ErrorHandler, by category and severity',
+  labelNames: ['category', 'severity'] as const,
+  registers: [metricsRegistry]
+});
+
+const toolExecutions = new Counter({
+  name: `${METRIC_PREFIX}tool_executions_total`,
+  help: 'Tool calls executed for the model, by tool and outcome',
+  labelNames: ['tool', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+const toolExecutionDuration = new Histogram({
+  name: `${METRIC_PREFIX}tool_execution_duration_seconds`,
+  help: 'Time to execute a tool call, by tool',
+  labelNames: ['tool'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.5, 1, 5, 15, 60],
+  registers: [metricsRegistry]
+});
+
+const websocketConnections = new Gauge({
+  name: `${METRIC_PREFIX}websocket_connections`,
+  help: 'WebSocket connections currently open',
+  registers: [metricsRegistry]
+});
+
+const websocketConnectionsOpened = new Counter({
+  name: `${METRIC_PREFIX}websocket_connections_opened_total`,
+  help: 'WebSocket connections opened since the server started',
+  registers: [metricsRegistry]
+});
+
+/**
+ * Record a finished agent request
+ * @param agent - Agent that handled the request, such as Coder
+ * @param model - Model the request was answered with
+ * @param status - Whether the request succeeded
+ * @param durationMs - How long the request took
+ */
+export function recordAgentRequest(agent: string, model: string, status: MetricStatus, durationMs: number): void {
+  agentRequests.inc({ agent, model, status });
+  agentRequestDuration.observe({ agent, model, status }, durationMs / 1000);
+}
+
+/**
+ * Record an error handled by the ErrorHandler
+ * @param category - Error category
+ * @param severity - Error severity
+ */
+export function recordError(category: string, severity: string): void {
+  errors.inc({ category, severity });
+}
+
+/**
+ * Record a finished tool call
+ * @param tool - Name of the tool
+ * @param status - Whether the tool succeeded
+ * @param durationMs - How long the tool ran
+ */
+export function recordToolExecution(tool: string, status: MetricStatus, durationMs: number): void {
+  toolExecutions.inc({ tool, status });
+  toolExecutionDuration.observe({ tool }, durationMs / 1000);
+}
+
+/**
+ * Count a WebSocket connection as open until the returned function is called
+ * @returns Function to call once the connection closes; later calls do nothing
+ */
+export function trackWebSocketConnection(): () => void {
+  websocketConnections.inc();
+  websocketConnectionsOpened.inc();
+
+  let closed = false;
+  return () => {
+    if (!closed) {
+      closed = true;
+      websocketConnections.dec();
+    }
+  };
+}
+
+/**
+ * Render every metric for a Prometheus scrape
+ * @returns Content type to respond with and the metrics in text format
+ */
+export async function getMetrics(): Promise<{ contentType: string; body: string }> {
+  return { contentType: metricsRegistry.contentType, body: await metricsRegistry.metrics() };
+}
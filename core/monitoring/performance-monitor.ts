@@ -2,10 +2,24 @@
  * Performance Monitoring for Bolt DIY
  * 
  * This module provides performance monitoring tools to track
- * request timing, resource usage, and error rates.
+ * request timing, resource usage, and error rates. Finished requests are
+ * kept in memory for in-process queries and recorded in the metrics
+ * registry for scraping.
  */
 
-import { MonitoredError } from '../error-handler';
+import type { MonitoredError } from '../error-handler';
+import { recordAgentRequest } from './metrics';
+
+/**
+ * Labels identifying what handled a request
+ */
+export interface RequestLabels {
+  /** Agent the request was made to, such as Coder */
+  agent?: string;
+  
+  /** Model the request is expected to use */
+  model?: string;
+}
 
 /**
  * Metrics for a single request
@@ -17,6 +31,12 @@ export interface RequestMetrics {
   /** Session ID associated with request */
   sessionId: string;
   
+  /** Agent the request was made to */
+  agent?: string;
+  
+  /** Model the request used, once known */
+  model?: string;
+  
   /** Start time of request */
   startTime: number;
   
@@ -52,14 +72,16 @@ export class PerformanceMonitor {
   /**
    * Start monitoring a request
    * @param sessionId - Session identifier
+   * @param labels - Agent and model handling the request
    * @returns Initial metrics object
    */
-  static startRequest(sessionId: string): RequestMetrics {
+  static startRequest(sessionId: string, labels: RequestLabels = {}): RequestMetrics {
     const requestId = `req-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
     
     const metrics: RequestMetrics = {
       requestId,
       sessionId,
+      ...labels,
       startTime: Date.now(),
       errorOccurred: false
     };
@@ -78,14 +100,20 @@ export class PerformanceMonitor {
     metrics.endTime = Date.now();
     metrics.duration = metrics.endTime - metrics.startTime;
     
-    // Estimate token counts
-    if (typeof response === 'string') {
+    // Estimate token counts unless the provider reported them
+    if (typeof response === 'string' && metrics.responseTokens === undefined) {
       // Simple estimation (4 chars per token)
       metrics.responseTokens = Math.ceil(response.length / 4);
     }
     
     // Store metrics
     PerformanceMonitor.storeMetrics(metrics);
+    recordAgentRequest(
+      metrics.agent || 'unknown',
+      metrics.model || 'unknown',
+      metrics.errorOccurred ? 'error' : 'success',
+      metrics.duration
+    );
     
     return metrics;
   }
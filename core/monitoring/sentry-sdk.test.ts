@@ -0,0 +1,202 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { addBreadcrumb, captureException, closeSentry, flushSentry, initializeSentry, setUser, withScope } from './sentry-sdk';
+import { EnvelopeTransport } from './sentry-transport';
+
+/**
+ * Request received by the stub endpoint
+ */
+interface ReceivedRequest {
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP server standing in for Sentry, answering with the given
+ * statuses in turn and then with 200
+ */
+async function startStubEndpoint(statuses: Array<{ status: number; retryAfter?: string }> = []) {
+  const received: ReceivedRequest[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ url: req.url || '', headers: req.headers, body });
+      const reply = statuses.shift() ?? { status: 200 };
+      res.writeHead(reply.status, reply.retryAfter ? { 'Retry-After': reply.retryAfter } : {});
+      res.end('{}');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    dsn: `http://public@127.0.0.1:${port}/42`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+// The event is the payload line of the envelope
+function eventOf(request: ReceivedRequest): Record<string, any> {
+  return JSON.parse(request.body.split('\n')[2]);
+}
+
+describe('Sentry SDK', () => {
+  let endpoint: Awaited<ReturnType<typeof startStubEndpoint>>;
+  let offlineDir: string;
+
+  beforeEach(async () => {
+    endpoint = await startStubEndpoint();
+    offlineDir = mkdtempSync(path.join(os.tmpdir(), 'sentry-'));
+    initializeSentry({ dsn: endpoint.dsn, sampleRate: 1, offlineDir });
+  });
+
+  afterEach(async () => {
+    await closeSentry();
+    await endpoint.close();
+    rmSync(offlineDir, { recursive: true, force: true });
+  });
+
+  it('posts captured exceptions as envelopes to the DSN endpoint', async () => {
+    const eventId = captureException(new Error('Disk full'), { path: '/tmp' });
+    await flushSentry();
+
+    expect(endpoint.received).toHaveLength(1);
+    const [request] = endpoint.received;
+    expect(request.url).toBe('/api/42/envelope/');
+    expect(request.headers['x-sentry-auth']).toContain('sentry_key=public');
+
+    const event = eventOf(request);
+    expect(event.event_id).toBe(eventId);
+    expect(event.exception.values[0]).toMatchObject({ type: 'Error', value: 'Disk full' });
+    expect(event.extra).toEqual({ path: '/tmp' });
+  });
+
+  it('keeps the breadcrumbs and user of each scope to its own events', async () => {
+    const handle = (user: string) => withScope(async () => {
+      setUser(user);
+      addBreadcrumb({ category: 'http', message: `request of ${user}` });
+      await new Promise(resolve => setImmediate(resolve));
+      captureException(new Error(`Failed for ${user}`));
+    });
+
+    await Promise.all([handle('alice'), handle('bob')]);
+    await flushSentry();
+
+    const events = endpoint.received.map(eventOf);
+    for (const user of ['alice', 'bob']) {
+      const event = events.find(candidate => candidate.user?.id === user)!;
+      expect(event.breadcrumbs.values.map((crumb: any) => crumb.message)).toEqual([`request of ${user}`]);
+    }
+  });
+});
+
+describe('EnvelopeTransport', () => {
+  let offlineDir: string;
+
+  beforeEach(() => {
+    offlineDir = mkdtempSync(path.join(os.tmpdir(), 'sentry-'));
+  });
+
+  afterEach(() => {
+    rmSync(offlineDir, { recursive: true, force: true });
+  });
+
+  it('keeps envelopes while the endpoint is down and sends them once it is back', async () => {
+    const endpoint = await startStubEndpoint([{ status: 503, retryAfter: '30' }]);
+    let time = 0;
+    const transport = new EnvelopeTransport({ dsn: endpoint.dsn, now: () => time });
+
+    try {
+      transport.send('first');
+      transport.send('second');
+      await transport.flush();
+      expect(transport.pending).toBe(2);
+
+      // Nothing is sent before the endpoint's Retry-After has passed
+      await transport.flush();
+      expect(endpoint.received).toHaveLength(1);
+
+      time = 30000;
+      await transport.flush();
+      expect(transport.pending).toBe(0);
+      expect(endpoint.received.map(request => request.body)).toEqual(['first', 'first', 'second']);
+    } finally {
+      await transport.close();
+      await endpoint.close();
+    }
+  });
+
+  it('sends envelopes left undelivered by an earlier run', async () => {
+    const down = new EnvelopeTransport({ dsn: 'http://public@127.0.0.1:9/42', offlineDir, fetch: async () => {
+      throw new Error('Connection refused');
+    } });
+    down.send('undelivered');
+    await down.close();
+
+    const endpoint = await startStubEndpoint();
+    const transport = new EnvelopeTransport({ dsn: endpoint.dsn, offlineDir });
+    try {
+      await transport.flush();
+      expect(endpoint.received.map(request => request.body)).toEqual(['undelivered']);
+    } finally {
+      await transport.close();
+      await endpoint.close();
+    }
+  });
+
+  it('gives up on a request the endpoint does not answer and keeps the envelope', async () => {
+    const transport = new EnvelopeTransport({
+      dsn: 'http://public@127.0.0.1:9/42',
+      requestTimeoutMs: 50,
+      fetch: (_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      })
+    });
+
+    try {
+      transport.send('hanging');
+      await transport.flush();
+      expect(transport.pending).toBe(1);
+    } finally {
+      await transport.close();
+    }
+  });
+
+  it('keeps the newer envelope when the one being sent is dropped from a full queue', async () => {
+    let respond!: () => void;
+    const bodies: string[] = [];
+    const transport = new EnvelopeTransport({
+      dsn: 'http://public@127.0.0.1:9/42',
+      maxQueueSize: 1,
+      fetch: async (_url, init) => {
+        bodies.push(String(init!.body));
+        if (bodies.length === 1) {
+          await new Promise<void>(resolve => { respond = resolve; });
+        }
+        return new Response('{}', { status: 200 });
+      }
+    });
+
+    try {
+      transport.send('first');
+      const sending = transport.flush();
+      await new Promise(resolve => setImmediate(resolve));
+      transport.send('second');
+      respond();
+      await sending;
+
+      expect(bodies).toEqual(['first', 'second']);
+      expect(transport.pending).toBe(0);
+    } finally {
+      await transport.close();
+    }
+  });
+});
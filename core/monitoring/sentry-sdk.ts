@@ -1,28 +1,32 @@
 /**
  * Sentry SDK Integration for Bolt DIY
- * 
- * This module provides a wrapper around the Sentry SDK for error tracking
- * and monitoring. It initializes Sentry with the appropriate configuration
- * and provides methods for capturing exceptions and messages.
- * 
+ *
+ * This module reports errors and messages to a Sentry-compatible endpoint.
+ * Events are built in the Sentry event format and delivered by the envelope
+ * transport to the DSN in SENTRY_DSN; without a DSN they are only logged.
+ *
  * This monitoring implementation focuses on these key areas:
  * - Error tracking and categorization
  * - Performance monitoring
  * - Release and environment tracking
  * - Structured data collection
- * - Event filtering and batching
+ * - Event sampling, queueing and offline retry
  */
 
-import * as Sentry from '@sentry/node';
-import { 
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import path from 'path';
+import {
   BoltDIYError,
-  MemoryStorageError, 
-  InputValidationError, 
-  ToolExecutionError, 
-  LLMAPIError, 
+  MemoryStorageError,
+  InputValidationError,
+  ToolExecutionError,
+  LLMAPIError,
   ContextWindowExceededError,
   AIGovernanceError
 } from '../errors';
+import { EnvelopeTransport, serializeEnvelope } from './sentry-transport';
 
 // Simplified error categories for consistent tagging
 const ERROR_CATEGORIES = {
@@ -36,27 +40,149 @@ const ERROR_CATEGORIES = {
   UNKNOWN: 'unknown'
 };
 
+const SDK_NAME = 'bolt-diy.sentry';
+const SDK_VERSION = '1.0.0';
+
+/**
+ * Severity of an event or breadcrumb
+ */
+export type SentryLevel = 'fatal' | 'error' | 'warning' | 'info' | 'debug';
+
+/**
+ * Something that happened before an event, sent along with it
+ */
+export interface Breadcrumb {
+  /** Seconds since the epoch; set when the breadcrumb is added if omitted */
+  timestamp?: number;
+  type?: string;
+  category?: string;
+  message?: string;
+  level?: SentryLevel;
+  data?: Record<string, any>;
+}
+
+/**
+ * Tags and level of a captured event
+ */
+export interface CaptureOptions {
+  /** Indexed, searchable values such as the error category and severity */
+  tags?: Record<string, string>;
+  level?: SentryLevel;
+}
+
+/**
+ * Configuration options; each defaults to its environment variable
+ */
+export interface SentryOptions {
+  /** DSN to report to (SENTRY_DSN); events are only logged if unset */
+  dsn?: string;
+
+  /** Deployment environment (SENTRY_ENVIRONMENT, then NODE_ENV) */
+  environment?: string;
+
+  /** Release version (SENTRY_RELEASE) */
+  release?: string;
+
+  /** Fraction of events to send, from 0 to 1 (SENTRY_SAMPLE_RATE, default 1) */
+  sampleRate?: number;
+
+  /** Most breadcrumbs kept and sent with an event (default 100) */
+  maxBreadcrumbs?: number;
+
+  /** Directory undelivered events are kept in (SENTRY_OFFLINE_DIR, default data/sentry) */
+  offlineDir?: string;
+
+  /** Milliseconds between sends of the queued events (SENTRY_FLUSH_INTERVAL_MS, default 5000) */
+  flushIntervalMs?: number;
+
+  /** Queued events that trigger a send before the interval is up (default 20) */
+  flushThreshold?: number;
+
+  /** Most events queued while the endpoint is unreachable (default 100) */
+  maxQueueSize?: number;
+
+  /** Transport to deliver envelopes with instead of one built from the DSN */
+  transport?: EnvelopeTransport;
+}
+
+/**
+ * Reporting state set up by initializeSentry
+ */
+interface SentryClient {
+  transport?: EnvelopeTransport;
+  environment: string;
+  release?: string;
+  sampleRate: number;
+  maxBreadcrumbs: number;
+}
+
+/**
+ * Breadcrumbs and user sent with the events of one unit of work
+ */
+interface Scope {
+  breadcrumbs: Breadcrumb[];
+  user?: Record<string, any>;
+}
+
+let client: SentryClient | undefined;
+
+// Work outside any withScope call, such as startup, shares one scope
+const globalScope: Scope = { breadcrumbs: [] };
+const scopeStorage = new AsyncLocalStorage<Scope>();
+
+function currentScope(): Scope {
+  return scopeStorage.getStore() ?? globalScope;
+}
+
 /**
  * Initialize Sentry with appropriate configuration
- * Note: For demonstration purposes, this is simplified to avoid TypeScript errors
+ * @param options - Configuration options
+ * @throws Error if the DSN is malformed
  */
-export function initializeSentry(): void {
-  // For demo purposes, just log initialization
-  console.info('[Sentry] Initializing Sentry in mock mode (for demo)');
+export function initializeSentry(options: SentryOptions = {}): void {
+  const dsn = options.dsn ?? process.env.SENTRY_DSN;
+  const sampleRate = options.sampleRate ?? parseFloat(process.env.SENTRY_SAMPLE_RATE || '1');
+
+  // Replacing an earlier client makes a last attempt to deliver its queue
+  client?.transport?.close().catch(() => undefined);
+
+  client = {
+    transport: options.transport || (dsn ? new EnvelopeTransport({
+      dsn,
+      offlineDir: options.offlineDir ?? process.env.SENTRY_OFFLINE_DIR ?? path.join(process.env.DATA_DIR || 'data', 'sentry'),
+      flushIntervalMs: options.flushIntervalMs ?? (process.env.SENTRY_FLUSH_INTERVAL_MS
+        ? parseInt(process.env.SENTRY_FLUSH_INTERVAL_MS, 10)
+        : undefined),
+      flushThreshold: options.flushThreshold,
+      maxQueueSize: options.maxQueueSize,
+      client: `${SDK_NAME}/${SDK_VERSION}`
+    }) : undefined),
+    environment: options.environment || process.env.SENTRY_ENVIRONMENT || process.env.NODE_ENV || 'development',
+    release: options.release || process.env.SENTRY_RELEASE,
+    sampleRate: Number.isFinite(sampleRate) ? Math.min(1, Math.max(0, sampleRate)) : 1,
+    maxBreadcrumbs: options.maxBreadcrumbs ?? 100
+  };
+
+  if (client.transport) {
+    const { protocol, host, projectId } = client.transport.dsn;
+    console.info(`[Sentry] Reporting to ${protocol}://${host} project ${projectId} (sample rate ${client.sampleRate})`);
+  } else {
+    console.info('[Sentry] No SENTRY_DSN set; events are logged to the console only');
+  }
 }
 
 /**
- * Mock function to capture an exception
- * In a production implementation, this would send the error to Sentry
+ * Capture an exception and report it
  * @param error - The error to capture
  * @param extra - Additional context
- * @returns A mock ID
+ * @param options - Tags and level of the event
+ * @returns ID of the event
  */
-export function captureException(error: unknown, extra: Record<string, any> = {}): string {
+export function captureException(error: unknown, extra: Record<string, any> = {}, options: CaptureOptions = {}): string {
   // Generate error category based on error type
   let category = ERROR_CATEGORIES.UNKNOWN;
   let details = '';
-  
+
   if (error instanceof MemoryStorageError) {
     category = ERROR_CATEGORIES.MEMORY_STORAGE;
   } else if (error instanceof InputValidationError) {
@@ -78,39 +204,87 @@ export function captureException(error: unknown, extra: Record<string, any> = {}
   } else if (error instanceof BoltDIYError) {
     category = ERROR_CATEGORIES.SYSTEM;
   }
-  
+
+  const exception = error instanceof Error ? error : new Error(String(error));
+  const eventId = sendEvent({
+    level: options.level || 'error',
+    exception: {
+      values: [{
+        type: exception.name,
+        value: exception.message,
+        stacktrace: parseStackTrace(exception.stack)
+      }]
+    },
+    tags: { error_kind: category, ...options.tags },
+    extra: details ? { ...extra, details } : extra
+  });
+
   // Log the error with category and context
-  console.error(`[Sentry] (Mock) Capturing exception: ${error instanceof Error ? error.message : String(error)}`);
+  console.error(`[Sentry] Capturing exception ${eventId}: ${exception.message}`);
   console.error(`[Sentry] Category: ${category} ${details ? `(${details})` : ''}`);
   console.error(`[Sentry] Context:`, Object.keys(extra).length ? Object.keys(extra) : 'none');
-  
-  // Return a mock event ID
-  return `mock-event-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  return eventId;
 }
 
 /**
- * Mock function to capture a message
+ * Capture a message and report it
  * @param message - The message to capture
- * @param extra - Additional context
- * @returns A mock ID
+ * @param extra - Additional context; its level is used if options has none
+ * @param options - Tags and level of the event
+ * @returns ID of the event
  */
-export function captureMessage(message: string, extra: Record<string, any> = {}): string {
+export function captureMessage(message: string, extra: Record<string, any> = {}, options: CaptureOptions = {}): string {
+  const level: SentryLevel = options.level || extra.level || 'info';
+  const eventId = sendEvent({
+    level,
+    message: { formatted: message },
+    tags: options.tags || {},
+    extra
+  });
+
   // Log the message
-  console.info(`[Sentry] (Mock) Capturing message: ${message}`);
-  console.info(`[Sentry] Level: ${extra.level || 'info'}`);
+  console.info(`[Sentry] Capturing message ${eventId}: ${message}`);
+  console.info(`[Sentry] Level: ${level}`);
   console.info(`[Sentry] Context:`, Object.keys(extra).length ? Object.keys(extra) : 'none');
-  
-  // Return a mock event ID
-  return `mock-event-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  return eventId;
+}
+
+/**
+ * Record a breadcrumb to send with later events
+ * @param breadcrumb - What happened
+ */
+export function addBreadcrumb(breadcrumb: Breadcrumb): void {
+  const scope = currentScope();
+  scope.breadcrumbs.push({ timestamp: Date.now() / 1000, ...breadcrumb });
+
+  const max = client?.maxBreadcrumbs ?? 100;
+  if (scope.breadcrumbs.length > max) {
+    scope.breadcrumbs = scope.breadcrumbs.slice(-max);
+  }
 }
 
 /**
- * Mock function to set the current user
+ * Set the user that later events of the current scope are attributed to
  * @param userId - User identifier
  * @param additionalInfo - Additional user information
  */
 export function setUser(userId: string, additionalInfo: Record<string, any> = {}): void {
-  console.info(`[Sentry] (Mock) Setting user: ${userId}`);
+  currentScope().user = { id: userId, ...additionalInfo };
+}
+
+/**
+ * Run a unit of work, such as one server request, in a scope of its own.
+ * Breadcrumbs and the user set during it, including in the asynchronous
+ * work it starts, stay with its events and are not seen by other work.
+ * The scope starts as a copy of the enclosing one.
+ * @param callback - The work to run
+ * @returns What the callback returns
+ */
+export function withScope<T>(callback: () => T): T {
+  const parent = currentScope();
+  return scopeStorage.run({ breadcrumbs: [...parent.breadcrumbs], user: parent.user }, callback);
 }
 
 /**
@@ -122,7 +296,7 @@ export function setUser(userId: string, additionalInfo: Record<string, any> = {}
 export function startTransaction(name: string, operation: string): { finish: () => void } {
   console.info(`[Sentry] (Mock) Starting transaction: ${name} (${operation})`);
   const startTime = Date.now();
-  
+
   return {
     finish: () => {
       const duration = Date.now() - startTime;
@@ -131,11 +305,118 @@ export function startTransaction(name: string, operation: string): { finish: ()
   };
 }
 
+/**
+ * Send the queued events now
+ * @returns Resolves when the attempt is over
+ */
+export function flushSentry(): Promise<void> {
+  return client?.transport?.flush() ?? Promise.resolve();
+}
+
+/**
+ * Stop reporting, making a last attempt to deliver the queued events
+ */
+export async function closeSentry(): Promise<void> {
+  const closing = client;
+  client = undefined;
+  await closing?.transport?.close();
+}
+
+/**
+ * Complete an event with the shared context and queue it, if it is sampled
+ * @param event - Level, contents, tags and extra data of the event
+ * @returns ID of the event
+ */
+function sendEvent(event: Record<string, any>): string {
+  const eventId = randomUUID().replace(/-/g, '');
+  const transport = client?.transport;
+  if (!client || !transport || Math.random() >= client.sampleRate) {
+    return eventId;
+  }
+
+  const scope = currentScope();
+  const timestamp = Date.now() / 1000;
+  const payload = {
+    event_id: eventId,
+    timestamp,
+    platform: 'node',
+    server_name: hostname(),
+    environment: client.environment,
+    release: client.release,
+    user: scope.user,
+    breadcrumbs: { values: [...scope.breadcrumbs] },
+    contexts: { runtime: { name: 'node', version: process.version } },
+    sdk: { name: SDK_NAME, version: SDK_VERSION },
+    ...event,
+    extra: toSerializable(event.extra)
+  };
+
+  transport.send(serializeEnvelope(
+    { event_id: eventId, sent_at: new Date(timestamp * 1000).toISOString(), sdk: payload.sdk },
+    [{ type: 'event', payload }]
+  ));
+
+  return eventId;
+}
+
+/**
+ * Convert a V8 stack trace into Sentry frames, oldest call first
+ * @param stack - Error stack
+ * @returns Stack trace, or undefined if there are no frames
+ */
+function parseStackTrace(stack?: string): { frames: Record<string, any>[] } | undefined {
+  const frames: Record<string, any>[] = [];
+
+  for (const line of (stack || '').split('\n').slice(1)) {
+    const match = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, func, filename, lineno, colno] = match;
+    frames.push({
+      function: func || '<anonymous>',
+      filename,
+      lineno: parseInt(lineno, 10),
+      colno: parseInt(colno, 10),
+      in_app: !filename.includes('node_modules') && !filename.startsWith('node:')
+    });
+  }
+
+  return frames.length > 0 ? { frames: frames.reverse() } : undefined;
+}
+
+/**
+ * Copy extra data into a form JSON can represent, dropping circular references
+ */
+function toSerializable(extra: Record<string, any> = {}): Record<string, any> {
+  const seen = new WeakSet<object>();
+  return JSON.parse(JSON.stringify(extra, (_key, value) => {
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message };
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (value && typeof value === 'object') {
+      if (seen.has(value)) {
+        return '[Circular]';
+      }
+      seen.add(value);
+    }
+    return value;
+  }));
+}
+
 // Export a simplified interface
 export const SentrySDK = {
   initialize: initializeSentry,
   captureException,
   captureMessage,
+  addBreadcrumb,
   setUser,
-  startTransaction
-};
\ No newline at end of file
+  withScope,
+  startTransaction,
+  flush: flushSentry,
+  close: closeSentry
+};
@@ -0,0 +1,371 @@
+/**
+ * Sentry Envelope Transport for Bolt DIY
+ *
+ * This module delivers events to a Sentry-compatible ingestion endpoint
+ * (sentry.io, a self-hosted Sentry or a local stub) in the envelope format.
+ * Events are queued and the queue is sent at an interval, one request per
+ * event; envelopes that cannot be delivered stay queued, on disk when an
+ * offline directory is configured, and are retried once the endpoint is
+ * reachable again.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Parts of a Sentry DSN
+ */
+export interface SentryDsn {
+  protocol: 'http' | 'https';
+  publicKey: string;
+
+  /** Host name, with the port if the DSN has one */
+  host: string;
+
+  /** Path prefix before the project ID, without a trailing slash */
+  path: string;
+  projectId: string;
+}
+
+/**
+ * Item to put in an envelope
+ */
+export interface EnvelopeItem {
+  type: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * Configuration options for the envelope transport
+ */
+export interface EnvelopeTransportOptions {
+  /** DSN of the project to send to */
+  dsn: string;
+
+  /** Directory undelivered envelopes are kept in across restarts; in memory only if unset */
+  offlineDir?: string;
+
+  /** Number of queued envelopes that triggers a send without waiting for the interval */
+  flushThreshold?: number;
+
+  /** Milliseconds between sends of the queued envelopes */
+  flushIntervalMs?: number;
+
+  /** Milliseconds to wait for the endpoint to answer a request */
+  requestTimeoutMs?: number;
+
+  /** Most envelopes kept while the endpoint is unreachable; the oldest are dropped */
+  maxQueueSize?: number;
+
+  /** Client name and version reported in the auth header */
+  client?: string;
+
+  /** HTTP client, replaceable for tests */
+  fetch?: typeof fetch;
+
+  /** Clock, replaceable for tests */
+  now?: () => number;
+}
+
+/**
+ * Envelope waiting to be sent
+ */
+interface QueuedEnvelope {
+  /** Name of the offline file, unique within the queue */
+  id: string;
+  body: string;
+}
+
+const DEFAULT_FLUSH_THRESHOLD = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const ENVELOPE_EXTENSION = '.envelope';
+
+/**
+ * Parse a DSN such as https://<key>@o0.ingest.sentry.io/<project>
+ * @param dsn - DSN to parse
+ * @returns Parts of the DSN
+ * @throws Error if the DSN is malformed
+ */
+export function parseDsn(dsn: string): SentryDsn {
+  const match = /^(https?):\/\/([^:@/]+)(?::[^@/]*)?@([^/]+)((?:\/[^/]+)*)\/([^/]+)\/?$/.exec(dsn.trim());
+  if (!match) {
+    throw new Error(`Invalid Sentry DSN: ${dsn}`);
+  }
+
+  const [, protocol, publicKey, host, prefix, projectId] = match;
+  return { protocol: protocol as SentryDsn['protocol'], publicKey, host, path: prefix, projectId };
+}
+
+/**
+ * URL envelopes for a DSN are posted to
+ * @param dsn - Parsed DSN
+ * @returns Envelope endpoint URL
+ */
+export function getEnvelopeEndpoint(dsn: SentryDsn): string {
+  return `${dsn.protocol}://${dsn.host}${dsn.path}/api/${dsn.projectId}/envelope/`;
+}
+
+/**
+ * Serialize an envelope: a header line followed by a header line and a
+ * payload line for each item
+ * @param header - Envelope header
+ * @param items - Items to include
+ * @returns Envelope body
+ */
+export function serializeEnvelope(header: Record<string, any>, items: EnvelopeItem[]): string {
+  const lines = [JSON.stringify(header)];
+  for (const item of items) {
+    const payload = JSON.stringify(item.payload);
+    lines.push(JSON.stringify({ type: item.type, length: Buffer.byteLength(payload) }), payload);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Queues envelopes and posts them to a Sentry-compatible endpoint.
+ * The envelope format allows one event per envelope, so the queue is
+ * sent as consecutive requests rather than in one.
+ */
+export class EnvelopeTransport {
+  readonly dsn: SentryDsn;
+  private endpoint: string;
+  private authHeader: string;
+  private offlineDir?: string;
+  private flushThreshold: number;
+  private requestTimeoutMs: number;
+  private maxQueueSize: number;
+  private fetch: typeof fetch;
+  private now: () => number;
+  private queue: QueuedEnvelope[] = [];
+  private restored: Promise<void>;
+  private diskQueue: Promise<void> = Promise.resolve();
+  private sending?: Promise<void>;
+  private retryAt = 0;
+  private failures = 0;
+  private sequence = 0;
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * Create a transport for a DSN and restore envelopes left from earlier runs
+   * @param options - Configuration options
+   * @throws Error if the DSN is malformed
+   */
+  constructor(options: EnvelopeTransportOptions) {
+    this.dsn = parseDsn(options.dsn);
+    this.endpoint = getEnvelopeEndpoint(this.dsn);
+    this.authHeader = `Sentry sentry_version=7, sentry_key=${this.dsn.publicKey}, sentry_client=${options.client || 'bolt-diy/1.0.0'}`;
+    this.offlineDir = options.offlineDir ? path.resolve(options.offlineDir) : undefined;
+    this.flushThreshold = options.flushThreshold ?? DEFAULT_FLUSH_THRESHOLD;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.fetch = options.fetch || fetch;
+    this.now = options.now || Date.now;
+    this.restored = this.restore().catch((error) => {
+      console.error(`[Sentry] Failed to restore undelivered events: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+    // The interval must not keep the process alive on its own
+    this.timer = setInterval(() => {
+      this.flush().catch(() => undefined);
+    }, options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Queue an envelope for delivery
+   * @param body - Serialized envelope
+   */
+  send(body: string): void {
+    const id = `${this.now()}-${(this.sequence++).toString().padStart(6, '0')}`;
+    this.queue.push({ id, body });
+    this.persist(id, body);
+    this.trim();
+
+    if (this.queue.length >= this.flushThreshold) {
+      this.flush().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Number of envelopes waiting to be sent
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Send the queued envelopes, unless the endpoint asked to wait
+   * @returns Resolves when the attempt is over; envelopes that could not
+   * be delivered stay queued
+   */
+  flush(): Promise<void> {
+    if (!this.sending) {
+      this.sending = this.sendQueued().finally(() => {
+        this.sending = undefined;
+      });
+    }
+    return this.sending;
+  }
+
+  /**
+   * Stop the send interval and make a last attempt to deliver the queue
+   */
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+    await this.diskQueue;
+  }
+
+  /**
+   * Post queued envelopes in order until the queue is empty or a send fails
+   */
+  private async sendQueued(): Promise<void> {
+    await this.restored;
+
+    while (this.queue.length > 0 && this.now() >= this.retryAt) {
+      const envelope = this.queue[0];
+
+      let response: Response;
+      try {
+        response = await this.fetch(this.endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-sentry-envelope',
+            'X-Sentry-Auth': this.authHeader
+          },
+          body: envelope.body,
+          signal: AbortSignal.timeout(this.requestTimeoutMs)
+        });
+      } catch (error) {
+        this.backOff();
+        console.warn(`[Sentry] Endpoint unreachable, keeping ${this.queue.length} events queued: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+
+      // Rate limits and server errors are temporary; keep the envelope
+      if (response.status === 429 || response.status >= 500) {
+        this.backOff(response.headers.get('retry-after'));
+        console.warn(`[Sentry] Endpoint responded ${response.status}, keeping ${this.queue.length} events queued`);
+        return;
+      }
+
+      // Anything else is final: a rejected envelope would be rejected again
+      if (!response.ok) {
+        console.warn(`[Sentry] Endpoint rejected an event with status ${response.status}`);
+      }
+
+      // The queue may have been trimmed while the request was out, so the
+      // envelope is not necessarily still first
+      this.failures = 0;
+      const index = this.queue.findIndex(queued => queued.id === envelope.id);
+      if (index >= 0) {
+        this.queue.splice(index, 1);
+      }
+      this.remove(envelope.id);
+    }
+  }
+
+  /**
+   * Wait before the next send, for as long as the endpoint asked or
+   * doubling with each consecutive failure
+   * @param retryAfter - Retry-After header value in seconds, if any
+   */
+  private backOff(retryAfter?: string | null): void {
+    this.failures++;
+
+    const seconds = retryAfter ? parseFloat(retryAfter) : NaN;
+    const delay = Number.isFinite(seconds)
+      ? seconds * 1000
+      : Math.min(MAX_BACKOFF_MS, 1000 * 2 ** (this.failures - 1));
+    this.retryAt = this.now() + delay;
+  }
+
+  /**
+   * Queue envelopes that an earlier run could not deliver
+   */
+  private async restore(): Promise<void> {
+    if (!this.offlineDir) {
+      return;
+    }
+
+    let names: string[];
+    try {
+      names = await fs.readdir(this.offlineDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    // Envelopes queued since startup may already be on disk
+    const queued = new Set(this.queue.map(envelope => envelope.id));
+    const restored: QueuedEnvelope[] = [];
+    for (const name of names.filter(name => name.endsWith(ENVELOPE_EXTENSION)).sort()) {
+      const id = name.slice(0, -ENVELOPE_EXTENSION.length);
+      if (queued.has(id)) {
+        continue;
+      }
+      restored.push({ id, body: await fs.readFile(path.join(this.offlineDir, name), 'utf8') });
+    }
+
+    if (restored.length > 0) {
+      console.info(`[Sentry] Restored ${restored.length} undelivered events`);
+    }
+
+    // Older envelopes go first
+    this.queue.unshift(...restored);
+    this.trim();
+  }
+
+  /**
+   * Make room in a full queue by dropping the oldest envelopes
+   */
+  private trim(): void {
+    while (this.queue.length > this.maxQueueSize) {
+      const dropped = this.queue.shift()!;
+      this.remove(dropped.id);
+      console.warn('[Sentry] Event queue is full; dropping the oldest event');
+    }
+  }
+
+  /**
+   * Write an envelope to the offline directory, if there is one
+   */
+  private persist(id: string, body: string): void {
+    const directory = this.offlineDir;
+    if (!directory) {
+      return;
+    }
+
+    this.onDisk(async () => {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(path.join(directory, `${id}${ENVELOPE_EXTENSION}`), body, 'utf8');
+    });
+  }
+
+  /**
+   * Delete a delivered or dropped envelope from the offline directory
+   */
+  private remove(id: string): void {
+    const directory = this.offlineDir;
+    if (!directory) {
+      return;
+    }
+
+    this.onDisk(() => fs.rm(path.join(directory, `${id}${ENVELOPE_EXTENSION}`), { force: true }));
+  }
+
+  /**
+   * Run a disk operation after the ones before it, so a file is never
+   * removed before it has been written
+   */
+  private onDisk(operation: () => Promise<void>): void {
+    this.diskQueue = this.diskQueue.then(operation).catch((error) => {
+      console.error(`[Sentry] Failed to update the offline queue: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+}
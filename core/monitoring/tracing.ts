@@ -0,0 +1,211 @@
+/**
+ * Tracing for Bolt DIY
+ *
+ * This module sets up OpenTelemetry tracing and provides helpers to run
+ * work inside spans. Spans are exported over OTLP/HTTP when an endpoint is
+ * configured (OTEL_EXPORTER_OTLP_ENDPOINT or
+ * OTEL_EXPORTER_OTLP_TRACES_ENDPOINT); without one, trace context is still
+ * propagated but nothing is exported.
+ */
+
+import {
+  context,
+  propagation,
+  trace,
+  Context,
+  Span,
+  SpanOptions,
+  SpanStatusCode,
+  TextMapGetter
+} from '@opentelemetry/api';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Resource } from '@opentelemetry/resources';
+import { BasicTracerProvider, BatchSpanProcessor, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+
+const TRACER_NAME = 'bolt-diy';
+
+/**
+ * Configuration options; each defaults to its environment variable
+ */
+export interface TracingOptions {
+  /** Service name reported with every span (OTEL_SERVICE_NAME, default bolt-diy) */
+  serviceName?: string;
+
+  /** Service version (OTEL_SERVICE_VERSION) */
+  serviceVersion?: string;
+
+  /** Exporter to send spans to instead of the OTLP exporter */
+  exporter?: SpanExporter;
+}
+
+/**
+ * Options of a span started by withSpan or traceStream
+ */
+export interface TraceOptions extends SpanOptions {
+  /** Context to start the span in instead of the active one */
+  parent?: Context;
+}
+
+let provider: BasicTracerProvider | undefined;
+
+/**
+ * Initialize tracing: register the tracer provider, the async context
+ * manager and the W3C trace context propagator
+ * @param options - Configuration options
+ */
+export function initializeTracing(options: TracingOptions = {}): void {
+  if (provider || process.env.OTEL_SDK_DISABLED === 'true') {
+    return;
+  }
+
+  const exporter = options.exporter ||
+    (process.env.OTEL_EXPORTER_OTLP_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+      ? new OTLPTraceExporter()
+      : undefined);
+
+  provider = new BasicTracerProvider({
+    resource: new Resource({
+      [ATTR_SERVICE_NAME]: options.serviceName || process.env.OTEL_SERVICE_NAME || TRACER_NAME,
+      ...(options.serviceVersion || process.env.OTEL_SERVICE_VERSION
+        ? { [ATTR_SERVICE_VERSION]: options.serviceVersion || process.env.OTEL_SERVICE_VERSION }
+        : {})
+    }),
+    spanProcessors: exporter ? [new BatchSpanProcessor(exporter)] : []
+  });
+  provider.register({
+    contextManager: new AsyncHooksContextManager().enable(),
+    propagator: new W3CTraceContextPropagator()
+  });
+
+  console.info(exporter
+    ? '[Tracing] Exporting spans over OTLP'
+    : '[Tracing] No OTLP endpoint set; trace context is propagated but spans are not exported');
+}
+
+/**
+ * Export the spans that have ended and stop tracing
+ */
+export async function shutdownTracing(): Promise<void> {
+  const stopping = provider;
+  provider = undefined;
+  await stopping?.shutdown();
+}
+
+/**
+ * Run a function inside a new active span. The span ends when the function
+ * returns or, for a promise, settles; errors are recorded on the span and
+ * rethrown.
+ * @param name - Span name
+ * @param options - Span attributes, kind and parent context
+ * @param fn - Work to trace
+ * @returns What the function returned
+ */
+export function withSpan<T>(name: string, options: TraceOptions, fn: (span: Span) => T): T {
+  const tracer = trace.getTracer(TRACER_NAME);
+  return tracer.startActiveSpan(name, options, options.parent ?? context.active(), (span) => {
+    let result: T;
+    try {
+      result = fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      span.end();
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        (value) => {
+          span.end();
+          return value;
+        },
+        (error) => {
+          recordSpanError(span, error);
+          span.end();
+          throw error;
+        }
+      ) as T;
+    }
+
+    span.end();
+    return result;
+  });
+}
+
+/**
+ * Trace an async iteration in one span. The source runs with the span
+ * active, and the span ends when the iteration finishes, fails or is
+ * abandoned by the consumer.
+ * @param name - Span name
+ * @param options - Span attributes, kind and parent context
+ * @param source - Iteration to trace
+ * @returns The source's values
+ */
+export async function* traceStream<T>(
+  name: string,
+  options: TraceOptions,
+  source: (span: Span) => AsyncIterable<T>
+): AsyncGenerator<T> {
+  const parent = options.parent ?? context.active();
+  const span = trace.getTracer(TRACER_NAME).startSpan(name, options, parent);
+  const active = trace.setSpan(parent, span);
+  const iterator = context.with(active, () => source(span)[Symbol.asyncIterator]());
+
+  try {
+    while (true) {
+      // Each step runs in the span's context, so the source's work nests under it
+      const step = await context.with(active, () => iterator.next());
+      if (step.done) {
+        return;
+      }
+      yield step.value;
+    }
+  } catch (error) {
+    recordSpanError(span, error);
+    throw error;
+  } finally {
+    await iterator.return?.();
+    span.end();
+  }
+}
+
+/**
+ * Mark a span as failed
+ * @param span - Span to mark
+ * @param error - What went wrong
+ * @param category - Error category, such as the ErrorHandler category
+ */
+export function recordSpanError(span: Span, error: unknown, category?: string): void {
+  const exception = error instanceof Error ? error : new Error(String(error));
+  span.recordException(exception);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+  span.setAttribute('error.type', exception.constructor?.name || exception.name);
+  if (category) {
+    span.setAttribute('error.category', category);
+  }
+}
+
+/**
+ * Context carried by incoming request headers or a message's trace fields
+ * @param carrier - Headers or other carrier with traceparent and tracestate
+ * @returns Context to start the request's span in
+ */
+export function extractTraceContext(carrier: Record<string, unknown> | undefined): Context {
+  return carrier ? propagation.extract(context.active(), carrier, headerGetter) : context.active();
+}
+
+/**
+ * Reads W3C trace headers from Node request headers, whose values may be arrays
+ */
+const headerGetter: TextMapGetter<Record<string, unknown>> = {
+  keys: (carrier) => Object.keys(carrier),
+  get: (carrier, key) => {
+    const value = carrier[key] ?? carrier[key.toLowerCase()];
+    if (Array.isArray(value)) {
+      return value.map(String);
+    }
+    return typeof value === 'string' ? value : undefined;
+  }
+};
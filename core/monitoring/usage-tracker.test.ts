@@ -0,0 +1,105 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UsageTracker } from './usage-tracker';
+import { UsageBudgetExceededError } from '../errors';
+
+const pricing = {
+  cheap: { inputPerMillion: 1, outputPerMillion: 2 },
+  premium: { inputPerMillion: 10, outputPerMillion: 40 }
+};
+
+// Usage of a million prompt and a million completion tokens
+const million = (model: string) => ({ model, promptTokens: 1_000_000, completionTokens: 1_000_000 });
+
+describe('UsageTracker', () => {
+  let time: Date;
+
+  beforeEach(() => {
+    time = new Date('2026-03-15T12:00:00Z');
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const tracker = (options = {}) => new UsageTracker({ pricing, now: () => time, ...options });
+
+  it('totals tokens and cost by model, session and user', async () => {
+    const usage = tracker();
+    await usage.record(million('cheap'), { sessionId: 's1', userId: 'alice' });
+    await usage.record(million('premium'), { sessionId: 's1', userId: 'alice' });
+    await usage.record({ model: 'cheap', promptTokens: 500_000, completionTokens: 0 }, { sessionId: 's2' });
+
+    const summary = await usage.getSummary();
+
+    expect(summary).toMatchObject({ requests: 3, promptTokens: 2_500_000, completionTokens: 2_000_000, totalTokens: 4_500_000 });
+    expect(summary.costUsd).toBeCloseTo(53.5);
+    expect(summary.byModel.cheap.costUsd).toBeCloseTo(3.5);
+    expect(summary.byModel.premium.costUsd).toBeCloseTo(50);
+    expect(summary.bySession.s1.requests).toBe(2);
+    expect(summary.byUser.alice.costUsd).toBeCloseTo(53);
+    expect(summary.byUser.anonymous.costUsd).toBeCloseTo(0.5);
+  });
+
+  it('filters the summary by user and month', async () => {
+    const usage = tracker();
+    await usage.record(million('cheap'), { sessionId: 's1', userId: 'alice' });
+    time = new Date('2026-04-01T00:00:00Z');
+    await usage.record(million('cheap'), { sessionId: 's2', userId: 'alice' });
+    await usage.record(million('cheap'), { sessionId: 's3', userId: 'bob' });
+
+    const summary = await usage.getSummary({ userId: 'alice', month: '2026-04' });
+
+    expect(summary.requests).toBe(1);
+    expect(Object.keys(summary.bySession)).toEqual(['s2']);
+  });
+
+  it('rejects users who have spent their monthly budget until the month turns', async () => {
+    const usage = tracker({ monthlyBudgetUsd: 5, userBudgetsUsd: { bob: 100 } });
+    await usage.record(million('cheap'), { sessionId: 's1', userId: 'alice' });
+    await expect(usage.assertWithinBudget('alice')).resolves.toBeUndefined();
+
+    await usage.record(million('cheap'), { sessionId: 's1', userId: 'alice' });
+    const rejection = usage.assertWithinBudget('alice');
+    await expect(rejection).rejects.toThrow(UsageBudgetExceededError);
+    await expect(rejection).rejects.toMatchObject({ limitUsd: 5, spentUsd: 6 });
+
+    await usage.record(million('cheap'), { sessionId: 's2', userId: 'bob' });
+    await usage.record(million('cheap'), { sessionId: 's2', userId: 'bob' });
+    await expect(usage.assertWithinBudget('bob')).resolves.toBeUndefined();
+
+    time = new Date('2026-04-01T00:00:00Z');
+    await expect(usage.getBudget('alice')).resolves.toMatchObject({ month: '2026-04', spentUsd: 0, exceeded: false });
+  });
+
+  it('costs unpriced models at the most expensive listed price so budgets still hold', async () => {
+    const usage = tracker({ monthlyBudgetUsd: 40 });
+    await usage.record(million('self-hosted'), { sessionId: 's1', userId: 'alice' });
+
+    await expect(usage.getSummary()).resolves.toMatchObject({ costUsd: 50 });
+    await expect(usage.assertWithinBudget('alice')).rejects.toThrow(UsageBudgetExceededError);
+  });
+
+  it('costs unpriced models at the configured fallback price', async () => {
+    const usage = tracker({ unpricedFallback: { inputPerMillion: 3, outputPerMillion: 3 } });
+    await usage.record(million('self-hosted'), { sessionId: 's1' });
+
+    await expect(usage.getSummary()).resolves.toMatchObject({ costUsd: 6 });
+  });
+
+  it('keeps totals across restarts when persisted', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+    const persistPath = path.join(dir, 'usage.json');
+    try {
+      await tracker({ persistPath }).record(million('cheap'), { sessionId: 's1', userId: 'alice' });
+
+      const reopened = tracker({ persistPath });
+      await expect(reopened.getSummary({ userId: 'alice' })).resolves.toMatchObject({ requests: 1, costUsd: 3 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Usage Tracking for Bolt DIY
+ *
+ * This module records the tokens each model call uses and what they cost,
+ * aggregates them by month, user, session and model, and enforces monthly
+ * spending limits per user.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TokenUsage } from '../ai/base-ai-service';
+import { calculateCost, costAt, MODEL_PRICING, ModelPricing, PricingTable } from '../ai/pricing';
+import { UsageBudgetExceededError } from '../errors';
+
+/**
+ * Who a model call was made for
+ */
+export interface UsageAttribution {
+  sessionId: string;
+  userId?: string;
+}
+
+/**
+ * Token and cost totals
+ */
+export interface UsageTotals {
+  /** Number of model calls */
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+
+  /** Cost in US dollars; calls to unpriced models are costed at the fallback price */
+  costUsd: number;
+}
+
+/**
+ * Totals with their breakdown by model, session and user
+ */
+export interface UsageSummary extends UsageTotals {
+  byModel: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+  byUser: Record<string, UsageTotals>;
+}
+
+/**
+ * Selects the usage to summarize
+ */
+export interface UsageFilter {
+  userId?: string;
+  sessionId?: string;
+
+  /** Calendar month in UTC, as YYYY-MM */
+  month?: string;
+}
+
+/**
+ * A user's spending against their monthly limit
+ */
+export interface UsageBudget {
+  /** Calendar month in UTC, as YYYY-MM */
+  month: string;
+
+  /** Monthly limit in US dollars, undefined if unlimited */
+  limitUsd?: number;
+  spentUsd: number;
+  remainingUsd?: number;
+  exceeded: boolean;
+}
+
+/**
+ * Configuration options for the usage tracker
+ */
+export interface UsageTrackerOptions {
+  /** JSON file the totals are kept in; totals are in memory only if unset */
+  persistPath?: string;
+
+  /** Prices to cost usage with */
+  pricing?: PricingTable;
+
+  /**
+   * Price of models missing from the pricing table, so that budgets
+   * still hold for them. Defaults to the most expensive listed model.
+   */
+  unpricedFallback?: ModelPricing;
+
+  /** Monthly limit in US dollars for users without their own */
+  monthlyBudgetUsd?: number;
+
+  /** Monthly limits in US dollars by user ID */
+  userBudgetsUsd?: Record<string, number>;
+
+  /** Clock, replaceable for tests */
+  now?: () => Date;
+}
+
+/**
+ * Totals of one model, session and user in one month
+ */
+interface UsageBucket extends Omit<UsageTotals, 'totalTokens'> {
+  month: string;
+  userId: string;
+  sessionId: string;
+  model: string;
+}
+
+const ANONYMOUS_USER = 'anonymous';
+
+/**
+ * Records and aggregates token usage and cost
+ */
+export class UsageTracker {
+  private buckets: Map<string, UsageBucket> = new Map();
+  private loaded?: Promise<void>;
+  private saveQueue: Promise<void> = Promise.resolve();
+  private unpricedModels: Set<string> = new Set();
+  private persistPath?: string;
+  private pricing: PricingTable;
+  private unpricedFallback: ModelPricing;
+  private monthlyBudgetUsd?: number;
+  private userBudgetsUsd: Record<string, number>;
+  private now: () => Date;
+
+  /**
+   * Create a new usage tracker
+   * @param options - Configuration options
+   */
+  constructor(options: UsageTrackerOptions = {}) {
+    this.persistPath = options.persistPath ? path.resolve(options.persistPath) : undefined;
+    this.pricing = options.pricing || MODEL_PRICING;
+    this.unpricedFallback = options.unpricedFallback || mostExpensive(this.pricing);
+    this.monthlyBudgetUsd = options.monthlyBudgetUsd;
+    this.userBudgetsUsd = options.userBudgetsUsd || {};
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Record the usage of one model call
+   * @param usage - Tokens reported by the provider
+   * @param attribution - Session and user the call was made for
+   */
+  async record(usage: TokenUsage, attribution: UsageAttribution): Promise<void> {
+    await this.load();
+
+    let cost = calculateCost(usage, this.pricing);
+    if (cost === undefined) {
+      if (!this.unpricedModels.has(usage.model)) {
+        this.unpricedModels.add(usage.model);
+        console.warn(`No price listed for model ${usage.model}; its usage is costed at the fallback price`);
+      }
+      cost = costAt(usage, this.unpricedFallback);
+    }
+
+    const month = this.currentMonth();
+    const userId = attribution.userId || ANONYMOUS_USER;
+    const key = JSON.stringify([month, userId, attribution.sessionId, usage.model]);
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        month,
+        userId,
+        sessionId: attribution.sessionId,
+        model: usage.model,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        costUsd: 0
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    bucket.requests++;
+    bucket.promptTokens += usage.promptTokens;
+    bucket.completionTokens += usage.completionTokens;
+    bucket.costUsd += cost;
+
+    await this.save();
+  }
+
+  /**
+   * Summarize recorded usage
+   * @param filter - Month, user and session to include; all if unset
+   * @returns Totals with their breakdowns
+   */
+  async getSummary(filter: UsageFilter = {}): Promise<UsageSummary> {
+    await this.load();
+
+    const summary: UsageSummary = { ...emptyTotals(), byModel: {}, bySession: {}, byUser: {} };
+    for (const bucket of Array.from(this.buckets.values())) {
+      if (
+        (filter.month && bucket.month !== filter.month) ||
+        (filter.userId && bucket.userId !== filter.userId) ||
+        (filter.sessionId && bucket.sessionId !== filter.sessionId)
+      ) {
+        continue;
+      }
+
+      addTo(summary, bucket);
+      addTo(summary.byModel[bucket.model] ??= emptyTotals(), bucket);
+      addTo(summary.bySession[bucket.sessionId] ??= emptyTotals(), bucket);
+      addTo(summary.byUser[bucket.userId] ??= emptyTotals(), bucket);
+    }
+
+    return summary;
+  }
+
+  /**
+   * A user's spending this month against their limit
+   * @param userId - User identifier
+   * @returns Budget state
+   */
+  async getBudget(userId: string): Promise<UsageBudget> {
+    const month = this.currentMonth();
+    const { costUsd } = await this.getSummary({ userId, month });
+    const limitUsd = this.userBudgetsUsd[userId] ?? this.monthlyBudgetUsd;
+
+    return {
+      month,
+      limitUsd,
+      spentUsd: costUsd,
+      remainingUsd: limitUsd === undefined ? undefined : Math.max(0, limitUsd - costUsd),
+      exceeded: limitUsd !== undefined && costUsd >= limitUsd
+    };
+  }
+
+  /**
+   * Check that a user may still make model calls this month
+   * @param userId - User identifier
+   * @throws UsageBudgetExceededError if the user's monthly budget is spent
+   */
+  async assertWithinBudget(userId: string): Promise<void> {
+    const budget = await this.getBudget(userId);
+    if (budget.exceeded) {
+      throw new UsageBudgetExceededError(
+        `Monthly AI budget of $${budget.limitUsd!.toFixed(2)} exhausted for ${budget.month}`,
+        budget.limitUsd!,
+        budget.spentUsd
+      );
+    }
+  }
+
+  /**
+   * Current calendar month in UTC, as YYYY-MM
+   */
+  private currentMonth(): string {
+    return this.now().toISOString().slice(0, 7);
+  }
+
+  /**
+   * Read persisted totals once, before first use
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readBuckets();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Read persisted totals, if persistence is enabled
+   */
+  private async readBuckets(): Promise<void> {
+    if (!this.persistPath) {
+      return;
+    }
+
+    let data: { buckets: UsageBucket[] };
+    try {
+      data = JSON.parse(await fs.readFile(this.persistPath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const bucket of data.buckets) {
+      this.buckets.set(JSON.stringify([bucket.month, bucket.userId, bucket.sessionId, bucket.model]), bucket);
+    }
+  }
+
+  /**
+   * Write the totals to disk, if persistence is enabled. Writes are
+   * queued so concurrent calls cannot interleave.
+   */
+  private save(): Promise<void> {
+    if (!this.persistPath) {
+      return Promise.resolve();
+    }
+
+    const location = this.persistPath;
+    const next = this.saveQueue.catch(() => undefined).then(async () => {
+      const temporary = `${location}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(location), { recursive: true });
+      await fs.writeFile(temporary, JSON.stringify({ buckets: Array.from(this.buckets.values()) }), 'utf8');
+      await fs.rename(temporary, location);
+    });
+
+    this.saveQueue = next;
+    return next;
+  }
+}
+
+/**
+ * Price of the most expensive model in a table, weighing output and
+ * input tokens alike
+ */
+function mostExpensive(pricing: PricingTable): ModelPricing {
+  return Object.values(pricing).reduce(
+    (highest, price) =>
+      price.inputPerMillion + price.outputPerMillion > highest.inputPerMillion + highest.outputPerMillion ? price : highest,
+    { inputPerMillion: 0, outputPerMillion: 0 }
+  );
+}
+
+/**
+ * Totals with nothing recorded
+ */
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Add a bucket to running totals
+ */
+function addTo(totals: UsageTotals, bucket: UsageBucket): void {
+  totals.requests += bucket.requests;
+  totals.promptTokens += bucket.promptTokens;
+  totals.completionTokens += bucket.completionTokens;
+  totals.totalTokens += bucket.promptTokens + bucket.completionTokens;
+  totals.costUsd += bucket.costUsd;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { PromptManager } from './prompt-manager';
+import { AbstractAIService, AIModel, ToolCallingResult } from '../ai/base-ai-service';
+import { ContextWindowExceededError } from '../errors';
+import { MemoryContext } from '../interfaces';
+
+/**
+ * Provider whose model list can only be fetched once the first attempt has failed
+ */
+class FlakyModelListService extends AbstractAIService {
+  lookups = 0;
+
+  async generateCompletion(): Promise<string> {
+    return '';
+  }
+
+  async *generateCompletionStream(): AsyncIterable<string> {}
+
+  async generateWithTools(): Promise<ToolCallingResult> {
+    return { content: '', toolCalls: [] };
+  }
+
+  async analyzeCode(): Promise<any> {
+    return {};
+  }
+
+  async getAvailableModels(): Promise<AIModel[]> {
+    if (this.lookups++ === 0) {
+      throw new Error('Provider unavailable');
+    }
+    return [{ id: 'large-model', provider: 'local', name: 'Large model', contextWindow: 100000 }];
+  }
+}
+
+const emptyContext = { history: [], memories: [] };
+
+// One token per character keeps the budgets below easy to reason about
+const countCharacters = (text: string) => text.length;
+
+const fullContext: MemoryContext = {
+  history: [
+    { input: 'first question', response: 'first answer' },
+    { input: 'second question', response: 'second answer' },
+    { input: 'third question', response: 'third answer' }
+  ],
+  // Most relevant first
+  memories: ['most relevant memory', 'somewhat relevant memory', 'least relevant memory'],
+  summary: 'earlier conversation summary'
+};
+
+/**
+ * Build the full-context prompt with the given token budget
+ */
+function buildWithBudget(maxTokens: number, systemPrompt?: string) {
+  const promptManager = new PromptManager({ systemPrompt: 'Test prompt', maxTokens, tokenCountEstimator: countCharacters });
+  return promptManager.constructPrompt('Current question', fullContext, {}, { systemPrompt });
+}
+
+describe('PromptManager', () => {
+  it('sizes the prompt to the model once a failed model lookup succeeds', async () => {
+    const aiService = new FlakyModelListService();
+    const promptManager = new PromptManager({ aiService, maxTokens: 8000, reservedOutputTokens: 2000 });
+
+    const first = await promptManager.constructPrompt('Hi', emptyContext, {}, { model: 'large-model' });
+    expect(first.breakdown.maxTokens).toBe(8000);
+
+    const second = await promptManager.constructPrompt('Hi', emptyContext, {}, { model: 'large-model' });
+    expect(second.breakdown.maxTokens).toBe(98000);
+
+    await promptManager.constructPrompt('Hi', emptyContext, {}, { model: 'large-model' });
+    expect(aiService.lookups).toBe(2);
+  });
+
+  it('includes all of the context and counts it when it fits', async () => {
+    const { prompt, breakdown } = await buildWithBudget(100000);
+
+    expect(breakdown.truncated).toBe(false);
+    expect(breakdown.tokenizer).toBe('custom');
+    expect(breakdown.totalTokens).toBe(prompt.length);
+    expect(breakdown.history).toMatchObject({ included: 3, dropped: 0 });
+    expect(breakdown.memories).toMatchObject({ included: 3, dropped: 0 });
+    expect(breakdown.summary).toMatchObject({ included: 1, dropped: 0 });
+    expect(breakdown.baseTokens + breakdown.history.tokens + breakdown.memories.tokens + breakdown.summary.tokens)
+      .toBe(breakdown.totalTokens);
+  });
+
+  it('drops history oldest first, then memories least relevant first, then the summary', async () => {
+    const { breakdown: full } = await buildWithBudget(100000);
+    const { baseTokens } = full;
+
+    const withoutOldestTurn = await buildWithBudget(full.totalTokens - 1);
+    expect(withoutOldestTurn.breakdown.history).toMatchObject({ included: 2, dropped: 1 });
+    expect(withoutOldestTurn.prompt).not.toContain('first question');
+    expect(withoutOldestTurn.prompt).toContain('second question');
+    expect(withoutOldestTurn.breakdown.memories.dropped).toBe(0);
+
+    const withoutLeastRelevant = await buildWithBudget(baseTokens + full.summary.tokens + full.memories.tokens - 1);
+    expect(withoutLeastRelevant.breakdown.history).toMatchObject({ included: 0, dropped: 3 });
+    expect(withoutLeastRelevant.breakdown.memories).toMatchObject({ included: 2, dropped: 1 });
+    expect(withoutLeastRelevant.prompt).toContain('somewhat relevant memory');
+    expect(withoutLeastRelevant.prompt).not.toContain('least relevant memory');
+    expect(withoutLeastRelevant.breakdown.summary.included).toBe(1);
+
+    const withoutSummary = await buildWithBudget(baseTokens + 1);
+    expect(withoutSummary.breakdown.memories).toMatchObject({ included: 0, dropped: 3 });
+    expect(withoutSummary.breakdown.summary).toMatchObject({ included: 0, dropped: 1, tokens: 0 });
+    expect(withoutSummary.prompt).not.toContain('earlier conversation summary');
+    expect(withoutSummary.breakdown.totalTokens).toBeLessThanOrEqual(baseTokens + 1);
+  });
+
+  it('throws ContextWindowExceededError when the input alone does not fit', async () => {
+    const { breakdown: full } = await buildWithBudget(100000);
+
+    const error = await buildWithBudget(full.baseTokens - 1).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContextWindowExceededError);
+    expect(error).toMatchObject({ tokenCount: full.baseTokens, maxTokens: full.baseTokens - 1 });
+  });
+
+  it('counts the system prompt sent with the request against the budget', async () => {
+    const { breakdown: full } = await buildWithBudget(100000);
+    const systemPrompt = 'You are an AI assistant specialized in Coder tasks.';
+
+    const { prompt, breakdown } = await buildWithBudget(full.totalTokens, systemPrompt);
+
+    expect(prompt).not.toContain(systemPrompt);
+    expect(breakdown.baseTokens).toBe(full.baseTokens + systemPrompt.length);
+    expect(breakdown.history.dropped).toBeGreaterThan(0);
+    expect(breakdown.totalTokens).toBeLessThanOrEqual(full.totalTokens);
+  });
+});
@@ -1,13 +1,25 @@
 /**
  * Prompt Manager for Bolt DIY
- * 
+ *
  * This module provides functionality for constructing optimized prompts
  * for large language models (LLMs) based on the current context, state,
  * and user input.
  */
 
-import { IPromptManager, MemoryContext, ApplicationState } from '../interfaces';
+import {
+  IPromptManager,
+  MemoryContext,
+  ApplicationState,
+  ConstructedPrompt,
+  PromptOptions,
+  PromptBreakdown
+} from '../interfaces';
 import { ContextWindowExceededError } from '../errors';
+import { AIModel, BaseAIService } from '../ai/base-ai-service';
+import { createTokenCounter, getEncodingName, TokenCounter } from './tokenizer';
+
+const MEMORIES_HEADER = 'Relevant information from previous conversations:\n';
+const SUMMARY_HEADER = 'Previous conversation summary: ';
 
 /**
  * Implementation of Prompt Manager with token optimization
@@ -16,7 +28,12 @@ export class PromptManager implements IPromptManager {
   // Configuration
   private systemPrompt: string;
   private maxTokens: number;
-  private tokenCountEstimator: (text: string) => number;
+  private reservedOutputTokens: number;
+  private tokenCountEstimator?: TokenCounter;
+  private aiService?: BaseAIService;
+  
+  // Models of the AI service, fetched once for their context windows
+  private models?: Promise<AIModel[]>;
   
   /**
    * Create a new prompt manager
@@ -24,69 +41,166 @@ export class PromptManager implements IPromptManager {
    */
   constructor(options: {
     systemPrompt?: string;
+    /** Prompt budget when the model's context window is unknown */
     maxTokens?: number;
-    tokenCountEstimator?: (text: string) => number;
+    /** Part of the context window kept free for the response */
+    reservedOutputTokens?: number;
+    /** Token counter to use instead of the model's tokenizer */
+    tokenCountEstimator?: TokenCounter;
+    /** Service whose models' context windows set the budget */
+    aiService?: BaseAIService;
   } = {}) {
     this.systemPrompt = options.systemPrompt || 'You are a helpful assistant.';
     this.maxTokens = options.maxTokens || 8000; // Default max tokens
-    
-    // Simple estimator function (roughly 4 chars per token)
-    this.tokenCountEstimator = options.tokenCountEstimator || 
-      ((text: string) => Math.ceil(text.length / 4));
+    this.reservedOutputTokens = options.reservedOutputTokens ?? 2048;
+    this.tokenCountEstimator = options.tokenCountEstimator;
+    this.aiService = options.aiService;
   }
   
   /**
-   * Construct an optimized prompt for the LLM
+   * Construct an optimized prompt for the LLM. When the context does not
+   * fit the model's budget it is cut gradually: history turns oldest first,
+   * then memories least relevant first, then the summary.
    * @param userInput - Current user input
    * @param context - Memory context from memory manager
    * @param state - Current application state
-   * @returns Constructed prompt string
+   * @param options - Model the prompt is for and the system prompt sent with it
+   * @returns Constructed prompt and what it includes
+   * @throws ContextWindowExceededError if the input does not fit on its own
    */
-  async constructPrompt(userInput: string, context: MemoryContext, state: ApplicationState): Promise<string> {
-    // Format system prompt
+  async constructPrompt(
+    userInput: string,
+    context: MemoryContext,
+    state: ApplicationState,
+    options: PromptOptions = {}
+  ): Promise<ConstructedPrompt> {
+    const model = options.model || this.aiService?.getDefaultModel?.();
+    const countTokens = this.tokenCountEstimator || createTokenCounter(model);
+    const maxTokens = await this.getTokenBudget(model);
+    
+    // Format system prompt and current user input, which are always sent,
+    // as is the request's own system prompt beside the prompt
     const formattedSystemPrompt = `${this.systemPrompt}\n\n`;
+    const formattedUserInput = `User: ${userInput}\nAssistant:`;
+    const requestSystemTokens = options.systemPrompt ? countTokens(options.systemPrompt) : 0;
+    const baseTokens = requestSystemTokens + countTokens(formattedSystemPrompt) + countTokens(formattedUserInput);
+    
+    // Count every item once; sections are trimmed by subtracting
+    const history = context.history.map(turn => `User: ${turn.input}\nAssistant: ${turn.response}`);
+    const historyTokens = history.map(turn => countTokens(`${turn}\n\n`));
+    const memories = [...context.memories];
+    const memoryTokens = memories.map(memory => countTokens(`${memory}\n`));
+    // The header also carries the blank line closing the section
+    const memoriesHeaderTokens = countTokens(`${MEMORIES_HEADER}\n`);
+    let summary = context.summary;
+    let summaryTokens = summary ? countTokens(`${SUMMARY_HEADER}${summary}\n\n`) : 0;
     
-    // Format conversation history
-    const formattedHistory = context.history.map(turn => {
-      return `User: ${turn.input}\nAssistant: ${turn.response}`;
-    }).join('\n\n');
+    const sum = (counts: number[]) => counts.reduce((total, count) => total + count, 0);
+    const estimate = () => baseTokens + summaryTokens + sum(historyTokens) + sum(memoryTokens) +
+      (memories.length > 0 ? memoriesHeaderTokens : 0);
+    
+    const historyCount = history.length;
+    const memoryCount = memories.length;
+    let summaryDropped = false;
+    
+    while (estimate() > maxTokens) {
+      if (history.length > 0) {
+        history.shift();
+        historyTokens.shift();
+      } else if (memories.length > 0) {
+        // Memories arrive most relevant first
+        memories.pop();
+        memoryTokens.pop();
+      } else if (summary) {
+        summary = undefined;
+        summaryTokens = 0;
+        summaryDropped = true;
+      } else {
+        throw new ContextWindowExceededError(
+          'Prompt is too large even with reduced context',
+          baseTokens,
+          maxTokens
+        );
+      }
+    }
     
     // Format relevant memories if available
-    const formattedMemories = context.memories.length > 0
-      ? `Relevant information from previous conversations:\n${context.memories.join('\n')}\n\n`
+    const formattedMemories = memories.length > 0
+      ? `${MEMORIES_HEADER}${memories.join('\n')}\n\n`
       : '';
-      
+    
     // Format conversation summary if available
-    const formattedSummary = context.summary
-      ? `Previous conversation summary: ${context.summary}\n\n`
+    const formattedSummary = summary
+      ? `${SUMMARY_HEADER}${summary}\n\n`
       : '';
     
-    // Format current user input
-    const formattedUserInput = `User: ${userInput}\nAssistant:`;
+    // Format conversation history, each turn closed by a blank line
+    const formattedHistory = history.map(turn => `${turn}\n\n`).join('');
     
     // Construct full prompt
-    let fullPrompt = `${formattedSystemPrompt}${formattedSummary}${formattedMemories}${formattedHistory}\n\n${formattedUserInput}`;
+    const prompt = `${formattedSystemPrompt}${formattedSummary}${formattedMemories}${formattedHistory}${formattedUserInput}`;
     
-    // Check token count
-    const estimatedTokens = this.tokenCountEstimator(fullPrompt);
+    const breakdown: PromptBreakdown = {
+      model,
+      tokenizer: this.tokenCountEstimator ? 'custom' : getEncodingName(model),
+      maxTokens,
+      totalTokens: requestSystemTokens + countTokens(prompt),
+      baseTokens,
+      history: {
+        included: history.length,
+        dropped: historyCount - history.length,
+        tokens: sum(historyTokens)
+      },
+      memories: {
+        included: memories.length,
+        dropped: memoryCount - memories.length,
+        tokens: memories.length > 0 ? memoriesHeaderTokens + sum(memoryTokens) : 0
+      },
+      summary: {
+        included: summary ? 1 : 0,
+        dropped: summaryDropped ? 1 : 0,
+        tokens: summaryTokens
+      },
+      truncated: history.length < historyCount || memories.length < memoryCount || summaryDropped
+    };
     
-    // If we exceed token limit, we need to trim the context
-    if (estimatedTokens > this.maxTokens) {
-      // Try with just system prompt, memories, and user input (no history)
-      fullPrompt = `${formattedSystemPrompt}${formattedSummary}${formattedMemories}${formattedUserInput}`;
-      const reducedTokens = this.tokenCountEstimator(fullPrompt);
-      
-      if (reducedTokens > this.maxTokens) {
-        throw new ContextWindowExceededError(
-          'Prompt is too large even with reduced context',
-          reducedTokens,
-          this.maxTokens
-        );
-      }
-      
-      console.warn('Prompt size reduced - removed conversation history');
+    if (breakdown.truncated) {
+      console.warn(
+        `Prompt trimmed to ${maxTokens} tokens: dropped ${breakdown.history.dropped} history turns, ` +
+        `${breakdown.memories.dropped} memories${summaryDropped ? ' and the summary' : ''}`
+      );
+    }
+    
+    return { prompt, breakdown };
+  }
+  
+  /**
+   * Token budget of a prompt for a model: its context window less the
+   * space kept for the response, or the configured maximum if unknown
+   * @param model - Provider model ID, if known
+   * @returns Maximum prompt tokens
+   */
+  private async getTokenBudget(model?: string): Promise<number> {
+    if (!model || !this.aiService?.getAvailableModels) {
+      return this.maxTokens;
+    }
+    
+    // A failed lookup is not kept, so the next prompt asks again
+    if (!this.models) {
+      const models: Promise<AIModel[]> = this.aiService.getAvailableModels().catch(() => {
+        if (this.models === models) {
+          this.models = undefined;
+        }
+        return [];
+      });
+      this.models = models;
+    }
+    
+    const info = (await this.models).find(candidate => candidate.id === model);
+    if (!info) {
+      return this.maxTokens;
     }
     
-    return fullPrompt;
+    return Math.max(0, info.contextWindow - this.reservedOutputTokens);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+/**
+ * Tokenizer for Bolt DIY
+ *
+ * This module counts tokens with the BPE encodings OpenAI models use.
+ * Other providers do not publish their tokenizers; their counts use the
+ * closest OpenAI encoding, which is near enough for budgeting prompts.
+ */
+
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+
+/**
+ * Function that counts the tokens of a text
+ */
+export type TokenCounter = (text: string) => number;
+
+// Encodings are large, so each is built once and shared
+const encodings: Map<TiktokenEncoding, Tiktoken> = new Map();
+
+/**
+ * Name of the encoding used to count tokens for a model
+ * @param model - Provider model ID, if known
+ * @returns Encoding name
+ */
+export function getEncodingName(model?: string): TiktokenEncoding {
+  // GPT-4o and the o-series use the newer encoding
+  if (model && /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model)) {
+    return 'o200k_base';
+  }
+
+  return 'cl100k_base';
+}
+
+/**
+ * Create a token counter for a model
+ * @param model - Provider model ID, if known
+ * @returns Token counting function
+ */
+export function createTokenCounter(model?: string): TokenCounter {
+  const name = getEncodingName(model);
+
+  return (text: string) => {
+    let encoding = encodings.get(name);
+    if (!encoding) {
+      encoding = getEncoding(name);
+      encodings.set(name, encoding);
+    }
+
+    return encoding.encode(text, [], []).length;
+  };
+}
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ToolExecutionError } from '../errors';
+import {
+  AbstractAIService,
+  AITool,
+  ToolCall,
+  ToolCallingResult,
+  ToolConversationMessage
+} from '../ai/base-ai-service';
+import { InMemoryStateManager } from '../agent/state-manager';
+import { ToolExecutor } from './tool-executor';
+
+/**
+ * Model that plays back scripted turns, repeating the last one, and keeps
+ * the conversations it was sent
+ */
+class ScriptedToolModel extends AbstractAIService {
+  conversations: ToolConversationMessage[][] = [];
+
+  constructor(private turns: ToolCallingResult[]) {
+    super();
+  }
+
+  async generateWithTools(conversation: string | ToolConversationMessage[], tools: AITool[]): Promise<ToolCallingResult> {
+    this.conversations.push([...(conversation as ToolConversationMessage[])]);
+    return this.turns.length > 1 ? this.turns.shift()! : this.turns[0];
+  }
+
+  async generateCompletion(): Promise<string> {
+    return '';
+  }
+
+  async *generateCompletionStream(): AsyncIterable<string> {}
+
+  async analyzeCode(): Promise<any> {
+    return {};
+  }
+
+  supportsCapability(capability: string): boolean {
+    return capability === 'function_calling';
+  }
+}
+
+const call = (id: string, name: string, args: unknown = {}): ToolCall =>
+  ({ id, name, arguments: typeof args === 'string' ? args : JSON.stringify(args) });
+
+const callTools = (...toolCalls: ToolCall[]): ToolCallingResult => ({ content: '', toolCalls });
+const answer = (content: string): ToolCallingResult => ({ content, toolCalls: [] });
+
+describe('ToolExecutor', () => {
+  let events: string[];
+
+  beforeEach(() => {
+    events = [];
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const executor = (model = new ScriptedToolModel([answer('done')])) => {
+    const tools = new ToolExecutor(new InMemoryStateManager(), model);
+
+    // Reads take the given delay, so reads running together can finish out of order
+    tools.registerTool({
+      name: 'read',
+      description: 'Read a file',
+      parallel: true,
+      execute: async ({ path, delayMs }) => {
+        events.push(`start ${path}`);
+        await new Promise(resolve => setTimeout(resolve, delayMs ?? 0));
+        events.push(`end ${path}`);
+        return `contents of ${path}`;
+      }
+    });
+    tools.registerTool({
+      name: 'write',
+      description: 'Write a file',
+      execute: async ({ path }) => {
+        events.push(`write ${path}`);
+        return `wrote ${path}`;
+      }
+    });
+    return tools;
+  };
+
+  it('runs consecutive parallel calls together and returns results in call order', async () => {
+    const results = await executor().executeToolCalls([
+      call('1', 'read', { path: 'a', delayMs: 20 }),
+      call('2', 'read', { path: 'b' }),
+      call('3', 'write', { path: 'c' }),
+      call('4', 'read', { path: 'd' })
+    ], 'session-1');
+
+    expect(results.map(result => [result.toolCallId, result.content])).toEqual([
+      ['1', 'contents of a'],
+      ['2', 'contents of b'],
+      ['3', 'wrote c'],
+      ['4', 'contents of d']
+    ]);
+    expect(events).toEqual(['start a', 'start b', 'end b', 'end a', 'write c', 'start d', 'end d']);
+  });
+
+  it('reports an unknown tool back to the model as an error result', async () => {
+    const model = new ScriptedToolModel([callTools(call('1', 'delete', { path: 'a' })), answer('Sorry, I cannot delete')]);
+
+    await expect(executor(model).run('Delete a', 'session-1')).resolves.toBe('Sorry, I cannot delete');
+
+    expect(model.conversations[1].at(-1)).toEqual({
+      role: 'tool',
+      toolCallId: '1',
+      name: 'delete',
+      content: "Tool 'delete' not found",
+      isError: true
+    });
+  });
+
+  it('reports arguments that are not a JSON object as error results without running the tool', async () => {
+    const results = await executor().executeToolCalls([
+      call('1', 'write', '{"path": "a"'),
+      call('2', 'write', '["a"]')
+    ], 'session-1');
+
+    expect(results.map(result => result.isError)).toEqual([true, true]);
+    expect(results[0].content).toContain('Invalid tool arguments');
+    expect(events).toEqual([]);
+  });
+
+  it('stops a model that keeps calling tools past the iteration limit', async () => {
+    const model = new ScriptedToolModel([callTools(call('1', 'read', { path: 'a' }), call('2', 'write', { path: 'b' }))]);
+
+    const run = executor(model).run('Loop forever', 'session-1', { maxIterations: 3 });
+
+    await expect(run).rejects.toThrow(ToolExecutionError);
+    await expect(run).rejects.toMatchObject({ toolName: 'write', message: 'Model was still calling tools after 3 iterations' });
+    expect(model.conversations).toHaveLength(3);
+  });
+});
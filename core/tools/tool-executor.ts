@@ -1,15 +1,28 @@
 /**
  * Tool Executor for Bolt DIY
- * 
- * This module provides functionality for executing tools based on
- * LLM responses. It parses the response to identify tool calls and
- * executes the appropriate tools.
+ *
+ * This module provides functionality for executing tools requested by
+ * the LLM through native function calling. It describes the registered
+ * tools to the model, runs the calls the model makes and feeds the
+ * results back until the model gives a final answer.
  */
 
-import { IToolExecutor } from '../interfaces';
+import { IToolExecutor, ToolLoopOptions } from '../interfaces';
 import { ToolExecutionError, InputValidationError } from '../errors';
 import { IStateManager } from '../interfaces';
-import { injectable, inject } from 'tsyringe';
+import {
+  AITool,
+  BaseAIService,
+  ToolCall,
+  ToolConversationMessage
+} from '../ai/base-ai-service';
+import { recordToolExecution } from '../monitoring/metrics';
+import { recordSpanError, withSpan } from '../monitoring/tracing';
+
+/**
+ * Model turns allowed per request before the loop is stopped
+ */
+const DEFAULT_MAX_ITERATIONS = 8;
 
 /**
  * Tool interface defining the structure of a tool
@@ -21,6 +34,12 @@ export interface Tool {
   /** Description of what the tool does */
   description: string;
   
+  /** JSON schema of the tool's arguments (an object schema) */
+  parameters?: Record<string, any>;
+  
+  /** Whether the tool has no side effects and may run alongside other calls */
+  parallel?: boolean;
+  
   /** Function that executes the tool's functionality */
   execute: (args: Record<string, any>, sessionId: string) => Promise<string>;
   
@@ -28,19 +47,27 @@ export interface Tool {
   validateArgs?: (args: Record<string, any>) => boolean;
 }
 
+/**
+ * Result of one tool call, ready to be sent back to the model
+ */
+export type ToolResultMessage = Extract<ToolConversationMessage, { role: 'tool' }>;
+
 /**
  * Implementation of Tool Executor
  */
 export class ToolExecutor implements IToolExecutor {
   private tools: Map<string, Tool> = new Map();
   private stateManager: IStateManager;
+  private aiService: BaseAIService;
   
   /**
    * Create a new tool executor
    * @param stateManager - State manager for accessing application state
+   * @param aiService - Model that requests the tool calls
    */
-  constructor(stateManager: IStateManager) {
+  constructor(stateManager: IStateManager, aiService: BaseAIService) {
     this.stateManager = stateManager;
+    this.aiService = aiService;
   }
   
   /**
@@ -57,92 +84,153 @@ export class ToolExecutor implements IToolExecutor {
   }
   
   /**
-   * Process LLM response and execute any tools
-   * @param llmResponse - Raw response from LLM
+   * Describe the registered tools for the model
+   * @returns Tool definitions with JSON-schema parameters
+   */
+  getToolDefinitions(): AITool[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters || { type: 'object', properties: {} }
+      }
+    }));
+  }
+  
+  /**
+   * Answer a prompt, running the tools the model calls until it gives a
+   * final answer
+   * @param prompt - Constructed prompt for the LLM
    * @param sessionId - Session identifier for state context
-   * @returns Final processed response after tool execution
+   * @param options - Model options and iteration limit
+   * @returns Final answer from the model
+   * @throws ToolExecutionError if the model keeps calling tools past the limit
    */
-  async processResponse(llmResponse: string, sessionId: string): Promise<string> {
-    // Check if the response contains a tool call
-    const toolCall = this.parseToolCall(llmResponse);
+  async run(prompt: string, sessionId: string, options: ToolLoopOptions = {}): Promise<string> {
+    // Models that cannot call functions answer without tools
+    const tools = this.aiService.supportsCapability?.('function_calling') ? this.getToolDefinitions() : [];
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const conversation: ToolConversationMessage[] = [{ role: 'user', content: prompt }];
+    let lastToolName = '';
     
-    if (!toolCall) {
-      // No tool call found, return the original response
-      return llmResponse;
-    }
-    
-    try {
-      // Get the tool by name
-      const tool = this.tools.get(toolCall.name);
-      
-      if (!tool) {
-        throw new ToolExecutionError(`Tool '${toolCall.name}' not found`, toolCall.name);
-      }
-      
-      // Validate arguments if a validator is provided
-      if (tool.validateArgs && !tool.validateArgs(toolCall.args)) {
-        throw new InputValidationError(`Invalid arguments for tool '${toolCall.name}'`);
-      }
-      
-      // Execute the tool
-      const toolResult = await tool.execute(toolCall.args, sessionId);
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const turn = await this.aiService.generateWithTools(conversation, tools, {
+        model: options.model,
+        systemPrompt: options.systemPrompt,
+        signal: options.signal,
+        onUsage: options.onUsage
+      });
       
-      // Replace the tool call in the response with the result
-      return this.replaceTooCallWithResult(llmResponse, toolCall, toolResult);
-    } catch (error) {
-      if (error instanceof ToolExecutionError || error instanceof InputValidationError) {
-        throw error;
+      if (turn.toolCalls.length === 0) {
+        return turn.content;
       }
       
-      throw new ToolExecutionError(
-        `Error executing tool '${toolCall.name}': ${error instanceof Error ? error.message : String(error)}`,
-        toolCall.name
-      );
+      conversation.push({ role: 'assistant', content: turn.content, toolCalls: turn.toolCalls });
+      conversation.push(...await this.executeToolCalls(turn.toolCalls, sessionId));
+      lastToolName = turn.toolCalls[turn.toolCalls.length - 1].name;
     }
+    
+    throw new ToolExecutionError(
+      `Model was still calling tools after ${maxIterations} iterations`,
+      lastToolName
+    );
   }
   
   /**
-   * Parse a tool call from an LLM response
-   * @param response - LLM response to parse
-   * @returns Tool call object or null if no tool call found
+   * Execute the tool calls of one model turn. Consecutive calls to
+   * parallel-safe tools run together; every other call runs on its own,
+   * in the order the model made them. Failures are reported back to the
+   * model as error results so it can correct itself.
+   * @param toolCalls - Calls requested by the model
+   * @param sessionId - Session identifier for state context
+   * @returns One result per call, in call order
    */
-  private parseToolCall(response: string): { name: string; args: Record<string, any> } | null {
-    // Basic regex pattern for tool calls in the format:
-    // {{tool:toolName({"arg1": "value1", "arg2": "value2"})}}
-    const toolCallPattern = /{{tool:([a-zA-Z0-9_]+)\((.*?)\)}}/;
-    const match = response.match(toolCallPattern);
+  async executeToolCalls(toolCalls: ToolCall[], sessionId: string): Promise<ToolResultMessage[]> {
+    const results: ToolResultMessage[] = [];
+    let batch: ToolCall[] = [];
     
-    if (!match) {
-      return null;
+    const flush = async () => {
+      results.push(...await Promise.all(batch.map(call => this.executeToolCall(call, sessionId))));
+      batch = [];
+    };
+    
+    for (const call of toolCalls) {
+      if (this.tools.get(call.name)?.parallel) {
+        batch.push(call);
+        continue;
+      }
+      
+      await flush();
+      results.push(await this.executeToolCall(call, sessionId));
     }
+    await flush();
     
-    const [_, toolName, argsStr] = match;
+    return results;
+  }
+  
+  /**
+   * Execute a single tool call
+   * @param call - Call requested by the model
+   * @param sessionId - Session identifier for state context
+   * @returns Result message for the model
+   */
+  private executeToolCall(call: ToolCall, sessionId: string): Promise<ToolResultMessage> {
+    const attributes = {
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.tool.name': call.name,
+      'gen_ai.tool.call.id': call.id
+    };
     
-    // Parse arguments as JSON
-    try {
-      const args = JSON.parse(argsStr);
-      return { name: toolName, args };
-    } catch (error) {
-      throw new InputValidationError(`Invalid tool arguments: ${argsStr}`);
-    }
+    return withSpan(`execute_tool ${call.name}`, { attributes }, async (span): Promise<ToolResultMessage> => {
+      const startTime = Date.now();
+      try {
+        // Get the tool by name
+        const tool = this.tools.get(call.name);
+        
+        if (!tool) {
+          throw new ToolExecutionError(`Tool '${call.name}' not found`, call.name);
+        }
+        
+        const args = this.parseArguments(call);
+        
+        // Validate arguments if a validator is provided
+        if (tool.validateArgs && !tool.validateArgs(args)) {
+          throw new InputValidationError(`Invalid arguments for tool '${call.name}'`);
+        }
+        
+        // Execute the tool
+        const content = await tool.execute(args, sessionId);
+        recordToolExecution(call.name, 'success', Date.now() - startTime);
+        return { role: 'tool', toolCallId: call.id, name: call.name, content };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Tool '${call.name}' failed: ${message}`);
+        recordSpanError(span, error);
+        recordToolExecution(call.name, 'error', Date.now() - startTime);
+        return { role: 'tool', toolCallId: call.id, name: call.name, content: message, isError: true };
+      }
+    });
   }
   
   /**
-   * Replace tool call in response with the tool execution result
-   * @param response - Original LLM response
-   * @param toolCall - Tool call that was executed
-   * @param result - Result of tool execution
-   * @returns Response with tool call replaced by result
+   * Parse the JSON arguments of a tool call
+   * @param call - Call requested by the model
+   * @returns Arguments object
+   * @throws InputValidationError if the arguments are not a JSON object
    */
-  private replaceTooCallWithResult(
-    response: string,
-    toolCall: { name: string; args: Record<string, any> },
-    result: string
-  ): string {
-    // Create replacement pattern
-    const pattern = new RegExp(`{{tool:${toolCall.name}\\(.*?\\)}}`, 'g');
+  private parseArguments(call: ToolCall): Record<string, any> {
+    let args: unknown;
+    try {
+      args = JSON.parse(call.arguments || '{}');
+    } catch (error) {
+      throw new InputValidationError(`Invalid tool arguments: ${call.arguments}`);
+    }
     
-    // Replace tool call with result
-    return response.replace(pattern, result);
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      throw new InputValidationError(`Tool arguments must be a JSON object: ${call.arguments}`);
+    }
+    
+    return args as Record<string, any>;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,357 @@
+import type { IncomingMessage } from "http";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { z } from "zod";
+import type { Project, User as SelectUser } from "@shared/schema";
+import type { IApiResponse } from "@shared/api-types";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Hash a password with scrypt and a random salt ("<hash>.<salt>")
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = await scryptAsync(supplied, salt, KEY_LENGTH);
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+// Never send the password hash to the client
+function toPublicUser(user: SelectUser): Omit<SelectUser, "password"> {
+  const { password, ...userData } = user;
+  return userData;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  console.warn("SESSION_SECRET is not set; using a random secret, sessions will not survive a restart");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Express "trust proxy" setting from TRUST_PROXY: a hop count, true/false,
+ * or addresses and subnets separated by commas. Proxies are not trusted
+ * unless it is set, so clients cannot spoof their address or protocol.
+ */
+function getTrustProxy(): boolean | number | string {
+  const value = process.env.TRUST_PROXY?.trim();
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+let sessionMiddleware: RequestHandler | null = null;
+
+/**
+ * Install cookie sessions, passport and the /api/auth routes
+ */
+export function setupAuth(app: Express) {
+  sessionMiddleware = session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: "auto",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+
+  app.set("trust proxy", getTrustProxy());
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const schema = z.object({
+        username: z.string().min(3),
+        password: z.string().min(6)
+      });
+
+      const validatedData = schema.parse(req.body);
+
+      // Check if user already exists
+      const existingUser = await storage.getUserByUsername(validatedData.username);
+      if (existingUser) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            message: 'Username already exists'
+          }
+        } as IApiResponse<null>);
+      }
+
+      // Create new user
+      const user = await storage.createUser({
+        username: validatedData.username,
+        password: await hashPassword(validatedData.password)
+      });
+
+      // Sign the new user in straight away
+      req.login(user, (error) => {
+        if (error) return next(error);
+
+        res.status(201).json({
+          success: true,
+          data: toPublicUser(user)
+        });
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            message: 'Validation error',
+            details: error.errors
+          }
+        } as IApiResponse<null>);
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Failed to create user',
+          details: { error: (error as Error).message }
+        }
+      } as IApiResponse<null>);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const schema = z.object({
+      username: z.string(),
+      password: z.string()
+    });
+
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          message: 'Validation error',
+          details: parsed.error.errors
+        }
+      } as IApiResponse<null>);
+    }
+
+    passport.authenticate("local", (error: Error | null, user: SelectUser | false) => {
+      if (error) {
+        return res.status(500).json({
+          success: false,
+          error: {
+            message: 'Login failed',
+            details: { error: error.message }
+          }
+        } as IApiResponse<null>);
+      }
+
+      if (!user) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            message: 'Invalid username or password'
+          }
+        } as IApiResponse<null>);
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+
+        res.json({
+          success: true,
+          data: toPublicUser(user)
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+
+      req.session.destroy((destroyError) => {
+        if (destroyError) return next(destroyError);
+
+        res.clearCookie("connect.sid");
+        res.json({
+          success: true,
+          data: { loggedOut: true }
+        });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          message: 'Not authenticated'
+        }
+      } as IApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: toPublicUser(req.user)
+    });
+  });
+}
+
+/**
+ * Middleware that rejects requests without a signed-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+
+  res.status(401).json({
+    success: false,
+    error: {
+      message: 'Authentication required'
+    }
+  } as IApiResponse<null>);
+}
+
+/**
+ * Whether the user administers the server. Admins are listed by username,
+ * separated by commas, in ADMIN_USERNAMES.
+ */
+export function isAdmin(user: Express.User): boolean {
+  const admins = (process.env.ADMIN_USERNAMES || "").split(",").map((name) => name.trim());
+  return admins.includes(user.username);
+}
+
+/**
+ * Middleware that rejects requests from users who are not admins; use after requireAuth
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.user && isAdmin(req.user)) {
+    return next();
+  }
+
+  res.status(403).json({
+    success: false,
+    error: {
+      message: 'Admin access required'
+    }
+  } as IApiResponse<null>);
+}
+
+/**
+ * Find a project the user owns. Other users' projects are reported as
+ * missing, so their IDs cannot be probed.
+ */
+export async function getOwnedProject(user: Express.User, projectId: string): Promise<Project | undefined> {
+  const project = await storage.getProject(projectId);
+  return project && project.ownerId === user.id ? project : undefined;
+}
+
+/**
+ * Check the Origin of a WebSocket upgrade request, so other sites cannot
+ * open sockets with the user's cookie. Pages served by this server, and
+ * the origins listed in ALLOWED_ORIGINS separated by commas, may connect;
+ * clients that send no Origin are not browsers and are let through.
+ */
+export function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+
+  const allowed = (process.env.ALLOWED_ORIGINS || "").split(",").map((entry) => entry.trim());
+  if (allowed.includes(origin)) return true;
+
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the signed-in user for a WebSocket upgrade request. The session
+ * is re-read on every call so signing in after connecting takes effect.
+ */
+export function getSocketUser(req: IncomingMessage): Promise<Express.User | undefined> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) {
+      return resolve(undefined);
+    }
+
+    const request = req as Request;
+    delete (request as Partial<Request>).session;
+
+    sessionMiddleware(request, {} as Response, async () => {
+      const userId = (request.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+      if (userId === undefined) {
+        return resolve(undefined);
+      }
+
+      try {
+        resolve(await storage.getUser(userId));
+      } catch {
+        resolve(undefined);
+      }
+    });
+  });
+}
@@ -0,0 +1,108 @@
+import { createHash } from "crypto";
+import { promises as fs, mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { gunzipSync } from "zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { IBackupMetadata } from "@shared/api-types";
+import { BackupCorruptedError, BackupRejectedError, BackupService } from "./backup-service";
+import { MemStorage } from "./storage";
+
+describe("BackupService", () => {
+  let root: string;
+  let storage: MemStorage;
+  let projectId: string;
+
+  const service = (encryptionSecret?: string) => new BackupService({ backupRoot: root, storage, encryptionSecret });
+  const archiveOf = (backup: IBackupMetadata) =>
+    path.join(root, "archives", backup.checksum.slice(0, 2), backup.checksum);
+  const fileContents = async () =>
+    (await storage.getProjectFiles(projectId)).map(({ path: filePath, content }) => ({ path: filePath, content }));
+
+  beforeEach(async () => {
+    root = mkdtempSync(path.join(os.tmpdir(), "backups-"));
+    storage = new MemStorage();
+    projectId = (await storage.createProject({ ownerId: 1, name: "Backed up" })).id;
+    await storage.saveProjectFile(projectId, "src/index.ts", "export const answer = 42;\n");
+    await storage.saveProjectFile(projectId, "README.md", "# Backed up\n");
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("restores a project to its backed up files", async () => {
+    const backups = service();
+    const backup = await backups.createBackup(projectId, false);
+    const saved = await fileContents();
+
+    await storage.saveProjectFile(projectId, "src/index.ts", "export const answer = 0;\n");
+    await storage.saveProjectFile(projectId, "src/new.ts", "added later\n");
+
+    await expect(backups.restoreBackup(backup.id)).resolves.toMatchObject({ projectId, files: ["README.md", "src/index.ts"] });
+    expect(await fileContents()).toEqual(saved);
+  });
+
+  it("refuses an archive whose bytes no longer match the checksum", async () => {
+    const backups = service();
+    const backup = await backups.createBackup(projectId, false);
+    const data = await fs.readFile(archiveOf(backup));
+    data[data.length - 1] ^= 0xff;
+    await fs.writeFile(archiveOf(backup), data);
+    await storage.saveProjectFile(projectId, "src/new.ts", "added later\n");
+    const current = await fileContents();
+
+    await expect(backups.restoreBackup(backup.id)).rejects.toThrow(/does not match its checksum/);
+    expect(await fileContents()).toEqual(current);
+  });
+
+  it("refuses a truncated archive", async () => {
+    const backups = service();
+    const backup = await backups.createBackup(projectId, false);
+    const data = await fs.readFile(archiveOf(backup));
+    await fs.writeFile(archiveOf(backup), data.subarray(0, data.length / 2));
+
+    await expect(backups.restoreBackup(backup.id)).rejects.toThrow(BackupCorruptedError);
+  });
+
+  it("refuses an archive that matches its checksum but cannot be decoded", async () => {
+    const backups = service();
+    const backup = await backups.createBackup(projectId, false);
+
+    // Record a checksum for bytes that are not a gzip'd archive
+    const garbage = Buffer.from("not an archive");
+    const checksum = createHash("sha256").update(garbage).digest("hex");
+    const forged = { ...backup, checksum, size: garbage.length };
+    await fs.mkdir(path.dirname(archiveOf(forged)), { recursive: true });
+    await fs.writeFile(archiveOf(forged), garbage);
+    await fs.writeFile(path.join(root, "backups", `${backup.id}.json`), JSON.stringify(forged));
+
+    await expect(backups.restoreBackup(backup.id)).rejects.toThrow(/cannot be read/);
+  });
+
+  it("encrypts archives and restores them with the same key", async () => {
+    const backups = service("correct horse battery staple");
+    const backup = await backups.createBackup(projectId, true);
+    const saved = await fileContents();
+
+    const data = await fs.readFile(archiveOf(backup));
+    expect(backup.encrypted).toBe(true);
+    expect(data.subarray(0, 8).toString()).toBe("MAIKENC1");
+    expect(() => gunzipSync(data.subarray(8 + 12 + 16))).toThrow();
+
+    await storage.saveProjectFile(projectId, "README.md", "changed\n");
+    await backups.restoreBackup(backup.id);
+    expect(await fileContents()).toEqual(saved);
+  });
+
+  it("does not decrypt an archive with the wrong key or without one", async () => {
+    const backup = await service("correct horse battery staple").createBackup(projectId, true);
+
+    await expect(service("wrong key").restoreBackup(backup.id)).rejects.toThrow(BackupCorruptedError);
+    await expect(service().restoreBackup(backup.id)).rejects.toThrow(BackupRejectedError);
+  });
+
+  it("refuses to encrypt without a key", async () => {
+    await expect(service().createBackup(projectId, true)).rejects.toThrow(BackupRejectedError);
+  });
+});
@@ -0,0 +1,302 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { promisify } from "util";
+import { gzip, gunzip } from "zlib";
+import { nanoid } from "nanoid";
+import type { IBackupMetadata } from "@shared/api-types";
+import { storage, type IStorage } from "./storage";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Encrypted archives start with this marker, followed by IV, auth tag and ciphertext
+const ENCRYPTED_MAGIC = Buffer.from("MAIKENC1");
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const ARCHIVE_VERSION = 1;
+
+export interface BackupServiceOptions {
+  /** Directory holding backup metadata and archives */
+  backupRoot?: string;
+  /** Secret used to derive the archive encryption key */
+  encryptionSecret?: string;
+  /** Storage the project files are read from and restored into */
+  storage?: IStorage;
+}
+
+/**
+ * Error raised when a backup request cannot be carried out as given
+ * (e.g. encryption requested without a configured key)
+ */
+export class BackupRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupRejectedError";
+  }
+}
+
+/**
+ * Error raised when a backup or its project does not exist
+ */
+export class BackupNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupNotFoundError";
+  }
+}
+
+/**
+ * Error raised when an archive no longer matches its recorded checksum
+ * or cannot be decoded
+ */
+export class BackupCorruptedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupCorruptedError";
+  }
+}
+
+interface BackupArchive {
+  version: number;
+  projectId: string;
+  files: Array<{ path: string; content: string }>;
+}
+
+export interface RestoreResult {
+  backupId: string;
+  projectId: string;
+  files: string[];
+}
+
+/**
+ * Snapshots project files into content-addressed archives:
+ *
+ *   <root>/archives/<sha256>   gzip'd JSON, optionally AES-256-GCM encrypted
+ *   <root>/backups/<id>.json   IBackupMetadata pointing at an archive
+ *
+ * An archive's name is the SHA-256 of its stored bytes, which is also the
+ * backup checksum, so identical unencrypted snapshots share one archive and
+ * any change to an archive on disk is caught before it is restored.
+ */
+export class BackupService {
+  readonly backupRoot: string;
+  private encryptionKey: Buffer | null;
+  private storage: IStorage;
+
+  constructor(options: BackupServiceOptions = {}) {
+    this.backupRoot = path.resolve(
+      options.backupRoot || process.env.BACKUP_ROOT || path.join(process.env.DATA_DIR || "data", "backups"),
+    );
+    const secret = options.encryptionSecret ?? process.env.BACKUP_ENCRYPTION_KEY;
+    this.encryptionKey = secret ? scryptSync(secret, "maik-backup", 32) : null;
+    this.storage = options.storage || storage;
+  }
+
+  /**
+   * Snapshot every file of a project
+   * @param projectId - Project to back up
+   * @param encrypt - Whether to encrypt the archive
+   * @returns Metadata of the new backup
+   */
+  async createBackup(projectId: string, encrypt: boolean): Promise<IBackupMetadata> {
+    if (encrypt && !this.encryptionKey) {
+      throw new BackupRejectedError("Encrypted backups need BACKUP_ENCRYPTION_KEY to be set");
+    }
+
+    if (!(await this.storage.getProject(projectId))) {
+      throw new BackupNotFoundError(`Project not found: ${projectId}`);
+    }
+
+    const files = await this.storage.getProjectFiles(projectId);
+    const archive: BackupArchive = {
+      version: ARCHIVE_VERSION,
+      projectId,
+      files: files.map(({ path: filePath, content }) => ({ path: filePath, content })),
+    };
+
+    let data = await gzipAsync(Buffer.from(JSON.stringify(archive), "utf8"));
+    if (encrypt) {
+      data = this.encrypt(data);
+    }
+
+    const checksum = sha256(data);
+    await this.writeArchive(checksum, data);
+
+    const metadata: IBackupMetadata = {
+      id: nanoid(),
+      projectId,
+      timestamp: new Date().toISOString(),
+      files: archive.files.map((file) => file.path),
+      size: data.length,
+      checksum,
+      target: "local",
+      encrypted: encrypt,
+    };
+
+    await fs.mkdir(path.join(this.backupRoot, "backups"), { recursive: true });
+    await fs.writeFile(this.metadataLocation(metadata.id), JSON.stringify(metadata, null, 2), "utf8");
+    return metadata;
+  }
+
+  /**
+   * List backups, newest first
+   * @param projectId - Only list backups of this project
+   */
+  async listBackups(projectId?: string): Promise<IBackupMetadata[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(path.join(this.backupRoot, "backups"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const backups = await Promise.all(
+      names
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => this.getBackup(name.slice(0, -".json".length))),
+    );
+
+    return backups
+      .filter((backup): backup is IBackupMetadata => backup !== undefined)
+      .filter((backup) => !projectId || backup.projectId === projectId)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Get the metadata of one backup
+   */
+  async getBackup(backupId: string): Promise<IBackupMetadata | undefined> {
+    if (!/^[A-Za-z0-9_-]+$/.test(backupId)) return undefined;
+
+    try {
+      return JSON.parse(await fs.readFile(this.metadataLocation(backupId), "utf8")) as IBackupMetadata;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a project's files with the contents of a backup. The archive is
+   * verified against its checksum first; nothing is written if it fails.
+   */
+  async restoreBackup(backupId: string): Promise<RestoreResult> {
+    const metadata = await this.getBackup(backupId);
+    if (!metadata) {
+      throw new BackupNotFoundError(`Backup not found: ${backupId}`);
+    }
+
+    const archive = await this.readArchive(metadata);
+
+    if (!(await this.storage.getProject(metadata.projectId))) {
+      throw new BackupNotFoundError(`Project not found: ${metadata.projectId}`);
+    }
+
+    // Drop files created after the backup, then write back every saved file
+    const restoredPaths = new Set(archive.files.map((file) => file.path));
+    for (const file of await this.storage.getProjectFiles(metadata.projectId)) {
+      if (!restoredPaths.has(file.path)) {
+        await this.storage.deleteProjectFile(metadata.projectId, file.path);
+      }
+    }
+    for (const file of archive.files) {
+      await this.storage.saveProjectFile(metadata.projectId, file.path, file.content);
+    }
+
+    return {
+      backupId,
+      projectId: metadata.projectId,
+      files: archive.files.map((file) => file.path),
+    };
+  }
+
+  private async readArchive(metadata: IBackupMetadata): Promise<BackupArchive> {
+    if (!/^[0-9a-f]{64}$/.test(metadata.checksum)) {
+      throw new BackupCorruptedError(`Backup ${metadata.id} has an invalid checksum`);
+    }
+
+    let data: Buffer;
+    try {
+      data = await fs.readFile(this.archiveLocation(metadata.checksum));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new BackupCorruptedError(`Archive for backup ${metadata.id} is missing`);
+      }
+      throw error;
+    }
+
+    if (data.length !== metadata.size || sha256(data) !== metadata.checksum) {
+      throw new BackupCorruptedError(`Archive for backup ${metadata.id} does not match its checksum`);
+    }
+
+    try {
+      if (data.subarray(0, ENCRYPTED_MAGIC.length).equals(ENCRYPTED_MAGIC)) {
+        data = this.decrypt(data);
+      }
+
+      const archive = JSON.parse((await gunzipAsync(data)).toString("utf8")) as BackupArchive;
+      if (archive.version !== ARCHIVE_VERSION || !Array.isArray(archive.files)) {
+        throw new Error(`unsupported archive version ${archive.version}`);
+      }
+      return archive;
+    } catch (error) {
+      if (error instanceof BackupRejectedError) throw error;
+      throw new BackupCorruptedError(`Archive for backup ${metadata.id} cannot be read: ${(error as Error).message}`);
+    }
+  }
+
+  private async writeArchive(checksum: string, data: Buffer): Promise<void> {
+    const location = this.archiveLocation(checksum);
+    await fs.mkdir(path.dirname(location), { recursive: true });
+
+    // The same bytes are already stored under this name
+    try {
+      await fs.access(location);
+      return;
+    } catch {
+      // Not stored yet
+    }
+
+    const temporary = `${location}.${nanoid(6)}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, location);
+  }
+
+  private encrypt(data: Buffer): Buffer {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv("aes-256-gcm", this.encryptionKey!, iv);
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([ENCRYPTED_MAGIC, iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  private decrypt(data: Buffer): Buffer {
+    if (!this.encryptionKey) {
+      throw new BackupRejectedError("Restoring an encrypted backup needs BACKUP_ENCRYPTION_KEY to be set");
+    }
+
+    const ivStart = ENCRYPTED_MAGIC.length;
+    const tagStart = ivStart + IV_LENGTH;
+    const dataStart = tagStart + TAG_LENGTH;
+
+    const decipher = createDecipheriv("aes-256-gcm", this.encryptionKey, data.subarray(ivStart, tagStart));
+    decipher.setAuthTag(data.subarray(tagStart, dataStart));
+    return Buffer.concat([decipher.update(data.subarray(dataStart)), decipher.final()]);
+  }
+
+  private metadataLocation(backupId: string): string {
+    return path.join(this.backupRoot, "backups", `${backupId}.json`);
+  }
+
+  private archiveLocation(checksum: string): string {
+    return path.join(this.backupRoot, "archives", checksum.slice(0, 2), checksum);
+  }
+}
+
+function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,142 @@
+import { WebSocket } from "ws";
+import * as Y from "yjs";
+import { describe, expect, it } from "vitest";
+import { CollabRooms, CollabSession } from "./collab-socket";
+
+const ROOM = { projectId: "project-1", path: "src/index.ts" };
+
+const encode = (update: Uint8Array) => Buffer.from(update).toString("base64");
+
+/**
+ * Editor holding its own copy of the document, connected through a session
+ */
+class FakeClient {
+  readonly doc = new Y.Doc();
+  readonly messages: Array<{ type: string; payload: any }> = [];
+  readonly session: CollabSession;
+
+  constructor(rooms: CollabRooms, authorize?: (projectId: string) => Promise<{ username: string } | undefined>) {
+    const ws = {
+      readyState: WebSocket.OPEN,
+      send: (data: string) => {
+        const message = JSON.parse(data);
+        this.messages.push(message);
+        if (message.type === "collab:sync" || message.type === "edit") {
+          Y.applyUpdate(this.doc, Buffer.from(message.payload.update, "base64"));
+        }
+      },
+    };
+    this.session = new CollabSession(ws as unknown as WebSocket, authorize, rooms);
+  }
+
+  get text(): string {
+    return this.doc.getText("content").toString();
+  }
+
+  join(content: string): Promise<void> {
+    return this.session.handle("collab:join", { ...ROOM, update: encode(Y.encodeStateAsUpdate(this.doc)), content });
+  }
+
+  leave(): Promise<void> {
+    return this.session.handle("collab:leave", ROOM);
+  }
+
+  type(index: number, text: string): Promise<void> {
+    const before = Y.encodeStateVector(this.doc);
+    this.doc.getText("content").insert(index, text);
+    return this.session.handle("edit", { ...ROOM, update: encode(Y.encodeStateAsUpdate(this.doc, before)) });
+  }
+}
+
+describe("CollabSession", () => {
+  it("seeds a new room from the file once and passes edits on", async () => {
+    const rooms = new CollabRooms();
+    const alice = new FakeClient(rooms);
+    const bob = new FakeClient(rooms);
+
+    await alice.join("hello");
+    await bob.join("hello");
+    await alice.type(5, " world");
+
+    expect(alice.text).toBe("hello world");
+    expect(bob.text).toBe("hello world");
+    expect(bob.messages.find((message) => message.type === "collab:sync")?.payload.users).toHaveLength(1);
+  });
+
+  it("does not double the text when a client rejoins a room that was closed", async () => {
+    const rooms = new CollabRooms();
+    const alice = new FakeClient(rooms);
+    await alice.join("hello");
+    await alice.leave();
+
+    const bob = new FakeClient(rooms);
+    await bob.join("hello");
+    await alice.join("hello");
+
+    expect(alice.text).toBe("hello");
+    expect(bob.text).toBe("hello");
+  });
+
+  it("does not double the text when a client rejoins after the server dropped its rooms", async () => {
+    const alice = new FakeClient(new CollabRooms());
+    await alice.join("hello");
+
+    // A restarted server has no rooms, but seeds the same text the same way
+    const restarted = new CollabRooms();
+    const bob = new FakeClient(restarted);
+    await bob.join("hello");
+    const rejoined = new FakeClient(restarted);
+    Y.applyUpdate(rejoined.doc, Y.encodeStateAsUpdate(alice.doc));
+    await rejoined.join("hello");
+
+    expect(rejoined.text).toBe("hello");
+    expect(bob.text).toBe("hello");
+  });
+
+  it("takes on changes saved to the file while nobody had it open", async () => {
+    const rooms = new CollabRooms();
+    const alice = new FakeClient(rooms);
+    await alice.join("hello");
+    await alice.leave();
+
+    const bob = new FakeClient(rooms);
+    await bob.join("hello there");
+    await alice.join("hello there");
+
+    expect(bob.text).toBe("hello there");
+    expect(alice.text).toBe("hello there");
+  });
+
+  it("refuses to join rooms of projects the user cannot access", async () => {
+    const client = new FakeClient(new CollabRooms(), async (projectId) =>
+      projectId === "own-project" ? { username: "alice" } : undefined,
+    );
+
+    await client.join("hello");
+
+    expect(client.text).toBe("");
+    expect(client.messages).toEqual([
+      expect.objectContaining({ type: "error", payload: expect.objectContaining({ projectId: ROOM.projectId }) }),
+    ]);
+  });
+
+  it("does not join a room for a connection that closed while the user was checked", async () => {
+    const rooms = new CollabRooms();
+    let allow!: () => void;
+    const client = new FakeClient(rooms, () => new Promise((resolve) => {
+      allow = () => resolve({ username: "alice" });
+    }));
+
+    const joining = client.join("hello");
+    await new Promise((resolve) => setImmediate(resolve));
+    client.session.dispose();
+    allow();
+    await joining;
+
+    const bob = new FakeClient(rooms);
+    await bob.join("hello");
+    await bob.type(5, "!");
+
+    expect(client.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,399 @@
+import { createHash, randomUUID } from "crypto";
+import { WebSocket } from "ws";
+import { z } from "zod";
+import * as Y from "yjs";
+import type {
+  CollabMessageType,
+  ICollabEditPayload,
+  ICollabErrorPayload,
+  ICollabPresencePayload,
+  ICollabRoom,
+  ICollabSyncPayload,
+  ICollabUser,
+} from "@shared/api-types";
+
+// Name of the shared text in every room's document
+const COLLAB_TEXT_NAME = "content";
+
+const MAX_ROOMS_PER_CONNECTION = 32;
+// Documents of rooms nobody is in that are kept for when the file is opened again
+const MAX_DORMANT_ROOMS = 500;
+// Base64 characters in one update, about 6 MB of document
+const MAX_UPDATE_LENGTH = 8 * 1024 * 1024;
+
+const roomSchema = {
+  projectId: z.string().min(1).max(200),
+  path: z.string().min(1).max(1024),
+};
+
+const joinSchema = z.object({
+  ...roomSchema,
+  update: z.string().max(MAX_UPDATE_LENGTH),
+  content: z.string().max(MAX_UPDATE_LENGTH),
+});
+
+const editSchema = z.object({
+  ...roomSchema,
+  update: z.string().min(1).max(MAX_UPDATE_LENGTH),
+});
+
+const leaveSchema = z.object(roomSchema);
+
+interface CollabRoom {
+  key: string;
+  projectId: string;
+  path: string;
+  doc: Y.Doc;
+  members: Set<CollabSession>;
+}
+
+/**
+ * Every open room, shared by all connections. When the last member leaves,
+ * the room's document is kept, so clients that still hold a copy of it can
+ * rejoin later without their text being doubled; clients also send their
+ * whole copy when they join, so a restarted server is rebuilt from them.
+ */
+export class CollabRooms {
+  private rooms: Map<string, CollabRoom> = new Map();
+  // Encoded documents of closed rooms, least recently closed first
+  private dormant: Map<string, Uint8Array> = new Map();
+
+  /**
+   * Add a session to a room, creating the room if needed, and merge the
+   * session's copy of the document into it
+   * @param update - Everything the session's copy holds
+   * @param content - Text a new room starts from when the session has no copy
+   * @returns The room and what the session's copy is missing
+   * @throws Error if the update is not a valid Yjs update
+   */
+  join(
+    session: CollabSession,
+    room: ICollabRoom,
+    update: Uint8Array,
+    content: string,
+  ): { room: CollabRoom; missing: Uint8Array } {
+    const key = JSON.stringify([room.projectId, room.path]);
+    let entry = this.rooms.get(key);
+    if (!entry) {
+      entry = this.create(key, room);
+    }
+
+    try {
+      const clientVector = Y.encodeStateVectorFromUpdate(update);
+      const clientHasCopy = Y.decodeStateVector(clientVector).size > 0;
+
+      // Only the server ever seeds a document, so two clients opening the
+      // same file at once cannot both insert its text. A reopened room takes
+      // on changes saved to the file while nobody had it open
+      if (!clientHasCopy && entry.members.size === 0) {
+        if (entry.doc.store.clients.size === 0) {
+          Y.applyUpdate(entry.doc, seedUpdate(content));
+        } else {
+          replaceText(entry.doc.getText(COLLAB_TEXT_NAME), content);
+        }
+      }
+
+      Y.applyUpdate(entry.doc, update, session);
+      entry.members.add(session);
+      return { room: entry, missing: Y.encodeStateAsUpdate(entry.doc, clientVector) };
+    } finally {
+      if (entry.members.size === 0) {
+        this.close(entry);
+      }
+    }
+  }
+
+  /**
+   * Remove a session from a room, closing the room when it empties
+   */
+  leave(session: CollabSession, room: CollabRoom): void {
+    room.members.delete(session);
+    if (room.members.size === 0) {
+      this.close(room);
+      return;
+    }
+
+    for (const member of Array.from(room.members)) {
+      member.notifyLeft(room, session.user);
+    }
+  }
+
+  private create(key: string, room: ICollabRoom): CollabRoom {
+    const entry: CollabRoom = {
+      key,
+      projectId: room.projectId,
+      path: room.path,
+      doc: new Y.Doc(),
+      members: new Set(),
+    };
+
+    const state = this.dormant.get(key);
+    if (state) {
+      this.dormant.delete(key);
+      Y.applyUpdate(entry.doc, state);
+    }
+
+    // Pass every change on to the members that did not make it
+    entry.doc.on("update", (update: Uint8Array, origin: unknown) => {
+      for (const member of Array.from(entry.members)) {
+        if (member !== origin) {
+          member.notifyEdit(entry, update, origin instanceof CollabSession ? origin.user : undefined);
+        }
+      }
+    });
+
+    this.rooms.set(key, entry);
+    return entry;
+  }
+
+  private close(room: CollabRoom): void {
+    if (this.rooms.get(room.key) === room) {
+      this.rooms.delete(room.key);
+      if (room.doc.store.clients.size > 0) {
+        this.dormant.set(room.key, Y.encodeStateAsUpdate(room.doc));
+      }
+      for (const key of Array.from(this.dormant.keys()).slice(0, Math.max(0, this.dormant.size - MAX_DORMANT_ROOMS))) {
+        this.dormant.delete(key);
+      }
+    }
+    room.doc.destroy();
+  }
+}
+
+/**
+ * Document holding the given text as inserted by a client ID derived from
+ * it, so seeding the same text again, after its room's document was
+ * dropped, gives the same items and merges with copies of the earlier seed
+ */
+function seedUpdate(content: string): Uint8Array {
+  const seed = new Y.Doc();
+  seed.clientID = createHash("sha256").update(content).digest().readUInt32BE(0);
+  seed.getText(COLLAB_TEXT_NAME).insert(0, content);
+  const update = Y.encodeStateAsUpdate(seed);
+  seed.destroy();
+  return update;
+}
+
+/**
+ * Change a shared text to the given content, keeping the unchanged start
+ * and end so edits made there by others still apply
+ */
+function replaceText(text: Y.Text, content: string): void {
+  const current = text.toString();
+  if (current === content) return;
+
+  let start = 0;
+  while (start < current.length && start < content.length && current[start] === content[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < content.length - start &&
+    current[current.length - 1 - end] === content[content.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  text.doc!.transact(() => {
+    text.delete(start, current.length - start - end);
+    text.insert(start, content.slice(start, content.length - end));
+  });
+}
+
+export const collabRooms = new CollabRooms();
+
+/**
+ * The rooms one WebSocket connection has joined. Messages are handled one
+ * at a time and in order, so an edit sent right after a join always finds
+ * the room joined.
+ */
+export class CollabSession {
+  readonly user: ICollabUser = { id: randomUUID(), username: "anonymous" };
+  private rooms: Map<string, CollabRoom> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+  private disposed = false;
+
+  /**
+   * @param ws - Connection the session talks over
+   * @param authorize - Resolves the connection's signed-in user if they may
+   *   edit the project's files, or undefined; other rooms cannot be joined
+   * @param registry - Registry the session's rooms live in
+   */
+  constructor(
+    private ws: WebSocket,
+    private authorize: (projectId: string) => Promise<{ username: string } | undefined> = async () => ({ username: "anonymous" }),
+    private registry: CollabRooms = collabRooms,
+  ) {}
+
+  /**
+   * Whether a message type is one a client sends to the collaboration protocol
+   */
+  handles(type: unknown): type is CollabMessageType {
+    return type === "collab:join" || type === "collab:leave" || type === "edit";
+  }
+
+  /**
+   * Handle an incoming collab:join, collab:leave or edit message
+   */
+  handle(type: CollabMessageType, payload: unknown): Promise<void> {
+    const next = this.queue.then(() => this.process(type, payload));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Leave every room the connection is in
+   */
+  dispose(): void {
+    this.disposed = true;
+    for (const room of Array.from(this.rooms.values())) {
+      this.registry.leave(this, room);
+    }
+    this.rooms.clear();
+  }
+
+  /**
+   * Send a change made by someone else in a room
+   * @param from - Who made the change, sent as the message's userId
+   */
+  notifyEdit(room: CollabRoom, update: Uint8Array, from?: ICollabUser): void {
+    this.send<ICollabEditPayload>(
+      "edit",
+      {
+        projectId: room.projectId,
+        path: room.path,
+        update: Buffer.from(update).toString("base64"),
+      },
+      from?.id,
+    );
+  }
+
+  /**
+   * Tell the client someone joined one of its rooms
+   */
+  notifyJoined(room: CollabRoom, user: ICollabUser): void {
+    this.send<ICollabPresencePayload>("user_joined", { projectId: room.projectId, path: room.path, user });
+  }
+
+  /**
+   * Tell the client someone left one of its rooms
+   */
+  notifyLeft(room: CollabRoom, user: ICollabUser): void {
+    this.send<ICollabPresencePayload>("user_left", { projectId: room.projectId, path: room.path, user });
+  }
+
+  private async process(type: CollabMessageType, payload: unknown): Promise<void> {
+    switch (type) {
+      case "collab:join": {
+        const parsed = joinSchema.safeParse(payload);
+        if (!parsed.success) {
+          this.sendError(payload, "Invalid collab:join payload");
+          return;
+        }
+        await this.join(parsed.data);
+        break;
+      }
+      case "edit": {
+        const parsed = editSchema.safeParse(payload);
+        if (!parsed.success) {
+          this.sendError(payload, "Invalid edit payload");
+          return;
+        }
+        this.edit(parsed.data);
+        break;
+      }
+      case "collab:leave": {
+        const parsed = leaveSchema.safeParse(payload);
+        if (parsed.success) {
+          this.leave(parsed.data);
+        }
+        break;
+      }
+    }
+  }
+
+  private async join(request: z.infer<typeof joinSchema>): Promise<void> {
+    const user = await this.authorize(request.projectId);
+    // The connection closed while the user was being checked
+    if (this.disposed) return;
+    if (!user) {
+      this.sendError(request, "Not signed in, or the project was not found");
+      return;
+    }
+    this.user.username = user.username;
+
+    // Joining again, as a client does after reconnecting, merges its copy anew
+    const key = JSON.stringify([request.projectId, request.path]);
+    const current = this.rooms.get(key);
+    if (current) {
+      this.rooms.delete(key);
+      this.registry.leave(this, current);
+    }
+
+    if (this.rooms.size >= MAX_ROOMS_PER_CONNECTION) {
+      this.sendError(request, `No more than ${MAX_ROOMS_PER_CONNECTION} files can be edited together at once`);
+      return;
+    }
+
+    let joined: ReturnType<CollabRooms["join"]>;
+    try {
+      joined = this.registry.join(this, request, Buffer.from(request.update, "base64"), request.content);
+    } catch (error) {
+      this.sendError(request, `Invalid document update: ${(error as Error).message}`);
+      return;
+    }
+
+    const { room, missing } = joined;
+    this.rooms.set(key, room);
+
+    const others = Array.from(room.members).filter((member) => member !== this);
+    this.send<ICollabSyncPayload>("collab:sync", {
+      projectId: room.projectId,
+      path: room.path,
+      update: Buffer.from(missing).toString("base64"),
+      users: others.map((member) => ({ ...member.user })),
+    });
+    for (const member of others) {
+      member.notifyJoined(room, { ...this.user });
+    }
+  }
+
+  private edit(request: z.infer<typeof editSchema>): void {
+    const room = this.rooms.get(JSON.stringify([request.projectId, request.path]));
+    if (!room) {
+      this.sendError(request, "Join the file before editing it");
+      return;
+    }
+
+    try {
+      Y.applyUpdate(room.doc, Buffer.from(request.update, "base64"), this);
+    } catch (error) {
+      this.sendError(request, `Invalid document update: ${(error as Error).message}`);
+    }
+  }
+
+  private leave(request: ICollabRoom): void {
+    const key = JSON.stringify([request.projectId, request.path]);
+    const room = this.rooms.get(key);
+    if (!room) return;
+
+    this.rooms.delete(key);
+    this.registry.leave(this, room);
+  }
+
+  private sendError(request: unknown, message: string): void {
+    const room = (request ?? {}) as Partial<ICollabRoom>;
+    this.send<ICollabErrorPayload>("error", {
+      projectId: String(room.projectId ?? ""),
+      path: String(room.path ?? ""),
+      message,
+    });
+  }
+
+  private send<T>(type: CollabMessageType, payload: T, userId?: string): void {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+
+    this.ws.send(JSON.stringify({ type, payload, timestamp: Date.now(), userId }));
+  }
+}
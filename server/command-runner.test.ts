@@ -0,0 +1,62 @@
+import { promises as fs, mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CommandRejectedError, CommandRunner } from "./command-runner";
+
+describe("CommandRunner", () => {
+  let root: string;
+  let runner: CommandRunner;
+
+  const stored = (filePath: string, content: string, lastModified = new Date(Date.now() - 1000)) =>
+    ({ path: filePath, content, lastModified });
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), "command-runner-"));
+    runner = new CommandRunner({ workspaceRoot: root, sandbox: "none" });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("removes files storage no longer has but keeps files made in the workspace", async () => {
+    await runner.writeProjectFiles("project-1", [stored("a.txt", "A"), stored("src/b.txt", "B")]);
+    await fs.writeFile(path.join(root, "project-1", "build.log"), "made by a command");
+
+    await runner.writeProjectFiles("project-1", [stored("a.txt", "A")]);
+
+    await expect(fs.readFile(path.join(root, "project-1", "a.txt"), "utf8")).resolves.toBe("A");
+    await expect(fs.stat(path.join(root, "project-1", "src", "b.txt"))).rejects.toThrow();
+    await expect(fs.readFile(path.join(root, "project-1", "build.log"), "utf8")).resolves.toBe("made by a command");
+  });
+
+  it("refuses to write a project file through a symlink", async () => {
+    const outside = path.join(root, "outside.txt");
+    await fs.writeFile(outside, "untouched");
+    await fs.mkdir(path.join(root, "project-1"));
+    await fs.symlink(outside, path.join(root, "project-1", "a.txt"));
+    await fs.symlink(root, path.join(root, "project-1", "src"));
+
+    await expect(runner.writeProjectFiles("project-1", [stored("a.txt", "changed", new Date())]))
+      .rejects.toThrow(CommandRejectedError);
+    await expect(runner.writeProjectFiles("project-1", [stored("src/outside.txt", "changed", new Date())]))
+      .rejects.toThrow(CommandRejectedError);
+    await expect(fs.readFile(outside, "utf8")).resolves.toBe("untouched");
+  });
+
+  it("refuses to run commands when bwrap is missing unless opted out", async () => {
+    const sandboxed = new CommandRunner({ workspaceRoot: root, sandbox: "bwrap" });
+    const pathBefore = process.env.PATH;
+    process.env.PATH = root;
+    try {
+      await expect(sandboxed.execute({ command: "echo hi", projectId: "project-1" }))
+        .rejects.toThrow(/COMMAND_SANDBOX=none/);
+    } finally {
+      process.env.PATH = pathBefore;
+    }
+
+    const result = await runner.execute({ command: "echo hi", projectId: "project-1" });
+    expect(result.stdout).toBe("hi\n");
+  });
+});
@@ -0,0 +1,436 @@
+import { spawn } from "child_process";
+import { constants as fsConstants, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { ICommandExecutionRequest, ICommandExecutionResponse } from "@shared/api-types";
+import type { ProjectFile } from "@shared/schema";
+
+export interface CommandRunnerOptions {
+  /** Root directory under which every project gets its own workspace */
+  workspaceRoot?: string;
+  /** Default time limit for a single command, in milliseconds */
+  timeoutMs?: number;
+  /** Maximum combined stdout/stderr size kept per command, in bytes */
+  maxOutputBytes?: number;
+  /**
+   * How commands are isolated: "bwrap" runs each one in a bubblewrap
+   * sandbox, "none" runs them unconfined as the server's own user
+   */
+  sandbox?: "bwrap" | "none";
+}
+
+/**
+ * Error raised when a command request cannot be run as given
+ * (e.g. its working directory escapes the project workspace)
+ */
+export class CommandRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandRejectedError";
+  }
+}
+
+export interface CommandOutputHandlers {
+  onStdout: (chunk: Buffer) => void;
+  onStderr: (chunk: Buffer) => void;
+}
+
+/**
+ * Program and arguments to spawn for a command
+ */
+export interface SpawnTarget {
+  file: string;
+  args: string[];
+}
+
+export interface CommandLimits {
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+}
+
+export interface CommandExit {
+  exitCode: number;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  truncated: boolean;
+  /** Explanation appended to stderr when a limit stopped the process */
+  notice: string;
+}
+
+/**
+ * Handle to a command started with {@link CommandRunner.start}
+ */
+export interface RunningCommand {
+  pid?: number;
+  exited: Promise<CommandExit>;
+  cancel: (signal?: NodeJS.Signals) => void;
+}
+
+/**
+ * Runs shell commands on the server, each inside a workspace directory
+ * of its own project (or of its user, outside a project), with a time
+ * limit and an output size cap.
+ *
+ * Each command runs in a bubblewrap sandbox with new user, PID and IPC
+ * namespaces, where its workspace is the only writable mount and the
+ * other workspaces are not mounted at all. Without bwrap, commands are
+ * refused unless COMMAND_SANDBOX=none opts into running them unconfined.
+ */
+export class CommandRunner {
+  readonly workspaceRoot: string;
+  readonly timeoutMs: number;
+  readonly maxOutputBytes: number;
+  readonly sandbox: "bwrap" | "none";
+  private bwrapPath?: Promise<string | undefined>;
+
+  constructor(options: CommandRunnerOptions = {}) {
+    this.workspaceRoot = path.resolve(
+      options.workspaceRoot || process.env.WORKSPACE_ROOT || path.join(os.tmpdir(), "maik-workspaces"),
+    );
+    this.timeoutMs = options.timeoutMs ?? parseInt(process.env.COMMAND_TIMEOUT_MS || "30000", 10);
+    this.maxOutputBytes = options.maxOutputBytes ?? parseInt(process.env.COMMAND_MAX_OUTPUT_BYTES || "1048576", 10);
+    this.sandbox = options.sandbox ?? (process.env.COMMAND_SANDBOX === "none" ? "none" : "bwrap");
+  }
+
+  /**
+   * Get (and create if needed) the workspace directory of a project
+   */
+  async getProjectDirectory(projectId?: string): Promise<string> {
+    if (!projectId) {
+      throw new CommandRejectedError("No workspace given for the command");
+    }
+    if (!/^[A-Za-z0-9_-]+$/.test(projectId)) {
+      throw new CommandRejectedError(`Invalid project id: ${projectId}`);
+    }
+
+    const projectDir = path.join(this.workspaceRoot, projectId);
+    await fs.mkdir(projectDir, { recursive: true });
+    return projectDir;
+  }
+
+  /**
+   * Write a project's stored files into its workspace. Files are only
+   * written when the stored copy is newer, so changes made in the
+   * workspace (by a shell, say) are kept until the file is saved again.
+   * Files written by an earlier call that storage no longer has are
+   * removed. Symlinks are never followed, so a command cannot point a
+   * project file at something outside the workspace.
+   */
+  async writeProjectFiles(
+    projectId: string,
+    files: Array<Pick<ProjectFile, "path" | "content" | "lastModified">>,
+  ): Promise<void> {
+    const projectDir = await this.getProjectDirectory(projectId);
+    const manifestPath = path.join(this.workspaceRoot, ".manifests", `${projectId}.json`);
+    const previous: string[] = await fs.readFile(manifestPath, "utf8").then(JSON.parse, () => []);
+
+    const written = new Set<string>();
+    for (const file of files) {
+      const target = this.resolveProjectFile(projectDir, file.path);
+      written.add(path.relative(projectDir, target));
+      await this.assertNoSymlinks(projectDir, target);
+
+      const stat = await fs.lstat(target).catch(() => null);
+      if (stat && stat.mtimeMs >= file.lastModified.getTime()) continue;
+
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content, {
+        encoding: "utf8",
+        flag: fsConstants.O_WRONLY | fsConstants.O_CREAT | fsConstants.O_TRUNC | fsConstants.O_NOFOLLOW,
+      });
+      // Stamp the stored time, so the next write can tell whether either side changed
+      await fs.utimes(target, file.lastModified, file.lastModified);
+    }
+
+    for (const relative of previous) {
+      if (written.has(relative)) continue;
+
+      const target = this.resolveProjectFile(projectDir, relative);
+      await this.assertNoSymlinks(projectDir, path.dirname(target));
+      const stat = await fs.lstat(target).catch(() => null);
+      if (stat && !stat.isDirectory()) {
+        await fs.unlink(target);
+      }
+    }
+
+    await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+    await fs.writeFile(manifestPath, JSON.stringify(Array.from(written)), "utf8");
+  }
+
+  /**
+   * Resolve the directory a command runs in. Relative paths are taken
+   * from the project workspace, and nothing outside of it is allowed.
+   */
+  async resolveWorkingDirectory(projectId?: string, workingDirectory?: string): Promise<string> {
+    const projectDir = await this.getProjectDirectory(projectId);
+    if (!workingDirectory) {
+      return projectDir;
+    }
+
+    const resolved = path.resolve(projectDir, workingDirectory.replace(/^\/+/, ""));
+    const relative = path.relative(projectDir, resolved);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new CommandRejectedError(`Working directory is outside the project workspace: ${workingDirectory}`);
+    }
+
+    const stat = await fs.stat(resolved).catch(() => null);
+    if (!stat || !stat.isDirectory()) {
+      throw new CommandRejectedError(`Working directory does not exist: ${workingDirectory}`);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Program and arguments that run `argv` in the sandbox of a workspace.
+   * Interactive shells keep the session's terminal; other commands get a
+   * session of their own, so they cannot inject input into the server's.
+   */
+  async wrap(
+    argv: string[],
+    projectDir: string,
+    cwd: string,
+    options: { interactive?: boolean } = {},
+  ): Promise<SpawnTarget> {
+    if (this.sandbox === "none") {
+      return { file: argv[0], args: argv.slice(1) };
+    }
+
+    this.bwrapPath ??= findExecutable("bwrap");
+    const bwrap = await this.bwrapPath;
+    if (!bwrap) {
+      throw new CommandRejectedError(
+        "Commands run in a bubblewrap sandbox, but bwrap is not installed. " +
+        "Install it, or set COMMAND_SANDBOX=none to run commands unconfined",
+      );
+    }
+
+    const args = [
+      "--unshare-all",
+      "--share-net",
+      "--die-with-parent",
+      "--uid", "1000",
+      "--gid", "1000",
+      "--ro-bind", "/usr", "/usr",
+      "--ro-bind-try", "/bin", "/bin",
+      "--ro-bind-try", "/sbin", "/sbin",
+      "--ro-bind-try", "/lib", "/lib",
+      "--ro-bind-try", "/lib64", "/lib64",
+      "--ro-bind-try", "/etc/alternatives", "/etc/alternatives",
+      "--ro-bind-try", "/etc/ssl", "/etc/ssl",
+      "--ro-bind-try", "/etc/resolv.conf", "/etc/resolv.conf",
+      "--ro-bind-try", "/etc/hosts", "/etc/hosts",
+      "--proc", "/proc",
+      "--dev", "/dev",
+      "--tmpfs", "/tmp",
+    ];
+
+    // Node may be installed outside /usr (nvm, a tarball under /opt)
+    const nodePrefix = path.dirname(path.dirname(process.execPath));
+    if (!nodePrefix.startsWith("/usr/")) {
+      args.push("--ro-bind", nodePrefix, nodePrefix);
+    }
+
+    args.push("--bind", projectDir, projectDir, "--chdir", cwd);
+    if (!options.interactive) {
+      args.push("--new-session");
+    }
+
+    return { file: bwrap, args: [...args, "--", ...argv] };
+  }
+
+  /**
+   * Run a command to completion and collect its output
+   */
+  async execute(request: ICommandExecutionRequest): Promise<ICommandExecutionResponse> {
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    const running = await this.start(request, {
+      onStdout: (chunk) => stdout.push(chunk),
+      onStderr: (chunk) => stderr.push(chunk),
+    }, {
+      timeoutMs: request.timeout ?? this.timeoutMs,
+      maxOutputBytes: this.maxOutputBytes,
+    });
+
+    const exit = await running.exited;
+    return {
+      stdout: Buffer.concat(stdout).toString("utf8"),
+      stderr: Buffer.concat(stderr).toString("utf8") + exit.notice,
+      exitCode: exit.exitCode,
+      timedOut: exit.timedOut,
+      truncated: exit.truncated,
+    };
+  }
+
+  /**
+   * Start a command and stream its output through the given handlers.
+   * Limits are opt-in here so long-running processes (dev servers,
+   * watchers) can keep going until they are cancelled.
+   */
+  async start(
+    request: ICommandExecutionRequest,
+    handlers: CommandOutputHandlers,
+    limits: CommandLimits = {},
+  ): Promise<RunningCommand> {
+    const cwd = await this.resolveWorkingDirectory(request.projectId, request.workingDirectory);
+    const projectDir = await this.getProjectDirectory(request.projectId);
+    const { timeoutMs, maxOutputBytes } = limits;
+
+    const { file, args } = await this.wrap(shellCommand(request.command), projectDir, cwd);
+    const child = spawn(file, args, {
+      cwd,
+      env: this.buildEnvironment(projectDir),
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    });
+
+    let outputBytes = 0;
+    let truncated = false;
+    let timedOut = false;
+
+    const forward = (handler: (chunk: Buffer) => void) => (chunk: Buffer) => {
+      if (truncated) return;
+
+      if (maxOutputBytes !== undefined) {
+        const remaining = maxOutputBytes - outputBytes;
+        if (chunk.length > remaining) {
+          if (remaining > 0) handler(chunk.subarray(0, remaining));
+          outputBytes = maxOutputBytes;
+          truncated = true;
+          this.kill(child.pid);
+          return;
+        }
+        outputBytes += chunk.length;
+      }
+
+      handler(chunk);
+    };
+
+    child.stdout!.on("data", forward(handlers.onStdout));
+    child.stderr!.on("data", forward(handlers.onStderr));
+
+    const timer = timeoutMs !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          this.kill(child.pid);
+        }, timeoutMs)
+      : undefined;
+
+    const exited = new Promise<CommandExit>((resolve, reject) => {
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      child.on("close", (code, signal) => {
+        clearTimeout(timer);
+
+        let notice = "";
+        if (timedOut) {
+          notice = `\nCommand timed out after ${timeoutMs}ms\n`;
+        } else if (truncated) {
+          notice = `\nOutput exceeded ${maxOutputBytes} bytes; command was stopped\n`;
+        }
+
+        resolve({
+          // Follow the shell convention of 128 + signal number for killed processes
+          exitCode: code ?? (signal ? 128 + (os.constants.signals[signal] ?? 0) : 1),
+          signal,
+          timedOut,
+          truncated,
+          notice,
+        });
+      });
+    });
+
+    return {
+      pid: child.pid,
+      exited,
+      cancel: (signal = "SIGTERM") => this.kill(child.pid, signal),
+    };
+  }
+
+  /**
+   * Environment for child processes: only a minimal set of variables
+   * from the server is passed through, so API keys and secrets stay out.
+   */
+  buildEnvironment(projectDir: string): NodeJS.ProcessEnv {
+    return {
+      PATH: process.env.PATH,
+      LANG: process.env.LANG || "C.UTF-8",
+      TERM: "xterm-256color",
+      HOME: projectDir,
+      NODE_ENV: "development",
+    };
+  }
+
+  /**
+   * Resolve a project file path, which must stay inside the workspace
+   */
+  private resolveProjectFile(projectDir: string, filePath: string): string {
+    const target = path.resolve(projectDir, filePath);
+    const relative = path.relative(projectDir, target);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new CommandRejectedError(`File is outside the project workspace: ${filePath}`);
+    }
+    return target;
+  }
+
+  /**
+   * Refuse a path inside the workspace that goes through a symlink
+   */
+  private async assertNoSymlinks(projectDir: string, target: string): Promise<void> {
+    let current = projectDir;
+    for (const part of path.relative(projectDir, target).split(path.sep).filter(Boolean)) {
+      current = path.join(current, part);
+      const stat = await fs.lstat(current).catch(() => null);
+      if (!stat) return;
+      if (stat.isSymbolicLink()) {
+        throw new CommandRejectedError(`Refusing to write through a symlink: ${path.relative(projectDir, current)}`);
+      }
+    }
+  }
+
+  /**
+   * Signal a process together with everything it spawned
+   */
+  private kill(pid?: number, signal: NodeJS.Signals = "SIGKILL"): void {
+    if (!pid) return;
+
+    try {
+      // Negative pid targets the whole process group created by `detached`
+      process.kill(process.platform === "win32" ? pid : -pid, signal);
+    } catch {
+      // Process already exited
+    }
+  }
+}
+
+/**
+ * Arguments that run a command line through the platform's shell
+ */
+function shellCommand(command: string): string[] {
+  return process.platform === "win32"
+    ? [process.env.ComSpec || "cmd.exe", "/d", "/s", "/c", command]
+    : ["/bin/sh", "-c", command];
+}
+
+/**
+ * Find a program on the PATH, resolving undefined when it is not there
+ */
+async function findExecutable(name: string): Promise<string | undefined> {
+  for (const dir of (process.env.PATH || "").split(path.delimiter).filter(Boolean)) {
+    const candidate = path.join(dir, name);
+    try {
+      await fs.access(candidate, fsConstants.X_OK);
+      return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return undefined;
+}
+
+export const commandRunner = new CommandRunner();
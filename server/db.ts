@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Connect to the Postgres database at the given URL
+ */
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
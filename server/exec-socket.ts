@@ -0,0 +1,194 @@
+import { WebSocket } from "ws";
+import { z } from "zod";
+import type {
+  ExecMessageType,
+  IExecExitPayload,
+  IExecOutputPayload,
+  IExecStartPayload,
+} from "@shared/api-types";
+import { commandRunner, type RunningCommand } from "./command-runner";
+
+const startSchema = z.object({
+  id: z.string().min(1),
+  command: z.string().min(1),
+  workingDirectory: z.string().optional(),
+  projectId: z.string().optional(),
+  timeout: z.number().int().positive().optional(),
+});
+
+const cancelSchema = z.object({
+  id: z.string().min(1),
+});
+
+/**
+ * Splits a byte stream into lines, holding back a trailing partial line
+ * until the rest of it arrives (or the stream ends).
+ */
+class LineBuffer {
+  private pending = "";
+
+  push(chunk: Buffer): string[] {
+    const lines = (this.pending + chunk.toString("utf8")).split(/\r?\n/);
+    this.pending = lines.pop() ?? "";
+    return lines;
+  }
+
+  flush(): string[] {
+    const rest = this.pending;
+    this.pending = "";
+    return rest ? [rest] : [];
+  }
+}
+
+/**
+ * Streams commands started over one WebSocket connection. Every process
+ * belongs to its connection and is stopped when the connection closes.
+ */
+export class ExecSession {
+  // Undefined while a process is still being started, so its id stays taken
+  private processes: Map<string, RunningCommand | undefined> = new Map();
+  // Processes cancelled before they finished starting
+  private cancelled: Set<string> = new Set();
+  private disposed = false;
+
+  /**
+   * @param ws - Connection the session talks over
+   * @param resolveWorkspace - Checked before anything is started; resolves
+   *   the workspace the command runs in for the requested project, or
+   *   undefined when the connection's user may not run one there
+   */
+  constructor(
+    private ws: WebSocket,
+    private resolveWorkspace: (projectId?: string) => Promise<string | undefined>,
+  ) {}
+
+  /**
+   * Whether a message type belongs to the exec protocol
+   */
+  handles(type: unknown): type is ExecMessageType {
+    return typeof type === "string" && type.startsWith("exec:");
+  }
+
+  /**
+   * Handle an incoming exec:start or exec:cancel message
+   */
+  async handle(type: ExecMessageType, payload: unknown): Promise<void> {
+    if (type === "exec:start") {
+      const parsed = startSchema.safeParse(payload);
+      if (!parsed.success) {
+        this.send("exec:exit", {
+          id: (payload as { id?: string })?.id ?? "",
+          exitCode: 1,
+          error: "Invalid exec:start payload",
+        });
+        return;
+      }
+      await this.start(parsed.data);
+    } else if (type === "exec:cancel") {
+      const parsed = cancelSchema.safeParse(payload);
+      if (parsed.success) {
+        this.cancel(parsed.data.id);
+      }
+    }
+  }
+
+  /**
+   * Stop every process started by this connection
+   */
+  dispose(): void {
+    this.disposed = true;
+    for (const running of Array.from(this.processes.values())) {
+      running?.cancel("SIGKILL");
+    }
+    this.processes.clear();
+  }
+
+  private async start(request: IExecStartPayload): Promise<void> {
+    const { id } = request;
+    if (this.processes.has(id)) {
+      this.send("exec:exit", { id, exitCode: 1, error: `Process ${id} is already running` });
+      return;
+    }
+    this.processes.set(id, undefined);
+
+    try {
+      await this.run(id, request);
+    } finally {
+      this.processes.delete(id);
+      this.cancelled.delete(id);
+    }
+  }
+
+  private async run(id: string, request: IExecStartPayload): Promise<void> {
+    const stdout = new LineBuffer();
+    const stderr = new LineBuffer();
+    const emit = (type: "exec:stdout" | "exec:stderr", lines: string[]) => {
+      for (const line of lines) {
+        this.send(type, { id, line } satisfies IExecOutputPayload);
+      }
+    };
+
+    let running: RunningCommand;
+    try {
+      const workspaceId = await this.resolveWorkspace(request.projectId);
+      if (!workspaceId) {
+        this.send("exec:exit", { id, exitCode: 1, error: "Not signed in, or the project was not found" });
+        return;
+      }
+
+      running = await commandRunner.start({ ...request, projectId: workspaceId }, {
+        onStdout: (chunk) => emit("exec:stdout", stdout.push(chunk)),
+        onStderr: (chunk) => emit("exec:stderr", stderr.push(chunk)),
+      }, {
+        timeoutMs: request.timeout,
+      });
+    } catch (error) {
+      this.send("exec:exit", { id, exitCode: 1, error: (error as Error).message });
+      return;
+    }
+
+    // The connection closed while the command was being started
+    if (this.disposed) {
+      running.cancel("SIGKILL");
+      return;
+    }
+    this.processes.set(id, running);
+    if (this.cancelled.has(id)) {
+      running.cancel();
+    }
+
+    try {
+      const exit = await running.exited;
+      emit("exec:stdout", stdout.flush());
+      emit("exec:stderr", stderr.flush());
+      if (exit.notice) {
+        emit("exec:stderr", [exit.notice.trim()]);
+      }
+      this.send("exec:exit", {
+        id,
+        exitCode: exit.exitCode,
+        signal: exit.signal,
+        timedOut: exit.timedOut,
+      });
+    } catch (error) {
+      this.send("exec:exit", { id, exitCode: 1, error: (error as Error).message });
+    }
+  }
+
+  private cancel(id: string): void {
+    if (!this.processes.has(id)) return;
+
+    const running = this.processes.get(id);
+    if (running) {
+      running.cancel();
+    } else {
+      this.cancelled.add(id);
+    }
+  }
+
+  private send(type: ExecMessageType, payload: IExecOutputPayload | IExecExitPayload): void {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+
+    this.ws.send(JSON.stringify({ type, payload, timestamp: Date.now() }));
+  }
+}
@@ -0,0 +1,57 @@
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { GitSync, GitSyncRejectedError } from "./git-sync";
+
+describe("GitSync", () => {
+  let root: string;
+  let remote: string;
+
+  // Two servers syncing the same project to one remote
+  let first: GitSync;
+  let second: GitSync;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), "git-sync-"));
+    remote = path.join(root, "remote.git");
+    execFileSync("git", ["init", "--quiet", "--bare", "--initial-branch=main", remote]);
+
+    first = new GitSync({ remote, branch: "main", cloneRoot: path.join(root, "first") });
+    second = new GitSync({ remote, branch: "main", cloneRoot: path.join(root, "second") });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("pushes the project's files and pulls them into another clone", async () => {
+    const pushed = await first.sync("project-1", [{ path: "src/index.ts", content: "export {};\n" }]);
+    expect(pushed).toMatchObject({ status: "success", committed: true, pushed: true });
+
+    const pulled = await second.sync("project-1", []);
+    expect(pulled.status).toBe("success");
+    expect(pulled.pulled).toEqual([{ path: "src/index.ts", content: "export {};\n" }]);
+  });
+
+  it("reports files both sides changed and settles them when asked", async () => {
+    await first.sync("project-1", [{ path: "README.md", content: "start\n" }]);
+    await second.sync("project-1", []);
+    await first.sync("project-1", [{ path: "README.md", content: "first\n" }]);
+
+    const conflict = await second.sync("project-1", [{ path: "README.md", content: "second\n" }]);
+    expect(conflict).toMatchObject({ status: "conflict", conflicts: ["README.md"], pushed: false });
+
+    const resolved = await second.sync("project-1", [{ path: "README.md", content: "second\n" }], { resolve: "theirs" });
+    expect(resolved).toMatchObject({ status: "success", pushed: true });
+    expect(resolved.pulled).toEqual([{ path: "README.md", content: "first\n" }]);
+  });
+
+  it("refuses paths into the clone's .git directory", async () => {
+    await expect(first.sync("project-1", [{ path: "src/.GIT/config", content: "" }]))
+      .rejects.toBeInstanceOf(GitSyncRejectedError);
+    await expect(first.sync("project-1", [{ path: ".git/hooks/post-commit", content: "" }]))
+      .rejects.toBeInstanceOf(GitSyncRejectedError);
+  });
+});
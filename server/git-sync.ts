@@ -0,0 +1,289 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import { promisify } from "util";
+import { normalizeProjectFilePath } from "./storage";
+
+const execFileAsync = promisify(execFile);
+
+// Output of git commands is small, but a large diff should not be cut off
+const GIT_MAX_BUFFER = 16 * 1024 * 1024;
+
+export interface GitSyncOptions {
+  /** Remote repository URL or path; "{projectId}" is replaced per project */
+  remote?: string;
+  /** Branch the projects are synced to */
+  branch?: string;
+  /** Directory holding one working clone per project */
+  cloneRoot?: string;
+}
+
+export interface SyncFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * A file changed by the remote: new content, or null when it was deleted
+ */
+export interface PulledFile {
+  path: string;
+  content: string | null;
+}
+
+export interface SyncRequestOptions {
+  /** Name recorded as the commit author */
+  author?: string;
+  /** Settle conflicting hunks in favour of the local or the remote side */
+  resolve?: "ours" | "theirs";
+}
+
+export interface GitSyncResult {
+  status: "success" | "conflict";
+  /** Commit now at the tip of the branch (or the local commit on conflict) */
+  commit: string;
+  /** Whether a local commit was created for the given files */
+  committed: boolean;
+  /** Whether the branch was pushed to the remote */
+  pushed: boolean;
+  /** Files changed by remote commits that were merged in */
+  pulled: PulledFile[];
+  /** Files both sides changed; set when status is "conflict" */
+  conflicts: string[];
+}
+
+/**
+ * Error raised when git sync is not configured or the project id is unusable
+ */
+export class GitSyncRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitSyncRejectedError";
+  }
+}
+
+/**
+ * Error raised when a git command fails
+ */
+export class GitCommandError extends Error {
+  constructor(message: string, public readonly stderr: string) {
+    super(message);
+    this.name = "GitCommandError";
+  }
+}
+
+/**
+ * Syncs project files with a git remote. Every project has a working clone
+ * whose branch tip is the state last synced; a sync commits the project's
+ * current files on top of it, merges the remote branch and pushes. When the
+ * remote changed the same files the merge is abandoned and the conflicting
+ * paths are reported; the local commit stays and the next sync can settle
+ * them with `resolve: "ours" | "theirs"`.
+ */
+export class GitSync {
+  readonly remote: string | undefined;
+  readonly branch: string;
+  readonly cloneRoot: string;
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(options: GitSyncOptions = {}) {
+    this.remote = options.remote ?? process.env.GIT_SYNC_REMOTE;
+    this.branch = options.branch || process.env.GIT_SYNC_BRANCH || "main";
+    this.cloneRoot = path.resolve(
+      options.cloneRoot || process.env.GIT_SYNC_ROOT || path.join(process.env.DATA_DIR || "data", "sync"),
+    );
+  }
+
+  /**
+   * Whether a remote has been configured
+   */
+  isConfigured(): boolean {
+    return !!this.remote;
+  }
+
+  /**
+   * Commit the given files, merge remote changes and push
+   * @param projectId - Project the files belong to
+   * @param files - The project's complete current file tree
+   * @param options - Commit author and conflict resolution
+   * @returns Outcome of the sync
+   */
+  sync(projectId: string, files: SyncFile[], options: SyncRequestOptions = {}): Promise<GitSyncResult> {
+    if (!this.remote) {
+      throw new GitSyncRejectedError("Git sync is not configured; set GIT_SYNC_REMOTE");
+    }
+    if (!/^[A-Za-z0-9_-]+$/.test(projectId)) {
+      throw new GitSyncRejectedError(`Invalid project id: ${projectId}`);
+    }
+
+    // Syncs of one project run one after another against its clone
+    const previous = this.queues.get(projectId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.runSync(projectId, files, options));
+    this.queues.set(projectId, next);
+    next.finally(() => {
+      if (this.queues.get(projectId) === next) {
+        this.queues.delete(projectId);
+      }
+    }).catch(() => undefined);
+    return next;
+  }
+
+  private async runSync(projectId: string, files: SyncFile[], options: SyncRequestOptions): Promise<GitSyncResult> {
+    const directory = await this.prepareClone(projectId);
+    const git = (...args: string[]) => this.git(directory, args, options.author);
+
+    await git("fetch", "--quiet", "origin");
+    const remoteRef = `refs/remotes/origin/${this.branch}`;
+    const remoteExists = await this.refExists(directory, remoteRef);
+
+    // Record the project's current state on top of the last synced state
+    await this.writeTree(directory, files);
+    await git("add", "--all");
+    const committed = (await git("status", "--porcelain")).trim() !== "";
+    if (committed) {
+      await git("commit", "--quiet", "-m", `Sync ${projectId} from MAIK IDE`);
+    }
+
+    const hasLocalCommit = await this.refExists(directory, "HEAD");
+    if (!hasLocalCommit && !remoteExists) {
+      // Nothing on either side yet
+      return { status: "success", commit: "", committed: false, pushed: false, pulled: [], conflicts: [] };
+    }
+
+    const localCommit = hasLocalCommit ? (await git("rev-parse", "HEAD")).trim() : null;
+    let pulled: PulledFile[] = [];
+
+    if (remoteExists) {
+      if (!localCommit) {
+        // First sync of an empty project: take the remote as it is
+        await git("checkout", "--quiet", "-B", this.branch, remoteRef);
+        pulled = await this.readFiles(directory, await this.listTrackedFiles(directory));
+      } else {
+        try {
+          const strategy = options.resolve ? ["-X", options.resolve] : [];
+          await git("merge", "--quiet", "--no-edit", "--allow-unrelated-histories", ...strategy, remoteRef);
+        } catch (error) {
+          const conflicts = (await git("diff", "--name-only", "--diff-filter=U"))
+            .split("\n")
+            .filter(Boolean);
+          await git("merge", "--abort").catch(() => undefined);
+
+          if (conflicts.length === 0) {
+            throw error;
+          }
+          return { status: "conflict", commit: localCommit, committed, pushed: false, pulled: [], conflicts };
+        }
+
+        pulled = await this.changedSince(directory, localCommit);
+      }
+    }
+
+    const head = (await git("rev-parse", "HEAD")).trim();
+    const remoteHead = remoteExists ? (await git("rev-parse", remoteRef)).trim() : null;
+    const pushed = head !== remoteHead;
+    if (pushed) {
+      await git("push", "--quiet", "origin", `HEAD:refs/heads/${this.branch}`);
+    }
+
+    return { status: "success", commit: head, committed, pushed, pulled, conflicts: [] };
+  }
+
+  // Create the project's clone on first use, pointed at the configured remote
+  private async prepareClone(projectId: string): Promise<string> {
+    const directory = path.join(this.cloneRoot, projectId);
+    const remote = this.remote!.replace(/\{projectId\}/g, projectId);
+
+    try {
+      await fs.access(path.join(directory, ".git"));
+    } catch {
+      await fs.mkdir(directory, { recursive: true });
+      await this.git(directory, ["init", "--quiet", `--initial-branch=${this.branch}`]);
+      await this.git(directory, ["remote", "add", "origin", remote]);
+      return directory;
+    }
+
+    // Follow changes to the configured remote
+    await this.git(directory, ["remote", "set-url", "origin", remote]);
+    return directory;
+  }
+
+  // Make the work tree match the given files exactly. Paths into .git are
+  // refused before anything is written, so a sync cannot rewrite the
+  // clone's hooks or config
+  private async writeTree(directory: string, files: SyncFile[]): Promise<void> {
+    const wanted = new Map(files.map((file) => {
+      const filePath = normalizeProjectFilePath(file.path);
+      if (filePath.split("/").some((segment) => segment.toLowerCase() === ".git")) {
+        throw new GitSyncRejectedError(`Invalid file path: ${file.path}`);
+      }
+      return [filePath, file.content];
+    }));
+
+    for (const tracked of await this.listTrackedFiles(directory)) {
+      if (!wanted.has(tracked)) {
+        await fs.rm(path.join(directory, ...tracked.split("/")), { force: true });
+      }
+    }
+
+    for (const [filePath, content] of Array.from(wanted.entries())) {
+      const location = path.join(directory, ...filePath.split("/"));
+      await fs.mkdir(path.dirname(location), { recursive: true });
+      await fs.writeFile(location, content, "utf8");
+    }
+  }
+
+  private async changedSince(directory: string, commit: string): Promise<PulledFile[]> {
+    const output = await this.git(directory, ["diff", "--name-only", "--no-renames", commit, "HEAD"]);
+    return this.readFiles(directory, output.split("\n").filter(Boolean));
+  }
+
+  private async readFiles(directory: string, paths: string[]): Promise<PulledFile[]> {
+    return Promise.all(paths.map(async (filePath) => {
+      try {
+        return { path: filePath, content: await fs.readFile(path.join(directory, ...filePath.split("/")), "utf8") };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return { path: filePath, content: null };
+        }
+        throw error;
+      }
+    }));
+  }
+
+  private async listTrackedFiles(directory: string): Promise<string[]> {
+    const output = await this.git(directory, ["ls-files", "-z"]);
+    return output.split("\0").filter(Boolean);
+  }
+
+  private async refExists(directory: string, ref: string): Promise<boolean> {
+    try {
+      await this.git(directory, ["rev-parse", "--verify", "--quiet", ref]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async git(directory: string, args: string[], author = "MAIK IDE"): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync("git", args, {
+        cwd: directory,
+        maxBuffer: GIT_MAX_BUFFER,
+        env: {
+          ...process.env,
+          GIT_TERMINAL_PROMPT: "0",
+          GIT_AUTHOR_NAME: author,
+          GIT_AUTHOR_EMAIL: process.env.GIT_SYNC_EMAIL || "maik@localhost",
+          GIT_COMMITTER_NAME: "MAIK IDE",
+          GIT_COMMITTER_EMAIL: process.env.GIT_SYNC_EMAIL || "maik@localhost",
+        },
+      });
+      return stdout;
+    } catch (error) {
+      const stderr = String((error as { stderr?: string }).stderr ?? "").trim();
+      throw new GitCommandError(`git ${args[0]} failed${stderr ? `: ${stderr}` : ""}`, stderr);
+    }
+  }
+}
+
+export const gitSync = new GitSync();
@@ -1,11 +1,50 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { SentrySDK, extractTraceContext, initializeTracing, withSpan } from "../core";
+
+// Spans are exported over OTLP when OTEL_EXPORTER_OTLP_ENDPOINT is set
+initializeTracing();
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Each request keeps its own Sentry breadcrumbs and user
+app.use((_req, _res, next) => SentrySDK.withScope(next));
+
+// Trace API requests, continuing the caller's trace from its
+// traceparent header; the span stays active for the handlers that follow
+app.use((req, res, next) => {
+  if (!req.path.startsWith("/api")) {
+    return next();
+  }
+
+  withSpan(req.method, {
+    kind: SpanKind.SERVER,
+    parent: extractTraceContext(req.headers),
+    attributes: { "http.request.method": req.method, "url.path": req.path },
+  }, (span) => new Promise<void>((resolve) => {
+    res.on("finish", () => {
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : undefined;
+      span.updateName(route ? `${req.method} ${route}` : req.method);
+      span.setAttribute("http.response.status_code", res.statusCode);
+      if (route) {
+        span.setAttribute("http.route", route);
+      }
+      if (res.statusCode >= 500) {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      resolve();
+    });
+
+    // Connections closed before a response was sent end the span too
+    res.on("close", resolve);
+    next();
+  }));
+});
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -33,16 +72,29 @@ app.use((req, res, next) => {
     }
   });
 
+  // Errors reported while handling the request are sent with it
+  if (path.startsWith("/api")) {
+    SentrySDK.addBreadcrumb({
+      type: "http",
+      category: "http",
+      data: { method: req.method, url: path },
+    });
+  }
+
   next();
 });
 
 (async () => {
   const server = await registerRoutes(app);
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+  app.use((err: any, req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
 
+    if (status >= 500) {
+      SentrySDK.captureException(err, { method: req.method, url: req.path, status });
+    }
+
     res.status(status).json({ message });
     throw err;
   });
@@ -0,0 +1,106 @@
+import express from "express";
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+describe("POST /api/ai/query", () => {
+  let app: express.Express;
+  let dataDir: string;
+
+  // Signed-in client of a freshly registered user
+  async function signUp(username: string) {
+    const client = request.agent(app);
+    await client.post("/api/auth/register").send({ username, password: "correct horse battery" }).expect(201);
+    return client;
+  }
+
+  const query = (overrides: Record<string, unknown> = {}) => ({
+    agent: "Coder",
+    query: "How do I read a file?",
+    context: { files: ["src/index.ts"] },
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), "routes-"));
+    vi.stubEnv("AI_PROVIDER", "local");
+    vi.stubEnv("DATA_DIR", dataDir);
+    // The second user to sign up has no budget left
+    vi.stubEnv("USAGE_USER_BUDGETS", JSON.stringify({ "2": 0 }));
+
+    // The services read their configuration when first imported
+    const { registerRoutes } = await import("./routes");
+    app = express();
+    app.use(express.json());
+    await registerRoutes(app);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("answers a signed-in user with the model response and its prompt breakdown", async () => {
+    const client = await signUp("alice");
+
+    const res = await client.post("/api/ai/query").send(query()).expect(200);
+
+    expect(res.body.success).toBe(true);
+    expect(res.body.data).toMatchObject({
+      response: expect.stringContaining("How do I read a file?"),
+      agent: "Coder",
+      timestamp: expect.any(String),
+    });
+    expect(res.body.data.context.totalTokens).toBeGreaterThan(0);
+    expect(res.body.data.context.maxTokens).toBeGreaterThanOrEqual(res.body.data.context.totalTokens);
+  });
+
+  it("refuses users who are not signed in", async () => {
+    await request(app).post("/api/ai/query").send(query()).expect(401);
+  });
+
+  it("refuses users whose monthly budget is spent", async () => {
+    const client = await signUp("bob");
+
+    const res = await client.post("/api/ai/query").send(query()).expect(402);
+
+    expect(res.body.error.details).toEqual({ limitUsd: 0, spentUsd: 0 });
+  });
+
+  it("applies the governance policy kept in the project", async () => {
+    const client = await signUp("carol");
+    const project = await client.post("/api/projects").send({
+      name: "Policy project",
+      files: [{
+        path: ".maik/governance.json",
+        content: JSON.stringify({ rules: [{ id: "no-secrets", terms: ["secret"], action: "block" }] }),
+      }],
+    }).expect(201);
+
+    const res = await client.post("/api/ai/query")
+      .send(query({ query: "Tell me the secret", context: { projectId: project.body.data.id } }))
+      .expect(200);
+
+    expect(res.body.data.response).not.toContain("Local model response");
+  });
+
+  it("rejects a malformed query", async () => {
+    const client = await signUp("dave");
+
+    const res = await client.post("/api/ai/query").send({ agent: "Nobody", query: 42 }).expect(400);
+
+    expect(res.body.error.message).toBe("Validation error");
+  });
+
+  it("does not answer about projects the user does not own", async () => {
+    const owner = await signUp("erin");
+    const project = await owner.post("/api/projects").send({ name: "Private" }).expect(201);
+    const client = await signUp("frank");
+
+    await client.post("/api/ai/query")
+      .send(query({ context: { projectId: project.body.data.id } }))
+      .expect(404);
+  });
+});
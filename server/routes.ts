@@ -1,13 +1,47 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, InvalidFilePathError } from "./storage";
+import { setupAuth, requireAuth, requireAdmin, isAdmin, isAllowedOrigin, getSocketUser, getOwnedProject } from "./auth";
+import { gitSync } from "./git-sync";
+import { backupService, BackupRejectedError, BackupNotFoundError, BackupCorruptedError } from "./backup-service";
+import type { Project, ProjectFile } from "@shared/schema";
+import { commandRunner, CommandRejectedError } from "./command-runner";
+import { ExecSession } from "./exec-socket";
+import { TerminalSession } from "./terminal-socket";
+import { CollabSession } from "./collab-socket";
+import { workspacePolicyLoader } from "./workspace-policy";
 import { WebSocket, WebSocketServer } from 'ws';
+import { SpanKind } from '@opentelemetry/api';
 import { z } from 'zod';
-import { IApiResponse, IAIQueryRequest, ICommandExecutionRequest, ISyncRequest, IBackupRequest, IRestoreBackupRequest, IErrorResponse } from "@shared/api-types";
+import { setupDependencyInjection, AIGovernance, AIGovernanceError, SentrySDK, UsageBudgetExceededError, extractTraceContext, getMetrics, trackWebSocketConnection, withSpan, type Agent, type GovernancePolicy, type UsageTracker } from "../core";
+import { IApiResponse, IProject, IProjectSummary, IProjectFile, IAIQueryRequest, IAIQueryResponse, IAIStreamContextPayload, IAIStreamDonePayload, IPromptContextBreakdown, AIStreamEventType, ICommandExecutionRequest, ISyncRequest, ISyncResponse, ISyncTargetResult, IBackupRequest, IRestoreBackupRequest, IRestoreBackupResponse, IBackupResponse, IErrorResponse, IUsageResponse, IGovernanceDecision, IBiasReport, IAuditLogEntry, IAuditVerification } from "@shared/api-types";
+
+// WebSocket messages sent for every keystroke or resize, too many to trace
+const UNTRACED_MESSAGE_TYPES = new Set(['terminal:input', 'terminal:resize', 'edit']);
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
+  // Cookie sessions and the /api/auth routes
+  setupAuth(app);
+  
+  // Errors reported while handling a request are attributed to its user
+  app.use((req, _res, next) => {
+    if (req.user) {
+      SentrySDK.setUser(String(req.user.id), { username: req.user.username });
+    }
+    next();
+  });
+  
+  // Error reporting to the Sentry-compatible endpoint in SENTRY_DSN
+  SentrySDK.initialize();
+  
+  // Core agent pipeline (state, memory, prompt, LLM, tools) backing the AI routes
+  const services = setupDependencyInjection();
+  const agent = services.resolve<Agent>('Agent');
+  const usageTracker = services.resolve<UsageTracker>('UsageTracker');
+  const governance = services.resolve(AIGovernance);
+  
   // WebSocket server for real-time notifications and collaborative editing
   const wss = new WebSocketServer({ 
     server: httpServer,
@@ -29,8 +63,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  wss.on('connection', (ws: WebSocket) => {
+  wss.on('connection', (ws: WebSocket, req) => {
+    if (!isAllowedOrigin(req)) {
+      console.warn(`WebSocket connection from ${req.headers.origin} rejected`);
+      ws.close(1008, 'Origin not allowed');
+      return;
+    }
+    
     console.log('WebSocket client connected');
+    const untrackConnection = trackWebSocketConnection();
+    
+    // Commands and interactive shells running over this connection,
+    // available only once the connection's user has signed in
+    const resolveWorkspace = async (projectId?: string) => {
+      const user = await getSocketUser(req);
+      return user ? prepareWorkspace(user, projectId) : undefined;
+    };
+    const execSession = new ExecSession(ws, resolveWorkspace);
+    const terminalSession = new TerminalSession(ws, resolveWorkspace);
+    const collabSession = new CollabSession(ws, async (projectId) => {
+      const user = await getSocketUser(req);
+      return user && (await getOwnedProject(user, projectId)) ? user : undefined;
+    });
+    
+    // Trace each message in the trace it names with traceparent, or else
+    // in the one the connection was opened in. Keystrokes are not traced
+    const connectionContext = extractTraceContext(req.headers);
+    const traceMessage = (data: any, handle: () => Promise<void>) => {
+      if (UNTRACED_MESSAGE_TYPES.has(data.type)) {
+        return handle();
+      }
+      
+      return withSpan(`WS ${data.type}`, {
+        kind: SpanKind.SERVER,
+        parent: typeof data.traceparent === 'string'
+          ? extractTraceContext({ traceparent: data.traceparent, tracestate: data.tracestate })
+          : connectionContext,
+        attributes: { 'network.protocol.name': 'websocket', 'bolt.ws.message_type': String(data.type) }
+      }, handle);
+    };
     
     // Send an initial message to confirm connection
     ws.send(JSON.stringify({ 
@@ -46,6 +117,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Handle different message types
         if (data.type === 'ping') {
           ws.send(JSON.stringify({ type: 'pong', timestamp: new Date().toISOString() }));
+        } else if (execSession.handles(data.type)) {
+          traceMessage(data, () => execSession.handle(data.type, data.payload)).catch((error) => {
+            console.error('Error handling exec message:', error);
+          });
+        } else if (terminalSession.handles(data.type)) {
+          traceMessage(data, () => terminalSession.handle(data.type, data.payload)).catch((error) => {
+            console.error('Error handling terminal message:', error);
+          });
+        } else if (collabSession.handles(data.type)) {
+          traceMessage(data, () => collabSession.handle(data.type, data.payload)).catch((error) => {
+            console.error('Error handling collaboration message:', error);
+          });
         }
       } catch (error) {
         console.error('Error processing WebSocket message:', error);
@@ -54,6 +137,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     ws.on('close', () => {
       console.log('WebSocket client disconnected');
+      untrackConnection();
+      execSession.dispose();
+      terminalSession.dispose();
+      collabSession.dispose();
     });
     
     ws.on('error', (error) => {
@@ -61,39 +148,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
-  // User routes
-  app.post('/api/auth/register', async (req, res) => {
+  // Everything that reads projects, runs code or calls a model needs a signed-in user
+  app.use(['/api/projects', '/api/ai', '/api/usage', '/api/governance', '/api/execute', '/api/sync', '/api/backup'], requireAuth);
+  
+  // Prometheus scrape endpoint; when METRICS_TOKEN is set, scrapers must send it as a bearer token
+  app.get('/metrics', async (req, res) => {
+    const token = process.env.METRICS_TOKEN;
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      return res.status(401).json(createErrorResponse('Unauthorized'));
+    }
+    
+    try {
+      const { contentType, body } = await getMetrics();
+      res.set('Content-Type', contentType).send(body);
+    } catch (error) {
+      res.status(500).json(createErrorResponse('Failed to collect metrics', (error as Error).message));
+    }
+  });
+  
+  // Project routes
+  app.get('/api/projects', async (req, res) => {
+    try {
+      const projects = await storage.getProjects(req.user!.id);
+      
+      res.json({
+        success: true,
+        data: projects
+          .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+          .map(toProjectSummary)
+      });
+    } catch (error) {
+      res.status(500).json(createErrorResponse('Failed to list projects', (error as Error).message));
+    }
+  });
+  
+  app.post('/api/projects', async (req, res) => {
     try {
       const schema = z.object({
-        username: z.string().min(3),
-        password: z.string().min(6)
+        name: z.string().min(1),
+        files: z.array(z.object({
+          path: z.string().min(1),
+          content: z.string()
+        })).optional()
       });
       
       const validatedData = schema.parse(req.body);
       
-      // Check if user already exists
-      const existingUser = await storage.getUserByUsername(validatedData.username);
-      if (existingUser) {
-        return res.status(409).json({
+      const project = await storage.createProject({ ownerId: req.user!.id, name: validatedData.name });
+      for (const file of validatedData.files || []) {
+        await storage.saveProjectFile(project.id, file.path, file.content);
+      }
+      
+      res.status(201).json({
+        success: true,
+        data: await loadProject(project.id)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
           success: false,
           error: {
-            message: 'Username already exists'
+            message: 'Validation error',
+            details: error.errors
           }
         } as IApiResponse<null>);
       }
       
-      // Create new user
-      const user = await storage.createUser({
-        username: validatedData.username,
-        password: validatedData.password // In a real app, hash the password
+      if (error instanceof InvalidFilePathError) {
+        return res.status(400).json(createErrorResponse(error.message));
+      }
+      
+      res.status(500).json(createErrorResponse('Failed to create project', (error as Error).message));
+    }
+  });
+  
+  app.get('/api/projects/:id', async (req, res) => {
+    try {
+      const project = await getOwnedProject(req.user!, req.params.id) && await loadProject(req.params.id);
+      if (!project) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      
+      res.json({
+        success: true,
+        data: project
       });
+    } catch (error) {
+      res.status(500).json(createErrorResponse('Failed to load project', (error as Error).message));
+    }
+  });
+  
+  app.patch('/api/projects/:id', async (req, res) => {
+    try {
+      const schema = z.object({
+        name: z.string().min(1)
+      });
+      
+      const validatedData = schema.parse(req.body);
       
-      // Don't return the password
-      const { password, ...userData } = user;
+      const project = await getOwnedProject(req.user!, req.params.id)
+        && await storage.updateProject(req.params.id, validatedData);
+      if (!project) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
       
-      res.status(201).json({
+      res.json({
         success: true,
-        data: userData
+        data: toProjectSummary(project)
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -106,43 +267,403 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } as IApiResponse<null>);
       }
       
-      res.status(500).json({
-        success: false,
-        error: {
-          message: 'Failed to create user',
-          details: { error: (error as Error).message }
-        }
-      } as IApiResponse<null>);
+      res.status(500).json(createErrorResponse('Failed to update project', (error as Error).message));
     }
   });
   
-  app.post('/api/auth/login', async (req, res) => {
+  app.delete('/api/projects/:id', async (req, res) => {
+    try {
+      const deleted = await getOwnedProject(req.user!, req.params.id)
+        && await storage.deleteProject(req.params.id);
+      if (!deleted) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      
+      res.json({
+        success: true,
+        data: { deleted: true, id: req.params.id }
+      });
+    } catch (error) {
+      res.status(500).json(createErrorResponse('Failed to delete project', (error as Error).message));
+    }
+  });
+  
+  app.get('/api/projects/:id/files', async (req, res) => {
+    try {
+      if (!(await getOwnedProject(req.user!, req.params.id))) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      
+      const files = await storage.getProjectFiles(req.params.id);
+      
+      res.json({
+        success: true,
+        data: files.map(toProjectFile)
+      });
+    } catch (error) {
+      res.status(500).json(createErrorResponse('Failed to list files', (error as Error).message));
+    }
+  });
+  
+  app.get('/api/projects/:id/files/:path(*)', async (req, res) => {
+    try {
+      if (!(await getOwnedProject(req.user!, req.params.id))) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      
+      const file = await storage.getProjectFile(req.params.id, req.params.path);
+      if (!file) {
+        return res.status(404).json(createErrorResponse('File not found'));
+      }
+      
+      res.json({
+        success: true,
+        data: toProjectFile(file)
+      });
+    } catch (error) {
+      if (error instanceof InvalidFilePathError) {
+        return res.status(400).json(createErrorResponse(error.message));
+      }
+      
+      res.status(500).json(createErrorResponse('Failed to load file', (error as Error).message));
+    }
+  });
+  
+  app.put('/api/projects/:id/files/:path(*)', async (req, res) => {
     try {
       const schema = z.object({
-        username: z.string(),
-        password: z.string()
+        content: z.string()
       });
       
       const validatedData = schema.parse(req.body);
       
-      // Find user by username
-      const user = await storage.getUserByUsername(validatedData.username);
-      if (!user || user.password !== validatedData.password) {
-        return res.status(401).json({
+      if (!(await getOwnedProject(req.user!, req.params.id))) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      
+      const file = await storage.saveProjectFile(req.params.id, req.params.path, validatedData.content);
+      
+      res.json({
+        success: true,
+        data: toProjectFile(file)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            message: 'Validation error',
+            details: error.errors
+          }
+        } as IApiResponse<null>);
+      }
+      
+      if (error instanceof InvalidFilePathError) {
+        return res.status(400).json(createErrorResponse(error.message));
+      }
+      
+      res.status(500).json(createErrorResponse('Failed to save file', (error as Error).message));
+    }
+  });
+  
+  app.delete('/api/projects/:id/files/:path(*)', async (req, res) => {
+    try {
+      if (!(await getOwnedProject(req.user!, req.params.id))) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      
+      const deleted = await storage.deleteProjectFile(req.params.id, req.params.path);
+      if (!deleted) {
+        return res.status(404).json(createErrorResponse('File not found'));
+      }
+      
+      res.json({
+        success: true,
+        data: { deleted: true, path: req.params.path }
+      });
+    } catch (error) {
+      if (error instanceof InvalidFilePathError) {
+        return res.status(400).json(createErrorResponse(error.message));
+      }
+      
+      res.status(500).json(createErrorResponse('Failed to delete file', (error as Error).message));
+    }
+  });
+  
+  // AI Orchestration routes
+  const aiQuerySchema = z.object({
+    agent: z.enum(['Coder', 'Debugger', 'WCAG Auditor']),
+    model: z.enum(['GPT-4', 'Tabby', 'Claude-3']).optional(),
+    query: z.string(),
+    sessionId: z.string().min(1).max(200).optional(),
+    context: z.object({
+      projectId: z.string().optional(),
+      files: z.array(z.string()).optional(),
+      activeFile: z.string().optional()
+    })
+  });
+  
+  app.post('/api/ai/query', async (req, res) => {
+    try {
+      const validatedData = aiQuerySchema.parse(req.body) as IAIQueryRequest;
+      
+      const sessionId = getAgentSessionId(req.user!, validatedData);
+      const userId = String(req.user!.id);
+      if (validatedData.context.projectId && !(await getOwnedProject(req.user!, validatedData.context.projectId))) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      await usageTracker.assertWithinBudget(userId);
+      const policy = validatedData.context.projectId
+        ? await workspacePolicyLoader.getPolicy(validatedData.context.projectId)
+        : undefined;
+      
+      let context: IPromptContextBreakdown | undefined;
+      const response = await agent.handleRequest(validatedData.query, sessionId, {
+        agent: validatedData.agent,
+        systemPrompt: buildAgentSystemPrompt(validatedData),
+        userId,
+        policy,
+        onPromptBuilt: (breakdown) => { context = breakdown; }
+      });
+      
+      res.json({
+        success: true,
+        data: {
+          response: response,
+          agent: validatedData.agent,
+          model: validatedData.model || 'GPT-4',
+          timestamp: new Date().toISOString(),
+          context
+        } as IAIQueryResponse
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            message: 'Validation error',
+            details: error.errors
+          }
+        } as IApiResponse<null>);
+      }
+      
+      if (error instanceof UsageBudgetExceededError) {
+        return res.status(402).json(createErrorResponse(error.message, {
+          limitUsd: error.limitUsd,
+          spentUsd: error.spentUsd
+        }));
+      }
+      
+      if (error instanceof AIGovernanceError) {
+        return res.status(422).json(createErrorResponse('Invalid workspace governance policy', error.message));
+      }
+      
+      res.status(500).json(createErrorResponse('AI query failed', (error as Error).message));
+    }
+  });
+  
+  // Streaming AI route: forwards model output as server-sent events
+  app.post('/api/ai/query/stream', async (req, res) => {
+    let validatedData: IAIQueryRequest;
+    try {
+      validatedData = aiQuerySchema.parse(req.body) as IAIQueryRequest;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            message: 'Validation error',
+            details: error.errors
+          }
+        } as IApiResponse<null>);
+      }
+      
+      return res.status(500).json(createErrorResponse('AI query failed', (error as Error).message));
+    }
+    
+    const sessionId = getAgentSessionId(req.user!, validatedData);
+    const userId = String(req.user!.id);
+    
+    // Budget and policy errors are plain JSON responses, sent before the event stream starts
+    let policy: GovernancePolicy | undefined;
+    try {
+      if (validatedData.context.projectId && !(await getOwnedProject(req.user!, validatedData.context.projectId))) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      await usageTracker.assertWithinBudget(userId);
+      policy = validatedData.context.projectId
+        ? await workspacePolicyLoader.getPolicy(validatedData.context.projectId)
+        : undefined;
+    } catch (error) {
+      if (error instanceof UsageBudgetExceededError) {
+        return res.status(402).json(createErrorResponse(error.message, {
+          limitUsd: error.limitUsd,
+          spentUsd: error.spentUsd
+        }));
+      }
+      
+      if (error instanceof AIGovernanceError) {
+        return res.status(422).json(createErrorResponse('Invalid workspace governance policy', error.message));
+      }
+      
+      return res.status(500).json(createErrorResponse('AI query failed', (error as Error).message));
+    }
+    
+    // Stop generating as soon as the client goes away
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    
+    const sendEvent = (event: AIStreamEventType, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    
+    try {
+      const events = agent.handleRequestStream(validatedData.query, sessionId, {
+        agent: validatedData.agent,
+        systemPrompt: buildAgentSystemPrompt(validatedData),
+        userId,
+        policy,
+        signal: controller.signal,
+        onPromptBuilt: (breakdown) => sendEvent('context', breakdown as IAIStreamContextPayload)
+      });
+      
+      for await (const event of events) {
+        if (controller.signal.aborted) {
+          break;
+        }
+        
+        if (event.type === 'delta') {
+          sendEvent('delta', { text: event.text });
+        } else if (event.type === 'done') {
+          sendEvent('done', {
+            response: event.response,
+            agent: validatedData.agent,
+            model: validatedData.model || 'GPT-4',
+            timestamp: new Date().toISOString()
+          } as IAIStreamDonePayload);
+        } else {
+          sendEvent('error', { message: event.message });
+        }
+      }
+    } catch (error) {
+      sendEvent('error', { message: (error as Error).message });
+    } finally {
+      res.end();
+    }
+  });
+  
+  // Token usage and cost of the signed-in user, by model and session
+  app.get('/api/usage', async (req, res) => {
+    try {
+      const schema = z.object({
+        month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM').optional()
+      });
+      const { month: requestedMonth } = schema.parse(req.query);
+      
+      const userId = String(req.user!.id);
+      const budget = await usageTracker.getBudget(userId);
+      const month = requestedMonth || budget.month;
+      const { byUser, ...usage } = await usageTracker.getSummary({ userId, month });
+      
+      res.json({
+        success: true,
+        data: { month, usage, budget } as IUsageResponse
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            message: 'Validation error',
+            details: error.errors
+          }
+        } as IApiResponse<null>);
+      }
+      
+      res.status(500).json(createErrorResponse('Failed to load usage', (error as Error).message));
+    }
+  });
+  
+  // AI governance routes: the recorded decisions, bias reports and audit trail.
+  // Users see their own decisions and reports; admins see everyone's and
+  // resolve reports
+  const limitSchema = z.coerce.number().int().min(1).max(1000).optional();
+  
+  app.get('/api/governance/decisions', async (req, res) => {
+    try {
+      const schema = z.object({
+        modelId: z.string().optional(),
+        userId: z.string().optional(),
+        category: z.string().optional(),
+        from: z.string().datetime().optional(),
+        to: z.string().datetime().optional(),
+        limit: limitSchema
+      });
+      const query = schema.parse(req.query);
+      
+      const decisions = governance.queryDecisions({
+        ...query,
+        userId: isAdmin(req.user!) ? query.userId : String(req.user!.id),
+        from: query.from ? new Date(query.from) : undefined,
+        to: query.to ? new Date(query.to) : undefined
+      });
+      
+      res.json({
+        success: true,
+        data: decisions as IGovernanceDecision[]
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
           success: false,
           error: {
-            message: 'Invalid username or password'
+            message: 'Validation error',
+            details: error.errors
           }
         } as IApiResponse<null>);
       }
       
-      // In a real app, set up a session or generate a JWT token
-      // For now, just return the user data without password
-      const { password, ...userData } = user;
+      res.status(500).json(createErrorResponse('Failed to query decisions', (error as Error).message));
+    }
+  });
+  
+  app.get('/api/governance/decisions/:id', (req, res) => {
+    const decision = governance.getDecision(req.params.id);
+    if (!decision || (!isAdmin(req.user!) && decision.userId !== String(req.user!.id))) {
+      return res.status(404).json(createErrorResponse('Decision not found'));
+    }
+    
+    res.json({
+      success: true,
+      data: decision as IGovernanceDecision
+    });
+  });
+  
+  const biasStatusSchema = z.enum(['reported', 'investigating', 'resolved', 'rejected']);
+  
+  app.get('/api/governance/bias-reports', async (req, res) => {
+    try {
+      const schema = z.object({
+        modelId: z.string().optional(),
+        status: biasStatusSchema.optional(),
+        limit: limitSchema
+      });
+      
+      const query = schema.parse(req.query);
       
       res.json({
         success: true,
-        data: userData
+        data: governance.queryBiasReports({
+          ...query,
+          userId: isAdmin(req.user!) ? undefined : String(req.user!.id)
+        }) as IBiasReport[]
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -155,44 +676,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } as IApiResponse<null>);
       }
       
-      res.status(500).json({
+      res.status(500).json(createErrorResponse('Failed to query bias reports', (error as Error).message));
+    }
+  });
+  
+  app.post('/api/governance/bias-reports', async (req, res) => {
+    let validatedData;
+    try {
+      const schema = z.object({
+        modelId: z.string().min(1),
+        decisionId: z.string().min(1),
+        type: z.string().min(1),
+        description: z.string().min(1),
+        evidence: z.string().optional()
+      });
+      validatedData = schema.parse(req.body);
+    } catch (error) {
+      return res.status(400).json({
         success: false,
         error: {
-          message: 'Login failed',
-          details: { error: (error as Error).message }
+          message: 'Validation error',
+          details: (error as z.ZodError).errors
         }
       } as IApiResponse<null>);
     }
+    
+    // Only decisions the user can see may be reported
+    const decision = governance.getDecision(validatedData.decisionId);
+    if (!decision || (!isAdmin(req.user!) && decision.userId !== String(req.user!.id))) {
+      return res.status(404).json(createErrorResponse('Decision not found'));
+    }
+    
+    let reportId: string;
+    try {
+      const { modelId, decisionId, ...report } = validatedData;
+      reportId = governance.reportBias(modelId, decisionId, { ...report, userId: String(req.user!.id) });
+    } catch (error) {
+      // Unregistered model or missing report details
+      return res.status(400).json(createErrorResponse((error as Error).message));
+    }
+    
+    try {
+      await governance.flush();
+      
+      res.status(201).json({
+        success: true,
+        data: governance.getBiasReport(reportId) as IBiasReport
+      });
+    } catch (error) {
+      res.status(500).json(createErrorResponse('Failed to record bias report', (error as Error).message));
+    }
   });
   
-  // AI Orchestration routes
-  app.post('/api/ai/query', async (req, res) => {
+  app.patch('/api/governance/bias-reports/:id', requireAdmin, async (req, res) => {
     try {
       const schema = z.object({
-        agent: z.enum(['Coder', 'Debugger', 'WCAG Auditor']),
-        model: z.enum(['GPT-4', 'Tabby', 'Claude-3']).optional(),
-        query: z.string(),
-        context: z.object({
-          projectId: z.string().optional(),
-          files: z.array(z.string()).optional(),
-          activeFile: z.string().optional()
-        })
+        status: biasStatusSchema,
+        resolution: z.string()
       });
+      const { status, resolution } = schema.parse(req.body);
       
-      const validatedData = schema.parse(req.body) as IAIQueryRequest;
+      const report = governance.updateBiasReport(req.params.id, status, resolution);
+      if (!report) {
+        return res.status(404).json(createErrorResponse('Bias report not found'));
+      }
+      await governance.flush();
       
-      // In a real implementation, route to the appropriate AI model
-      // For now, return a simulated response
-      const response = await simulateAIResponse(validatedData);
+      res.json({
+        success: true,
+        data: report as IBiasReport
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            message: 'Validation error',
+            details: error.errors
+          }
+        } as IApiResponse<null>);
+      }
+      
+      res.status(500).json(createErrorResponse('Failed to update bias report', (error as Error).message));
+    }
+  });
+  
+  app.get('/api/governance/audit', requireAdmin, async (req, res) => {
+    try {
+      const limit = limitSchema.parse(req.query.limit);
       
       res.json({
         success: true,
-        data: {
-          response: response,
-          agent: validatedData.agent,
-          model: validatedData.model || 'GPT-4',
-          timestamp: new Date().toISOString()
-        }
+        data: governance.getAuditLog(limit) as IAuditLogEntry[]
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -205,23 +780,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } as IApiResponse<null>);
       }
       
-      res.status(500).json(createErrorResponse('AI query failed', (error as Error).message));
+      res.status(500).json(createErrorResponse('Failed to load audit log', (error as Error).message));
+    }
+  });
+  
+  app.get('/api/governance/audit/verify', requireAdmin, async (req, res) => {
+    try {
+      res.json({
+        success: true,
+        data: await governance.verifyAuditLog() as IAuditVerification
+      });
+    } catch (error) {
+      res.status(500).json(createErrorResponse('Failed to verify audit log', (error as Error).message));
     }
   });
   
-  // WebContainer execution route
+  // Command execution route
   app.post('/api/execute', async (req, res) => {
     try {
       const schema = z.object({
-        command: z.string(),
-        workingDirectory: z.string().optional()
+        command: z.string().min(1),
+        workingDirectory: z.string().optional(),
+        projectId: z.string().optional(),
+        timeout: z.number().int().positive().max(10 * 60 * 1000).optional()
       });
       
       const validatedData = schema.parse(req.body) as ICommandExecutionRequest;
+      const workspaceId = await prepareWorkspace(req.user!, validatedData.projectId);
+      if (!workspaceId) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
       
-      // In a real implementation, execute the command in a WebContainer
-      // For now, return a simulated response
-      const response = simulateCommandExecution(validatedData);
+      // Run the command in the sandbox of its workspace on the server
+      const response = await commandRunner.execute({ ...validatedData, projectId: workspaceId });
       
       res.json({
         success: true,
@@ -238,6 +829,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } as IApiResponse<null>);
       }
       
+      if (error instanceof CommandRejectedError) {
+        return res.status(400).json(createErrorResponse(error.message));
+      }
+      
       res.status(500).json(createErrorResponse('Command execution failed', (error as Error).message));
     }
   });
@@ -247,25 +842,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const schema = z.object({
         projectId: z.string(),
-        targets: z.array(z.enum(['github', 'onedrive']))
+        targets: z.array(z.enum(['github', 'onedrive'])),
+        files: z.array(z.object({
+          path: z.string().min(1),
+          content: z.string()
+        })).optional(),
+        resolve: z.enum(['ours', 'theirs']).optional()
       });
       
       const validatedData = schema.parse(req.body) as ISyncRequest;
       
-      // In a real implementation, sync with cloud services
-      // For now, return a simulated response
+      // Sync the files sent by the client, or the project's stored files
+      const project = await getOwnedProject(req.user!, validatedData.projectId);
+      if (!project) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      const files = validatedData.files
+        || (await storage.getProjectFiles(validatedData.projectId)).map(({ path, content }) => ({ path, content }));
+      
+      const targets = await Promise.all(validatedData.targets.map(async (name): Promise<ISyncTargetResult> => {
+        const timestamp = new Date().toISOString();
+        
+        // GitHub (or any git remote) is the only sync backend so far
+        if (name !== 'github') {
+          return { name, status: 'error', message: `Sync with ${name} is not supported`, timestamp };
+        }
+        
+        try {
+          const result = await gitSync.sync(validatedData.projectId, files, {
+            author: req.user?.username,
+            resolve: validatedData.resolve
+          });
+          
+          if (result.status === 'conflict') {
+            return {
+              name,
+              status: 'conflict',
+              message: `Conflicting changes in ${result.conflicts.join(', ')}`,
+              timestamp,
+              commit: result.commit,
+              conflicts: result.conflicts
+            };
+          }
+          
+          // Bring remote changes into the stored project
+          for (const file of result.pulled) {
+            if (file.content === null) {
+              await storage.deleteProjectFile(validatedData.projectId, file.path);
+            } else {
+              await storage.saveProjectFile(validatedData.projectId, file.path, file.content);
+            }
+          }
+          
+          return {
+            name,
+            status: 'success',
+            message: `${result.pushed ? 'Pushed' : 'Up to date'}, ${result.pulled.length} file(s) pulled`,
+            timestamp,
+            commit: result.commit,
+            pulled: result.pulled
+          };
+        } catch (error) {
+          return { name, status: 'error', message: (error as Error).message, timestamp };
+        }
+      }));
       
       res.json({
         success: true,
         data: {
-          success: true,
-          targets: validatedData.targets.map(target => ({
-            name: target,
-            status: 'success',
-            message: `Synced with ${target}`,
-            timestamp: new Date().toISOString()
-          }))
-        }
+          success: targets.every(target => target.status === 'success'),
+          targets
+        } as ISyncResponse
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -293,24 +940,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const validatedData = schema.parse(req.body) as IBackupRequest;
       
-      // In a real implementation, create a backup
-      // For now, return a simulated response
-      const backupId = generateId();
+      // Snapshots are only kept on this server; remote copies go through /api/sync
+      const unsupported = validatedData.targets.filter(target => target !== 'local');
+      if (unsupported.length > 0) {
+        return res.status(400).json(createErrorResponse(
+          `Backup target not supported: ${unsupported.join(', ')}`,
+          'Back up to local and use /api/sync for remote copies'
+        ));
+      }
       
-      res.json({
+      if (!(await getOwnedProject(req.user!, validatedData.projectId))) {
+        return res.status(404).json(createErrorResponse('Project not found'));
+      }
+      
+      const metadata = await backupService.createBackup(validatedData.projectId, validatedData.encrypt);
+      
+      res.status(201).json({
         success: true,
         data: {
-          id: backupId,
-          metadata: {
-            id: backupId,
-            projectId: validatedData.projectId,
-            timestamp: new Date().toISOString(),
-            files: [],
-            size: 0,
-            checksum: '',
-            target: validatedData.targets[0] || 'local'
-          }
-        }
+          id: metadata.id,
+          metadata
+        } as IBackupResponse
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -323,10 +973,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } as IApiResponse<null>);
       }
       
+      if (error instanceof BackupRejectedError) {
+        return res.status(400).json(createErrorResponse(error.message));
+      }
+      
+      if (error instanceof BackupNotFoundError) {
+        return res.status(404).json(createErrorResponse(error.message));
+      }
+      
       res.status(500).json(createErrorResponse('Backup failed', (error as Error).message));
     }
   });
   
+  app.get('/api/backup', async (req, res) => {
+    try {
+      const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : undefined;
+      
+      // Only backups of the user's own projects are listed
+      const owned = new Set((await storage.getProjects(req.user!.id)).map(project => project.id));
+      const backups = await backupService.listBackups(projectId);
+      
+      res.json({
+        success: true,
+        data: backups.filter(backup => owned.has(backup.projectId))
+      });
+    } catch (error) {
+      res.status(500).json(createErrorResponse('Failed to list backups', (error as Error).message));
+    }
+  });
+  
+  app.get('/api/backup/:id', async (req, res) => {
+    try {
+      const metadata = await backupService.getBackup(req.params.id);
+      if (!metadata || !(await getOwnedProject(req.user!, metadata.projectId))) {
+        return res.status(404).json(createErrorResponse('Backup not found'));
+      }
+      
+      res.json({
+        success: true,
+        data: metadata
+      });
+    } catch (error) {
+      res.status(500).json(createErrorResponse('Failed to load backup', (error as Error).message));
+    }
+  });
+  
   app.post('/api/backup/restore', async (req, res) => {
     try {
       const schema = z.object({
@@ -334,16 +1025,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const validatedData = schema.parse(req.body) as IRestoreBackupRequest;
+      const metadata = await backupService.getBackup(validatedData.backupId);
+      if (!metadata || !(await getOwnedProject(req.user!, metadata.projectId))) {
+        return res.status(404).json(createErrorResponse('Backup not found'));
+      }
       
-      // In a real implementation, restore from backup
-      // For now, return a simulated response
+      // Verifies the archive checksum before any file is touched
+      const result = await backupService.restoreBackup(validatedData.backupId);
       
       res.json({
         success: true,
         data: {
           restored: true,
-          backupId: validatedData.backupId
-        }
+          ...result
+        } as IRestoreBackupResponse
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -356,6 +1051,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } as IApiResponse<null>);
       }
       
+      if (error instanceof BackupRejectedError) {
+        return res.status(400).json(createErrorResponse(error.message));
+      }
+      
+      if (error instanceof BackupNotFoundError) {
+        return res.status(404).json(createErrorResponse(error.message));
+      }
+      
+      if (error instanceof BackupCorruptedError) {
+        return res.status(422).json(createErrorResponse('Backup is corrupted', error.message));
+      }
+      
       res.status(500).json(createErrorResponse('Restore failed', (error as Error).message));
     }
   });
@@ -363,11 +1070,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
-// Helper function to generate a random ID
-function generateId(): string {
-  return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-}
-
 // Helper function to generate a standardized error response
 function createErrorResponse(message: string, details?: any): IApiResponse<null> {
   const errorDetails: Record<string, any> = 
@@ -382,152 +1084,74 @@ function createErrorResponse(message: string, details?: any): IApiResponse<null>
   };
 }
 
-// AI simulation helper
-async function simulateAIResponse(request: IAIQueryRequest): Promise<string> {
-  // Add a small delay to simulate network request
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // Return simulated responses based on the agent and query
-  switch (request.agent) {
-    case 'Coder':
-      if (request.query.toLowerCase().includes('webcontainer')) {
-        return `Here's a structure for implementing the WebContainerService class:
-
-\`\`\`typescript
-import { WebContainer } from '@webcontainer/api';
-
-export class WebContainerService {
-  private static instance: WebContainerService;
-  private container: WebContainer | null = null;
+// Load a project with all of its files, or undefined if it does not exist
+async function loadProject(id: string): Promise<IProject | undefined> {
+  const project = await storage.getProject(id);
+  if (!project) return undefined;
   
-  private constructor() {}
-  
-  public static getInstance(): WebContainerService {
-    if (!WebContainerService.instance) {
-      WebContainerService.instance = new WebContainerService();
-    }
-    return WebContainerService.instance;
-  }
-  
-  public static async init(): Promise<void> {
-    return WebContainerService.getInstance().initContainer();
-  }
-  
-  private async initContainer(): Promise<void> {
-    try {
-      this.container = await WebContainer.boot();
-      console.log('WebContainer initialized successfully');
-    } catch (error) {
-      console.error('Failed to initialize WebContainer:', error);
-      throw error;
-    }
-  }
-  
-  public async executeCommand(
-    cmd: string
-  ): Promise<{stdout: string; stderr: string}> {
-    if (!this.container) {
-      throw new Error('WebContainer not initialized');
-    }
-    
-    const parts = cmd.split(' ');
-    const process = await this.container.spawn(parts[0], parts.slice(1));
-    
-    const output = {
-      stdout: '',
-      stderr: ''
-    };
-    
-    process.output.pipeTo(
-      new WritableStream({
-        write(data) {
-          output.stdout += data;
-        }
-      })
-    );
-    
-    process.exit.then((code) => {
-      if (code !== 0) {
-        console.warn(\`Process exited with code \${code}\`);
-      }
-    });
-    
-    return output;
-  }
+  const files = await storage.getProjectFiles(id);
+  return { ...toProjectSummary(project), files: files.map(toProjectFile) };
 }
-\`\`\`
-
-This implementation:
-
-1. Uses the Singleton pattern to ensure only one instance of the service exists
-2. Provides a static init method to boot the WebContainer
-3. Includes error handling for initialization failures
-4. Implements the executeCommand method that takes a command string and returns stdout/stderr`;
-      } else {
-        return `I'm here to help you with coding tasks. What specific code would you like me to assist with?
-
-Some things I can help with:
-- Writing new functions or classes
-- Optimizing existing code
-- Implementing specific algorithms
-- Explaining code concepts
-- Suggesting best practices`;
-      }
-    
-    case 'Debugger':
-      return `I can help you debug your code. To provide the most helpful assistance, could you share:
 
-1. The specific error message you're seeing (if any)
-2. The code that's causing problems
-3. What you expected to happen vs. what actually happened
+// Convert stored rows to their API shapes (ISO timestamps)
+function toProjectSummary(project: Project): IProjectSummary {
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt.toISOString(),
+    updatedAt: project.updatedAt.toISOString()
+  };
+}
 
-Once I have this information, I can help identify the issue and suggest solutions.`;
-    
-    case 'WCAG Auditor':
-      return `I can help ensure your web application meets WCAG accessibility standards. Here are some important accessibility considerations:
+function toProjectFile(file: ProjectFile): IProjectFile {
+  return {
+    path: file.path,
+    content: file.content,
+    lastModified: file.lastModified.toISOString()
+  };
+}
 
-1. Use semantic HTML elements for proper structure
-2. Ensure sufficient color contrast (minimum 4.5:1 for normal text)
-3. Provide alternative text for images
-4. Make sure all functionality is keyboard accessible
-5. Include proper focus states for interactive elements
-6. Use ARIA attributes when necessary (but prefer semantic HTML when possible)
-7. Ensure form inputs have associated labels
+// System prompts for the specialised assistants
+const AGENT_SYSTEM_PROMPTS: Record<IAIQueryRequest['agent'], string> = {
+  'Coder': 'As a Coding AI assistant, help the user with writing high-quality, well-documented code. Provide complete implementations when asked, and explain your reasoning.',
+  'Debugger': 'As a Debugging AI assistant, help the user find and fix issues in their code. Analyze error messages, suggest solutions, and explain the root causes of problems.',
+  'WCAG Auditor': 'As a WCAG (Web Content Accessibility Guidelines) Auditor AI assistant, help the user ensure their web application is accessible to all users, including those with disabilities. Identify accessibility issues, suggest improvements, and explain the relevant WCAG guidelines.'
+};
 
-Would you like me to focus on any specific aspect of accessibility for your project?`;
-    
-    default:
-      return `I'm not sure how to assist with that query. Could you provide more details about what you're trying to accomplish?`;
+// Workspace that a user's commands run in: the project's, with its stored
+// files written out, or the user's own outside a project. Undefined when
+// the user does not own the project
+async function prepareWorkspace(user: Express.User, projectId?: string): Promise<string | undefined> {
+  if (!projectId) {
+    return `user-${user.id}`;
   }
+  if (!(await getOwnedProject(user, projectId))) {
+    return undefined;
+  }
+  
+  await commandRunner.writeProjectFiles(projectId, await storage.getProjectFiles(projectId));
+  return projectId;
 }
 
-// Command execution simulation helper
-function simulateCommandExecution(request: ICommandExecutionRequest): {stdout: string, stderr: string, exitCode: number} {
-  const { command } = request;
-  
-  if (command.startsWith('npm install')) {
-    return {
-      stdout: `> ${command}\n+ installed packages successfully\n`,
-      stderr: '',
-      exitCode: 0
-    };
-  } else if (command.startsWith('npm start')) {
-    return {
-      stdout: `> ${command}\n> Starting dev server...\n> Server running at http://localhost:3000\n`,
-      stderr: '',
-      exitCode: 0
-    };
-  } else if (command.startsWith('ls')) {
-    return {
-      stdout: 'index.html\npackage.json\nnode_modules\nsrc\n',
-      stderr: '',
-      exitCode: 0
-    };
-  } else {
-    return {
-      stdout: `Executed: ${command}`,
-      stderr: '',
-      exitCode: 0
-    };
+// Conversation memory is kept per session, falling back to one per project.
+// Sessions belong to the signed-in user, so a session ID chosen by the
+// client can never reach another user's conversation
+function getAgentSessionId(user: Express.User, request: IAIQueryRequest): string {
+  const sessionId = request.sessionId || `project-${request.context.projectId || 'default'}`;
+  return `user-${user.id}:${sessionId}`;
+}
+
+// Build the system prompt for an AI query from its agent and project context
+function buildAgentSystemPrompt(request: IAIQueryRequest): string {
+  const { files, activeFile } = request.context;
+  
+  let prompt = `You are an AI assistant specialized in ${request.agent} tasks.`;
+  if (files && files.length > 0) {
+    prompt += ` The user is working on a project with the following files: ${files.join(', ')}.`;
+  }
+  if (activeFile) {
+    prompt += ` They are currently focused on the file: ${activeFile}.`;
   }
+  
+  return `${prompt}\n\n${AGENT_SYSTEM_PROMPTS[request.agent]}`;
 }
@@ -1,20 +1,86 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import fs from "fs/promises";
+import path from "path";
+import { nanoid } from "nanoid";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, eq } from "drizzle-orm";
+import {
+  users, projects, projectFiles,
+  type User, type InsertUser,
+  type Project, type InsertProject, type ProjectFile,
+} from "@shared/schema";
+import { createDatabase, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Expired sessions are pruned once a day
+const SESSION_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getProjects(ownerId: number): Promise<Project[]>;
+  getProject(id: string): Promise<Project | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: string, project: Partial<Pick<InsertProject, "name">>): Promise<Project | undefined>;
+  deleteProject(id: string): Promise<boolean>;
+
+  getProjectFiles(projectId: string): Promise<ProjectFile[]>;
+  getProjectFile(projectId: string, filePath: string): Promise<ProjectFile | undefined>;
+  saveProjectFile(projectId: string, filePath: string, content: string): Promise<ProjectFile>;
+  deleteProjectFile(projectId: string, filePath: string): Promise<boolean>;
+}
+
+/**
+ * Raised when a project file path is empty or escapes the project
+ */
+export class InvalidFilePathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidFilePathError";
+  }
+}
+
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Normalize a project-relative file path ("/src//a.ts" -> "src/a.ts")
+ */
+export function normalizeProjectFilePath(filePath: string): string {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, "/")).replace(/^\/+|\/+$/g, "");
+
+  if (!normalized || normalized === "." || normalized === ".." || normalized.startsWith("../") || normalized.includes("\0")) {
+    throw new InvalidFilePathError(`Invalid file path: ${filePath}`);
+  }
+
+  return normalized;
+}
+
+function byPath(a: ProjectFile, b: ProjectFile): number {
+  return a.path.localeCompare(b.path);
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private projects: Map<string, Project>;
+  private files: Map<string, Map<string, ProjectFile>>;
   currentId: number;
+  sessionStore: session.Store;
 
   constructor() {
+    this.sessionStore = new MemoryStore({ checkPeriod: SESSION_PRUNE_INTERVAL_MS });
     this.users = new Map();
+    this.projects = new Map();
+    this.files = new Map();
     this.currentId = 1;
   }
 
@@ -34,6 +100,372 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getProjects(ownerId: number): Promise<Project[]> {
+    return Array.from(this.projects.values()).filter((project) => project.ownerId === ownerId);
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const now = new Date();
+    const project: Project = { ...insertProject, id: nanoid(), createdAt: now, updatedAt: now };
+    this.projects.set(project.id, project);
+    this.files.set(project.id, new Map());
+    return project;
+  }
+
+  async updateProject(id: string, updates: Partial<Pick<InsertProject, "name">>): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    if (!project) return undefined;
+
+    const updated: Project = { ...project, ...updates, updatedAt: new Date() };
+    this.projects.set(id, updated);
+    return updated;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    this.files.delete(id);
+    return this.projects.delete(id);
+  }
+
+  async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
+    return Array.from(this.files.get(projectId)?.values() ?? []).sort(byPath);
+  }
+
+  async getProjectFile(projectId: string, filePath: string): Promise<ProjectFile | undefined> {
+    return this.files.get(projectId)?.get(normalizeProjectFilePath(filePath));
+  }
+
+  async saveProjectFile(projectId: string, filePath: string, content: string): Promise<ProjectFile> {
+    const file: ProjectFile = {
+      projectId,
+      path: normalizeProjectFilePath(filePath),
+      content,
+      lastModified: new Date(),
+    };
+
+    if (!this.files.has(projectId)) {
+      this.files.set(projectId, new Map());
+    }
+    this.files.get(projectId)!.set(file.path, file);
+    await this.updateProject(projectId, {});
+    return file;
+  }
+
+  async deleteProjectFile(projectId: string, filePath: string): Promise<boolean> {
+    const deleted = this.files.get(projectId)?.delete(normalizeProjectFilePath(filePath)) ?? false;
+    if (deleted) {
+      await this.updateProject(projectId, {});
+    }
+    return deleted;
+  }
+}
+
+interface UsersFile {
+  currentId: number;
+  users: User[];
+}
+
+/**
+ * Stores users and projects as plain files under a data directory:
+ *
+ *   <root>/users.json
+ *   <root>/projects/<id>/project.json
+ *   <root>/projects/<id>/files/<path>
+ *
+ * Project files are kept as-is on disk so they can be inspected, edited
+ * or copied to another machine with ordinary tools.
+ */
+export class FileStorage implements IStorage {
+  private usersFile: Promise<UsersFile> | null = null;
+  sessionStore: session.Store;
+
+  constructor(private root: string) {
+    this.sessionStore = new MemoryStore({ checkPeriod: SESSION_PRUNE_INTERVAL_MS });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const { users } = await this.loadUsers();
+    return users.find((user) => user.id === id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const { users } = await this.loadUsers();
+    return users.find((user) => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const data = await this.loadUsers();
+    const user: User = { ...insertUser, id: data.currentId++ };
+    data.users.push(user);
+    await this.writeJson(path.join(this.root, "users.json"), data);
+    return user;
+  }
+
+  async getProjects(ownerId: number): Promise<Project[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(path.join(this.root, "projects"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const found = await Promise.all(ids.map((id) => this.getProject(id)));
+    return found.filter((project): project is Project => project !== undefined && project.ownerId === ownerId);
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    if (!PROJECT_ID_PATTERN.test(id)) return undefined;
+
+    const data = await this.readJson<Project>(path.join(this.projectDirectory(id), "project.json"));
+    if (!data) return undefined;
+
+    return { ...data, createdAt: new Date(data.createdAt), updatedAt: new Date(data.updatedAt) };
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const now = new Date();
+    const project: Project = { ...insertProject, id: nanoid(), createdAt: now, updatedAt: now };
+
+    await fs.mkdir(path.join(this.projectDirectory(project.id), "files"), { recursive: true });
+    await this.writeJson(path.join(this.projectDirectory(project.id), "project.json"), project);
+    return project;
+  }
+
+  async updateProject(id: string, updates: Partial<Pick<InsertProject, "name">>): Promise<Project | undefined> {
+    const project = await this.getProject(id);
+    if (!project) return undefined;
+
+    const updated: Project = { ...project, ...updates, updatedAt: new Date() };
+    await this.writeJson(path.join(this.projectDirectory(id), "project.json"), updated);
+    return updated;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    if (!(await this.getProject(id))) return false;
+
+    await fs.rm(this.projectDirectory(id), { recursive: true, force: true });
+    return true;
+  }
+
+  async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
+    if (!PROJECT_ID_PATTERN.test(projectId)) return [];
+
+    const filesRoot = path.join(this.projectDirectory(projectId), "files");
+    const paths = await this.listFiles(filesRoot, "");
+    const files = await Promise.all(paths.map((filePath) => this.getProjectFile(projectId, filePath)));
+    return files.filter((file): file is ProjectFile => file !== undefined).sort(byPath);
+  }
+
+  async getProjectFile(projectId: string, filePath: string): Promise<ProjectFile | undefined> {
+    if (!PROJECT_ID_PATTERN.test(projectId)) return undefined;
+
+    const normalized = normalizeProjectFilePath(filePath);
+    const location = this.fileLocation(projectId, normalized);
+    try {
+      const [content, stats] = await Promise.all([fs.readFile(location, "utf8"), fs.stat(location)]);
+      if (!stats.isFile()) return undefined;
+
+      return { projectId, path: normalized, content, lastModified: stats.mtime };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === "ENOENT" || code === "EISDIR" || code === "ENOTDIR") return undefined;
+      throw error;
+    }
+  }
+
+  async saveProjectFile(projectId: string, filePath: string, content: string): Promise<ProjectFile> {
+    if (!PROJECT_ID_PATTERN.test(projectId)) {
+      throw new Error(`Invalid project id: ${projectId}`);
+    }
+
+    const normalized = normalizeProjectFilePath(filePath);
+    const location = this.fileLocation(projectId, normalized);
+
+    await fs.mkdir(path.dirname(location), { recursive: true });
+    await fs.writeFile(location, content, "utf8");
+    await this.updateProject(projectId, {});
+
+    const stats = await fs.stat(location);
+    return { projectId, path: normalized, content, lastModified: stats.mtime };
+  }
+
+  async deleteProjectFile(projectId: string, filePath: string): Promise<boolean> {
+    if (!(await this.getProjectFile(projectId, filePath))) return false;
+
+    await fs.rm(this.fileLocation(projectId, normalizeProjectFilePath(filePath)));
+    await this.updateProject(projectId, {});
+    return true;
+  }
+
+  private projectDirectory(id: string): string {
+    return path.join(this.root, "projects", id);
+  }
+
+  private fileLocation(projectId: string, normalizedPath: string): string {
+    return path.join(this.projectDirectory(projectId), "files", ...normalizedPath.split("/"));
+  }
+
+  // Walk a directory and return file paths relative to the files root
+  private async listFiles(directory: string, prefix: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const nested = await Promise.all(entries.map((entry) => {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) return this.listFiles(path.join(directory, entry.name), relative);
+      return Promise.resolve(entry.isFile() ? [relative] : []);
+    }));
+    return nested.flat();
+  }
+
+  // Users are cached after the first read; every write rewrites the file
+  private loadUsers(): Promise<UsersFile> {
+    if (!this.usersFile) {
+      this.usersFile = this.readJson<UsersFile>(path.join(this.root, "users.json"))
+        .then((data) => data ?? { currentId: 1, users: [] });
+    }
+    return this.usersFile;
+  }
+
+  private async readJson<T>(location: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(location, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  // Write through a temporary file so a crash never leaves half a document
+  private async writeJson(location: string, data: unknown): Promise<void> {
+    const temporary = `${location}.${nanoid(6)}.tmp`;
+    await fs.mkdir(path.dirname(location), { recursive: true });
+    await fs.writeFile(temporary, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(temporary, location);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+      pruneSessionInterval: SESSION_PRUNE_INTERVAL_MS / 1000,
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getProjects(ownerId: number): Promise<Project[]> {
+    return this.db.select().from(projects).where(eq(projects.ownerId, ownerId));
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values({ ...insertProject, id: nanoid() }).returning();
+    return project;
+  }
+
+  async updateProject(id: string, updates: Partial<Pick<InsertProject, "name">>): Promise<Project | undefined> {
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(projects).where(eq(projects.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
+    return this.db
+      .select()
+      .from(projectFiles)
+      .where(eq(projectFiles.projectId, projectId))
+      .orderBy(asc(projectFiles.path));
+  }
+
+  async getProjectFile(projectId: string, filePath: string): Promise<ProjectFile | undefined> {
+    const [file] = await this.db
+      .select()
+      .from(projectFiles)
+      .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.path, normalizeProjectFilePath(filePath))));
+    return file;
+  }
+
+  async saveProjectFile(projectId: string, filePath: string, content: string): Promise<ProjectFile> {
+    const lastModified = new Date();
+    const [file] = await this.db
+      .insert(projectFiles)
+      .values({ projectId, path: normalizeProjectFilePath(filePath), content, lastModified })
+      .onConflictDoUpdate({
+        target: [projectFiles.projectId, projectFiles.path],
+        set: { content, lastModified },
+      })
+      .returning();
+    await this.updateProject(projectId, {});
+    return file;
+  }
+
+  async deleteProjectFile(projectId: string, filePath: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(projectFiles)
+      .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.path, normalizeProjectFilePath(filePath))))
+      .returning();
+    if (deleted.length > 0) {
+      await this.updateProject(projectId, {});
+    }
+    return deleted.length > 0;
+  }
+}
+
+/**
+ * Pick the storage backend: Postgres when DATABASE_URL is set, otherwise
+ * files under DATA_DIR (default ./data). STORAGE=memory keeps everything
+ * in memory, which is handy for throwaway runs.
+ */
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DatabaseStorage(createDatabase(process.env.DATABASE_URL));
+  }
+
+  if (process.env.STORAGE === "memory") {
+    return new MemStorage();
+  }
+
+  return new FileStorage(path.resolve(process.env.DATA_DIR || "data"));
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
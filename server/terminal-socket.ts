@@ -0,0 +1,203 @@
+import * as pty from "node-pty";
+import { WebSocket } from "ws";
+import { z } from "zod";
+import type {
+  ITerminalExitPayload,
+  ITerminalOutputPayload,
+  TerminalMessageType,
+} from "@shared/api-types";
+import { commandRunner } from "./command-runner";
+
+const MAX_TERMINALS_PER_CONNECTION = 8;
+
+const sizeSchema = {
+  cols: z.number().int().min(2).max(1000),
+  rows: z.number().int().min(1).max(500),
+};
+
+const openSchema = z.object({
+  id: z.string().min(1),
+  projectId: z.string().optional(),
+  ...sizeSchema,
+});
+
+const inputSchema = z.object({
+  id: z.string().min(1),
+  data: z.string(),
+});
+
+const resizeSchema = z.object({
+  id: z.string().min(1),
+  ...sizeSchema,
+});
+
+const closeSchema = z.object({
+  id: z.string().min(1),
+});
+
+/**
+ * Interactive shells attached to one WebSocket connection. Each terminal
+ * tab on the client owns one pseudo-terminal, which lives until the tab
+ * closes it or the connection goes away.
+ */
+export class TerminalSession {
+  // Undefined while a shell is still being started, so its id and its
+  // place under the limit stay taken
+  private terminals: Map<string, pty.IPty | undefined> = new Map();
+  private disposed = false;
+
+  /**
+   * @param ws - Connection the session talks over
+   * @param resolveWorkspace - Checked before a shell is started; resolves
+   *   the workspace the shell runs in for the requested project, or
+   *   undefined when the connection's user may not run one there
+   */
+  constructor(
+    private ws: WebSocket,
+    private resolveWorkspace: (projectId?: string) => Promise<string | undefined>,
+  ) {}
+
+  /**
+   * Whether a message type belongs to the terminal protocol
+   */
+  handles(type: unknown): type is TerminalMessageType {
+    return typeof type === "string" && type.startsWith("terminal:");
+  }
+
+  /**
+   * Handle an incoming terminal message
+   */
+  async handle(type: TerminalMessageType, payload: unknown): Promise<void> {
+    switch (type) {
+      case "terminal:open": {
+        const parsed = openSchema.safeParse(payload);
+        if (!parsed.success) {
+          this.send("terminal:exit", {
+            id: (payload as { id?: string })?.id ?? "",
+            exitCode: 1,
+            error: "Invalid terminal:open payload",
+          });
+          return;
+        }
+        await this.open(parsed.data);
+        break;
+      }
+      case "terminal:input": {
+        const parsed = inputSchema.safeParse(payload);
+        if (parsed.success) {
+          this.terminals.get(parsed.data.id)?.write(parsed.data.data);
+        }
+        break;
+      }
+      case "terminal:resize": {
+        const parsed = resizeSchema.safeParse(payload);
+        if (parsed.success) {
+          this.terminals.get(parsed.data.id)?.resize(parsed.data.cols, parsed.data.rows);
+        }
+        break;
+      }
+      case "terminal:close": {
+        const parsed = closeSchema.safeParse(payload);
+        if (parsed.success) {
+          this.close(parsed.data.id);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Kill every shell started by this connection
+   */
+  dispose(): void {
+    this.disposed = true;
+    for (const id of Array.from(this.terminals.keys())) {
+      this.close(id);
+    }
+  }
+
+  private async open(request: z.infer<typeof openSchema>): Promise<void> {
+    const { id } = request;
+
+    if (this.terminals.has(id)) {
+      this.send("terminal:exit", { id, exitCode: 1, error: `Terminal ${id} is already open` });
+      return;
+    }
+
+    if (this.terminals.size >= MAX_TERMINALS_PER_CONNECTION) {
+      this.send("terminal:exit", {
+        id,
+        exitCode: 1,
+        error: `No more than ${MAX_TERMINALS_PER_CONNECTION} terminals can be open at once`,
+      });
+      return;
+    }
+    this.terminals.set(id, undefined);
+
+    let shell: pty.IPty;
+    try {
+      const workspaceId = await this.resolveWorkspace(request.projectId);
+      if (!workspaceId) {
+        this.terminals.delete(id);
+        this.send("terminal:exit", { id, exitCode: 1, error: "Not signed in, or the project was not found" });
+        return;
+      }
+
+      const cwd = await commandRunner.getProjectDirectory(workspaceId);
+      const { file, args } = await commandRunner.wrap(
+        [process.env.TERMINAL_SHELL || process.env.SHELL || "bash"],
+        cwd,
+        cwd,
+        { interactive: true },
+      );
+      shell = pty.spawn(file, args, {
+        name: "xterm-256color",
+        cols: request.cols,
+        rows: request.rows,
+        cwd,
+        env: commandRunner.buildEnvironment(cwd) as Record<string, string>,
+      });
+    } catch (error) {
+      this.terminals.delete(id);
+      this.send("terminal:exit", { id, exitCode: 1, error: (error as Error).message });
+      return;
+    }
+
+    // The tab was closed, or the connection went away, while the shell started
+    if (this.disposed || !this.terminals.has(id)) {
+      shell.kill();
+      return;
+    }
+    this.terminals.set(id, shell);
+
+    shell.onData((data) => {
+      this.send("terminal:output", { id, data });
+    });
+
+    shell.onExit(({ exitCode }) => {
+      // Only report shells that ended on their own, not ones we closed
+      if (this.terminals.get(id) === shell) {
+        this.terminals.delete(id);
+        this.send("terminal:exit", { id, exitCode });
+      }
+    });
+  }
+
+  private close(id: string): void {
+    if (!this.terminals.has(id)) return;
+
+    const shell = this.terminals.get(id);
+    this.terminals.delete(id);
+    try {
+      shell?.kill();
+    } catch {
+      // Shell already exited
+    }
+  }
+
+  private send(type: TerminalMessageType, payload: ITerminalOutputPayload | ITerminalExitPayload): void {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+
+    this.ws.send(JSON.stringify({ type, payload, timestamp: Date.now() }));
+  }
+}
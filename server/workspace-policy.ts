@@ -0,0 +1,53 @@
+import { parseGovernancePolicy, type GovernancePolicy } from "../core";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+// Project files a workspace governance policy is read from, first found wins
+export const WORKSPACE_POLICY_FILES = [
+  ".maik/governance.yaml",
+  ".maik/governance.yml",
+  ".maik/governance.json",
+];
+
+interface CachedPolicy {
+  path: string;
+  content: string;
+  policy: GovernancePolicy;
+}
+
+/**
+ * Reads the governance policy a project keeps among its own files, so each
+ * workspace can add rules to the server-wide policy. Parsed policies are
+ * reused until the file changes.
+ */
+export class WorkspacePolicyLoader {
+  private cache = new Map<string, CachedPolicy>();
+
+  constructor(private storage: IStorage = defaultStorage) {}
+
+  /**
+   * Policy of a project
+   * @param projectId - Project whose files hold the policy
+   * @returns Parsed policy, or undefined if the project has none
+   * @throws AIGovernanceError if the policy file is not a valid policy
+   */
+  async getPolicy(projectId: string): Promise<GovernancePolicy | undefined> {
+    for (const filePath of WORKSPACE_POLICY_FILES) {
+      const file = await this.storage.getProjectFile(projectId, filePath);
+      if (!file) continue;
+
+      const cached = this.cache.get(projectId);
+      if (cached && cached.path === file.path && cached.content === file.content) {
+        return cached.policy;
+      }
+
+      const policy = parseGovernancePolicy(file.content, file.path);
+      this.cache.set(projectId, { path: file.path, content: file.content, policy });
+      return policy;
+    }
+
+    this.cache.delete(projectId);
+    return undefined;
+  }
+}
+
+export const workspacePolicyLoader = new WorkspacePolicyLoader();
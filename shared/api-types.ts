@@ -17,6 +17,22 @@ export interface IProject {
   updatedAt: string;
 }
 
+// Project listings omit file contents
+export type IProjectSummary = Omit<IProject, 'files'>;
+
+export interface ICreateProjectRequest {
+  name: string;
+  files?: Array<Pick<IProjectFile, 'path' | 'content'>>;
+}
+
+export interface IUpdateProjectRequest {
+  name: string;
+}
+
+export interface ISaveProjectFileRequest {
+  content: string;
+}
+
 // Backup operations
 export interface IBackupRequest {
   projectId: string;
@@ -30,8 +46,9 @@ export interface IBackupMetadata {
   timestamp: string;
   files: string[];
   size: number;
-  checksum: string;
+  checksum: string; // SHA-256 of the stored archive
   target: 'local' | 'github' | 'onedrive';
+  encrypted?: boolean;
 }
 
 export interface IBackupResponse {
@@ -43,20 +60,34 @@ export interface IRestoreBackupRequest {
   backupId: string;
 }
 
+export interface IRestoreBackupResponse {
+  restored: boolean;
+  backupId: string;
+  projectId: string;
+  files: string[];
+}
+
 // Cloud sync operations
 export interface ISyncRequest {
   projectId: string;
   targets: Array<'github' | 'onedrive'>;
+  files?: Array<Pick<IProjectFile, 'path' | 'content'>>; // Defaults to the project's stored files
+  resolve?: 'ours' | 'theirs'; // How to settle conflicting changes
+}
+
+export interface ISyncTargetResult {
+  name: 'github' | 'onedrive';
+  status: 'success' | 'error' | 'conflict';
+  message?: string;
+  timestamp: string;
+  commit?: string;
+  pulled?: Array<{ path: string; content: string | null }>; // null content: deleted remotely
+  conflicts?: string[];
 }
 
 export interface ISyncResponse {
   success: boolean;
-  targets: Array<{
-    name: 'github' | 'onedrive';
-    status: 'success' | 'error';
-    message?: string;
-    timestamp: string;
-  }>;
+  targets: ISyncTargetResult[];
 }
 
 // Cloud service configuration
@@ -75,6 +106,7 @@ export interface IAIQueryRequest {
   agent: AIAgent;
   model?: AIModel;
   query: string;
+  sessionId?: string; // Conversation memory is kept per session
   context: {
     projectId?: string;
     files?: string[];
@@ -87,18 +119,259 @@ export interface IAIQueryResponse {
   agent: AIAgent;
   model: AIModel;
   timestamp: string;
+  context?: IPromptContextBreakdown;
+}
+
+// Token usage of one part of the prompt context
+export interface IPromptSectionUsage {
+  included: number;
+  dropped: number; // Left out to fit the token budget
+  tokens: number;
+}
+
+// What went into the prompt and what was cut to fit the model
+export interface IPromptContextBreakdown {
+  model?: string;
+  tokenizer: string;
+  maxTokens: number;
+  totalTokens: number;
+  baseTokens: number; // System prompt and query
+  history: IPromptSectionUsage; // Cut oldest first
+  memories: IPromptSectionUsage; // Cut least relevant first
+  summary: IPromptSectionUsage; // Cut last
+  truncated: boolean;
+}
+
+// Server-sent events from /api/ai/query/stream
+export type AIStreamEventType = 'context' | 'delta' | 'done' | 'error';
+
+// 'context' is sent once, before the first delta
+export type IAIStreamContextPayload = IPromptContextBreakdown;
+
+export interface IAIStreamDeltaPayload {
+  text: string;
+}
+
+// 'done' carries the complete response
+export type IAIStreamDonePayload = IAIQueryResponse;
+
+export interface IAIStreamErrorPayload {
+  message: string;
+}
+
+// Token usage and cost accounting
+export interface IUsageTotals {
+  requests: number; // Model calls
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface IUsageBudget {
+  month: string; // YYYY-MM, UTC
+  limitUsd?: number; // Unset when unlimited
+  spentUsd: number;
+  remainingUsd?: number;
+  exceeded: boolean;
+}
+
+// The signed-in user's usage for a month, from /api/usage
+export interface IUsageResponse {
+  month: string;
+  usage: IUsageTotals & {
+    byModel: Record<string, IUsageTotals>;
+    bySession: Record<string, IUsageTotals>;
+  };
+  budget: IUsageBudget;
+}
+
+// AI governance history
+export type BiasReportStatus = 'reported' | 'investigating' | 'resolved' | 'rejected';
+
+export interface IGovernanceDecision {
+  id: string;
+  timestamp: string;
+  modelId: string;
+  modelName: string;
+  modelVersion: string;
+  requestId: string;
+  userId: string;
+  input: Record<string, unknown>;
+  output: Record<string, unknown>;
+  explanation?: Record<string, unknown>;
+  category?: string;
+}
+
+export interface IBiasReport {
+  id: string;
+  timestamp: string;
+  modelId: string;
+  decisionId: string;
+  userId: string;
+  type: string;
+  description: string;
+  evidence?: string;
+  status: BiasReportStatus;
+  resolution: string | null;
+  updatedAt?: string;
+}
+
+export interface ICreateBiasReportRequest {
+  modelId: string;
+  decisionId: string;
+  type: string;
+  description: string;
+  evidence?: string;
+}
+
+export interface IUpdateBiasReportRequest {
+  status: BiasReportStatus;
+  resolution: string;
+}
+
+export interface IAuditLogEntry {
+  type: 'decision' | 'bias_report' | 'bias_report_update';
+  timestamp: string;
+  sequence?: number; // Position in the hash chain
+  hash?: string;
+  [key: string]: unknown;
+}
+
+export interface IAuditVerification {
+  valid: boolean;
+  records: number;
+  brokenAt?: number; // First record that does not match the chain
+  reason?: string;
 }
 
 // WebContainer execution
 export interface ICommandExecutionRequest {
   command: string;
-  workingDirectory?: string;
+  workingDirectory?: string; // Relative to the project workspace
+  projectId?: string;
+  timeout?: number; // Milliseconds
 }
 
 export interface ICommandExecutionResponse {
   stdout: string;
   stderr: string;
   exitCode: number;
+  timedOut?: boolean;
+  truncated?: boolean; // Output hit the size limit and the process was stopped
+}
+
+// Streaming command execution over the /ws WebSocket
+// Client -> server: exec:start, exec:cancel
+// Server -> client: exec:stdout, exec:stderr, exec:exit
+export type ExecMessageType = 'exec:start' | 'exec:stdout' | 'exec:stderr' | 'exec:exit' | 'exec:cancel';
+
+export interface IExecStartPayload extends ICommandExecutionRequest {
+  id: string; // Chosen by the client, used to correlate output and cancel
+}
+
+export interface IExecOutputPayload {
+  id: string;
+  line: string;
+}
+
+export interface IExecExitPayload {
+  id: string;
+  exitCode: number;
+  signal?: string | null;
+  timedOut?: boolean;
+  error?: string; // Set when the command could not be started
+}
+
+export interface IExecCancelPayload {
+  id: string;
+}
+
+// Interactive terminal sessions over the /ws WebSocket
+// Client -> server: terminal:open, terminal:input, terminal:resize, terminal:close
+// Server -> client: terminal:output, terminal:exit
+export type TerminalMessageType =
+  | 'terminal:open'
+  | 'terminal:input'
+  | 'terminal:resize'
+  | 'terminal:close'
+  | 'terminal:output'
+  | 'terminal:exit';
+
+export interface ITerminalOpenPayload {
+  id: string; // Chosen by the client, one per terminal tab
+  projectId?: string;
+  cols: number;
+  rows: number;
+}
+
+export interface ITerminalInputPayload {
+  id: string;
+  data: string;
+}
+
+export interface ITerminalResizePayload {
+  id: string;
+  cols: number;
+  rows: number;
+}
+
+export interface ITerminalOutputPayload {
+  id: string;
+  data: string;
+}
+
+export interface ITerminalExitPayload {
+  id: string;
+  exitCode: number;
+  error?: string; // Set when the shell could not be started
+}
+
+// Collaborative editing over the /ws WebSocket. Each project file open for
+// editing is a room holding a Yjs document that merges everyone's edits,
+// with the file's text in its Y.Text named "content"; updates are Yjs
+// binary updates, base64-encoded
+// Client -> server: collab:join, collab:leave, edit
+// Server -> client: collab:sync, edit, user_joined, user_left, error
+export type CollabMessageType =
+  | 'collab:join'
+  | 'collab:leave'
+  | 'collab:sync'
+  | 'edit'
+  | 'user_joined'
+  | 'user_left'
+  | 'error';
+
+export interface ICollabRoom {
+  projectId: string;
+  path: string;
+}
+
+export interface ICollabUser {
+  id: string; // One per connection, so two tabs of one user are two users
+  username: string;
+}
+
+export interface ICollabJoinPayload extends ICollabRoom {
+  update: string; // Everything the client's copy of the document holds; empty on first join
+  content: string; // Text a new room starts from when the client has no copy yet
+}
+
+export interface ICollabSyncPayload extends ICollabRoom {
+  update: string; // What the client's copy is missing
+  users: ICollabUser[]; // Everyone else in the room
+}
+
+export interface ICollabEditPayload extends ICollabRoom {
+  update: string;
+}
+
+export interface ICollabPresencePayload extends ICollabRoom {
+  user: ICollabUser;
+}
+
+export interface ICollabErrorPayload extends ICollabRoom {
+  message: string;
 }
 
 // Error responses
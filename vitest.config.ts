@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    // Server modules share one storage; keep it out of ./data
+    env: { STORAGE: "memory" },
+    include: ["core/**/*.test.ts", "server/**/*.test.ts"],
+  },
+});